@@ -90,6 +90,7 @@ export const AIAnalytics = () => {
       const { data, error } = await supabase
         .from('projects')
         .select('id, name')
+        .eq('is_template', false)
         .order('name');
       
       if (error) throw error;
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { validateUrl } from "@/lib/security";
+import {
+  AIProviderId,
+  AIProviderConfig,
+  AI_PROVIDERS,
+  AI_PROVIDER_DEFAULT_MODELS,
+  loadProviderConfig,
+  saveProviderConfig,
+  isProviderConfigured,
+  loadProjectAIProvider,
+  saveProjectAIProvider
+} from "@/lib/aiProvider";
+import { Bot } from "lucide-react";
+
+interface AIProviderSettingsProps {
+  projectId: string;
+}
+
+export const AIProviderSettings = ({ projectId }: AIProviderSettingsProps) => {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<AIProviderId | null>(null);
+  const [config, setConfig] = useState<AIProviderConfig | null>(null);
+  const [isConfigured, setIsConfigured] = useState(false);
+
+  useEffect(() => {
+    loadProjectAIProvider(projectId)
+      .then(selectProvider)
+      .catch(error => console.error('Error loading AI provider:', error));
+  }, [projectId]);
+
+  const selectProvider = (next: AIProviderId) => {
+    const saved = loadProviderConfig(next);
+    setProvider(next);
+    setConfig(saved);
+    setIsConfigured(isProviderConfigured(saved));
+  };
+
+  const handleProviderChange = async (next: AIProviderId) => {
+    const previous = provider;
+    selectProvider(next);
+    try {
+      await saveProjectAIProvider(projectId, next);
+      toast({
+        title: "AI Provider Changed",
+        description: `This project now generates with ${AI_PROVIDERS[next].label}`,
+      });
+    } catch (error) {
+      console.error('Error saving AI provider:', error);
+      if (previous) selectProvider(previous);
+      toast({
+        title: "Error",
+        description: "Failed to change the project's AI provider",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateConfig = (changes: Partial<AIProviderConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = () => {
+    if (!config) return;
+
+    if (!isProviderConfigured(config)) {
+      toast({
+        title: "Error",
+        description: "Please fill in the required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (config.endpoint) {
+      const urlValidation = validateUrl(config.endpoint);
+      if (!urlValidation.isValid) {
+        toast({
+          title: "Error",
+          description: urlValidation.error,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    saveProviderConfig(config);
+    setIsConfigured(true);
+    toast({
+      title: "AI Provider Saved",
+      description: `${AI_PROVIDERS[config.provider].label} settings have been saved in this browser`,
+    });
+  };
+
+  if (!provider || !config) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-gradient-hero">
+              <Bot className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">AI Provider</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Used by this project for test case, test plan and test report generation
+              </p>
+            </div>
+          </div>
+          <Badge variant={isConfigured ? "secondary" : "outline"}>
+            {isConfigured ? 'Configured' : 'Not configured'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Provider</Label>
+          <Select value={provider} onValueChange={(value) => handleProviderChange(value as AIProviderId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+                <SelectItem key={id} value={id}>{AI_PROVIDERS[id].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {AI_PROVIDERS[provider].description}. The choice applies to everyone on the project; credentials are kept in this browser.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {(provider === 'azure-openai' || provider === 'openai-compatible') && (
+            <Input
+              placeholder={provider === 'azure-openai'
+                ? "Azure OpenAI Endpoint (e.g., https://your-resource.openai.azure.com)"
+                : "Public server URL (e.g., https://llm.example.com/v1)"}
+              value={config.endpoint || ''}
+              onChange={(e) => updateConfig({ endpoint: e.target.value })}
+            />
+          )}
+          <Input
+            type="password"
+            placeholder={provider === 'openai-compatible' ? "API key (optional)" : "API key"}
+            value={config.apiKey || ''}
+            onChange={(e) => updateConfig({ apiKey: e.target.value })}
+          />
+          {provider === 'azure-openai' ? (
+            <>
+              <Input
+                placeholder="Deployment ID (e.g., gpt-4o)"
+                value={config.deploymentId || ''}
+                onChange={(e) => updateConfig({ deploymentId: e.target.value })}
+              />
+              <Input
+                placeholder="API Version (default: 2024-02-15-preview)"
+                value={config.apiVersion || ''}
+                onChange={(e) => updateConfig({ apiVersion: e.target.value })}
+              />
+            </>
+          ) : (
+            <Input
+              placeholder={AI_PROVIDER_DEFAULT_MODELS[provider]
+                ? `Model (default: ${AI_PROVIDER_DEFAULT_MODELS[provider]})`
+                : "Model (e.g., llama3.1)"}
+              value={config.model || ''}
+              onChange={(e) => updateConfig({ model: e.target.value })}
+            />
+          )}
+        </div>
+
+        <Button onClick={handleSave}>Save Provider Settings</Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,287 @@
+import { useState, useEffect, Fragment } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useRoles } from "@/hooks/useRoles";
+import {
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditOperation,
+  AUDITED_TABLES,
+  AUDIT_OPERATION_LABELS,
+  emptyAuditLogFilters,
+  loadAuditLog,
+  exportAuditLog,
+  describeAuditRecord,
+  getAuditChanges
+} from "@/lib/auditLog";
+import { ScrollText, Download, ChevronDown, ChevronRight, ChevronLeft, Search } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const getOperationColor = (operation: AuditOperation) => {
+  switch (operation) {
+    case 'INSERT': return 'bg-success text-success-foreground';
+    case 'DELETE': return 'bg-destructive text-destructive-foreground';
+    default: return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+export const AuditLog = () => {
+  const { toast } = useToast();
+  const { isAdmin } = useRoles();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<AuditLogFilters>(emptyAuditLogFilters());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const { entries: loaded, total: count } = await loadAuditLog(filters, page, PAGE_SIZE);
+      setEntries(loaded);
+      setTotal(count);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadData();
+    }
+  }, [isAdmin, filters, page]);
+
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const handleExport = async (format: 'xlsx' | 'csv') => {
+    setIsExporting(true);
+    try {
+      const count = await exportAuditLog(filters, format);
+      toast({
+        title: "Export Complete",
+        description: `${count} audit log entries exported`,
+      });
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Access Denied</CardTitle>
+          <CardDescription>
+            You need admin privileges to view the audit log.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Audit Log</h2>
+          <p className="text-muted-foreground">
+            Every change to projects, user stories, test cases, members and roles {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Excel
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-3">
+            <Select value={filters.tableName} onValueChange={(tableName) => updateFilters({ tableName })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Tables</SelectItem>
+                {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                  <SelectItem key={table} value={table}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.operation} onValueChange={(operation) => updateFilters({ operation })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Operations</SelectItem>
+                {(Object.keys(AUDIT_OPERATION_LABELS) as AuditOperation[]).map(operation => (
+                  <SelectItem key={operation} value={operation}>{AUDIT_OPERATION_LABELS[operation]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Actor email..."
+                value={filters.actor}
+                onChange={(e) => updateFilters({ actor: e.target.value })}
+                className="pl-10"
+              />
+            </div>
+            <Input
+              placeholder="Record or project ID"
+              value={filters.recordId}
+              onChange={(e) => updateFilters({ recordId: e.target.value })}
+            />
+            <Input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilters({ from: e.target.value || null })}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilters({ to: e.target.value || null })}
+              aria-label="To date"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isLoading && entries.length === 0 ? (
+        <Card className="shadow-card">
+          <CardContent className="text-center py-12">
+            <ScrollText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">No Audit Entries</h3>
+            <p className="text-muted-foreground">No changes match the current filters.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="shadow-card">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {expandedId === entry.id
+                          ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                          : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{AUDITED_TABLES[entry.tableName] || entry.tableName}</TableCell>
+                      <TableCell>
+                        <Badge className={getOperationColor(entry.operation)}>{AUDIT_OPERATION_LABELS[entry.operation]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-64">
+                        <div className="truncate text-sm" title={entry.recordId || ''}>{describeAuditRecord(entry)}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{entry.actorEmail || entry.actorId || 'system'}</TableCell>
+                      <TableCell className="max-w-64">
+                        <div className="truncate text-xs text-muted-foreground">{entry.changedFields.join(', ')}</div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          {entry.operation === 'UPDATE' ? (
+                            <table className="text-xs w-full">
+                              <thead>
+                                <tr className="text-left text-muted-foreground">
+                                  <th className="py-1 pr-4 font-medium">Field</th>
+                                  <th className="py-1 pr-4 font-medium">Old Value</th>
+                                  <th className="py-1 font-medium">New Value</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {getAuditChanges(entry).map(change => (
+                                  <tr key={change.field} className="border-t align-top">
+                                    <td className="py-1 pr-4 font-mono">{change.field}</td>
+                                    <td className="py-1 pr-4 text-destructive whitespace-pre-wrap break-all">{change.oldValue}</td>
+                                    <td className="py-1 text-success whitespace-pre-wrap break-all">{change.newValue}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          ) : (
+                            <pre className="text-xs bg-muted/50 rounded p-3 max-h-72 overflow-auto whitespace-pre-wrap break-all">
+                              {JSON.stringify(entry.newData || entry.oldData, null, 2)}
+                            </pre>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Page {page + 1} of {pageCount} ({total} entries)
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
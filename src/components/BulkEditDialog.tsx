@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TagInput } from "@/components/TagInput";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ProjectMember } from "@/lib/customFields";
+import { TestSuite, loadTestSuites, getSuitePath } from "@/lib/testSuites";
+import {
+  BulkTestCaseChanges,
+  BulkUpdateSummary,
+  bulkUpdateTestCases,
+  describeBulkSummary,
+  hasBulkChanges
+} from "@/lib/bulkEdit";
+
+interface BulkEditDialogProps {
+  projectId: string;
+  ids: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: ProjectMember[];
+  tagSuggestions: string[];
+  onApplied: (summary: BulkUpdateSummary) => void;
+}
+
+// Select value for fields left as they are
+const UNCHANGED = 'unchanged';
+const UNASSIGNED = 'unassigned';
+
+export const BulkEditDialog = ({
+  projectId,
+  ids,
+  open,
+  onOpenChange,
+  members,
+  tagSuggestions,
+  onApplied
+}: BulkEditDialogProps) => {
+  const { toast } = useToast();
+  const [priority, setPriority] = useState(UNCHANGED);
+  const [status, setStatus] = useState(UNCHANGED);
+  const [assignee, setAssignee] = useState(UNCHANGED);
+  const [addTags, setAddTags] = useState<string[]>([]);
+  const [removeTags, setRemoveTags] = useState<string[]>([]);
+  const [userStoryId, setUserStoryId] = useState(UNCHANGED);
+  const [suiteId, setSuiteId] = useState(UNCHANGED);
+  const [stories, setStories] = useState<{ id: string; title: string; readableId: string | null }[]>([]);
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setPriority(UNCHANGED);
+    setStatus(UNCHANGED);
+    setAssignee(UNCHANGED);
+    setAddTags([]);
+    setRemoveTags([]);
+    setUserStoryId(UNCHANGED);
+    setSuiteId(UNCHANGED);
+
+    const loadTargets = async () => {
+      try {
+        const [{ data: storyRows, error }, projectSuites] = await Promise.all([
+          supabase
+            .from('user_stories')
+            .select('id, title, readable_id')
+            .eq('project_id', projectId)
+            .is('deleted_at', null)
+            .order('created_at', { ascending: true }),
+          loadTestSuites(projectId)
+        ]);
+
+        if (error) throw error;
+
+        setStories((storyRows || []).map(story => ({ id: story.id, title: story.title, readableId: story.readable_id })));
+        setSuites(projectSuites);
+      } catch (error) {
+        console.error('Error loading stories and suites:', error);
+      }
+    };
+    loadTargets();
+  }, [open, projectId]);
+
+  const buildChanges = (): BulkTestCaseChanges => ({
+    priority: priority !== UNCHANGED ? priority as BulkTestCaseChanges['priority'] : undefined,
+    status: status !== UNCHANGED ? status as BulkTestCaseChanges['status'] : undefined,
+    assignedTo: assignee === UNCHANGED ? undefined : assignee === UNASSIGNED ? null : assignee,
+    addTags,
+    removeTags,
+    userStoryId: userStoryId !== UNCHANGED ? userStoryId : undefined,
+    suiteId: suiteId !== UNCHANGED ? suiteId : undefined
+  });
+
+  const handleApply = async () => {
+    const changes = buildChanges();
+    if (!hasBulkChanges(changes)) {
+      toast({
+        title: "Error",
+        description: "Please choose at least one change to apply",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const summary = await bulkUpdateTestCases(projectId, ids, changes);
+      onApplied(summary);
+      onOpenChange(false);
+      toast({
+        title: "Test Cases Updated",
+        description: describeBulkSummary(summary),
+      });
+    } catch (error) {
+      console.error('Error bulk updating test cases:', error);
+      toast({
+        title: "Update Failed",
+        description: "No test cases were changed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Bulk Edit Test Cases</DialogTitle>
+          <DialogDescription>
+            Apply changes to {ids.length} selected test cases. Fields left unchanged are kept, and nothing is changed if any part fails.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select value={priority} onValueChange={setPriority}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No change</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No change</SelectItem>
+                <SelectItem value="not-run">Not Run</SelectItem>
+                <SelectItem value="passed">Passed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="blocked">Blocked</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label>Assignee</Label>
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No change</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="bulk-edit-add-tags">Add Tags</Label>
+            <TagInput id="bulk-edit-add-tags" tags={addTags} onChange={setAddTags} suggestions={tagSuggestions} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="bulk-edit-remove-tags">Remove Tags</Label>
+            <TagInput id="bulk-edit-remove-tags" tags={removeTags} onChange={setRemoveTags} suggestions={tagSuggestions} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label>Move to Story</Label>
+            <Select value={userStoryId} onValueChange={setUserStoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No change</SelectItem>
+                {stories.map(story => (
+                  <SelectItem key={story.id} value={story.id}>
+                    {story.readableId ? `${story.readableId} ${story.title}` : story.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label>Move to Suite</Label>
+            <Select value={suiteId} onValueChange={setSuiteId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No change</SelectItem>
+                {suites.map(suite => (
+                  <SelectItem key={suite.id} value={suite.id}>{getSuitePath(suites, suite.id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {suiteId !== UNCHANGED && (
+              <p className="text-xs text-muted-foreground">The test cases are removed from the project's other suites</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving}>
+            {isSaving ? 'Applying...' : 'Apply'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
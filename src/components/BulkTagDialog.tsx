@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TagInput } from "@/components/TagInput";
+import { useToast } from "@/hooks/use-toast";
+import { TaggableEntityType, updateItemTags } from "@/lib/tags";
+
+interface BulkTagDialogProps {
+  entityType: TaggableEntityType;
+  ids: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suggestions: string[];
+  onApplied: (change: { add: string[]; remove: string[] }) => void;
+}
+
+export const BulkTagDialog = ({ entityType, ids, open, onOpenChange, suggestions, onApplied }: BulkTagDialogProps) => {
+  const { toast } = useToast();
+  const [addTags, setAddTags] = useState<string[]>([]);
+  const [removeTags, setRemoveTags] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const itemLabel = entityType === 'test_case' ? 'test cases' : 'user stories';
+
+  useEffect(() => {
+    if (open) {
+      setAddTags([]);
+      setRemoveTags([]);
+    }
+  }, [open]);
+
+  const handleApply = async () => {
+    if (addTags.length === 0 && removeTags.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please enter tags to add or remove",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await updateItemTags(entityType, ids, { add: addTags, remove: removeTags });
+      onApplied({ add: addTags, remove: removeTags });
+      onOpenChange(false);
+      toast({
+        title: "Tags Updated",
+        description: `Updated tags on ${updated} ${itemLabel}`,
+      });
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update tags",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Edit Tags</DialogTitle>
+          <DialogDescription>
+            Add or remove tags on {ids.length} selected {itemLabel}. Other tags are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-add-tags">Add Tags</Label>
+            <TagInput id="bulk-add-tags" tags={addTags} onChange={setAddTags} suggestions={suggestions} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-remove-tags">Remove Tags</Label>
+            <TagInput id="bulk-remove-tags" tags={removeTags} onChange={setRemoveTags} suggestions={suggestions} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving}>
+            {isSaving ? 'Updating...' : 'Apply'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { validateText, sanitizeText } from "@/lib/security";
+import { suggestProjectKey, validateReadableIdKey, formatReadableIdExample, isDuplicateKeyError } from "@/lib/projectKeys";
+import { cloneProject } from "@/lib/projectTemplates";
+
+interface CloneProjectDialogProps {
+  source: { id: string; name: string; description: string } | null;
+  // Save the copy as a template instead of a working project
+  asTemplate: boolean;
+  onClose: () => void;
+  onCloned: () => void;
+}
+
+export const CloneProjectDialog = ({ source, asTemplate, onClose, onCloned }: CloneProjectDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [key, setKey] = useState("");
+  const [description, setDescription] = useState("");
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isKeyEdited, setIsKeyEdited] = useState(false);
+  const [isCloning, setIsCloning] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+    const initialName = asTemplate ? `${source.name} Template` : `${source.name} (Copy)`;
+    setName(initialName);
+    setKey(suggestProjectKey(initialName));
+    setDescription(source.description);
+    setIncludeHistory(false);
+    setIsKeyEdited(false);
+  }, [source, asTemplate]);
+
+  const handleClone = async () => {
+    if (!source) return;
+
+    const nameValidation = validateText(name, asTemplate ? "Template name" : "Project name", 1, 255);
+    if (!nameValidation.isValid) {
+      toast({
+        title: "Error",
+        description: nameValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const keyValidation = validateReadableIdKey(key);
+    if (!keyValidation.isValid) {
+      toast({
+        title: "Error",
+        description: keyValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const descriptionValidation = validateText(description, "Description", 0, 2000, false);
+    if (!descriptionValidation.isValid) {
+      toast({
+        title: "Error",
+        description: descriptionValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCloning(true);
+    try {
+      await cloneProject(source.id, {
+        name: sanitizeText(name),
+        key,
+        description: sanitizeText(description),
+        includeHistory: !asTemplate && includeHistory,
+        asTemplate
+      });
+      toast({
+        title: "Success",
+        description: asTemplate
+          ? `Saved "${source.name}" as a template`
+          : `Cloned "${source.name}" into a new project`,
+      });
+      onCloned();
+    } catch (error) {
+      console.error('Error cloning project:', error);
+      toast({
+        title: "Error",
+        description: isDuplicateKeyError(error)
+          ? `The key ${key} is already used by another project`
+          : asTemplate ? "Failed to save the project as a template" : "Failed to clone project",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{asTemplate ? 'Save as Template' : 'Clone Project'}</DialogTitle>
+          <DialogDescription>
+            {asTemplate
+              ? 'New projects can start from this template. It keeps the settings, custom fields, configurations, shared steps, stories, test cases and suites of the project.'
+              : 'Copies the settings, custom fields, configurations, shared steps, stories, test cases and suites into a new project. Releases, members and defects are not copied.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="clone-name">{asTemplate ? 'Template Name' : 'Project Name'}</Label>
+            <Input
+              id="clone-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                if (!isKeyEdited) setKey(suggestProjectKey(e.target.value));
+              }}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="clone-key">Key</Label>
+            <Input
+              id="clone-key"
+              value={key}
+              onChange={(e) => {
+                setIsKeyEdited(true);
+                setKey(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10));
+              }}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Copied stories and test cases keep their numbers, e.g. {formatReadableIdExample(key)}
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="clone-description">Description</Label>
+            <Textarea
+              id="clone-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+          {!asTemplate && (
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="clone-history"
+                checked={includeHistory}
+                onCheckedChange={(checked) => setIncludeHistory(checked === true)}
+                className="mt-0.5"
+              />
+              <div className="grid gap-1">
+                <Label htmlFor="clone-history">Include execution history</Label>
+                <p className="text-xs text-muted-foreground">
+                  Copy test runs and their results. Without it every test case starts as not run.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isCloning}>
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={isCloning}>
+            {isCloning ? 'Copying...' : asTemplate ? 'Save Template' : 'Clone Project'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
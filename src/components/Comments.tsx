@@ -0,0 +1,406 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Markdown } from "@/components/Markdown";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { ProjectMember, loadProjectMembers } from "@/lib/customFields";
+import {
+  Comment,
+  CommentEntityType,
+  CommentSummary,
+  formatMention,
+  loadComments,
+  addComment,
+  updateComment,
+  deleteComment,
+  markCommentsRead,
+  subscribeToComments
+} from "@/lib/comments";
+import { cn } from "@/lib/utils";
+import { MessageSquare, Edit3, Trash2, Send, AtSign } from "lucide-react";
+
+interface CommentComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: ProjectMember[];
+  onSubmit: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+/**
+ * Textarea that suggests project members after "@" and inserts them as mentions
+ */
+const CommentComposer = ({ value, onChange, members, onSubmit, placeholder, autoFocus }: CommentComposerProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/(?:^|\s)@([^\s@[\]]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const suggestions = mentionQuery === null
+    ? []
+    : members.filter(member => member.name.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 6);
+
+  const insertMention = (member: ProjectMember) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[^\s@[\]]*$/, formatMention(member));
+    onChange(before + value.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={3}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSubmit();
+          } else if (e.key === 'Escape' && mentionQuery !== null) {
+            e.stopPropagation();
+            setMentionQuery(null);
+          }
+        }}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 z-50 mb-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map(member => (
+            <button
+              key={member.userId}
+              type="button"
+              className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-accent"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(member);
+              }}
+            >
+              <AtSign className="h-3 w-3 text-muted-foreground" />
+              {member.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommentThreadProps {
+  projectId: string;
+  entityType: CommentEntityType;
+  entityId: string;
+  onRead?: () => void;
+}
+
+const CommentThread = ({ projectId, entityType, entityId, onRead }: CommentThreadProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { isAdmin } = useRoles();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const markRead = async () => {
+    try {
+      await markCommentsRead(entityType, entityId);
+      onRead?.();
+    } catch (error) {
+      console.error('Error marking comments as read:', error);
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [loadedComments, loadedMembers] = await Promise.all([
+          loadComments(entityType, entityId),
+          loadProjectMembers(projectId)
+        ]);
+        setComments(loadedComments);
+        setMembers(loadedMembers);
+        markRead();
+      } catch (error) {
+        console.error('Error loading comments:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load comments",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+
+    return subscribeToComments(`comment-thread-${entityType}-${entityId}`, `entity_id=eq.${entityId}`, (event, comment) => {
+      if (event === 'DELETE') {
+        setComments(prev => prev.filter(c => c.id !== comment.id));
+      } else if (comment.entityType === entityType) {
+        setComments(prev => prev.some(c => c.id === comment.id)
+          ? prev.map(c => (c.id === comment.id ? comment : c))
+          : [...prev, comment]);
+        if (event === 'INSERT') markRead();
+      }
+    });
+  }, [projectId, entityType, entityId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [comments.length]);
+
+  const getAuthorName = (authorId: string) =>
+    members.find(member => member.userId === authorId)?.name || 'Former member';
+
+  const handlePost = async () => {
+    if (!newComment.trim()) return;
+    setIsPosting(true);
+    try {
+      const comment = await addComment(projectId, entityType, entityId, newComment);
+      setComments(prev => (prev.some(c => c.id === comment.id) ? prev : [...prev, comment]));
+      setNewComment('');
+      markRead();
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast({
+        title: "Comment Failed",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleUpdate = async (commentId: string) => {
+    if (!editBody.trim()) return;
+    try {
+      await updateComment(commentId, editBody);
+      setComments(prev => prev.map(c => (c.id === commentId
+        ? { ...c, body: editBody.trim(), editedAt: new Date().toISOString() }
+        : c)));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await deleteComment(commentId);
+      setComments(prev => prev.filter(c => c.id !== commentId));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ScrollArea className="h-[400px] rounded border">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Loading comments...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No comments yet. Start the discussion below.</p>
+        ) : (
+          <div className="divide-y">
+            {comments.map(comment => {
+              const isAuthor = comment.authorId === user?.id;
+              return (
+                <div
+                  key={comment.id}
+                  className={cn("p-3 space-y-1", user && comment.mentions.includes(user.id) && "bg-primary/5")}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-xs">
+                      <span className="font-medium">{getAuthorName(comment.authorId)}</span>
+                      <span className="text-muted-foreground ml-2">{new Date(comment.createdAt).toLocaleString()}</span>
+                      {comment.editedAt && <span className="text-muted-foreground ml-1">(edited)</span>}
+                    </div>
+                    {editingId !== comment.id && (isAuthor || isAdmin) && (
+                      <div className="flex gap-1">
+                        {isAuthor && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2"
+                            onClick={() => {
+                              setEditingId(comment.id);
+                              setEditBody(comment.body);
+                            }}
+                            title="Edit comment"
+                          >
+                            <Edit3 className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-destructive hover:text-destructive" title="Delete comment">
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Comment</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete this comment? This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(comment.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+                  {editingId === comment.id ? (
+                    <div className="space-y-2">
+                      <CommentComposer
+                        value={editBody}
+                        onChange={setEditBody}
+                        members={members}
+                        onSubmit={() => handleUpdate(comment.id)}
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                        <Button size="sm" onClick={() => handleUpdate(comment.id)} disabled={!editBody.trim()}>Save</Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Markdown content={comment.body} />
+                  )}
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="space-y-2">
+        <CommentComposer
+          value={newComment}
+          onChange={setNewComment}
+          members={members}
+          onSubmit={handlePost}
+          placeholder="Write a comment... Type @ to mention a project member. Markdown is supported."
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Ctrl+Enter to post</span>
+          <Button variant="gradient" size="sm" onClick={handlePost} disabled={isPosting || !newComment.trim()}>
+            <Send className="mr-2 h-3 w-3" />
+            {isPosting ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface CommentsButtonProps {
+  projectId: string;
+  entityType: CommentEntityType;
+  entityId: string;
+  title: string;
+  summary?: CommentSummary;
+  onRead?: () => void;
+  // Icon-only trigger for dense tables
+  compact?: boolean;
+}
+
+export const CommentsButton = ({ projectId, entityType, entityId, title, summary, onRead, compact }: CommentsButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const count = summary?.commentCount || 0;
+  const unread = summary?.unreadCount || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant={compact ? "ghost" : "outline"}
+          size="sm"
+          className={cn("relative", compact && "h-8 px-2")}
+          title={unread > 0 ? `${unread} unread comments` : 'Comments'}
+        >
+          <MessageSquare className={cn("h-3 w-3", !compact && "mr-2")} />
+          {compact ? count > 0 && <span className="ml-1 text-xs">{count}</span> : `Comments${count > 0 ? ` (${count})` : ''}`}
+          {unread > 0 && (
+            <span
+              className={cn(
+                "absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full",
+                summary?.unreadMentions ? "bg-destructive" : "bg-primary"
+              )}
+            />
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Comments</DialogTitle>
+          <DialogDescription>Discussion on "{title}"</DialogDescription>
+        </DialogHeader>
+        {open && <CommentThread projectId={projectId} entityType={entityType} entityId={entityId} onRead={onRead} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  TestConfiguration,
+  ConfigurationMatrixRow,
+  loadTestConfigurations,
+  loadConfigurationMatrix,
+  describeConfiguration
+} from "@/lib/testConfigurations";
+import { MonitorSmartphone } from "lucide-react";
+
+interface ConfigurationCoverageMatrixProps {
+  projectId: string;
+  // Limit the matrix to one run; otherwise the latest executed result per configuration is shown
+  testRunId?: string;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'passed': return 'bg-success text-success-foreground';
+    case 'failed': return 'bg-destructive text-destructive-foreground';
+    case 'blocked': return 'bg-warning text-warning-foreground';
+    default: return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+export const ConfigurationCoverageMatrix = ({ projectId, testRunId }: ConfigurationCoverageMatrixProps) => {
+  const [configurations, setConfigurations] = useState<TestConfiguration[]>([]);
+  const [rows, setRows] = useState<ConfigurationMatrixRow[]>([]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [loadedConfigurations, matrix] = await Promise.all([
+          loadTestConfigurations(projectId),
+          loadConfigurationMatrix(projectId, testRunId)
+        ]);
+        setConfigurations(loadedConfigurations);
+        setRows(matrix);
+      } catch (error) {
+        console.error('Error loading configuration coverage:', error);
+      }
+    };
+
+    loadData();
+  }, [projectId, testRunId]);
+
+  // Only configurations that have at least one result get a column
+  const columns = configurations.filter(configuration => rows.some(row => row.statuses[configuration.id]));
+
+  if (columns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5 text-primary" />
+          Configuration Coverage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Test Case</TableHead>
+              {columns.map(configuration => (
+                <TableHead key={configuration.id} className="text-center" title={describeConfiguration(configuration)}>
+                  {configuration.name}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.testCaseId}>
+                <TableCell className="max-w-72">
+                  <span className="font-mono text-xs text-muted-foreground mr-2">{row.readableId}</span>
+                  <span className="text-sm">{row.title}</span>
+                </TableCell>
+                {columns.map(configuration => (
+                  <TableCell key={configuration.id} className="text-center">
+                    {row.statuses[configuration.id] ? (
+                      <Badge className={`text-xs ${getStatusColor(row.statuses[configuration.id])}`}>
+                        {row.statuses[configuration.id]}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow className="bg-muted/30 hover:bg-muted/30">
+              <TableCell className="text-sm font-medium">Pass Rate</TableCell>
+              {columns.map(configuration => {
+                const statuses = rows.map(row => row.statuses[configuration.id]).filter(status => status && status !== 'not-run');
+                const passed = statuses.filter(status => status === 'passed').length;
+                return (
+                  <TableCell key={configuration.id} className="text-center text-sm font-medium">
+                    {statuses.length > 0 ? `${Math.round((passed / statuses.length) * 100)}%` : '-'}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
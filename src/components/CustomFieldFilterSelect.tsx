@@ -0,0 +1,72 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CustomFieldDefinition,
+  CustomFieldFilter,
+  EMPTY_FILTER_VALUE,
+  ProjectMember
+} from "@/lib/customFields";
+
+interface CustomFieldFilterSelectProps {
+  definitions: CustomFieldDefinition[];
+  members: ProjectMember[];
+  value: CustomFieldFilter | null;
+  onChange: (value: CustomFieldFilter | null) => void;
+}
+
+const NO_FIELD = '__none__';
+const ANY_VALUE = '__any__';
+
+export const CustomFieldFilterSelect = ({ definitions, members, value, onChange }: CustomFieldFilterSelectProps) => {
+  if (definitions.length === 0) return null;
+
+  const field = value ? definitions.find(definition => definition.id === value.fieldId) : undefined;
+  const choices = field?.fieldType === 'user'
+    ? members.map(member => ({ value: member.userId, label: member.name }))
+    : (field?.options || []).map(option => ({ value: option, label: option }));
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={field?.id || NO_FIELD}
+        onValueChange={(fieldId) => onChange(fieldId === NO_FIELD ? null : { fieldId, value: '' })}
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Custom field" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIELD}>Any Custom Field</SelectItem>
+          {definitions.map(definition => (
+            <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {field && (field.fieldType === 'select' || field.fieldType === 'multi-select' || field.fieldType === 'user') && (
+        <Select
+          value={value?.value || ANY_VALUE}
+          onValueChange={(selected) => onChange({ fieldId: field.id, value: selected === ANY_VALUE ? '' : selected })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>Any Value</SelectItem>
+            <SelectItem value={EMPTY_FILTER_VALUE}>Not Set</SelectItem>
+            {choices.map(choice => (
+              <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {field && (field.fieldType === 'text' || field.fieldType === 'number' || field.fieldType === 'date') && (
+        <Input
+          type={field.fieldType === 'text' ? 'text' : field.fieldType}
+          value={value?.value || ''}
+          onChange={(e) => onChange({ fieldId: field.id, value: e.target.value })}
+          placeholder={field.name}
+          className="w-[160px]"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CustomFieldDefinition, CustomFieldValues, ProjectMember } from "@/lib/customFields";
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  members: ProjectMember[];
+  // Prefixes element ids so several editors can be on the page at once
+  idPrefix?: string;
+}
+
+// Radix selects don't allow an empty item value, so clearing a select uses this one
+const NO_VALUE = '__none__';
+
+export const CustomFieldInputs = ({ definitions, values, onChange, members, idPrefix = 'custom-field' }: CustomFieldInputsProps) => {
+  if (definitions.length === 0) return null;
+
+  const setValue = (fieldId: string, value: CustomFieldValues[string]) => onChange({ ...values, [fieldId]: value });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {definitions.map(field => {
+        const id = `${idPrefix}-${field.id}`;
+        const value = values[field.id];
+        const label = `${field.name}${field.required ? ' *' : ''}`;
+
+        switch (field.fieldType) {
+          case 'select':
+          case 'user':
+            return (
+              <div key={field.id} className="space-y-2">
+                <Label>{label}</Label>
+                <Select
+                  value={(value as string) || NO_VALUE}
+                  onValueChange={(selected) => setValue(field.id, selected === NO_VALUE ? null : selected)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VALUE}>None</SelectItem>
+                    {field.fieldType === 'select'
+                      ? field.options.map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))
+                      : members.map(member => (
+                          <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          case 'multi-select': {
+            const selected = (value as string[]) || [];
+            return (
+              <div key={field.id} className="space-y-2 md:col-span-2">
+                <Label>{label}</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {field.options.map(option => (
+                    <div key={option} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${id}-${option}`}
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) => setValue(
+                          field.id,
+                          checked ? [...selected, option] : selected.filter(o => o !== option)
+                        )}
+                      />
+                      <Label htmlFor={`${id}-${option}`} className="text-sm font-normal">{option}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+          default:
+            return (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={id}>{label}</Label>
+                <Input
+                  id={id}
+                  type={field.fieldType === 'number' ? 'number' : field.fieldType === 'date' ? 'date' : 'text'}
+                  value={value === null || value === undefined ? '' : String(value)}
+                  onChange={(e) => setValue(
+                    field.id,
+                    e.target.value === '' ? null : field.fieldType === 'number' ? Number(e.target.value) : e.target.value
+                  )}
+                />
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+};
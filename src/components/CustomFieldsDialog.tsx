@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CustomFieldDefinition,
+  CustomFieldDefinitionInput,
+  CustomFieldEntityType,
+  CustomFieldType,
+  CUSTOM_FIELD_TYPE_LABELS,
+  loadCustomFieldDefinitions,
+  saveCustomFieldDefinition,
+  deleteCustomFieldDefinition
+} from "@/lib/customFields";
+import { Edit, Trash2, Plus, SlidersHorizontal } from "lucide-react";
+
+interface CustomFieldsDialogProps {
+  projectId: string;
+  entityType: CustomFieldEntityType;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: (definitions: CustomFieldDefinition[]) => void;
+}
+
+const emptyField = (): CustomFieldDefinitionInput => ({
+  name: '',
+  fieldType: 'text',
+  options: [],
+  required: false
+});
+
+export const CustomFieldsDialog = ({ projectId, entityType, open, onOpenChange, onChanged }: CustomFieldsDialogProps) => {
+  const { toast } = useToast();
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [form, setForm] = useState<CustomFieldDefinitionInput>(emptyField());
+  const [optionsText, setOptionsText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const entityLabel = entityType === 'test_case' ? 'test cases' : 'user stories';
+  const hasOptions = form.fieldType === 'select' || form.fieldType === 'multi-select';
+
+  const loadData = async () => {
+    try {
+      const loaded = await loadCustomFieldDefinitions(projectId, entityType);
+      setDefinitions(loaded);
+      onChanged?.(loaded);
+    } catch (error) {
+      console.error('Error loading custom fields:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load custom fields",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyField());
+    setOptionsText('');
+    setEditingId(null);
+  };
+
+  useEffect(() => {
+    if (open) {
+      resetForm();
+      loadData();
+    }
+  }, [open, projectId, entityType]);
+
+  const startEdit = (definition: CustomFieldDefinition) => {
+    setEditingId(definition.id);
+    setForm({
+      name: definition.name,
+      fieldType: definition.fieldType,
+      options: definition.options,
+      required: definition.required
+    });
+    setOptionsText(definition.options.join(', '));
+  };
+
+  const handleSave = async () => {
+    const options = optionsText.split(',').map(option => option.trim()).filter(Boolean);
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a field name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (hasOptions && options.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select fields need at least one option",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const position = definitions.length > 0 ? Math.max(...definitions.map(d => d.position)) + 1 : 0;
+      await saveCustomFieldDefinition(projectId, entityType, { ...form, options }, editingId, position);
+      toast({
+        title: editingId ? "Field Updated" : "Field Added",
+        description: `"${form.name.trim()}" has been saved`,
+      });
+      resetForm();
+      loadData();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save field. Field names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (definition: CustomFieldDefinition) => {
+    try {
+      await deleteCustomFieldDefinition(definition.id);
+      toast({
+        title: "Field Deleted",
+        description: `"${definition.name}" and its values have been deleted`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete field",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Fields</DialogTitle>
+          <DialogDescription>
+            Project-specific fields captured on {entityLabel}. They are included in Excel import and export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {definitions.length === 0 ? (
+            <div className="text-center py-6">
+              <SlidersHorizontal className="mx-auto h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No custom fields defined yet.</p>
+            </div>
+          ) : (
+            definitions.map(definition => (
+              <div key={definition.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{definition.name}</span>
+                    <Badge variant="secondary" className="text-xs">{CUSTOM_FIELD_TYPE_LABELS[definition.fieldType]}</Badge>
+                    {definition.required && <Badge variant="outline" className="text-xs">Required</Badge>}
+                  </div>
+                  {definition.options.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">{definition.options.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startEdit(definition)}>
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(definition)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <p className="text-sm font-medium">{editingId ? 'Edit Field' : 'Add Field'}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="custom-field-name" className="text-xs">Name</Label>
+              <Input
+                id="custom-field-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Component"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select
+                value={form.fieldType}
+                onValueChange={(value) => setForm({ ...form, fieldType: value as CustomFieldType })}
+                disabled={!!editingId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {hasOptions && (
+            <div className="space-y-1">
+              <Label htmlFor="custom-field-options" className="text-xs">Options (comma separated)</Label>
+              <Input
+                id="custom-field-options"
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                placeholder="Checkout, Payments, Search"
+              />
+            </div>
+          )}
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="custom-field-required"
+              checked={form.required}
+              onCheckedChange={(checked) => setForm({ ...form, required: checked === true })}
+            />
+            <Label htmlFor="custom-field-required" className="text-sm font-normal">Required</Label>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {editingId ? 'Save Changes' : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Field
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
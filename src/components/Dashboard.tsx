@@ -6,6 +6,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { Release, loadReleases } from "@/lib/releases";
+import { ReleaseSelect } from "@/components/ReleaseSelect";
+import { ReleaseReadinessCard } from "@/components/ReleaseReadinessCard";
 import { 
   FileText, 
   TestTube, 
@@ -38,7 +41,7 @@ interface RecentActivity {
   status: string;
 }
 
-export const Dashboard = ({ onViewChange }: DashboardProps) => {
+export const Dashboard = ({ onViewChange, projectId }: DashboardProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
@@ -50,6 +53,8 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
   });
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [releaseFilter, setReleaseFilter] = useState('all');
 
   const formatTimeAgo = (date: string) => {
     const now = new Date();
@@ -73,15 +78,19 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
       const { data: ownedProjects, error: ownedError } = await supabase
         .from('projects')
         .select('id')
-        .eq('created_by', session.user.id);
+        .eq('created_by', session.user.id)
+        .eq('is_template', false)
+        .is('deleted_at', null);
 
       if (ownedError) throw ownedError;
 
       // Get member projects
       const { data: memberProjects, error: memberError } = await supabase
         .from('project_members')
-        .select('project_id, projects(id)')
-        .eq('user_id', session.user.id);
+        .select('project_id, projects!inner(id)')
+        .eq('user_id', session.user.id)
+        .eq('projects.is_template', false)
+        .is('projects.deleted_at', null);
 
       if (memberError) throw memberError;
 
@@ -110,19 +119,35 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
 
       const projectIds = allProjectIds;
 
-      // Load user stories count
-      const { count: userStoriesCount, error: storiesError } = await supabase
-        .from('user_stories')
-        .select('*', { count: 'exact', head: true })
-        .in('project_id', projectIds);
+      // Load user stories count (only the selected release's stories when filtering by release)
+      const { count: userStoriesCount, error: storiesError } = releaseFilter === 'all'
+        ? await supabase
+            .from('user_stories')
+            .select('*', { count: 'exact', head: true })
+            .is('deleted_at', null)
+            .in('project_id', projectIds)
+        : await supabase
+            .from('user_stories')
+            .select('*', { count: 'exact', head: true })
+            .is('deleted_at', null)
+            .eq('project_id', projectId)
+            .eq('release_id', releaseFilter);
 
       if (storiesError) throw storiesError;
 
       // Load test cases data
-      const { data: testCases, error: testCasesError } = await supabase
-        .from('test_cases')
-        .select('status')
-        .in('project_id', projectIds);
+      const { data: testCases, error: testCasesError } = releaseFilter === 'all'
+        ? await supabase
+            .from('test_cases')
+            .select('status')
+            .is('deleted_at', null)
+            .in('project_id', projectIds)
+        : await supabase
+            .from('test_cases')
+            .select('status, user_stories!inner(release_id)')
+            .is('deleted_at', null)
+            .eq('project_id', projectId)
+            .eq('user_stories.release_id', releaseFilter);
 
       if (testCasesError) throw testCasesError;
 
@@ -154,12 +179,14 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
         supabase
           .from('user_stories')
           .select('id, title, updated_at, created_at')
+          .is('deleted_at', null)
           .in('project_id', projectIds)
           .order('updated_at', { ascending: false })
           .limit(5),
         supabase
           .from('test_cases')
           .select('id, title, updated_at, created_at, user_stories!inner(title)')
+          .is('deleted_at', null)
           .in('project_id', projectIds)
           .order('updated_at', { ascending: false })
           .limit(5)
@@ -230,7 +257,16 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
     if (session?.user?.id) {
       loadDashboardData();
     }
-  }, [session?.user?.id]);
+  }, [session?.user?.id, releaseFilter]);
+
+  useEffect(() => {
+    setReleaseFilter('all');
+    loadReleases(projectId)
+      .then(setReleases)
+      .catch(error => console.error('Error loading releases:', error));
+  }, [projectId]);
+
+  const selectedRelease = releases.find(release => release.id === releaseFilter) || null;
 
   const statsConfig = [
     {
@@ -272,12 +308,24 @@ export const Dashboard = ({ onViewChange }: DashboardProps) => {
             Overview of your test management activity
           </p>
         </div>
-        <Button variant="gradient" onClick={() => onViewChange('user-stories')}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add User Story
-        </Button>
+        <div className="flex gap-2">
+          {releases.length > 0 && (
+            <ReleaseSelect
+              releases={releases}
+              value={releaseFilter}
+              onValueChange={setReleaseFilter}
+              className="w-44"
+            />
+          )}
+          <Button variant="gradient" onClick={() => onViewChange('user-stories')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add User Story
+          </Button>
+        </div>
       </div>
 
+      {selectedRelease && <ReleaseReadinessCard projectId={projectId} release={selectedRelease} />}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {isLoading ? (
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DefectInput,
+  DefectSeverity,
+  DefectPriority,
+  DefectState,
+  DEFECT_SEVERITIES,
+  DEFECT_PRIORITIES,
+  DEFECT_STATES,
+  DEFECT_STATE_LABELS,
+  createDefect,
+  updateDefect,
+  formatDefectId
+} from "@/lib/defects";
+
+interface DefectDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing defect to edit; omitted when logging a new one
+  defectId?: string | null;
+  initialValues?: Partial<DefectInput>;
+  linkedTestCaseLabel?: string;
+  onSaved?: () => void;
+}
+
+const emptyDefect = (): DefectInput => ({
+  title: '',
+  description: '',
+  reproSteps: '',
+  expectedResult: '',
+  actualResult: '',
+  severity: 'medium',
+  priority: 'medium',
+  state: 'new',
+  testCaseId: null,
+  testRunResultId: null,
+  userStoryId: null
+});
+
+export const DefectDialog = ({
+  projectId,
+  open,
+  onOpenChange,
+  defectId,
+  initialValues,
+  linkedTestCaseLabel,
+  onSaved
+}: DefectDialogProps) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DefectInput>(emptyDefect());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm({ ...emptyDefect(), ...initialValues });
+    }
+  }, [open]);
+
+  const saveDefect = async () => {
+    if (!form.title.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a defect title",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (defectId) {
+        await updateDefect(defectId, form);
+        toast({
+          title: "Defect Updated",
+          description: `"${form.title.trim()}" has been saved`,
+        });
+      } else {
+        const created = await createDefect(projectId, form);
+        toast({
+          title: "Defect Logged",
+          description: `${formatDefectId(created.defect_number)} "${form.title.trim()}" has been created`,
+        });
+      }
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving defect:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save defect",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{defectId ? 'Edit Defect' : 'Log Defect'}</DialogTitle>
+          <DialogDescription>
+            {linkedTestCaseLabel ? `Linked to ${linkedTestCaseLabel}` : 'Record a defect found during testing.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="defect-title">Title</Label>
+            <Input
+              id="defect-title"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Short summary of the problem"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={(value) => setForm({ ...form, severity: value as DefectSeverity })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_SEVERITIES.map(severity => (
+                    <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value as DefectPriority })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select value={form.state} onValueChange={(value) => setForm({ ...form, state: value as DefectState })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_STATES.map(state => (
+                    <SelectItem key={state} value={state}>{DEFECT_STATE_LABELS[state]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="defect-description">Description (Optional)</Label>
+            <Textarea
+              id="defect-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="defect-repro-steps">Steps to Reproduce</Label>
+            <Textarea
+              id="defect-repro-steps"
+              value={form.reproSteps}
+              onChange={(e) => setForm({ ...form, reproSteps: e.target.value })}
+              rows={5}
+              className="font-mono text-xs"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="defect-expected">Expected Result</Label>
+              <Textarea
+                id="defect-expected"
+                value={form.expectedResult}
+                onChange={(e) => setForm({ ...form, expectedResult: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defect-actual">Actual Result</Label>
+              <Textarea
+                id="defect-actual"
+                value={form.actualResult}
+                onChange={(e) => setForm({ ...form, actualResult: e.target.value })}
+                rows={3}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveDefect} disabled={isSaving}>
+            {defectId ? 'Save Changes' : 'Log Defect'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
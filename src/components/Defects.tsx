@@ -0,0 +1,418 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { DefectDialog } from "@/components/DefectDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Defect,
+  DefectState,
+  DEFECT_SEVERITIES,
+  DEFECT_STATES,
+  DEFECT_STATE_LABELS,
+  loadDefects,
+  updateDefectState,
+  summarizeDefects,
+  formatDefectId
+} from "@/lib/defects";
+import { SearchFocus } from "@/lib/search";
+import { Bug, Plus, Search, Edit, Trash2, List, Columns } from "lucide-react";
+
+interface DefectsProps {
+  projectId: string;
+  focus?: SearchFocus | null;
+}
+
+const DEFECT_DRAG_TYPE = 'application/x-defect-id';
+
+export const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-destructive text-destructive-foreground';
+    case 'high': return 'bg-warning text-warning-foreground';
+    case 'medium': return 'bg-primary text-primary-foreground';
+    default: return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+export const Defects = ({ projectId, focus }: DefectsProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [defects, setDefects] = useState<Defect[]>([]);
+  const [searchTerm, setSearchTerm] = useState(focus?.term || '');
+  const [stateFilter, setStateFilter] = useState<'all' | 'open' | DefectState>('open');
+  const [severityFilter, setSeverityFilter] = useState('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [dropTargetState, setDropTargetState] = useState<DefectState | null>(null);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingDefect, setEditingDefect] = useState<Defect | null>(null);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      setDefects(await loadDefects(projectId));
+    } catch (error) {
+      console.error('Error loading defects:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load defects",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const matchesSearch = (defect: Defect) =>
+    defect.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    formatDefectId(defect.defectNumber).toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (defect.testCaseReadableId || '').toLowerCase().includes(searchTerm.toLowerCase());
+
+  const boardDefects = defects.filter(defect =>
+    matchesSearch(defect) && (severityFilter === 'all' || defect.severity === severityFilter)
+  );
+  const listDefects = boardDefects.filter(defect =>
+    stateFilter === 'all' ||
+    (stateFilter === 'open' ? ['new', 'open', 'in-progress'].includes(defect.state) : defect.state === stateFilter)
+  );
+  const metrics = summarizeDefects(defects);
+
+  const openCreateDialog = () => {
+    setEditingDefect(null);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (defect: Defect) => {
+    setEditingDefect(defect);
+    setShowDialog(true);
+  };
+
+  const changeState = async (defect: Defect, state: DefectState) => {
+    if (defect.state === state) return;
+
+    const previousState = defect.state;
+    setDefects(prev => prev.map(d => (d.id === defect.id ? { ...d, state } : d)));
+    try {
+      await updateDefectState(defect.id, state);
+    } catch (error) {
+      console.error('Error updating defect state:', error);
+      setDefects(prev => prev.map(d => (d.id === defect.id ? { ...d, state: previousState } : d)));
+      toast({
+        title: "Update Failed",
+        description: "Failed to change defect state",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteDefect = async (defect: Defect) => {
+    try {
+      const { error } = await supabase
+        .from('defects')
+        .delete()
+        .eq('id', defect.id);
+
+      if (error) throw error;
+
+      setDefects(prev => prev.filter(d => d.id !== defect.id));
+      toast({
+        title: "Defect Deleted",
+        description: `${formatDefectId(defect.defectNumber)} has been deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting defect:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete defect",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, state: DefectState) => {
+    e.preventDefault();
+    setDropTargetState(null);
+    const defect = defects.find(d => d.id === e.dataTransfer.getData(DEFECT_DRAG_TYPE));
+    if (defect) {
+      changeState(defect, state);
+    }
+  };
+
+  const renderActions = (defect: Defect) => (
+    <div className="flex gap-1">
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEditDialog(defect)}>
+        <Edit className="h-3 w-3" />
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Defect</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {formatDefectId(defect.defectNumber)} "{defect.title}"? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteDefect(defect)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Defects</h2>
+          <p className="text-muted-foreground">
+            Track defects found during test execution {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <Button variant="gradient" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Log Defect
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Total</p>
+            <p className="text-2xl font-bold">{metrics.totalDefects}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Open</p>
+            <p className="text-2xl font-bold text-warning">{metrics.openDefects}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Critical</p>
+            <p className="text-2xl font-bold text-destructive">{metrics.criticalDefects}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Closure Rate</p>
+            <p className="text-2xl font-bold text-success">{metrics.defectClosureRate}%</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="list">
+        <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+          <TabsList>
+            <TabsTrigger value="list">
+              <List className="mr-2 h-4 w-4" />
+              List
+            </TabsTrigger>
+            <TabsTrigger value="board">
+              <Columns className="mr-2 h-4 w-4" />
+              Board
+            </TabsTrigger>
+          </TabsList>
+          <div className="flex gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search defects..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 w-56"
+              />
+            </div>
+            <Select value={severityFilter} onValueChange={setSeverityFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Severities</SelectItem>
+                {DEFECT_SEVERITIES.map(severity => (
+                  <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <TabsContent value="list">
+          <Card className="shadow-card">
+            <CardContent className="p-0">
+              <div className="p-4 border-b">
+                <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as typeof stateFilter)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open Defects</SelectItem>
+                    <SelectItem value="all">All States</SelectItem>
+                    {DEFECT_STATES.map(state => (
+                      <SelectItem key={state} value={state}>{DEFECT_STATE_LABELS[state]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {listDefects.length === 0 ? (
+                <div className="text-center py-12">
+                  <Bug className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    {defects.length === 0 ? 'No defects logged yet.' : 'No defects match the current filters.'}
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>State</TableHead>
+                      <TableHead>Test Case</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {listDefects.map(defect => (
+                      <TableRow key={defect.id}>
+                        <TableCell className="font-mono text-xs">{formatDefectId(defect.defectNumber)}</TableCell>
+                        <TableCell className="max-w-72">
+                          <div className="truncate font-medium" title={defect.title}>{defect.title}</div>
+                          {defect.userStoryTitle && (
+                            <div className="truncate text-xs text-muted-foreground">{defect.userStoryTitle}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`capitalize ${getSeverityColor(defect.severity)}`}>{defect.severity}</Badge>
+                        </TableCell>
+                        <TableCell className="capitalize text-sm">{defect.priority}</TableCell>
+                        <TableCell>
+                          <Select value={defect.state} onValueChange={(value) => changeState(defect, value as DefectState)}>
+                            <SelectTrigger className="w-32 h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DEFECT_STATES.map(state => (
+                                <SelectItem key={state} value={state}>{DEFECT_STATE_LABELS[state]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {defect.testCaseTitle ? (
+                            <span title={defect.testCaseTitle}>{defect.testCaseReadableId || defect.testCaseTitle}</span>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {new Date(defect.createdAt).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>{renderActions(defect)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="board">
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-3">
+            {DEFECT_STATES.map(state => {
+              const columnDefects = boardDefects.filter(defect => defect.state === state);
+              return (
+                <div
+                  key={state}
+                  onDragOver={(e) => {
+                    if (e.dataTransfer.types.includes(DEFECT_DRAG_TYPE)) {
+                      e.preventDefault();
+                      setDropTargetState(state);
+                    }
+                  }}
+                  onDragLeave={() => setDropTargetState(null)}
+                  onDrop={(e) => handleDrop(e, state)}
+                  className={`rounded-lg border bg-muted/30 p-2 space-y-2 min-h-[240px] ${
+                    dropTargetState === state ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between px-1">
+                    <span className="text-sm font-medium">{DEFECT_STATE_LABELS[state]}</span>
+                    <Badge variant="secondary" className="text-xs">{columnDefects.length}</Badge>
+                  </div>
+                  {columnDefects.map(defect => (
+                    <Card
+                      key={defect.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData(DEFECT_DRAG_TYPE, defect.id)}
+                      className="shadow-card cursor-grab"
+                    >
+                      <CardContent className="p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-1">
+                          <span className="font-mono text-xs text-muted-foreground">{formatDefectId(defect.defectNumber)}</span>
+                          {renderActions(defect)}
+                        </div>
+                        <p className="text-sm font-medium leading-snug">{defect.title}</p>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge className={`text-[10px] capitalize ${getSeverityColor(defect.severity)}`}>{defect.severity}</Badge>
+                          {defect.testCaseReadableId && (
+                            <Badge variant="outline" className="text-[10px]">{defect.testCaseReadableId}</Badge>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <DefectDialog
+        projectId={projectId}
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        defectId={editingDefect?.id}
+        initialValues={editingDefect || undefined}
+        linkedTestCaseLabel={editingDefect?.testCaseTitle
+          ? `${editingDefect.testCaseReadableId || ''} ${editingDefect.testCaseTitle}`.trim()
+          : undefined}
+        onSaved={loadData}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DuplicateGroup,
+  loadDuplicatePool,
+  findDuplicateGroups,
+  loadExecutionCounts,
+  mergeTestCases
+} from "@/lib/duplicates";
+import { Copy, GitMerge } from "lucide-react";
+
+interface DuplicatesDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+interface GroupSelection {
+  keepId: string;
+  // Members of the group folded into the kept case
+  mergeIds: Set<string>;
+}
+
+export const DuplicatesDialog = ({ projectId, open, onOpenChange, onMerged }: DuplicatesDialogProps) => {
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [executionCounts, setExecutionCounts] = useState<Record<string, number>>({});
+  const [selections, setSelections] = useState<GroupSelection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [confirmIndex, setConfirmIndex] = useState<number | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const loadGroups = async () => {
+    setIsLoading(true);
+    try {
+      const duplicateGroups = findDuplicateGroups(await loadDuplicatePool(projectId));
+      const counts = await loadExecutionCounts(duplicateGroups.flatMap(group => group.testCases.map(tc => tc.id)));
+
+      setGroups(duplicateGroups);
+      setExecutionCounts(counts);
+      // Keep the case with the most run history by default, the oldest one on a tie
+      setSelections(duplicateGroups.map(group => {
+        const keep = group.testCases.reduce((best, tc) => ((counts[tc.id] || 0) > (counts[best.id] || 0) ? tc : best));
+        return {
+          keepId: keep.id,
+          mergeIds: new Set(group.testCases.filter(tc => tc.id !== keep.id).map(tc => tc.id))
+        };
+      }));
+    } catch (error) {
+      console.error('Error finding duplicate test cases:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the project for duplicate test cases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadGroups();
+    }
+  }, [open, projectId]);
+
+  const updateSelection = (index: number, update: (selection: GroupSelection) => GroupSelection) => {
+    setSelections(prev => prev.map((selection, i) => (i === index ? update(selection) : selection)));
+  };
+
+  const setKeep = (index: number, keepId: string) => {
+    updateSelection(index, selection => {
+      const mergeIds = new Set(selection.mergeIds);
+      mergeIds.delete(keepId);
+      if (selection.keepId !== keepId) mergeIds.add(selection.keepId);
+      return { keepId, mergeIds };
+    });
+  };
+
+  const toggleMerge = (index: number, testCaseId: string) => {
+    updateSelection(index, selection => {
+      const mergeIds = new Set(selection.mergeIds);
+      if (mergeIds.has(testCaseId)) {
+        mergeIds.delete(testCaseId);
+      } else {
+        mergeIds.add(testCaseId);
+      }
+      return { ...selection, mergeIds };
+    });
+  };
+
+  const handleMerge = async () => {
+    if (confirmIndex === null) return;
+    const { keepId, mergeIds } = selections[confirmIndex];
+
+    setIsMerging(true);
+    try {
+      const moved = await mergeTestCases(keepId, Array.from(mergeIds));
+      toast({
+        title: "Test Cases Merged",
+        description: `Merged ${mergeIds.size} duplicates and moved ${moved} run results to the kept test case`,
+      });
+      setGroups(prev => prev.filter((_, i) => i !== confirmIndex));
+      setSelections(prev => prev.filter((_, i) => i !== confirmIndex));
+      setConfirmIndex(null);
+      onMerged();
+    } catch (error) {
+      console.error('Error merging test cases:', error);
+      toast({
+        title: "Merge Failed",
+        description: "Failed to merge the duplicate test cases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const confirming = confirmIndex !== null ? selections[confirmIndex] : null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>Duplicate Test Cases</DialogTitle>
+            <DialogDescription>
+              Groups of test cases with similar titles and steps. Merging keeps one case, moves the run history,
+              attachments, defects and suite membership of the others to it and puts them in the trash.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="h-[520px] pr-3">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-12">Comparing test cases...</p>
+            ) : groups.length === 0 ? (
+              <div className="text-center py-12">
+                <Copy className="mx-auto h-10 w-10 text-muted-foreground mb-3" />
+                <p className="text-sm text-muted-foreground">No likely duplicates found in this project</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {groups.map((group, index) => (
+                  <div key={group.testCases.map(tc => tc.id).join()} className="border rounded p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant="outline">{Math.round(group.score * 100)}% similar</Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setConfirmIndex(index)}
+                        disabled={!selections[index] || selections[index].mergeIds.size === 0}
+                      >
+                        <GitMerge className="mr-2 h-3 w-3" />
+                        Merge
+                      </Button>
+                    </div>
+                    <RadioGroup
+                      value={selections[index]?.keepId}
+                      onValueChange={(value) => setKeep(index, value)}
+                      className="gap-2"
+                    >
+                      {group.testCases.map(tc => {
+                        const isKept = selections[index]?.keepId === tc.id;
+                        return (
+                          <div key={tc.id} className="flex items-start gap-3 text-sm">
+                            <RadioGroupItem value={tc.id} id={`keep-${tc.id}`} className="mt-0.5" aria-label="Keep" />
+                            <Checkbox
+                              checked={isKept || selections[index]?.mergeIds.has(tc.id)}
+                              onCheckedChange={() => toggleMerge(index, tc.id)}
+                              disabled={isKept}
+                              className="mt-0.5"
+                              aria-label="Include in merge"
+                            />
+                            <label htmlFor={`keep-${tc.id}`} className="space-y-0.5 min-w-0 cursor-pointer">
+                              <div className="flex flex-wrap items-center gap-2">
+                                {tc.readableId && <span className="font-mono text-xs text-muted-foreground">{tc.readableId}</span>}
+                                <span className="font-medium">{tc.title}</span>
+                                {isKept && <Badge variant="secondary" className="text-[10px]">Keep</Badge>}
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {tc.userStoryTitle} · {tc.steps.length} steps · {executionCounts[tc.id] || 0} results
+                              </p>
+                            </label>
+                          </div>
+                        );
+                      })}
+                    </RadioGroup>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmIndex !== null} onOpenChange={(isOpen) => !isOpen && setConfirmIndex(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Duplicate Test Cases</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming?.mergeIds.size} test cases will be merged into the kept one and moved to the trash.
+              Results that clash with one the kept case already has for the same run stay with the trashed duplicate.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMerging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={isMerging}>
+              {isMerging ? 'Merging...' : 'Merge'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
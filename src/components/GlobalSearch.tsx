@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SearchEntityType,
+  SearchResult,
+  SEARCH_ENTITY_LABELS,
+  searchItems,
+  parseHighlights
+} from "@/lib/search";
+import { Search, FileText, TestTube, Bug } from "lucide-react";
+
+interface GlobalSearchProps {
+  onSelect: (result: SearchResult) => void;
+}
+
+const ENTITY_ICONS: Record<SearchEntityType, typeof Search> = {
+  user_story: FileText,
+  test_case: TestTube,
+  defect: Bug
+};
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 250;
+
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {parseHighlights(text).map((segment, index) => (
+      segment.highlighted
+        ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{segment.text}</mark>
+        : <span key={index}>{segment.text}</span>
+    ))}
+  </>
+);
+
+export const GlobalSearch = ({ onSelect }: GlobalSearchProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Responses for queries typed over are dropped
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchItems(query, { limit: 30 });
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!cancelled) {
+          toast({
+            title: "Search Failed",
+            description: "Failed to search stories, test cases and defects",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setQuery('');
+    onSelect(result);
+  };
+
+  const groups = (Object.keys(SEARCH_ENTITY_LABELS) as SearchEntityType[])
+    .map(type => ({ type, results: results.filter(result => result.entityType === type) }))
+    .filter(group => group.results.length > 0);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-full justify-start text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="mr-2 h-4 w-4" />
+        Search...
+        <kbd className="ml-auto text-[10px] font-mono border rounded px-1.5 py-0.5 bg-muted">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 sm:max-w-[640px]">
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search stories, test cases and defects across your projects..."
+            />
+            <CommandList className="max-h-[420px]">
+              {query.trim() && !isSearching && (
+                <CommandEmpty>No matching items</CommandEmpty>
+              )}
+              {groups.map(group => {
+                const Icon = ENTITY_ICONS[group.type];
+                return (
+                  <CommandGroup key={group.type} heading={SEARCH_ENTITY_LABELS[group.type]}>
+                    {group.results.map(result => (
+                      <CommandItem
+                        key={result.entityId}
+                        value={`${result.entityType}-${result.entityId}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start gap-2"
+                      >
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 space-y-0.5">
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            {result.reference && (
+                              <span className="font-mono text-xs text-muted-foreground">{result.reference}</span>
+                            )}
+                            <span className="font-medium"><Highlighted text={result.titleHighlight} /></span>
+                            <Badge variant="outline" className="text-[10px]">{result.projectName}</Badge>
+                          </div>
+                          {result.snippet.trim() && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              <Highlighted text={result.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -18,6 +18,8 @@ import {
 } from "lucide-react";
 import { validateEmail, validateUrl, validateOpenAIApiKey, validateProjectKey, sanitizeText } from "@/lib/security";
 import { useAuth } from "@/hooks/useAuth";
+import { resolveAIConfig, aiProviderNotConfiguredMessage } from "@/lib/aiProvider";
+import { AIProviderSettings } from "@/components/AIProviderSettings";
 
 interface Integration {
   id: string;
@@ -68,7 +70,11 @@ const saveConfigurations = (configs: Record<string, any>) => {
   localStorage.setItem('integration-configs', JSON.stringify(configs));
 };
 
-export const Integrations = () => {
+interface IntegrationsProps {
+  projectId?: string;
+}
+
+export const Integrations = ({ projectId }: IntegrationsProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
   
@@ -406,12 +412,12 @@ export const Integrations = () => {
   };
 
   const generateTestCases = async (story: any) => {
-    // Check if Azure OpenAI is configured
-    const azureConfig = savedConfigs.openai;
-    if (!azureConfig?.endpoint || !azureConfig?.apiKey || !azureConfig?.deploymentId) {
+    // Check if the project's AI provider is configured
+    const { provider, config: aiConfig } = await resolveAIConfig(story.project_id);
+    if (!aiConfig) {
       toast({
-        title: "Azure OpenAI Not Configured",
-        description: "Please configure Azure OpenAI first to generate test cases",
+        title: "AI Provider Not Configured",
+        description: aiProviderNotConfiguredMessage(provider),
         variant: "destructive",
       });
       return;
@@ -430,7 +436,7 @@ export const Integrations = () => {
             ...story,
             project_id: story.project_id
           },
-          azureConfig
+          aiConfig
         })
       });
 
@@ -631,6 +637,8 @@ export const Integrations = () => {
         })}
       </div>
 
+      {projectId && <AIProviderSettings projectId={projectId} />}
+
       {/* API Key Form Modal */}
       {showApiKeyForm && (
         <Card className="shadow-elegant border-primary/20">
@@ -846,7 +854,7 @@ export const Integrations = () => {
           <CardHeader>
             <CardTitle>Generated Test Cases ({generatedTestCases.length})</CardTitle>
             <p className="text-sm text-muted-foreground">
-              AI-generated test cases from Jira stories using OpenAI.
+              AI-generated test cases from Jira stories using the project's AI provider.
             </p>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -863,7 +871,12 @@ export const Integrations = () => {
                       <h5 className="text-sm font-medium">Steps:</h5>
                        <ol className="text-sm text-muted-foreground list-decimal list-inside space-y-1">
                          {testCase.steps?.map((step: any, index: number) => (
-                           <li key={index}>{typeof step === 'string' ? step : JSON.stringify(step)}</li>
+                           <li key={index}>
+                             {typeof step === 'string' ? step : step.action || JSON.stringify(step)}
+                             {typeof step !== 'string' && step.expectedResult && (
+                               <span className="block pl-5 text-xs">Expected: {step.expectedResult}</span>
+                             )}
+                           </li>
                          ))}
                        </ol>
                     </div>
@@ -14,9 +14,20 @@ import {
   Target,
   BarChart3,
   Brain,
-  Users
+  Users,
+  PlayCircle,
+  FolderTree,
+  Layers,
+  Network,
+  Bug,
+  Milestone,
+  ScrollText,
+  Trash2,
+  ClipboardCheck
 } from "lucide-react";
 import { useRoles } from "@/hooks/useRoles";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { SearchResult } from "@/lib/search";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -24,25 +35,37 @@ interface LayoutProps {
   onViewChange: (view: string) => void;
   selectedProject?: { id: string; name: string } | null;
   onBackToProjects?: () => void;
+  onSearchSelect?: (result: SearchResult) => void;
 }
 
-export const Layout = ({ children, currentView, onViewChange, selectedProject, onBackToProjects }: LayoutProps) => {
+export const Layout = ({ children, currentView, onViewChange, selectedProject, onBackToProjects, onSearchSelect }: LayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { isAdmin } = useRoles();
 
   const projectNavItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'releases', label: 'Releases', icon: Milestone },
     { id: 'user-stories', label: 'User Stories', icon: FileText },
+    { id: 'ai-review', label: 'AI Review', icon: ClipboardCheck },
     { id: 'test-cases', label: 'Test Cases', icon: TestTube },
+    { id: 'test-suites', label: 'Test Suites', icon: FolderTree },
+    { id: 'shared-steps', label: 'Shared Steps', icon: Layers },
     { id: 'test-plan', label: 'Test Plan', icon: Target },
+    { id: 'test-runs', label: 'Test Runs', icon: PlayCircle },
+    { id: 'traceability', label: 'Traceability', icon: Network },
+    { id: 'defects', label: 'Defects', icon: Bug },
     { id: 'test-report', label: 'Test Report', icon: BarChart3 },
     { id: 'integrations', label: 'Integrations', icon: Settings },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
   ];
 
   const mainNavItems = [
     { id: 'projects', label: 'Projects', icon: FolderOpen },
     { id: 'ai-analytics', label: 'AI Analytics', icon: Brain },
-    ...(isAdmin ? [{ id: 'role-manager', label: 'Role Management', icon: Users }] : []),
+    ...(isAdmin ? [
+      { id: 'role-manager', label: 'Role Management', icon: Users },
+      { id: 'audit-log', label: 'Audit Log', icon: ScrollText }
+    ] : []),
   ];
 
   const navItems = selectedProject ? projectNavItems : mainNavItems;
@@ -91,6 +114,17 @@ export const Layout = ({ children, currentView, onViewChange, selectedProject, o
               </div>
             )}
           </div>
+
+          {onSearchSelect && (
+            <div className="px-4 pb-4">
+              <GlobalSearch
+                onSelect={(result) => {
+                  onSearchSelect(result);
+                  setSidebarOpen(false);
+                }}
+              />
+            </div>
+          )}
           
           <nav className="px-4 space-y-2">
             {navItems.map((item) => {
@@ -0,0 +1,120 @@
+import { Fragment, ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Code spans, bold, italics, links and @[Name](user-id) mentions
+const INLINE_PATTERN = /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\s][^*\n]*\*|_[^_\s][^_\n]*_)|(@\[[^\]]+\]\([0-9a-f-]{36}\))|(\[[^\]\n]+\]\(https?:\/\/[^\s)]+\))/g;
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let index = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) nodes.push(text.slice(lastIndex, start));
+    const [token, code, bold, italic, mention] = match;
+    const key = `${keyPrefix}-${index++}`;
+
+    if (code) {
+      nodes.push(<code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+    } else if (mention) {
+      nodes.push(
+        <span key={key} className="rounded bg-primary/10 px-1 font-medium text-primary">
+          @{mention.slice(2, mention.indexOf(']'))}
+        </span>
+      );
+    } else {
+      const label = token.slice(1, token.indexOf(']('));
+      const href = token.slice(token.indexOf('](') + 2, -1);
+      nodes.push(
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {label}
+        </a>
+      );
+    }
+    lastIndex = start + token.length;
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+};
+
+const renderLines = (lines: string[], keyPrefix: string) =>
+  lines.map((line, index) => (
+    <Fragment key={`${keyPrefix}-${index}`}>
+      {index > 0 && <br />}
+      {renderInline(line, `${keyPrefix}-${index}`)}
+    </Fragment>
+  ));
+
+/**
+ * Renders the small markdown subset used in comments: paragraphs, lists, quotes, code blocks and
+ * inline formatting. Output is built from React elements, so no HTML from the text is ever rendered.
+ */
+export const Markdown = ({ content, className }: MarkdownProps) => {
+  const blocks: ReactNode[] = [];
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">{code.join('\n')}</pre>
+      );
+    } else if (/^\s*([-*]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*]|\d+\.)\s+/.test(lines[i])) {
+        items.push(lines[i++].replace(/^\s*([-*]|\d+\.)\s+/, ''));
+      }
+      const ListTag = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={cn("pl-5", ordered ? "list-decimal" : "list-disc")}>
+          {items.map((item, index) => <li key={index}>{renderInline(item, `${key}-${index}`)}</li>)}
+        </ListTag>
+      );
+    } else if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quote.push(lines[i++].replace(/^>\s?/, ''));
+      }
+      blocks.push(
+        <blockquote key={key} className="border-l-2 pl-3 text-muted-foreground">{renderLines(quote, key)}</blockquote>
+      );
+    } else if (line.trim() === '') {
+      i++;
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() !== '' &&
+        !lines[i].trim().startsWith('```') &&
+        !lines[i].startsWith('>') &&
+        !/^\s*([-*]|\d+\.)\s+/.test(lines[i])
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+    }
+  }
+
+  return <div className={cn("space-y-2 text-sm break-words", className)}>{blocks}</div>;
+};
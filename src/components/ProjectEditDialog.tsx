@@ -9,11 +9,13 @@ import { Edit, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { validateText, sanitizeText } from "@/lib/security";
+import { validateReadableIdKey, formatReadableIdExample, isDuplicateKeyError } from "@/lib/projectKeys";
 import { useRoles } from "@/hooks/useRoles";
 
 interface ProjectEditDialogProps {
   projectId: string;
   projectName: string;
+  projectKey: string;
   projectDescription: string;
   isOpen: boolean;
   onClose: () => void;
@@ -24,6 +26,7 @@ interface ProjectEditDialogProps {
 export const ProjectEditDialog = ({ 
   projectId, 
   projectName, 
+  projectKey,
   projectDescription, 
   isOpen, 
   onClose, 
@@ -31,6 +34,7 @@ export const ProjectEditDialog = ({
   onProjectDeleted 
 }: ProjectEditDialogProps) => {
   const [name, setName] = useState(projectName);
+  const [key, setKey] = useState(projectKey);
   const [description, setDescription] = useState(projectDescription);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -39,8 +43,9 @@ export const ProjectEditDialog = ({
 
   useEffect(() => {
     setName(projectName);
+    setKey(projectKey);
     setDescription(projectDescription);
-  }, [projectName, projectDescription, isOpen]);
+  }, [projectName, projectKey, projectDescription, isOpen]);
 
   const handleSave = async () => {
     // Validate inputs
@@ -54,6 +59,16 @@ export const ProjectEditDialog = ({
       return;
     }
 
+    const keyValidation = validateReadableIdKey(key);
+    if (!keyValidation.isValid) {
+      toast({
+        title: "Error",
+        description: keyValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const descriptionValidation = validateText(description, "Description", 0, 2000, false);
     if (!descriptionValidation.isValid) {
       toast({
@@ -70,6 +85,7 @@ export const ProjectEditDialog = ({
         .from('projects')
         .update({
           name: sanitizeText(name),
+          key,
           description: sanitizeText(description),
           updated_at: new Date().toISOString()
         })
@@ -87,7 +103,9 @@ export const ProjectEditDialog = ({
       console.error('Error updating project:', error);
       toast({
         title: "Error",
-        description: "Failed to update project",
+        description: isDuplicateKeyError(error)
+          ? `The key ${key} is already used by another project or clashes with an existing ID`
+          : "Failed to update project",
         variant: "destructive",
       });
     } finally {
@@ -134,7 +152,7 @@ export const ProjectEditDialog = ({
             Edit Project
           </DialogTitle>
           <DialogDescription>
-            Update project name and description. Changes will be visible immediately.
+            Update project name, key and description. Changes will be visible immediately.
           </DialogDescription>
         </DialogHeader>
 
@@ -149,6 +167,21 @@ export const ProjectEditDialog = ({
               disabled={!isAdmin}
             />
           </div>
+          <div className="grid gap-2">
+            <Label htmlFor="edit-key">Key</Label>
+            <Input
+              id="edit-key"
+              value={key}
+              onChange={(e) => setKey(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10))}
+              className="font-mono"
+              disabled={!isAdmin}
+            />
+            <p className="text-xs text-muted-foreground">
+              {key !== projectKey
+                ? `Saving renumbers generated IDs from ${formatReadableIdExample(projectKey)} to ${formatReadableIdExample(key)}. IDs entered by hand are kept.`
+                : `Prefixes story and test case IDs, e.g. ${formatReadableIdExample(key)}`}
+            </p>
+          </div>
           <div className="grid gap-2">
             <Label htmlFor="edit-description">Description</Label>
             <Textarea
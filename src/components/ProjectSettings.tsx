@@ -171,9 +171,12 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
         }
       }
 
-      // Sanitize settings
+      // Sanitize settings. Sections still holding the placeholder template are not saved, so the
+      // template text never reaches the AI prompts.
       const sanitizedSettings = Object.fromEntries(
-        Object.entries(settings).map(([key, value]) => [key, sanitizeText(value)])
+        Object.entries(settings)
+          .filter(([key, value]) => value.trim() !== defaultSettings[key as keyof MarkdownSettings].trim())
+          .map(([key, value]) => [key, sanitizeText(value)])
       );
 
       const { error } = await supabase
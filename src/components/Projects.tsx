@@ -6,17 +6,22 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Plus, FolderOpen, Calendar, Users, Settings, Edit } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, FolderOpen, Calendar, Users, Settings, Edit, Copy, LayoutTemplate, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { validateText, sanitizeText } from "@/lib/security";
+import { suggestProjectKey, validateReadableIdKey, formatReadableIdExample, isDuplicateKeyError } from "@/lib/projectKeys";
+import { ProjectTemplate, loadProjectTemplates, cloneProject, deleteProjectTemplate } from "@/lib/projectTemplates";
 import { ProjectSettings } from "./ProjectSettings";
 import { ProjectEditDialog } from "./ProjectEditDialog";
+import { CloneProjectDialog } from "./CloneProjectDialog";
 import { useRoles } from "@/hooks/useRoles";
 
 interface Project {
   id: string;
   name: string;
+  key: string;
   description: string;
   created_at: string;
   updated_at: string;
@@ -33,14 +38,22 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [newProject, setNewProject] = useState({ name: "", description: "" });
+  const [newProject, setNewProject] = useState({ name: "", key: "", description: "" });
+  // The key follows the name until it is edited by hand
+  const [isKeyEdited, setIsKeyEdited] = useState(false);
   const [selectedProjectForSettings, setSelectedProjectForSettings] = useState<{ id: string; name: string } | null>(null);
-  const [selectedProjectForEdit, setSelectedProjectForEdit] = useState<{ id: string; name: string; description: string } | null>(null);
+  const [selectedProjectForEdit, setSelectedProjectForEdit] = useState<{ id: string; name: string; key: string; description: string } | null>(null);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  // Template the new project is cloned from, or 'blank'
+  const [startFrom, setStartFrom] = useState("blank");
+  const [cloneSource, setCloneSource] = useState<{ id: string; name: string; description: string } | null>(null);
+  const [cloneAsTemplate, setCloneAsTemplate] = useState(false);
   const { toast } = useToast();
   const { isAdmin, loading: roleLoading } = useRoles();
 
   useEffect(() => {
     fetchProjects();
+    fetchTemplates();
   }, []);
 
   const fetchProjects = async () => {
@@ -50,6 +63,7 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
         .from('projects')
         .select('*')
         .is('deleted_at', null)
+        .eq('is_template', false)
         .order('updated_at', { ascending: false });
 
       if (projectsError) throw projectsError;
@@ -86,6 +100,37 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await loadProjectTemplates());
+    } catch (error) {
+      console.error('Error fetching project templates:', error);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    try {
+      await deleteProjectTemplate(template.id);
+      setTemplates(templates.filter(t => t.id !== template.id));
+      toast({
+        title: "Success",
+        description: `Template "${template.name}" moved to the trash`,
+      });
+    } catch (error) {
+      console.error('Error deleting project template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openCloneDialog = (project: Project, asTemplate: boolean) => {
+    setCloneAsTemplate(asTemplate);
+    setCloneSource({ id: project.id, name: project.name, description: project.description || "" });
+  };
+
   const createProject = async () => {
     // Validate using security utilities
     const nameValidation = validateText(newProject.name, "Project name", 1, 255);
@@ -98,6 +143,16 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
       return;
     }
 
+    const keyValidation = validateReadableIdKey(newProject.key);
+    if (!keyValidation.isValid) {
+      toast({
+        title: "Error",
+        description: keyValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const descriptionValidation = validateText(newProject.description, "Description", 0, 2000, false);
     if (!descriptionValidation.isValid) {
       toast({
@@ -113,20 +168,32 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
     const sanitizedDescription = sanitizeText(newProject.description);
 
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .insert([{
+      if (startFrom !== "blank") {
+        await cloneProject(startFrom, {
           name: sanitizedName,
-          description: sanitizedDescription,
-          created_by: (await supabase.auth.getUser()).data.user?.id
-        }])
-        .select()
-        .single();
+          key: newProject.key,
+          description: sanitizedDescription
+        });
+        await fetchProjects();
+      } else {
+        const { data, error } = await supabase
+          .from('projects')
+          .insert([{
+            name: sanitizedName,
+            key: newProject.key,
+            description: sanitizedDescription,
+            created_by: (await supabase.auth.getUser()).data.user?.id
+          }])
+          .select()
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
 
-      setProjects([data, ...projects]);
-      setNewProject({ name: "", description: "" });
+        setProjects([data, ...projects]);
+      }
+      setNewProject({ name: "", key: "", description: "" });
+      setIsKeyEdited(false);
+      setStartFrom("blank");
       setIsCreateDialogOpen(false);
       toast({
         title: "Success",
@@ -136,7 +203,9 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
       console.error('Error creating project:', error);
       toast({
         title: "Error",
-        description: "Failed to create project",
+        description: isDuplicateKeyError(error)
+          ? `The key ${newProject.key} is already used by another project`
+          : "Failed to create project",
         variant: "destructive",
       });
     }
@@ -186,15 +255,56 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
+              {templates.length > 0 && (
+                <div className="grid gap-2">
+                  <Label htmlFor="start-from">Start From</Label>
+                  <Select value={startFrom} onValueChange={setStartFrom}>
+                    <SelectTrigger id="start-from">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="blank">Blank project</SelectItem>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {startFrom !== "blank" && (
+                    <p className="text-xs text-muted-foreground">
+                      Settings, stories, test cases, suites and shared steps are copied from the template
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="grid gap-2">
                 <Label htmlFor="name">Project Name</Label>
                 <Input
                   id="name"
                   value={newProject.name}
-                  onChange={(e) => setNewProject({ ...newProject, name: e.target.value })}
+                  onChange={(e) => setNewProject({
+                    ...newProject,
+                    name: e.target.value,
+                    key: isKeyEdited ? newProject.key : suggestProjectKey(e.target.value)
+                  })}
                   placeholder="Enter project name..."
                 />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="key">Key</Label>
+                <Input
+                  id="key"
+                  value={newProject.key}
+                  onChange={(e) => {
+                    setIsKeyEdited(true);
+                    setNewProject({ ...newProject, key: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10) });
+                  }}
+                  placeholder="PAY"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Prefixes story and test case IDs, e.g. {formatReadableIdExample(newProject.key)}
+                </p>
+              </div>
               <div className="grid gap-2">
                 <Label htmlFor="description">Description</Label>
                 <Textarea
@@ -249,12 +359,43 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
               <CardHeader>
                 <div className="flex items-start justify-between">
                   <div className="space-y-1">
-                    <CardTitle className="text-lg">{project.name}</CardTitle>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {project.name}
+                      <Badge variant="outline" className="font-mono text-xs">{project.key}</Badge>
+                    </CardTitle>
                     <CardDescription className="line-clamp-2">
                       {project.description || "No description provided"}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-2">
+                    {isAdmin && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Clone project"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openCloneDialog(project, false);
+                          }}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Save as template"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openCloneDialog(project, true);
+                          }}
+                          className="h-8 w-8 p-0"
+                        >
+                          <LayoutTemplate className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                     {isAdmin && (
                       <Button
                         size="sm"
@@ -264,6 +405,7 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
                           setSelectedProjectForEdit({ 
                             id: project.id, 
                             name: project.name, 
+                            key: project.key,
                             description: project.description || "" 
                           });
                         }}
@@ -306,6 +448,61 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
         </div>
       )}
 
+      {isAdmin && templates.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-1">Templates</h2>
+          <p className="text-sm text-muted-foreground mb-4">New projects can start from these</p>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {templates.map((template) => (
+              <Card key={template.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+                        {template.name}
+                      </CardTitle>
+                      <CardDescription className="line-clamp-2">
+                        {template.description || "No description provided"}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Delete template"
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4" />
+                    {new Date(template.createdAt).toLocaleDateString()}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <CloneProjectDialog
+        source={cloneSource}
+        asTemplate={cloneAsTemplate}
+        onClose={() => setCloneSource(null)}
+        onCloned={() => {
+          setCloneSource(null);
+          if (cloneAsTemplate) {
+            fetchTemplates();
+          } else {
+            fetchProjects();
+          }
+        }}
+      />
+
       {selectedProjectForSettings && (
         <ProjectSettings
           projectId={selectedProjectForSettings.id}
@@ -319,6 +516,7 @@ export const Projects = ({ onProjectSelect }: ProjectsProps) => {
         <ProjectEditDialog
           projectId={selectedProjectForEdit.id}
           projectName={selectedProjectForEdit.name}
+          projectKey={selectedProjectForEdit.key}
           projectDescription={selectedProjectForEdit.description}
           isOpen={true}
           onClose={() => setSelectedProjectForEdit(null)}
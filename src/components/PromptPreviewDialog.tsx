@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PromptGenerator,
+  PromptPreview,
+  PROMPT_SETTINGS_LABELS,
+  previewPrompt
+} from "@/lib/promptPreview";
+
+interface PromptPreviewDialogProps {
+  generator: PromptGenerator;
+  // The request the generate button would send; the preview is built when the dialog opens
+  body: Record<string, unknown> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const PromptPreviewDialog = ({ generator, body, open, onOpenChange }: PromptPreviewDialogProps) => {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !body) return;
+
+    const loadPreview = async () => {
+      setIsLoading(true);
+      setPreview(null);
+      try {
+        setPreview(await previewPrompt(generator, body));
+      } catch (error) {
+        console.error('Error previewing prompt:', error);
+        toast({
+          title: "Error",
+          description: "Failed to build the prompt preview",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPreview();
+  }, [open, body, generator]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Prompt Preview</DialogTitle>
+          <DialogDescription>
+            The prompt sent to the AI provider, including the guidance from this project's AI Generation Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[520px] pr-3">
+          {isLoading || !preview ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              {isLoading ? 'Building prompt...' : 'No preview available'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">Project settings included:</span>
+                {preview.sections.length > 0 ? (
+                  preview.sections.map(section => (
+                    <Badge key={section} variant="secondary">{PROMPT_SETTINGS_LABELS[section]}</Badge>
+                  ))
+                ) : (
+                  <Badge variant="outline">None</Badge>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>System Prompt</Label>
+                <pre className="text-xs bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">{preview.prompt.system}</pre>
+              </div>
+              <div className="space-y-2">
+                <Label>User Prompt</Label>
+                <pre className="text-xs bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">{preview.prompt.user}</pre>
+                {!!preview.imageCount && (
+                  <p className="text-xs text-muted-foreground">
+                    {preview.imageCount} uploaded image(s) are sent along with this prompt
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,224 @@
+import { useState, useEffect, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatStepsCell } from "@/lib/testSteps";
+import { SuggestionInput } from "@/lib/suggestions";
+import {
+  RegenerationDiff,
+  ExistingTestCase,
+  MergeField,
+  MERGE_FIELD_LABELS,
+  applyRegenerationMerge
+} from "@/lib/regeneration";
+
+interface RegenerationMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  userStoryId: string;
+  storyTitle: string;
+  diff: RegenerationDiff;
+  onApplied: () => void;
+}
+
+// Cases changed by hand or already executed are only touched when picked explicitly
+const isProtected = (tc: ExistingTestCase) => tc.isEdited || tc.isExecuted;
+
+const ProtectionBadges = ({ testCase }: { testCase: ExistingTestCase }) => (
+  <>
+    {testCase.isEdited && <Badge variant="outline" className="text-[10px]">Edited</Badge>}
+    {testCase.isExecuted && <Badge variant="outline" className="text-[10px]">Executed</Badge>}
+  </>
+);
+
+const formatField = (value: SuggestionInput, field: MergeField) =>
+  field === 'steps' ? formatStepsCell(value.steps) : value[field] as string;
+
+export const RegenerationMergeDialog = ({
+  open,
+  onOpenChange,
+  projectId,
+  userStoryId,
+  storyTitle,
+  diff,
+  onApplied
+}: RegenerationMergeDialogProps) => {
+  const { toast } = useToast();
+  const [addSelected, setAddSelected] = useState<Set<number>>(new Set());
+  const [updateSelected, setUpdateSelected] = useState<Set<string>>(new Set());
+  const [retireSelected, setRetireSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAddSelected(new Set(diff.added.map((_, index) => index)));
+      setUpdateSelected(new Set(diff.changed.filter(c => !isProtected(c.existing)).map(c => c.existing.id)));
+      setRetireSelected(new Set(diff.obsolete.filter(tc => !isProtected(tc)).map(tc => tc.id)));
+    }
+  }, [open, diff]);
+
+  const toggle = <T,>(set: Set<T>, value: T, update: (next: Set<T>) => void) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    update(next);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const selection = {
+        add: diff.added.filter((_, index) => addSelected.has(index)),
+        update: diff.changed.filter(c => updateSelected.has(c.existing.id)),
+        retire: Array.from(retireSelected)
+      };
+      await applyRegenerationMerge(projectId, userStoryId, selection);
+      toast({
+        title: "Regeneration Merged",
+        description: `Added ${selection.add.length}, updated ${selection.update.length} and retired ${selection.retire.length} test cases`,
+      });
+      onApplied();
+    } catch (error) {
+      console.error('Error merging regenerated test cases:', error);
+      toast({
+        title: "Merge Failed",
+        description: "Failed to apply the regenerated test cases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const section = (title: string, description: string, count: number, children: ReactNode) => (
+    <div className="space-y-2">
+      <div>
+        <h4 className="font-medium">{title} ({count})</h4>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      {count === 0 ? <p className="text-sm text-muted-foreground pl-1">None</p> : children}
+    </div>
+  );
+
+  const nothingSelected = addSelected.size === 0 && updateSelected.size === 0 && retireSelected.size === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Merge Regenerated Test Cases</DialogTitle>
+          <DialogDescription>
+            Pick what to add, update or retire for "{storyTitle}". Edited and executed test cases are left alone unless you select them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[520px] pr-3">
+          <div className="space-y-6">
+            {section('New', 'Generated test cases with no matching existing case', diff.added.length, (
+              <div className="space-y-2">
+                {diff.added.map((tc, index) => (
+                  <label key={index} className="flex items-start gap-3 border rounded p-3 cursor-pointer">
+                    <Checkbox
+                      checked={addSelected.has(index)}
+                      onCheckedChange={() => toggle(addSelected, index, setAddSelected)}
+                      className="mt-0.5"
+                    />
+                    <div className="space-y-1 min-w-0">
+                      <div className="font-medium text-sm">{tc.title}</div>
+                      {tc.description && <p className="text-xs text-muted-foreground">{tc.description}</p>}
+                      <p className="text-xs text-muted-foreground">{tc.steps.length} steps · {tc.priority} priority</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))}
+
+            {section('Changed', 'Existing test cases the new generation describes differently', diff.changed.length, (
+              <div className="space-y-2">
+                {diff.changed.map(change => (
+                  <div key={change.existing.id} className="border rounded p-3 space-y-2">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <Checkbox
+                        checked={updateSelected.has(change.existing.id)}
+                        onCheckedChange={() => toggle(updateSelected, change.existing.id, setUpdateSelected)}
+                        className="mt-0.5"
+                      />
+                      <div className="flex flex-wrap items-center gap-2">
+                        {change.existing.readableId && (
+                          <span className="font-mono text-xs text-muted-foreground">{change.existing.readableId}</span>
+                        )}
+                        <span className="font-medium text-sm">{change.existing.title}</span>
+                        <ProtectionBadges testCase={change.existing} />
+                      </div>
+                    </label>
+                    <div className="space-y-2 pl-7">
+                      {change.changedFields.map(field => (
+                        <div key={field} className="grid grid-cols-2 gap-2">
+                          <div className="col-span-2 text-xs font-medium text-muted-foreground">{MERGE_FIELD_LABELS[field]}</div>
+                          <div className="text-xs whitespace-pre-wrap rounded p-2 bg-destructive/10">
+                            {formatField(change.existing, field) || '—'}
+                          </div>
+                          <div className="text-xs whitespace-pre-wrap rounded p-2 bg-success/10">
+                            {formatField(change.generated, field) || '—'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {section('Obsolete', 'Existing test cases the new generation no longer includes. Retired cases move to the trash.', diff.obsolete.length, (
+              <div className="space-y-2">
+                {diff.obsolete.map(tc => (
+                  <label key={tc.id} className="flex items-start gap-3 border rounded p-3 cursor-pointer">
+                    <Checkbox
+                      checked={retireSelected.has(tc.id)}
+                      onCheckedChange={() => toggle(retireSelected, tc.id, setRetireSelected)}
+                      className="mt-0.5"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      {tc.readableId && <span className="font-mono text-xs text-muted-foreground">{tc.readableId}</span>}
+                      <span className="font-medium text-sm">{tc.title}</span>
+                      <ProtectionBadges testCase={tc} />
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))}
+
+            {diff.unchanged.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {diff.unchanged.length} existing test cases match the new generation and stay as they are.
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button variant="gradient" onClick={handleApply} disabled={isApplying || nothingSelected}>
+            {isApplying ? 'Applying...' : 'Apply Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Release, ReleaseReadiness, loadReleaseReadiness, RELEASE_STATUS_LABELS } from "@/lib/releases";
+import { Milestone, AlertTriangle, CheckCircle } from "lucide-react";
+
+interface ReleaseReadinessCardProps {
+  projectId: string;
+  release: Release;
+}
+
+export const ReleaseReadinessCard = ({ projectId, release }: ReleaseReadinessCardProps) => {
+  const [readiness, setReadiness] = useState<ReleaseReadiness | null>(null);
+
+  useEffect(() => {
+    const loadReadiness = async () => {
+      setReadiness(null);
+      try {
+        setReadiness(await loadReleaseReadiness(projectId, release));
+      } catch (error) {
+        console.error('Error loading release readiness:', error);
+      }
+    };
+
+    loadReadiness();
+  }, [projectId, release]);
+
+  const isReady = readiness !== null && readiness.blockers.length === 0;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Milestone className="h-5 w-5 text-primary" />
+            {release.name} Readiness
+          </CardTitle>
+          <div className="flex gap-2">
+            <Badge variant="outline">{RELEASE_STATUS_LABELS[release.status]}</Badge>
+            {readiness && (
+              <Badge className={isReady ? 'bg-success text-success-foreground' : 'bg-warning text-warning-foreground'}>
+                {isReady ? 'Ready' : 'Not Ready'}
+              </Badge>
+            )}
+          </div>
+        </div>
+        {release.targetDate && (
+          <p className="text-sm text-muted-foreground">
+            Target {new Date(`${release.targetDate}T00:00:00`).toLocaleDateString()}
+            {readiness?.daysRemaining !== null && readiness?.daysRemaining !== undefined && (
+              readiness.daysRemaining >= 0
+                ? ` · ${readiness.daysRemaining} days remaining`
+                : ` · ${Math.abs(readiness.daysRemaining)} days overdue`
+            )}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!readiness ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Stories Covered</p>
+                <p className="text-xl font-bold">{readiness.coveredStories}/{readiness.storyCount}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Pass Rate</p>
+                <p className="text-xl font-bold text-success">{readiness.passRate}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Failed / Blocked</p>
+                <p className="text-xl font-bold text-destructive">{readiness.failed} / {readiness.blocked}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Open Defects</p>
+                <p className="text-xl font-bold">{readiness.openDefects}</p>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Execution progress ({readiness.runCount} runs)</span>
+                <span>{readiness.testCaseCount - readiness.notRun}/{readiness.testCaseCount} test cases</span>
+              </div>
+              <Progress value={readiness.executionProgress} />
+            </div>
+            {isReady ? (
+              <p className="flex items-center gap-2 text-sm text-success">
+                <CheckCircle className="h-4 w-4" />
+                All stories are covered and passing with no open critical defects.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {readiness.blockers.map(blocker => (
+                  <li key={blocker} className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <AlertTriangle className="h-4 w-4 text-warning shrink-0" />
+                    {blocker}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
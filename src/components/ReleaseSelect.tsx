@@ -0,0 +1,36 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Release } from "@/lib/releases";
+
+interface ReleaseSelectProps {
+  releases: Release[];
+  value: string;
+  onValueChange: (value: string) => void;
+  // Label of the option that doesn't narrow anything down ("all") or clears the assignment ("none")
+  emptyOption?: { value: 'all' | 'none'; label: string };
+  className?: string;
+  disabled?: boolean;
+}
+
+export const ReleaseSelect = ({
+  releases,
+  value,
+  onValueChange,
+  emptyOption = { value: 'all', label: 'All Releases' },
+  className,
+  disabled
+}: ReleaseSelectProps) => (
+  <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+    <SelectTrigger className={className}>
+      <SelectValue placeholder="Release" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={emptyOption.value}>{emptyOption.label}</SelectItem>
+      {releases.map(release => (
+        <SelectItem key={release.id} value={release.id}>
+          {release.name}
+          {release.status === 'released' && <span className="text-muted-foreground"> (released)</span>}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,343 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ReleaseReadinessCard } from "@/components/ReleaseReadinessCard";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Release,
+  ReleaseInput,
+  ReleaseStatus,
+  RELEASE_STATUS_LABELS,
+  loadReleases,
+  saveRelease,
+  deleteRelease
+} from "@/lib/releases";
+import { Milestone, Plus, Edit, Trash2, Calendar } from "lucide-react";
+
+interface ReleasesProps {
+  projectId: string;
+}
+
+const emptyRelease = (): ReleaseInput => ({
+  name: '',
+  description: '',
+  startDate: null,
+  targetDate: null,
+  status: 'planned'
+});
+
+const getReleaseStatusColor = (status: ReleaseStatus) => {
+  switch (status) {
+    case 'released': return 'bg-success text-success-foreground';
+    case 'in-progress': return 'bg-primary text-primary-foreground';
+    default: return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+export const Releases = ({ projectId }: ReleasesProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [selectedReleaseId, setSelectedReleaseId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ReleaseInput>(emptyRelease());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await loadReleases(projectId);
+      setReleases(loaded);
+      setSelectedReleaseId(prev =>
+        prev && loaded.some(release => release.id === prev)
+          ? prev
+          : (loaded.find(release => release.status !== 'released') || loaded[0])?.id || null
+      );
+    } catch (error) {
+      console.error('Error loading releases:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load releases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setForm(emptyRelease());
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (release: Release) => {
+    setEditingId(release.id);
+    setForm({
+      name: release.name,
+      description: release.description,
+      startDate: release.startDate,
+      targetDate: release.targetDate,
+      status: release.status
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a release name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.startDate && form.targetDate && form.startDate > form.targetDate) {
+      toast({
+        title: "Error",
+        description: "The target date must be on or after the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveRelease(projectId, form, editingId);
+      setShowDialog(false);
+      toast({
+        title: editingId ? "Release Updated" : "Release Created",
+        description: `"${form.name.trim()}" has been saved`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error saving release:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save release. Release names must be unique within a project.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (release: Release) => {
+    try {
+      await deleteRelease(release.id);
+      toast({
+        title: "Release Deleted",
+        description: `"${release.name}" has been deleted. Its stories and runs are no longer assigned to a release.`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error deleting release:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete release",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedRelease = releases.find(release => release.id === selectedReleaseId) || null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Releases</h2>
+          <p className="text-muted-foreground">
+            Plan milestones and track whether they are ready to ship {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <Button variant="gradient" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Release
+        </Button>
+      </div>
+
+      {!isLoading && releases.length === 0 ? (
+        <Card className="shadow-card">
+          <CardContent className="text-center py-12">
+            <Milestone className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">No Releases Yet</h3>
+            <p className="text-muted-foreground">
+              Create a release, then assign user stories and test runs to it.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            {releases.map(release => (
+              <Card
+                key={release.id}
+                className={`shadow-card cursor-pointer transition-all duration-200 hover:shadow-elegant ${selectedReleaseId === release.id ? 'border-primary' : ''}`}
+                onClick={() => setSelectedReleaseId(release.id)}
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{release.name}</p>
+                      {release.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{release.description}</p>
+                      )}
+                    </div>
+                    <Badge className={getReleaseStatusColor(release.status)}>
+                      {RELEASE_STATUS_LABELS[release.status]}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Calendar className="h-3 w-3" />
+                      {release.startDate ? new Date(`${release.startDate}T00:00:00`).toLocaleDateString() : '-'}
+                      {' → '}
+                      {release.targetDate ? new Date(`${release.targetDate}T00:00:00`).toLocaleDateString() : 'No target date'}
+                    </p>
+                    <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEditDialog(release)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive">
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Release</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{release.name}"? Stories and runs assigned to it are kept but unassigned.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(release)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <div className="xl:col-span-2">
+            {selectedRelease && <ReleaseReadinessCard projectId={projectId} release={selectedRelease} />}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Release' : 'New Release'}</DialogTitle>
+            <DialogDescription>
+              Releases group the user stories and test runs that ship together.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="release-name">Name</Label>
+              <Input
+                id="release-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., 2.4"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="release-description">Description (Optional)</Label>
+              <Textarea
+                id="release-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="release-start">Start Date</Label>
+                <Input
+                  id="release-start"
+                  type="date"
+                  value={form.startDate || ''}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value || null })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="release-target">Target Date</Label>
+                <Input
+                  id="release-target"
+                  type="date"
+                  value={form.targetDate || ''}
+                  onChange={(e) => setForm({ ...form, targetDate: e.target.value || null })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as ReleaseStatus })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RELEASE_STATUS_LABELS) as ReleaseStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{RELEASE_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {editingId ? 'Save Changes' : 'Create Release'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
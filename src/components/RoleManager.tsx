@@ -70,6 +70,7 @@ const RoleManager = () => {
       const { data: projects, error } = await supabase
         .from('projects')
         .select('id, name')
+        .eq('is_template', false)
         .order('name');
 
       if (error) throw error;
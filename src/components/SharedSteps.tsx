@@ -0,0 +1,340 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { TestStepsEditor } from "@/components/TestStepsEditor";
+import { TestStep, emptyTestStep } from "@/lib/testSteps";
+import { SharedStep, loadSharedSteps, saveSharedStepItems } from "@/lib/sharedSteps";
+import { Plus, Edit, Trash2, Layers, Search } from "lucide-react";
+
+interface SharedStepsProps {
+  projectId: string;
+}
+
+export const SharedSteps = ({ projectId }: SharedStepsProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Create / edit dialog state
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<{ name: string; description: string; items: TestStep[] }>({
+    name: '',
+    description: '',
+    items: []
+  });
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      setSharedSteps(await loadSharedSteps(projectId));
+    } catch (error) {
+      console.error('Error loading shared steps:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load shared steps",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const filteredSharedSteps = sharedSteps.filter(sharedStep =>
+    sharedStep.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    sharedStep.description.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setForm({ name: '', description: '', items: [emptyTestStep()] });
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (sharedStep: SharedStep) => {
+    setEditingId(sharedStep.id);
+    setForm({ name: sharedStep.name, description: sharedStep.description, items: sharedStep.items });
+    setShowDialog(true);
+  };
+
+  const saveSharedStep = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name for the shared step",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!form.items.some(item => item.action.trim())) {
+      toast({
+        title: "Error",
+        description: "A shared step needs at least one step",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let sharedStepId = editingId;
+      if (sharedStepId) {
+        const { error } = await supabase
+          .from('shared_steps')
+          .update({ name: form.name.trim(), description: form.description.trim() || null })
+          .eq('id', sharedStepId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('shared_steps')
+          .insert({
+            project_id: projectId,
+            name: form.name.trim(),
+            description: form.description.trim() || null,
+            created_by: session?.user?.id
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        sharedStepId = data.id;
+      }
+
+      await saveSharedStepItems(sharedStepId, form.items);
+
+      const usageCount = sharedSteps.find(sharedStep => sharedStep.id === sharedStepId)?.usageCount || 0;
+      setShowDialog(false);
+      await loadData();
+      toast({
+        title: editingId ? "Shared Step Updated" : "Shared Step Created",
+        description: usageCount > 0
+          ? `"${form.name.trim()}" was saved and ${usageCount} referencing test case step(s) now use the new version`
+          : `"${form.name.trim()}" has been saved`,
+      });
+    } catch (error) {
+      console.error('Error saving shared step:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save shared step",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSharedStep = async (sharedStep: SharedStep) => {
+    try {
+      const { error } = await supabase
+        .from('shared_steps')
+        .delete()
+        .eq('id', sharedStep.id);
+
+      if (error) throw error;
+
+      setSharedSteps(prev => prev.filter(s => s.id !== sharedStep.id));
+      toast({
+        title: "Shared Step Deleted",
+        description: `"${sharedStep.name}" has been deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting shared step:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete shared step",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Shared Steps</h2>
+          <p className="text-muted-foreground">
+            Reusable step blocks such as login or checkout that test cases reference instead of copying {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <Button variant="gradient" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Shared Step
+        </Button>
+      </div>
+
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search shared steps..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {filteredSharedSteps.length === 0 && !isLoading ? (
+        <Card className="shadow-card">
+          <CardContent className="text-center py-12">
+            <Layers className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {sharedSteps.length === 0
+                ? 'No shared steps yet. Create one and insert it into test cases from the step editor.'
+                : 'No shared steps match your search.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {filteredSharedSteps.map(sharedStep => (
+            <Card key={sharedStep.id} className="shadow-card">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{sharedStep.name}</CardTitle>
+                    {sharedStep.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{sharedStep.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge variant="secondary" className="text-xs">
+                      Used {sharedStep.usageCount} time{sharedStep.usageCount === 1 ? '' : 's'}
+                    </Badge>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEditDialog(sharedStep)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                          disabled={sharedStep.usageCount > 0}
+                          title={sharedStep.usageCount > 0 ? 'Remove it from all test cases before deleting' : 'Delete'}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Shared Step</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{sharedStep.name}"? This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteSharedStep(sharedStep)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ol className="text-xs space-y-1">
+                  {sharedStep.items.map((item, index) => (
+                    <li key={item.id || index} className="flex gap-2">
+                      <span className="font-mono text-muted-foreground">{index + 1}.</span>
+                      <div>
+                        <span>{item.action}</span>
+                        {item.expectedResult && (
+                          <p className="text-muted-foreground">Expected: {item.expectedResult}</p>
+                        )}
+                        {item.testData && (
+                          <p className="text-muted-foreground">Data: {item.testData}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Shared Step Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Shared Step' : 'Create Shared Step'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to every test case that references this block.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="shared-step-name">Name</Label>
+              <Input
+                id="shared-step-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Log in as standard user"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shared-step-description">Description (Optional)</Label>
+              <Textarea
+                id="shared-step-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              <TestStepsEditor steps={form.items} onChange={(items) => setForm({ ...form, items })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveSharedStep} disabled={isSaving}>
+              {editingId ? 'Save Changes' : 'Create Shared Step'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,593 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TestStepsEditor } from "@/components/TestStepsEditor";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  TestCaseSuggestion,
+  SuggestionInput,
+  RejectionCategory,
+  REJECTION_CATEGORY_LABELS,
+  loadSuggestions,
+  updateSuggestion,
+  approveSuggestion,
+  rejectSuggestion
+} from "@/lib/suggestions";
+import { SharedStep, loadSharedSteps } from "@/lib/sharedSteps";
+import { ProjectMember, loadProjectMembers } from "@/lib/customFields";
+import { ClipboardCheck, Check, X, Edit3, Save, CheckCheck, Copy } from "lucide-react";
+
+interface SuggestionReviewProps {
+  projectId: string;
+}
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return 'bg-destructive text-destructive-foreground';
+    case 'medium': return 'bg-warning text-warning-foreground';
+    case 'low': return 'bg-success text-success-foreground';
+    default: return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+const toInput = (suggestion: TestCaseSuggestion): SuggestionInput => ({
+  title: suggestion.title,
+  description: suggestion.description,
+  expectedResult: suggestion.expectedResult,
+  testData: suggestion.testData,
+  priority: suggestion.priority,
+  steps: suggestion.steps
+});
+
+export const SuggestionReview = ({ projectId }: SuggestionReviewProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [pending, setPending] = useState<TestCaseSuggestion[]>([]);
+  const [reviewed, setReviewed] = useState<TestCaseSuggestion[]>([]);
+  const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([]);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [workingIds, setWorkingIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<SuggestionInput | null>(null);
+  const [rejecting, setRejecting] = useState<TestCaseSuggestion | null>(null);
+  const [rejectCategory, setRejectCategory] = useState<RejectionCategory>('incorrect');
+  const [rejectReason, setRejectReason] = useState('');
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [loadedPending, loadedReviewed, loadedSharedSteps, loadedMembers] = await Promise.all([
+        loadSuggestions(projectId, ['pending']),
+        loadSuggestions(projectId, ['approved', 'rejected']),
+        loadSharedSteps(projectId),
+        loadProjectMembers(projectId)
+      ]);
+      setPending(loadedPending);
+      setReviewed(loadedReviewed);
+      setSharedSteps(loadedSharedSteps);
+      setMembers(loadedMembers);
+    } catch (error) {
+      console.error('Error loading test case suggestions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test case suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const setWorking = (id: string, working: boolean) => {
+    setWorkingIds(prev => {
+      const next = new Set(prev);
+      if (working) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const markReviewed = (suggestion: TestCaseSuggestion, changes: Partial<TestCaseSuggestion>) => {
+    setPending(prev => prev.filter(s => s.id !== suggestion.id));
+    setReviewed(prev => [{ ...suggestion, ...changes, reviewedBy: session?.user?.id || null, reviewedAt: new Date().toISOString() }, ...prev]);
+  };
+
+  const approve = async (suggestion: TestCaseSuggestion, edits?: SuggestionInput) => {
+    setWorking(suggestion.id, true);
+    try {
+      if (edits) {
+        await updateSuggestion(suggestion.id, edits);
+      }
+      const testCaseId = await approveSuggestion(suggestion.id);
+      markReviewed({ ...suggestion, ...edits }, { status: 'approved', testCaseId, wasEdited: suggestion.wasEdited || !!edits });
+      setEditingId(null);
+      return true;
+    } catch (error) {
+      console.error('Error approving suggestion:', error);
+      toast({
+        title: "Approval Failed",
+        description: `Failed to approve "${suggestion.title}"`,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setWorking(suggestion.id, false);
+    }
+  };
+
+  const handleApprove = async (suggestion: TestCaseSuggestion, edits?: SuggestionInput) => {
+    if (await approve(suggestion, edits)) {
+      toast({
+        title: "Test Case Approved",
+        description: `"${edits?.title || suggestion.title}" is now an active test case`,
+      });
+    }
+  };
+
+  const handleApproveAll = async (suggestions: TestCaseSuggestion[]) => {
+    let approved = 0;
+    for (const suggestion of suggestions) {
+      if (await approve(suggestion)) approved++;
+    }
+    if (approved > 0) {
+      toast({
+        title: "Test Cases Approved",
+        description: `${approved} test cases are now active`,
+      });
+    }
+  };
+
+  const handleSaveEdit = async (suggestion: TestCaseSuggestion) => {
+    if (!editForm?.title.trim()) return;
+    setWorking(suggestion.id, true);
+    try {
+      await updateSuggestion(suggestion.id, editForm);
+      setPending(prev => prev.map(s => (s.id === suggestion.id ? { ...s, ...editForm, wasEdited: true } : s)));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating suggestion:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the suggestion",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(suggestion.id, false);
+    }
+  };
+
+  const openRejectDialog = (suggestion: TestCaseSuggestion) => {
+    setRejecting(suggestion);
+    setRejectCategory(suggestion.duplicateOf ? 'duplicate' : 'incorrect');
+    setRejectReason('');
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (rejectCategory === 'other' && !rejectReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Please describe why the suggestion is rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const suggestion = rejecting;
+    setWorking(suggestion.id, true);
+    try {
+      await rejectSuggestion(suggestion.id, rejectCategory, rejectReason);
+      markReviewed(suggestion, {
+        status: 'rejected',
+        rejectionCategory: rejectCategory,
+        rejectionReason: rejectReason.trim() || null
+      });
+      setRejecting(null);
+    } catch (error) {
+      console.error('Error rejecting suggestion:', error);
+      toast({
+        title: "Rejection Failed",
+        description: `Failed to reject "${suggestion.title}"`,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(suggestion.id, false);
+    }
+  };
+
+  const getMemberName = (userId: string | null) =>
+    userId ? members.find(member => member.userId === userId)?.name || 'Unknown user' : '-';
+
+  const storyGroups = pending.reduce<{ storyId: string; storyTitle: string; suggestions: TestCaseSuggestion[] }[]>((groups, suggestion) => {
+    const group = groups.find(g => g.storyId === suggestion.userStoryId);
+    if (group) {
+      group.suggestions.push(suggestion);
+    } else {
+      groups.push({ storyId: suggestion.userStoryId, storyTitle: suggestion.userStoryTitle, suggestions: [suggestion] });
+    }
+    return groups;
+  }, []);
+
+  const rejected = reviewed.filter(s => s.status === 'rejected');
+  const approved = reviewed.filter(s => s.status === 'approved');
+
+  const renderSuggestion = (suggestion: TestCaseSuggestion) => {
+    const isWorking = workingIds.has(suggestion.id);
+
+    if (editingId === suggestion.id && editForm) {
+      return (
+        <div key={suggestion.id} className="border rounded p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-3 space-y-1">
+              <Label htmlFor={`suggestion-title-${suggestion.id}`}>Title</Label>
+              <Input
+                id={`suggestion-title-${suggestion.id}`}
+                value={editForm.title}
+                onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Priority</Label>
+              <Select
+                value={editForm.priority}
+                onValueChange={(value) => setEditForm({ ...editForm, priority: value as SuggestionInput['priority'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`suggestion-description-${suggestion.id}`}>Description</Label>
+            <Textarea
+              id={`suggestion-description-${suggestion.id}`}
+              value={editForm.description}
+              onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Steps</Label>
+            <TestStepsEditor
+              steps={editForm.steps}
+              onChange={(steps) => setEditForm({ ...editForm, steps })}
+              sharedSteps={sharedSteps}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`suggestion-expected-${suggestion.id}`}>Expected Result</Label>
+              <Textarea
+                id={`suggestion-expected-${suggestion.id}`}
+                value={editForm.expectedResult}
+                onChange={(e) => setEditForm({ ...editForm, expectedResult: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`suggestion-data-${suggestion.id}`}>Test Data</Label>
+              <Textarea
+                id={`suggestion-data-${suggestion.id}`}
+                value={editForm.testData}
+                onChange={(e) => setEditForm({ ...editForm, testData: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={isWorking}>
+              <X className="mr-2 h-3 w-3" />
+              Cancel
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleSaveEdit(suggestion)} disabled={isWorking || !editForm.title.trim()}>
+              <Save className="mr-2 h-3 w-3" />
+              Save
+            </Button>
+            <Button size="sm" onClick={() => handleApprove(suggestion, editForm)} disabled={isWorking || !editForm.title.trim()}>
+              <Check className="mr-2 h-3 w-3" />
+              Save & Approve
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={suggestion.id} className="border rounded p-4 space-y-2">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-medium">{suggestion.title}</h4>
+              <Badge className={getPriorityColor(suggestion.priority)}>{suggestion.priority}</Badge>
+              {suggestion.wasEdited && <Badge variant="outline">Edited</Badge>}
+              {suggestion.duplicateOf && (
+                <Badge variant="outline" className="border-warning text-warning" title={suggestion.duplicateOf.title}>
+                  <Copy className="mr-1 h-3 w-3" />
+                  Possible duplicate of {suggestion.duplicateOf.readableId || suggestion.duplicateOf.title} ({Math.round(suggestion.duplicateOf.score * 100)}%)
+                </Badge>
+              )}
+            </div>
+            {suggestion.description && <p className="text-sm text-muted-foreground">{suggestion.description}</p>}
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button
+              size="sm"
+              className="bg-success text-success-foreground hover:bg-success/90"
+              onClick={() => handleApprove(suggestion)}
+              disabled={isWorking}
+            >
+              <Check className="mr-1 h-3 w-3" />
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditingId(suggestion.id);
+                setEditForm(toInput(suggestion));
+              }}
+              disabled={isWorking}
+            >
+              <Edit3 className="mr-1 h-3 w-3" />
+              Edit
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => openRejectDialog(suggestion)}
+              disabled={isWorking}
+            >
+              <X className="mr-1 h-3 w-3" />
+              Reject
+            </Button>
+          </div>
+        </div>
+        {suggestion.steps.length > 0 && (
+          <ol className="text-xs space-y-1 list-decimal pl-5">
+            {suggestion.steps.map((step, index) => (
+              <li key={index}>
+                {step.action}
+                {step.expectedResult && <span className="text-muted-foreground"> — {step.expectedResult}</span>}
+                {step.testData && <span className="text-muted-foreground"> (data: {step.testData})</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+        {suggestion.expectedResult && (
+          <p className="text-xs"><span className="font-medium">Expected:</span> {suggestion.expectedResult}</p>
+        )}
+        {suggestion.testData && (
+          <p className="text-xs"><span className="font-medium">Test Data:</span> {suggestion.testData}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">AI Review</h2>
+        <p className="text-muted-foreground">
+          Approve, edit or reject AI-generated test cases before they become active {isLoading && '(Loading...)'}
+        </p>
+      </div>
+
+      <Tabs defaultValue="pending">
+        <TabsList>
+          <TabsTrigger value="pending">Pending ({pending.length})</TabsTrigger>
+          <TabsTrigger value="rejected">Rejected ({rejected.length})</TabsTrigger>
+          <TabsTrigger value="approved">Approved ({approved.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="pending" className="space-y-4">
+          {!isLoading && storyGroups.length === 0 ? (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <ClipboardCheck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">Nothing to Review</h3>
+                <p className="text-muted-foreground">
+                  Test cases generated from user stories show up here for review.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            storyGroups.map(group => (
+              <Card key={group.storyId} className="shadow-card">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{group.storyTitle}</CardTitle>
+                    <p className="text-sm text-muted-foreground">{group.suggestions.length} suggestions</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleApproveAll(group.suggestions)}
+                    disabled={group.suggestions.some(s => workingIds.has(s.id))}
+                  >
+                    <CheckCheck className="mr-2 h-3 w-3" />
+                    Approve All
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {group.suggestions.map(renderSuggestion)}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="rejected">
+          <Card className="shadow-card">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Suggestion</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Custom Prompt</TableHead>
+                    <TableHead>Reviewed By</TableHead>
+                    <TableHead>Reviewed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rejected.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        No rejected suggestions
+                      </TableCell>
+                    </TableRow>
+                  ) : rejected.map(suggestion => (
+                    <TableRow key={suggestion.id}>
+                      <TableCell className="max-w-64">
+                        <div className="truncate font-medium" title={suggestion.title}>{suggestion.title}</div>
+                        <div className="truncate text-xs text-muted-foreground">{suggestion.userStoryTitle}</div>
+                      </TableCell>
+                      <TableCell className="max-w-72">
+                        {suggestion.rejectionCategory && (
+                          <Badge variant="outline">{REJECTION_CATEGORY_LABELS[suggestion.rejectionCategory]}</Badge>
+                        )}
+                        {suggestion.rejectionReason && (
+                          <p className="text-xs text-muted-foreground mt-1">{suggestion.rejectionReason}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-48">
+                        <div className="truncate text-xs text-muted-foreground" title={suggestion.customPrompt || ''}>
+                          {suggestion.customPrompt || '-'}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{getMemberName(suggestion.reviewedBy)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {suggestion.reviewedAt ? new Date(suggestion.reviewedAt).toLocaleString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="approved">
+          <Card className="shadow-card">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Test Case</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Reviewed By</TableHead>
+                    <TableHead>Reviewed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {approved.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                        No approved suggestions
+                      </TableCell>
+                    </TableRow>
+                  ) : approved.map(suggestion => (
+                    <TableRow key={suggestion.id}>
+                      <TableCell className="max-w-72">
+                        <div className="truncate font-medium" title={suggestion.title}>{suggestion.title}</div>
+                        <div className="truncate text-xs text-muted-foreground">{suggestion.userStoryTitle}</div>
+                      </TableCell>
+                      <TableCell>
+                        {suggestion.wasEdited
+                          ? <Badge variant="outline">Edited before approval</Badge>
+                          : <span className="text-sm text-muted-foreground">Accepted as generated</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{getMemberName(suggestion.reviewedBy)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {suggestion.reviewedAt ? new Date(suggestion.reviewedAt).toLocaleString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Reject Suggestion</DialogTitle>
+            <DialogDescription>
+              "{rejecting?.title}" will not become a test case. The reason is kept to improve future generations.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={rejectCategory} onValueChange={(value) => setRejectCategory(value as RejectionCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REJECTION_CATEGORY_LABELS) as RejectionCategory[]).map(category => (
+                    <SelectItem key={category} value={category}>{REJECTION_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reject-reason">Details {rejectCategory !== 'other' && '(optional)'}</Label>
+              <Textarea
+                id="reject-reason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="What was wrong with this test case?"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!!rejecting && workingIds.has(rejecting.id)}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
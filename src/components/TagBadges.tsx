@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import { Tag } from "lucide-react";
+
+interface TagBadgesProps {
+  tags: string[];
+  // Clicking a tag narrows the list down to it
+  onTagClick?: (tag: string) => void;
+  className?: string;
+}
+
+export const TagBadges = ({ tags, onTagClick, className }: TagBadgesProps) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className || ''}`}>
+      <Tag className="h-3 w-3 text-muted-foreground" />
+      {tags.map(tag => (
+        <Badge
+          key={tag}
+          variant="outline"
+          className={`text-[10px] px-1.5 py-0 ${onTagClick ? 'cursor-pointer hover:bg-muted' : ''}`}
+          onClick={onTagClick ? (e) => {
+            e.stopPropagation();
+            onTagClick(tag);
+          } : undefined}
+        >
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+};
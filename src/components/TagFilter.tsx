@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tag } from "lucide-react";
+
+interface TagFilterProps {
+  // Tags to choose from, usually collectTags() of the list being filtered
+  tags: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  className?: string;
+}
+
+export const TagFilter = ({ tags, selected, onChange, className }: TagFilterProps) => {
+  if (tags.length === 0 && selected.length === 0) return null;
+
+  const toggleTag = (tag: string) => onChange(
+    selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag]
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={className}>
+          <Tag className="mr-2 h-4 w-4" />
+          Tags
+          {selected.length > 0 && (
+            <Badge variant="secondary" className="ml-2">{selected.length}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-2" align="end">
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {Array.from(new Set([...selected, ...tags])).map(tag => (
+            <label key={tag} className="flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer hover:bg-muted/50">
+              <Checkbox checked={selected.includes(tag)} onCheckedChange={() => toggleTag(tag)} />
+              {tag}
+            </label>
+          ))}
+        </div>
+        {selected.length > 0 && (
+          <div className="border-t mt-2 pt-2 flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Matches all selected tags</span>
+            <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { normalizeTag, normalizeTags } from "@/lib/tags";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already used in the project, offered while typing
+  suggestions?: string[];
+  placeholder?: string;
+  id?: string;
+}
+
+export const TagInput = ({ tags, onChange, suggestions = [], placeholder = 'Add tag...', id }: TagInputProps) => {
+  const [draft, setDraft] = useState('');
+
+  const addTags = (value: string) => {
+    const added = value.split(',').map(normalizeTag).filter(Boolean);
+    if (added.length > 0) {
+      onChange(normalizeTags([...tags, ...added]));
+    }
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter(t => t !== tag));
+
+  const matchingSuggestions = draft.trim()
+    ? suggestions.filter(tag => tag.includes(normalizeTag(draft)) && !tags.includes(tag)).slice(0, 6)
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input px-2 py-1 min-h-10">
+        {tags.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="rounded-full hover:text-destructive"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              e.stopPropagation();
+              addTags(draft);
+            } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+              removeTag(tags[tags.length - 1]);
+            }
+          }}
+          onBlur={() => draft.trim() && addTags(draft)}
+          placeholder={tags.length === 0 ? placeholder : ''}
+          className="h-7 flex-1 min-w-24 border-0 px-1 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {matchingSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matchingSuggestions.map(tag => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer hover:bg-muted"
+              onMouseDown={(e) => {
+                // Keep the input from adding the half-typed draft on blur
+                e.preventDefault();
+                addTags(tag);
+              }}
+            >
+              + {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
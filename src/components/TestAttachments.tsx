@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  TestAttachment,
+  uploadAttachment,
+  loadAttachments,
+  deleteAttachment,
+  getAttachmentUrls,
+  isImageAttachment,
+  formatFileSize
+} from "@/lib/attachments";
+import { Paperclip, Upload, FileText, Trash2, ClipboardPaste } from "lucide-react";
+
+interface TestAttachmentsProps {
+  projectId: string;
+  testCaseId: string;
+  // When set, attachments are recorded against this run result instead of the test case itself
+  testRunResultId?: string;
+  editable?: boolean;
+}
+
+export const TestAttachments = ({ projectId, testCaseId, testRunResultId, editable = true }: TestAttachmentsProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<TestAttachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [isUploading, setIsUploading] = useState(false);
+
+  const refresh = async () => {
+    try {
+      const loaded = testRunResultId
+        ? await loadAttachments({ testRunResultIds: [testRunResultId] })
+        : (await loadAttachments({ testCaseIds: [testCaseId] })).filter(attachment => !attachment.testRunResultId);
+      setAttachments(loaded);
+      setUrls(await getAttachmentUrls(loaded));
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [testCaseId, testRunResultId]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0 || !session?.user?.id) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        await uploadAttachment({
+          projectId,
+          testCaseId,
+          testRunResultId,
+          file,
+          uploadedBy: session.user.id
+        });
+      }
+      await refresh();
+      toast({
+        title: "Evidence Uploaded",
+        description: `${files.length} file${files.length === 1 ? '' : 's'} attached`,
+      });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload attachment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    if (!editable) return;
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return;
+
+    event.preventDefault();
+    // Pasted screenshots arrive as "image.png"; give them a distinguishable name
+    uploadFiles(files.map(file =>
+      file.name === 'image.png'
+        ? new File([file], `screenshot-${new Date().toISOString().replace(/[:.]/g, '-')}.png`, { type: file.type })
+        : file
+    ));
+  };
+
+  const removeAttachment = async (attachment: TestAttachment) => {
+    try {
+      await deleteAttachment(attachment);
+      setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete attachment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!editable && attachments.length === 0) return null;
+
+  return (
+    <div
+      className="space-y-2 rounded border border-dashed p-2 focus:outline-none focus:ring-1 focus:ring-primary"
+      tabIndex={editable ? 0 : undefined}
+      onPaste={handlePaste}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <Paperclip className="h-3 w-3" />
+          Evidence ({attachments.length})
+        </h4>
+        {editable && (
+          <div className="flex items-center gap-2">
+            <span className="hidden md:flex items-center gap-1 text-xs text-muted-foreground">
+              <ClipboardPaste className="h-3 w-3" />
+              Click here and paste a screenshot
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              <Upload className="mr-2 h-3 w-3" />
+              {isUploading ? 'Uploading...' : 'Attach'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,.log,.txt,.har,.json,.zip,.pdf"
+              className="hidden"
+              onChange={(e) => uploadFiles(Array.from(e.target.files || []))}
+            />
+          </div>
+        )}
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="group relative w-28 border rounded bg-background overflow-hidden">
+              <a href={urls[attachment.filePath]} target="_blank" rel="noopener noreferrer" title={attachment.fileName}>
+                {isImageAttachment(attachment) && urls[attachment.filePath] ? (
+                  <img src={urls[attachment.filePath]} alt={attachment.fileName} className="h-20 w-full object-cover" />
+                ) : (
+                  <div className="h-20 flex items-center justify-center bg-muted">
+                    <FileText className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="px-1 py-0.5">
+                  <p className="text-xs truncate">{attachment.fileName}</p>
+                  <p className="text-[10px] text-muted-foreground">{formatFileSize(attachment.fileSize)}</p>
+                </div>
+              </a>
+              {editable && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  onClick={() => removeAttachment(attachment)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { TestDataTable, normalizeDataTable, formatDataTableCell } from "@/lib/dataTables";
+import { History, RotateCcw } from "lucide-react";
+
+interface RevisionStep {
+  action: string;
+  expected_result: string | null;
+  test_data: string | null;
+}
+
+interface Revision {
+  id: string;
+  revisionNumber: number;
+  title: string;
+  description: string;
+  steps: RevisionStep[];
+  expectedResult: string;
+  testData: string;
+  dataTable: TestDataTable | null;
+  priority: string;
+  changedFields: string[];
+  note: string | null;
+  changedByName: string | null;
+  createdAt: string;
+}
+
+interface TestCaseHistoryProps {
+  testCaseId: string;
+  testCaseTitle: string;
+  onRestored?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  created: 'Created',
+  title: 'Title',
+  description: 'Description',
+  steps: 'Steps',
+  expected_result: 'Expected Result',
+  test_data: 'Test Data',
+  data_table: 'Data Table',
+  priority: 'Priority'
+};
+
+const formatStep = (step?: RevisionStep) => {
+  if (!step) return '';
+  return [
+    step.action,
+    step.expected_result ? `Expected: ${step.expected_result}` : '',
+    step.test_data ? `Data: ${step.test_data}` : ''
+  ].filter(Boolean).join('\n');
+};
+
+export const TestCaseHistory = ({ testCaseId, testCaseTitle, onRestored }: TestCaseHistoryProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('test_case_revisions')
+        .select('*')
+        .eq('test_case_id', testCaseId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+
+      const transformed: Revision[] = (data || []).map(revision => ({
+        id: revision.id,
+        revisionNumber: revision.revision_number,
+        title: revision.title,
+        description: revision.description || '',
+        steps: (revision.steps as unknown as RevisionStep[]) || [],
+        expectedResult: revision.expected_result || '',
+        testData: revision.test_data || '',
+        dataTable: normalizeDataTable(revision.data_table),
+        priority: revision.priority || '',
+        changedFields: revision.changed_fields || [],
+        note: revision.note,
+        changedByName: revision.changed_by_name,
+        createdAt: revision.created_at
+      }));
+
+      setRevisions(transformed);
+      setSelectedRevisionId(transformed[0]?.id || null);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load revision history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, testCaseId]);
+
+  const restoreRevision = async (revision: Revision) => {
+    setIsRestoring(true);
+    try {
+      const { error } = await supabase.rpc('restore_test_case_revision', { _revision_id: revision.id });
+      if (error) throw error;
+
+      toast({
+        title: "Revision Restored",
+        description: `"${testCaseTitle}" was restored to revision ${revision.revisionNumber}`,
+      });
+      await loadRevisions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore this revision",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedRevisionId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are sorted newest first, so the previous revision is the next entry
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+
+  const renderFieldDiff = (label: string, field: string, before: string, after: string) => {
+    const changed = previous ? before !== after : false;
+    return (
+      <div key={field} className="grid grid-cols-2 gap-2">
+        <div className="col-span-2 text-xs font-medium text-muted-foreground">{label}</div>
+        <div className={`text-xs whitespace-pre-wrap rounded p-2 min-h-[32px] ${changed ? 'bg-destructive/10 line-through decoration-destructive/50' : 'bg-muted/40'}`}>
+          {previous ? before || '—' : ''}
+        </div>
+        <div className={`text-xs whitespace-pre-wrap rounded p-2 min-h-[32px] ${changed ? 'bg-success/10' : 'bg-muted/40'}`}>
+          {after || '—'}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="mr-2 h-3 w-3" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[1000px]">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>
+            Every change to "{testCaseTitle}" is kept. Select a revision to compare it with the one before.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No revisions recorded yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <ScrollArea className="h-[480px] md:col-span-1 border rounded">
+              <div className="divide-y">
+                {revisions.map(revision => (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedRevisionId(revision.id)}
+                    className={`w-full text-left p-3 space-y-1 hover:bg-muted/50 ${revision.id === selectedRevisionId ? 'bg-primary/10' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Revision {revision.revisionNumber}</span>
+                      {revision === revisions[0] && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {revision.changedByName || 'System'} · {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {revision.changedFields.map(field => (
+                        <Badge key={field} variant="outline" className="text-[10px]">
+                          {FIELD_LABELS[field] || field}
+                        </Badge>
+                      ))}
+                    </div>
+                    {revision.note && <p className="text-xs italic text-muted-foreground">{revision.note}</p>}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="md:col-span-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="grid grid-cols-2 gap-2 flex-1 text-sm font-medium">
+                    <span>{previous ? `Revision ${previous.revisionNumber}` : 'No earlier revision'}</span>
+                    <span>Revision {selected.revisionNumber}</span>
+                  </div>
+                  {selected !== revisions[0] && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={isRestoring}>
+                          <RotateCcw className="mr-2 h-3 w-3" />
+                          Restore
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Restore Revision {selected.revisionNumber}</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The test case will be updated to match this revision. The current version stays in the history.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => restoreRevision(selected)}>
+                            Restore
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+
+                <ScrollArea className="h-[440px] pr-3">
+                  <div className="space-y-3">
+                    {renderFieldDiff('Title', 'title', previous?.title || '', selected.title)}
+                    {renderFieldDiff('Priority', 'priority', previous?.priority || '', selected.priority)}
+                    {renderFieldDiff('Description', 'description', previous?.description || '', selected.description)}
+                    {Array.from({ length: Math.max(selected.steps.length, previous?.steps.length || 0) }).map((_, index) =>
+                      renderFieldDiff(
+                        `Step ${index + 1}`,
+                        `step-${index}`,
+                        formatStep(previous?.steps[index]),
+                        formatStep(selected.steps[index])
+                      )
+                    )}
+                    {renderFieldDiff('Expected Result', 'expected_result', previous?.expectedResult || '', selected.expectedResult)}
+                    {renderFieldDiff('Test Data', 'test_data', previous?.testData || '', selected.testData)}
+                    {renderFieldDiff('Data Table', 'data_table', formatDataTableCell(previous?.dataTable), formatDataTableCell(selected.dataTable))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,9 +5,66 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useCommentSummaries } from "@/hooks/useCommentSummaries";
 import { supabase } from "@/integrations/supabase/client";
+import { TestStepsEditor } from "@/components/TestStepsEditor";
+import { TestDataTableEditor } from "@/components/TestDataTableEditor";
+import { SharedStep, loadSharedSteps, expandSteps } from "@/lib/sharedSteps";
+import { TestAttachments } from "@/components/TestAttachments";
+import { TestCaseHistory } from "@/components/TestCaseHistory";
+import { CommentsButton } from "@/components/Comments";
+import { CustomFieldsDialog } from "@/components/CustomFieldsDialog";
+import { CustomFieldInputs } from "@/components/CustomFieldInputs";
+import { CustomFieldFilterSelect } from "@/components/CustomFieldFilterSelect";
+import { TagInput } from "@/components/TagInput";
+import { TagBadges } from "@/components/TagBadges";
+import { TagFilter } from "@/components/TagFilter";
+import { BulkTagDialog } from "@/components/BulkTagDialog";
+import { BulkEditDialog } from "@/components/BulkEditDialog";
+import { DuplicatesDialog } from "@/components/DuplicatesDialog";
+import { PromptPreviewDialog } from "@/components/PromptPreviewDialog";
+import { collectTags, matchesTags, normalizeTags, applyTagChange } from "@/lib/tags";
+import {
+  TestStep,
+  loadTestCaseSteps,
+  saveTestCaseSteps,
+  insertStepsForTestCases,
+  parseStepsCell,
+  formatStepsCell,
+  toAutomationSteps,
+  matchStepsByPosition
+} from "@/lib/testSteps";
+import {
+  TestDataTable,
+  normalizeDataTable,
+  cleanDataTable,
+  hasDataTable,
+  formatDataTableCell,
+  parseDataTableCell
+} from "@/lib/dataTables";
+import { loadTraceability, exportTraceability } from "@/lib/traceability";
+import { moveToTrash } from "@/lib/trash";
+import { loadDuplicatePool, findDuplicates, dismissDuplicateFlag } from "@/lib/duplicates";
+import { SearchFocus, searchItems } from "@/lib/search";
+import { BulkUpdateSummary, bulkUpdateTestCases, describeBulkSummary } from "@/lib/bulkEdit";
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  CustomFieldFilter,
+  ProjectMember,
+  loadCustomFieldDefinitions,
+  loadCustomFieldValues,
+  loadProjectMembers,
+  saveCustomFieldValues,
+  getMissingRequiredFields,
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+  matchesCustomFieldFilter,
+  isEmptyCustomFieldValue
+} from "@/lib/customFields";
 import { 
   TestTube, 
   CheckCircle, 
@@ -17,12 +74,18 @@ import {
   Download,
   Upload,
   Code2,
+  Eye,
   ChevronDown,
   ChevronUp,
   Trash2,
   Edit3,
   Save,
-  X
+  X,
+  Network,
+  SlidersHorizontal,
+  Tags,
+  Copy,
+  UserCircle
 } from "lucide-react";
 import {
   AlertDialog,
@@ -36,30 +99,44 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
 
 interface TestCase {
   id: string;
+  projectId: string;
   readableId?: string;
   title: string;
   description: string;
-  steps: string[];
+  steps: TestStep[];
   testData?: string;
+  dataTable: TestDataTable | null;
   expectedResult: string;
   priority: 'low' | 'medium' | 'high';
   status: 'not-run' | 'passed' | 'failed' | 'blocked';
   userStoryId: string;
   userStoryTitle: string;
   estimatedTime: string;
+  tags: string[];
+  assignedTo: string | null;
+  customFields: CustomFieldValues;
+  // Set when the case was flagged on import as likely duplicating another one
+  possibleDuplicateOf: { id: string; readableId?: string; title: string } | null;
 }
 
 interface TestCasesProps {
   projectId: string;
+  focus?: SearchFocus | null;
 }
 
-export const TestCases = ({ projectId }: TestCasesProps) => {
+// Full-text matches in steps and test data are looked up once the search term is this long
+const FULL_TEXT_MIN_LENGTH = 3;
+
+export const TestCases = ({ projectId, focus }: TestCasesProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
-  const [searchTerm, setSearchTerm] = useState("");
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries(projectId, 'test_case');
+  const [searchTerm, setSearchTerm] = useState(focus?.term || "");
+  const [fullTextMatches, setFullTextMatches] = useState<Set<string>>(new Set());
   const [expandedStories, setExpandedStories] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -67,6 +144,19 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [editingTestCase, setEditingTestCase] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<TestCase>>({});
+  const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([]);
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const [customFieldFilter, setCustomFieldFilter] = useState<CustomFieldFilter | null>(null);
+  const [showCustomFields, setShowCustomFields] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkTags, setShowBulkTags] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [showBulkDelete, setShowBulkDelete] = useState(false);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [automationPreviewBody, setAutomationPreviewBody] = useState<Record<string, unknown> | null>(null);
 
   // Load test cases from database
   const loadTestCases = async () => {
@@ -82,27 +172,56 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
           user_stories(title, project_id),
           projects(created_by)
         `)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (testCasesError) throw testCasesError;
 
+      const [stepsByTestCase, projectSharedSteps, definitions, customFieldValues, members] = await Promise.all([
+        loadTestCaseSteps((dbTestCases || []).map(tc => tc.id)),
+        loadSharedSteps(projectId),
+        loadCustomFieldDefinitions(projectId, 'test_case'),
+        loadCustomFieldValues(projectId, 'test_case'),
+        loadProjectMembers(projectId)
+      ]);
+      setSharedSteps(projectSharedSteps);
+      setCustomFieldDefinitions(definitions);
+      setProjectMembers(members);
+
+      const testCasesById = new Map((dbTestCases || []).map(tc => [tc.id, tc]));
+
       // Transform database results to match TestCase interface
       const transformedTestCases: TestCase[] = (dbTestCases || []).map(tc => ({
         id: tc.id,
+        projectId: tc.project_id,
         readableId: tc.readable_id,
         title: tc.title,
         description: tc.description || '',
-        steps: tc.steps ? tc.steps.split('\n').filter(step => step.trim()) : [],
+        steps: stepsByTestCase[tc.id] || [],
         testData: tc.test_data || '',
+        dataTable: normalizeDataTable(tc.data_table),
         expectedResult: tc.expected_result || '',
         priority: tc.priority as 'low' | 'medium' | 'high',
         status: tc.status as 'not-run' | 'passed' | 'failed' | 'blocked',
         userStoryId: tc.user_story_id || '',
         userStoryTitle: tc.user_stories?.title || 'Unknown Story',
-        estimatedTime: '5-10 min' // Default estimation
+        estimatedTime: '5-10 min', // Default estimation
+        tags: tc.tags || [],
+        assignedTo: tc.assigned_to,
+        customFields: customFieldValues[tc.id] || {},
+        possibleDuplicateOf: testCasesById.has(tc.possible_duplicate_of) ? {
+          id: tc.possible_duplicate_of,
+          readableId: testCasesById.get(tc.possible_duplicate_of).readable_id,
+          title: testCasesById.get(tc.possible_duplicate_of).title
+        } : null
       }));
 
       setTestCases(transformedTestCases);
+
+      const focused = focus && transformedTestCases.find(tc => tc.id === focus.id);
+      if (focused) {
+        setExpandedStories(prev => new Set(prev).add(focused.userStoryId));
+      }
     } catch (error) {
       console.error('Error loading test cases:', error);
       toast({
@@ -122,6 +241,11 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     }
   }, [session?.user?.id]);
 
+  // A selection only applies to the project it was made in
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [projectId]);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'passed': return <CheckCircle className="h-4 w-4 text-success" />;
@@ -149,12 +273,162 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     }
   };
 
+  useEffect(() => {
+    if (searchTerm.trim().length < FULL_TEXT_MIN_LENGTH) {
+      setFullTextMatches(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchItems(searchTerm, { projectId, entityTypes: ['test_case'], limit: 100 });
+        if (!cancelled) setFullTextMatches(new Set(results.map(result => result.entityId)));
+      } catch (error) {
+        console.error('Error searching test cases:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, projectId]);
+
   const filteredTestCases = testCases.filter(testCase => {
     const matchesSearch = testCase.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         testCase.userStoryTitle.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesSearch;
+                         testCase.userStoryTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (testCase.readableId || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         fullTextMatches.has(testCase.id);
+    return matchesSearch &&
+      matchesTags(testCase.tags, tagFilter) &&
+      matchesCustomFieldFilter(customFieldDefinitions, testCase.customFields, customFieldFilter);
   });
 
+  // Bulk actions run against the current project, so cases of other projects cannot be selected
+  const selectableTestCases = filteredTestCases.filter(tc => tc.projectId === projectId);
+
+  const projectTags = collectTags(testCases);
+  const isFiltered = !!searchTerm || tagFilter.length > 0 || !!customFieldFilter?.value;
+
+  const toggleSelected = (testCaseId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(testCaseId)) {
+        next.delete(testCaseId);
+      } else {
+        next.add(testCaseId);
+      }
+      return next;
+    });
+  };
+
+  const applyBulkTags = (change: { add: string[]; remove: string[] }) => {
+    setTestCases(prev => prev.map(tc => (selectedIds.has(tc.id) ? { ...tc, tags: applyTagChange(tc.tags, change) } : tc)));
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkApplied = (summary: BulkUpdateSummary) => {
+    setSelectedIds(new Set());
+    if (summary.selected > 0) {
+      loadTestCases();
+    }
+  };
+
+  const bulkDeleteTestCases = async () => {
+    setIsBulkWorking(true);
+    try {
+      const summary = await bulkUpdateTestCases(projectId, Array.from(selectedIds), { delete: true });
+      setTestCases(prev => prev.filter(tc => !(selectedIds.has(tc.id) && tc.projectId === projectId)));
+      setSelectedIds(new Set());
+      toast({
+        title: "Test Cases Deleted",
+        description: describeBulkSummary(summary),
+      });
+    } catch (error) {
+      console.error('Error deleting test cases:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete the selected test cases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkWorking(false);
+      setShowBulkDelete(false);
+    }
+  };
+
+  // Test case in the shape expected by generate-selenium-automation
+  const toAutomationTestCase = (tc: TestCase) => ({
+    id: tc.id,
+    title: tc.title,
+    description: tc.description,
+    expectedResult: tc.expectedResult,
+    priority: tc.priority,
+    steps: toAutomationSteps(expandSteps(tc.steps, sharedSteps)),
+    dataTable: hasDataTable(tc.dataTable) ? tc.dataTable : null
+  });
+
+  const previewSeleniumAutomation = () => {
+    const selected = testCases.filter(tc => selectedIds.has(tc.id));
+    if (selected.length === 0) return;
+    setAutomationPreviewBody({ projectId, testCases: selected.map(toAutomationTestCase) });
+  };
+
+  const bulkGenerateSeleniumAutomation = async () => {
+    const selected = testCases.filter(tc => selectedIds.has(tc.id));
+    if (selected.length === 0) return;
+
+    setIsBulkWorking(true);
+    try {
+      toast({
+        title: "Generating Automation",
+        description: `Creating Selenium Java code for ${selected.length} test cases`,
+      });
+
+      const { data, error } = await supabase.functions.invoke('generate-selenium-automation', {
+        body: {
+          projectId,
+          testCases: selected.map(toAutomationTestCase)
+        }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to generate automation');
+
+      const zip = new JSZip();
+      data.files.forEach((file: { className: string; seleniumCode: string }) => {
+        zip.file(`${file.className}.java`, file.seleniumCode);
+      });
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'selected-test-cases-selenium.zip';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Automation Generated",
+        description: `${data.files.length} Selenium Java test files have been downloaded`,
+      });
+    } catch (error) {
+      console.error('Error generating automation:', error);
+      toast({
+        title: "Generation Failed",
+        description: "Failed to generate Selenium automation code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  const memberNames = new Map(projectMembers.map(member => [member.userId, member.name]));
+
   // Group test cases by user story
   const groupedTestCases = filteredTestCases.reduce((acc, testCase) => {
     const storyId = testCase.userStoryId;
@@ -181,22 +455,33 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   };
 
 
+  // One export column per custom field, named after the field so the file can be imported again
+  const getCustomFieldColumns = (testCase: TestCase) => Object.fromEntries(
+    customFieldDefinitions.map(field => [
+      field.name,
+      formatCustomFieldValue(field, testCase.customFields[field.id], projectMembers)
+    ])
+  );
+
   const exportTests = () => {
     // Create Excel workbook
     const wb = XLSX.utils.book_new();
     
-    // Prepare data for Excel
-    const excelData = testCases.map(tc => ({
+    // Prepare data for Excel; search, tag and custom field filters narrow the export down
+    const excelData = filteredTestCases.map(tc => ({
       'Test Case ID': tc.readableId || tc.id,
       'Title': tc.title,
       'Description': tc.description,
-      'Steps': tc.steps.join('\n'),
+      'Steps': formatStepsCell(expandSteps(tc.steps, sharedSteps)),
       'Expected Result': tc.expectedResult,
       'Test Data': tc.testData || '',
+      'Data Table': formatDataTableCell(tc.dataTable),
       'Priority': tc.priority,
       'Status': tc.status,
       'User Story': tc.userStoryTitle,
-      'Estimated Time': tc.estimatedTime
+      'Estimated Time': tc.estimatedTime,
+      'Tags': tc.tags.join(', '),
+      ...getCustomFieldColumns(tc)
     }));
     
     // Create worksheet
@@ -210,10 +495,29 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
 
     toast({
       title: "Export Complete",
-      description: "Test cases exported to Excel format successfully",
+      description: isFiltered
+        ? `${excelData.length} filtered test cases exported to Excel format successfully`
+        : "Test cases exported to Excel format successfully",
     });
   };
 
+  const exportTraceabilityMatrix = async () => {
+    try {
+      exportTraceability(await loadTraceability(projectId), 'xlsx');
+      toast({
+        title: "Export Complete",
+        description: "Traceability matrix exported to Excel successfully",
+      });
+    } catch (error) {
+      console.error('Error exporting traceability matrix:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export traceability matrix",
+        variant: "destructive",
+      });
+    }
+  };
+
   const exportTestsByStory = (storyId: string, storyTitle: string) => {
     const storyTestCases = groupedTestCases[storyId]?.testCases || [];
     
@@ -225,12 +529,15 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       'Test Case ID': tc.readableId || tc.id,
       'Title': tc.title,
       'Description': tc.description,
-      'Steps': tc.steps.join('\n'),
+      'Steps': formatStepsCell(expandSteps(tc.steps, sharedSteps)),
       'Expected Result': tc.expectedResult,
       'Test Data': tc.testData || '',
+      'Data Table': formatDataTableCell(tc.dataTable),
       'Priority': tc.priority,
       'Status': tc.status,
-      'Estimated Time': tc.estimatedTime
+      'Estimated Time': tc.estimatedTime,
+      'Tags': tc.tags.join(', '),
+      ...getCustomFieldColumns(tc)
     }));
     
     // Create worksheet
@@ -256,14 +563,8 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         description: `Creating Selenium Java code for: ${testCase.title}`,
       });
 
-      // Transform steps to match expected format
-      const transformedTestCase = {
-        ...testCase,
-        steps: testCase.steps.map(step => ({ type: 'action', content: step }))
-      };
-
       const { data, error } = await supabase.functions.invoke('generate-selenium-automation', {
-        body: { testCase: transformedTestCase }
+        body: { projectId: testCase.projectId, testCase: toAutomationTestCase(testCase) }
       });
 
       if (error) throw error;
@@ -297,19 +598,14 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
 
   const deleteTestCase = async (testCaseId: string, testCaseTitle: string) => {
     try {
-      const { error } = await supabase
-        .from('test_cases')
-        .delete()
-        .eq('id', testCaseId);
-
-      if (error) throw error;
+      await moveToTrash('test_case', [testCaseId]);
 
       // Remove from local state
       setTestCases(prev => prev.filter(tc => tc.id !== testCaseId));
 
       toast({
         title: "Test Case Deleted",
-        description: `"${testCaseTitle}" has been deleted successfully`,
+        description: `"${testCaseTitle}" has been moved to the trash`,
       });
     } catch (error) {
       console.error('Error deleting test case:', error);
@@ -321,6 +617,20 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     }
   };
 
+  const handleDismissDuplicate = async (testCaseId: string) => {
+    try {
+      await dismissDuplicateFlag(testCaseId);
+      setTestCases(prev => prev.map(tc => (tc.id === testCaseId ? { ...tc, possibleDuplicateOf: null } : tc)));
+    } catch (error) {
+      console.error('Error dismissing duplicate flag:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear the duplicate flag",
+        variant: "destructive",
+      });
+    }
+  };
+
   const startEditing = (testCase: TestCase) => {
     setEditingTestCase(testCase.id);
     setEditForm({
@@ -329,7 +639,10 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       priority: testCase.priority,
       steps: testCase.steps,
       testData: testCase.testData,
-      expectedResult: testCase.expectedResult
+      dataTable: testCase.dataTable,
+      expectedResult: testCase.expectedResult,
+      tags: testCase.tags,
+      customFields: testCase.customFields
     });
   };
 
@@ -339,21 +652,37 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   };
 
   const updateTestCase = async (testCaseId: string) => {
+    const customFields = editForm.customFields || {};
+    const missingFields = getMissingRequiredFields(customFieldDefinitions, customFields);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Missing Required Fields",
+        description: `Please fill in: ${missingFields.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
+      const dataTable = cleanDataTable(editForm.dataTable);
       const { error } = await supabase
         .from('test_cases')
         .update({
           title: editForm.title,
           status: editForm.status,
           priority: editForm.priority,
-          steps: editForm.steps?.join('\n'),
           test_data: editForm.testData,
-          expected_result: editForm.expectedResult
+          data_table: dataTable,
+          expected_result: editForm.expectedResult,
+          tags: editForm.tags
         })
         .eq('id', testCaseId);
 
       if (error) throw error;
 
+      const savedSteps = editForm.steps ? await saveTestCaseSteps(testCaseId, editForm.steps) : undefined;
+      await saveCustomFieldValues(projectId, 'test_case', testCaseId, customFieldDefinitions, customFields);
+
       // Update local state
       setTestCases(prev => prev.map(tc => 
         tc.id === testCaseId 
@@ -362,9 +691,12 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
               title: editForm.title || tc.title,
               status: editForm.status || tc.status,
               priority: editForm.priority || tc.priority,
-              steps: editForm.steps || tc.steps,
+              steps: savedSteps || tc.steps,
               testData: editForm.testData || tc.testData,
-              expectedResult: editForm.expectedResult || tc.expectedResult
+              dataTable,
+              expectedResult: editForm.expectedResult || tc.expectedResult,
+              tags: editForm.tags ? normalizeTags(editForm.tags) : tc.tags,
+              customFields
             }
           : tc
       ));
@@ -444,16 +776,37 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         
         // For now, we'll need to find or create user stories - this is a simplified approach
         // In a real scenario, you might want to handle this more robustly
+
+        // Custom fields are matched to columns by name; fields without a column are left untouched
+        const customFields: CustomFieldValues = {};
+        const customFieldErrors: string[] = [];
+        customFieldDefinitions.forEach(field => {
+          const column = Object.keys(row).find(key => key.trim().toLowerCase() === field.name.toLowerCase());
+          if (!column) return;
+          try {
+            customFields[field.id] = parseCustomFieldValue(field, row[column], projectMembers);
+          } catch (error) {
+            customFieldErrors.push(`Row ${rowNum}: ${(error as Error).message}`);
+          }
+        });
+
+        if (customFieldErrors.length > 0) {
+          errors.push(...customFieldErrors);
+          continue;
+        }
         
         const testCase = {
           testId: row.test_id || row['Test ID'] || row['TEST ID'] || row.TestID || row.testId,
           title: row.title || row.Title || row.TITLE,
           description: row.description || row.Description || row.DESCRIPTION || '',
-          steps: (row.steps || row.Steps || row.STEPS || '').toString().split('\n').filter((s: string) => s.trim()),
+          steps: parseStepsCell(row.steps || row.Steps || row.STEPS),
           expectedResult: row.expected_result || row['Expected Result'] || row['EXPECTED RESULT'] || '',
           priority: (row.priority || row.Priority || row.PRIORITY || 'medium').toLowerCase(),
           testData: row.test_data || row['Test Data'] || row['TEST DATA'] || row.testData || '',
+          dataTable: parseDataTableCell(row.data_table || row['Data Table'] || row['DATA TABLE']),
+          tags: normalizeTags(String(row.tags || row.Tags || row.TAGS || '').split(/[,;]/)),
           userStoryTitle: userStoryTitle,
+          customFields,
           project_id: projectId
         };
 
@@ -487,13 +840,16 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       const { data: userStories, error: storiesError } = await supabase
         .from('user_stories')
         .select('id, title')
+        .is('deleted_at', null)
         .eq('project_id', projectId);
 
       if (storiesError) throw storiesError;
 
       // Process test cases - handle both inserts and updates
       const testCasesToInsert = [];
-      const testCasesToUpdate = [];
+      const stepsToInsert: TestStep[][] = [];
+      const customFieldsToInsert: CustomFieldValues[] = [];
+      const stepsToUpdate: { testCaseId: string; steps: TestStep[]; customFields: CustomFieldValues }[] = [];
       const missingStories = new Set();
       let updatedCount = 0;
 
@@ -506,10 +862,11 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
           const testCaseData = {
             title: testCase.title,
             description: testCase.description,
-            steps: testCase.steps.join('\n'),
             expected_result: testCase.expectedResult,
             priority: testCase.priority,
             test_data: testCase.testData,
+            data_table: testCase.dataTable,
+            tags: testCase.tags,
             status: 'not-run',
             project_id: projectId,
             user_story_id: matchingStory.id
@@ -525,14 +882,15 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
               .single();
 
             if (existingTestCase) {
-              // Update existing test case
+              // Update existing test case, restoring it if it was in the trash
               const { error: updateError } = await supabase
                 .from('test_cases')
-                .update(testCaseData)
+                .update({ ...testCaseData, deleted_at: null })
                 .eq('readable_id', testCase.testId)
                 .eq('project_id', projectId);
 
               if (updateError) throw updateError;
+              stepsToUpdate.push({ testCaseId: existingTestCase.id, steps: testCase.steps, customFields: testCase.customFields });
               updatedCount++;
             } else {
               // Insert new test case with specific TestID
@@ -540,10 +898,14 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                 ...testCaseData,
                 readable_id: testCase.testId
               });
+              stepsToInsert.push(testCase.steps);
+              customFieldsToInsert.push(testCase.customFields);
             }
           } else {
             // Insert new test case without specific TestID (will be auto-generated)
             testCasesToInsert.push(testCaseData);
+            stepsToInsert.push(testCase.steps);
+            customFieldsToInsert.push(testCase.customFields);
           }
         } else {
           missingStories.add(testCase.userStoryTitle);
@@ -558,19 +920,56 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         });
       }
 
+      const saveImportedCustomFields = (testCaseId: string, customFields: CustomFieldValues) => saveCustomFieldValues(
+        projectId,
+        'test_case',
+        testCaseId,
+        customFieldDefinitions.filter(field => field.id in customFields),
+        customFields
+      );
+
+      // Imported steps carry no ids; match them to the existing steps so step results from earlier runs stay attached
+      const existingSteps = await loadTestCaseSteps(stepsToUpdate.map(entry => entry.testCaseId));
+      for (const { testCaseId, steps, customFields } of stepsToUpdate) {
+        await saveTestCaseSteps(testCaseId, matchStepsByPosition(existingSteps[testCaseId] || [], steps));
+        await saveImportedCustomFields(testCaseId, customFields);
+      }
+
+      let flaggedCount = 0;
       if (testCasesToInsert.length > 0) {
-        const { error: insertError } = await supabase
+        // Flag new cases that look like existing ones so they can be reviewed and merged
+        const duplicates = findDuplicates(
+          testCasesToInsert.map((tc, index) => ({ title: tc.title, steps: stepsToInsert[index] || [] })),
+          await loadDuplicatePool(projectId)
+        );
+        flaggedCount = duplicates.filter(Boolean).length;
+
+        const { data: insertedTestCases, error: insertError } = await supabase
           .from('test_cases')
-          .insert(testCasesToInsert);
+          .insert(testCasesToInsert.map((tc, index) => ({
+            ...tc,
+            possible_duplicate_of: duplicates[index]?.testCaseId || null
+          })))
+          .select('id');
 
         if (insertError) throw insertError;
+
+        await insertStepsForTestCases((insertedTestCases || []).map((tc, index) => ({
+          testCaseId: tc.id,
+          steps: stepsToInsert[index] || []
+        })));
+
+        for (const [index, tc] of (insertedTestCases || []).entries()) {
+          await saveImportedCustomFields(tc.id, customFieldsToInsert[index] || {});
+        }
       }
 
       const totalProcessed = testCasesToInsert.length + updatedCount;
       if (totalProcessed > 0) {
         toast({
           title: "Import Successful",
-          description: `Successfully imported ${testCasesToInsert.length} new and updated ${updatedCount} existing test cases from Excel`,
+          description: `Successfully imported ${testCasesToInsert.length} new and updated ${updatedCount} existing test cases from Excel` +
+            (flaggedCount > 0 ? `. ${flaggedCount} new test cases look like duplicates and were flagged for review` : ''),
         });
 
         // Refresh the test cases list
@@ -600,40 +999,61 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     // Template data with sample rows and instructions
     const templateData = [
       {
-        'test_id': 'TC-MY0001',
+        'test_id': 'TC-MY-0001',
         'title': 'User Login Test',
         'description': 'Test user login functionality with valid credentials',
-        'steps': 'Navigate to login page\nEnter valid username\nEnter valid password\nClick login button',
+        'steps': 'Navigate to login page | Login form is displayed\nEnter valid username | | testuser@example.com\nEnter valid password | | TestPass123\nClick login button | Dashboard is displayed',
         'expected_result': 'User should be successfully logged in and redirected to dashboard',
         'test_data': 'Username: testuser@example.com\nPassword: TestPass123',
+        'data_table': '',
+        'tags': 'smoke, login',
         'priority': 'high',
         'user_story_title': 'User Authentication'
       },
       {
-        'test_id': 'TC-MY0002',
+        'test_id': 'TC-MY-0002',
         'title': 'Password Reset Test', 
         'description': 'Test password reset functionality',
-        'steps': 'Click forgot password\nEnter email address\nClick reset button\nCheck email for reset link',
+        'steps': 'Click forgot password | Reset form is displayed\nEnter email address | | {{email}}\nClick reset button | Confirmation message is shown\nCheck email for reset link',
         'expected_result': 'Password reset email should be sent successfully',
         'test_data': 'Email: testuser@example.com',
+        'data_table': 'email\ntestuser@example.com\nadmin@example.com',
+        'tags': 'regression',
         'priority': 'medium',
         'user_story_title': 'User Authentication'
       }
     ];
     
+    // Custom fields get an empty column each
+    const customFieldColumns = Object.fromEntries(customFieldDefinitions.map(field => [field.name, '']));
+    
     // Create worksheet
-    const ws = XLSX.utils.json_to_sheet(templateData);
+    const ws = XLSX.utils.json_to_sheet(templateData.map(row => ({ ...row, ...customFieldColumns })));
     
     // Add instructions sheet
     const instructionsData = [
-      { Field: 'test_id', Description: 'Test case ID (Optional). If provided and exists, will update existing test case', Example: 'TC-MY0001' },
+      { Field: 'test_id', Description: 'Test case ID (Optional). If provided and exists, will update existing test case', Example: 'TC-MY-0001' },
       { Field: 'title', Description: 'Test case title (Required)', Example: 'User Login Test' },
       { Field: 'description', Description: 'Test case description (Optional)', Example: 'Test user login functionality' },
-      { Field: 'steps', Description: 'Test steps separated by new lines (Optional)', Example: 'Step 1\\nStep 2\\nStep 3' },
+      { Field: 'steps', Description: 'One step per line as "action | expected result | test data"; expected result and test data are optional (Optional)', Example: 'Open login page | Login form is shown\\nEnter username | | admin' },
       { Field: 'expected_result', Description: 'Expected test result (Optional)', Example: 'User should be logged in' },
       { Field: 'test_data', Description: 'Test data required for the test case (Optional)', Example: 'Username: admin\\nPassword: pass123' },
+      { Field: 'data_table', Description: 'Parameters for data-driven tests (Optional). First line holds the parameter names and each further line one iteration, separated by "|". Refer to them in steps as {{name}}', Example: 'username | password\\nadmin | pass123\\nviewer | pass456' },
+      { Field: 'tags', Description: 'Tags separated by commas (Optional)', Example: 'smoke, payments' },
       { Field: 'priority', Description: 'Priority: low, medium, or high (Optional, defaults to medium)', Example: 'high' },
-      { Field: 'user_story_title', Description: 'User story title that exists in your project (Required)', Example: 'User Authentication' }
+      { Field: 'user_story_title', Description: 'User story title that exists in your project (Required)', Example: 'User Authentication' },
+      ...customFieldDefinitions.map(field => ({
+        Field: field.name,
+        Description: `Custom field (${field.required ? 'Required' : 'Optional'}). ${
+          field.fieldType === 'select' ? `One of: ${field.options.join(', ')}`
+            : field.fieldType === 'multi-select' ? `Any of ${field.options.join(', ')}, separated by ";"`
+            : field.fieldType === 'user' ? 'Name of a project member'
+            : field.fieldType === 'date' ? 'Date as YYYY-MM-DD'
+            : field.fieldType === 'number' ? 'A number'
+            : 'Free text'
+        }`,
+        Example: field.options[0] || ''
+      }))
     ];
     
     const instructionsWs = XLSX.utils.json_to_sheet(instructionsData);
@@ -673,21 +1093,80 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
             <Download className="mr-2 h-4 w-4" />
             Export
           </Button>
+          <Button variant="outline" onClick={exportTraceabilityMatrix} disabled={isLoading}>
+            <Network className="mr-2 h-4 w-4" />
+            Export Traceability
+          </Button>
+          <Button variant="outline" onClick={() => setShowDuplicates(true)} disabled={isLoading}>
+            <Copy className="mr-2 h-4 w-4" />
+            Find Duplicates
+          </Button>
+          <Button variant="outline" onClick={() => setShowCustomFields(true)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Custom Fields
+          </Button>
         </div>
       </div>
 
       {/* Search */}
       <Card className="shadow-card">
         <CardContent className="p-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search test cases..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search test cases, steps and test data..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <TagFilter tags={projectTags} selected={tagFilter} onChange={setTagFilter} />
+            <CustomFieldFilterSelect
+              definitions={customFieldDefinitions}
+              members={projectMembers}
+              value={customFieldFilter}
+              onChange={setCustomFieldFilter}
             />
           </div>
+          {selectableTestCases.length > 0 && (
+            <div className="flex items-center gap-3 mt-3 text-sm">
+              <Checkbox
+                checked={selectableTestCases.every(tc => selectedIds.has(tc.id))}
+                onCheckedChange={(checked) => setSelectedIds(checked ? new Set(selectableTestCases.map(tc => tc.id)) : new Set())}
+              />
+              <span className="text-muted-foreground">
+                {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+              </span>
+              {selectedIds.size > 0 && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setShowBulkEdit(true)} disabled={isBulkWorking}>
+                    <Edit3 className="mr-2 h-3 w-3" />
+                    Bulk Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setShowBulkTags(true)} disabled={isBulkWorking}>
+                    <Tags className="mr-2 h-3 w-3" />
+                    Edit Tags
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={bulkGenerateSeleniumAutomation} disabled={isBulkWorking}>
+                    <Code2 className="mr-2 h-3 w-3" />
+                    Generate Selenium
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={previewSeleniumAutomation} disabled={isBulkWorking}>
+                    <Eye className="mr-2 h-3 w-3" />
+                    Preview Automation Guidance
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setShowBulkDelete(true)} disabled={isBulkWorking}>
+                    <Trash2 className="mr-2 h-3 w-3" />
+                    Delete
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                    Clear Selection
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -754,19 +1233,59 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                     <Card key={testCase.id} className="shadow-card hover:shadow-elegant transition-all duration-200">
                       <CardHeader>
                         <div className="flex items-start justify-between">
-                          <div className="space-y-2 flex-1">
-                            {editingTestCase === testCase.id ? (
-                              <Input
-                                value={editForm.title || ''}
-                                onChange={(e) => setEditForm(prev => ({ ...prev, title: e.target.value }))}
-                                placeholder="Test case title"
-                                className="font-medium"
-                              />
-                            ) : (
-                              <CardTitle className="text-lg">{testCase.title}</CardTitle>
-                            )}
-                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                              <span>Est. {testCase.estimatedTime}</span>
+                          <div className="flex items-start gap-3 flex-1">
+                            <Checkbox
+                              checked={selectedIds.has(testCase.id)}
+                              onCheckedChange={() => toggleSelected(testCase.id)}
+                              disabled={testCase.projectId !== projectId}
+                              className="mt-1"
+                            />
+                            <div className="space-y-2 flex-1">
+                              {editingTestCase === testCase.id ? (
+                                <Input
+                                  value={editForm.title || ''}
+                                  onChange={(e) => setEditForm(prev => ({ ...prev, title: e.target.value }))}
+                                  placeholder="Test case title"
+                                  className="font-medium"
+                                />
+                              ) : (
+                                <CardTitle className="text-lg">{testCase.title}</CardTitle>
+                              )}
+                              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <span>Est. {testCase.estimatedTime}</span>
+                                {testCase.assignedTo && (
+                                  <span className="flex items-center gap-1">
+                                    <UserCircle className="h-3 w-3" />
+                                    {memberNames.get(testCase.assignedTo) || 'Former member'}
+                                  </span>
+                                )}
+                                {testCase.possibleDuplicateOf && (
+                                  <Badge variant="outline" className="border-warning text-warning" title={testCase.possibleDuplicateOf.title}>
+                                    <Copy className="mr-1 h-3 w-3" />
+                                    Possible duplicate of {testCase.possibleDuplicateOf.readableId || testCase.possibleDuplicateOf.title}
+                                    <button
+                                      type="button"
+                                      className="ml-1 hover:text-foreground"
+                                      onClick={() => handleDismissDuplicate(testCase.id)}
+                                      aria-label="Not a duplicate"
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </Badge>
+                                )}
+                              </div>
+                              {editingTestCase === testCase.id ? (
+                                <TagInput
+                                  tags={editForm.tags || []}
+                                  onChange={(tags) => setEditForm(prev => ({ ...prev, tags }))}
+                                  suggestions={projectTags}
+                                />
+                              ) : (
+                                <TagBadges
+                                  tags={testCase.tags}
+                                  onTagClick={(tag) => !tagFilter.includes(tag) && setTagFilter([...tagFilter, tag])}
+                                />
+                              )}
                             </div>
                           </div>
                           <div className="flex gap-2">
@@ -823,26 +1342,28 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                            <div>
                              <h4 className="text-sm font-medium mb-2">Test Steps:</h4>
                              {editingTestCase === testCase.id ? (
-                               <Textarea
-                                 value={editForm.steps?.join('\n') || ''}
-                                 onChange={(e) => setEditForm(prev => ({ 
-                                   ...prev, 
-                                   steps: e.target.value.split('\n') 
-                                 }))}
-                                 onKeyDown={(e) => {
-                                   if (e.key === 'Enter') {
-                                     e.stopPropagation();
-                                   }
-                                 }}
-                                 placeholder="Enter test steps (one per line)"
-                                 className="text-xs min-h-[100px]"
+                               <TestStepsEditor
+                                 steps={editForm.steps || []}
+                                 onChange={(steps) => setEditForm(prev => ({ ...prev, steps }))}
+                                 sharedSteps={sharedSteps}
                                />
                              ) : (
                                <ol className="text-xs space-y-1">
-                                 {testCase.steps.map((step, index) => (
-                                   <li key={index} className="flex gap-2">
+                                 {expandSteps(testCase.steps, sharedSteps).map((step, index) => (
+                                   <li key={step.id || index} className="flex gap-2">
                                      <span className="font-mono text-muted-foreground">{index + 1}.</span>
-                                     <span>{step}</span>
+                                     <div>
+                                       <span>{step.action}</span>
+                                       {step.sharedStepName && (
+                                         <Badge variant="outline" className="ml-2 text-[10px]">{step.sharedStepName}</Badge>
+                                       )}
+                                       {step.expectedResult && (
+                                         <p className="text-muted-foreground">Expected: {step.expectedResult}</p>
+                                       )}
+                                       {step.testData && (
+                                         <p className="text-muted-foreground">Data: {step.testData}</p>
+                                       )}
+                                     </div>
                                    </li>
                                  ))}
                                </ol>
@@ -890,6 +1411,71 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                            </div>
                          </div>
 
+                        {editingTestCase === testCase.id ? (
+                          <div>
+                            <h4 className="text-sm font-medium mb-2">Data Table:</h4>
+                            <TestDataTableEditor
+                              dataTable={editForm.dataTable || null}
+                              onChange={(dataTable) => setEditForm(prev => ({ ...prev, dataTable }))}
+                            />
+                          </div>
+                        ) : hasDataTable(testCase.dataTable) && (
+                          <div>
+                            <h4 className="text-sm font-medium mb-2">
+                              Data Table: <span className="font-normal text-muted-foreground">{testCase.dataTable.rows.length} iterations</span>
+                            </h4>
+                            <div className="overflow-x-auto">
+                              <table className="text-xs border rounded">
+                                <thead className="bg-muted/50">
+                                  <tr>
+                                    <th className="px-2 py-1 text-left font-mono text-muted-foreground">#</th>
+                                    {testCase.dataTable.parameters.map(parameter => (
+                                      <th key={parameter} className="px-2 py-1 text-left font-mono">{parameter}</th>
+                                    ))}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {testCase.dataTable.rows.map((row, rowIndex) => (
+                                    <tr key={rowIndex} className="border-t">
+                                      <td className="px-2 py-1 text-muted-foreground">{rowIndex + 1}</td>
+                                      {row.map((value, columnIndex) => (
+                                        <td key={columnIndex} className="px-2 py-1">{value}</td>
+                                      ))}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          </div>
+                        )}
+
+                        {editingTestCase === testCase.id ? (
+                          <CustomFieldInputs
+                            definitions={customFieldDefinitions}
+                            values={editForm.customFields || {}}
+                            onChange={(customFields) => setEditForm(prev => ({ ...prev, customFields }))}
+                            members={projectMembers}
+                            idPrefix={`custom-field-${testCase.id}`}
+                          />
+                        ) : customFieldDefinitions.some(field => !isEmptyCustomFieldValue(testCase.customFields[field.id])) && (
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs">
+                            {customFieldDefinitions
+                              .filter(field => !isEmptyCustomFieldValue(testCase.customFields[field.id]))
+                              .map(field => (
+                                <span key={field.id}>
+                                  <span className="text-muted-foreground">{field.name}:</span>{' '}
+                                  {formatCustomFieldValue(field, testCase.customFields[field.id], projectMembers)}
+                                </span>
+                              ))}
+                          </div>
+                        )}
+
+                        <TestAttachments
+                          projectId={projectId}
+                          testCaseId={testCase.id}
+                          editable={editingTestCase === testCase.id}
+                        />
+
                         <div className="flex items-center justify-between pt-4 border-t">
                            <div className="text-xs text-muted-foreground">
                              Test ID: {testCase.readableId || testCase.id}
@@ -932,6 +1518,19 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                                   <Code2 className="mr-2 h-3 w-3" />
                                   Generate Automation
                                 </Button>
+                                <TestCaseHistory
+                                  testCaseId={testCase.id}
+                                  testCaseTitle={testCase.title}
+                                  onRestored={loadTestCases}
+                                />
+                                <CommentsButton
+                                  projectId={testCase.projectId}
+                                  entityType="test_case"
+                                  entityId={testCase.id}
+                                  title={testCase.title}
+                                  summary={commentSummaries[testCase.id]}
+                                  onRead={refetchCommentSummaries}
+                                />
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <Button 
@@ -947,7 +1546,7 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                                     <AlertDialogHeader>
                                       <AlertDialogTitle>Delete Test Case</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to delete "{testCase.title}"? This action cannot be undone.
+                                        Are you sure you want to delete "{testCase.title}"? It will be moved to the trash, where it can be restored until it is purged.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -987,6 +1586,64 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         )}
       </div>
 
+      <BulkTagDialog
+        entityType="test_case"
+        ids={Array.from(selectedIds)}
+        open={showBulkTags}
+        onOpenChange={setShowBulkTags}
+        suggestions={projectTags}
+        onApplied={applyBulkTags}
+      />
+
+      <PromptPreviewDialog
+        generator="generate-selenium-automation"
+        body={automationPreviewBody}
+        open={!!automationPreviewBody}
+        onOpenChange={(isOpen) => !isOpen && setAutomationPreviewBody(null)}
+      />
+
+      <BulkEditDialog
+        projectId={projectId}
+        ids={Array.from(selectedIds)}
+        open={showBulkEdit}
+        onOpenChange={setShowBulkEdit}
+        members={projectMembers}
+        tagSuggestions={projectTags}
+        onApplied={handleBulkApplied}
+      />
+
+      <AlertDialog open={showBulkDelete} onOpenChange={setShowBulkDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Test Cases</AlertDialogTitle>
+            <AlertDialogDescription>
+              Move {selectedIds.size} selected test cases to the trash? They can be restored from the trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBulkWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={bulkDeleteTestCases} disabled={isBulkWorking}>
+              {isBulkWorking ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DuplicatesDialog
+        projectId={projectId}
+        open={showDuplicates}
+        onOpenChange={setShowDuplicates}
+        onMerged={loadTestCases}
+      />
+
+      <CustomFieldsDialog
+        projectId={projectId}
+        entityType="test_case"
+        open={showCustomFields}
+        onOpenChange={setShowCustomFields}
+        onChanged={setCustomFieldDefinitions}
+      />
+
       {/* Hidden file input for Excel import */}
       <input
         type="file"
@@ -0,0 +1,250 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TestConfiguration,
+  TestConfigurationInput,
+  loadTestConfigurations,
+  saveTestConfiguration,
+  deleteTestConfiguration,
+  describeConfiguration
+} from "@/lib/testConfigurations";
+import { Edit, Trash2, Plus, MonitorSmartphone } from "lucide-react";
+
+interface TestConfigurationsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: (configurations: TestConfiguration[]) => void;
+}
+
+const emptyConfiguration = (): TestConfigurationInput => ({
+  name: '',
+  browser: '',
+  operatingSystem: '',
+  environment: '',
+  description: ''
+});
+
+export const TestConfigurationsDialog = ({ projectId, open, onOpenChange, onChanged }: TestConfigurationsDialogProps) => {
+  const { toast } = useToast();
+  const [configurations, setConfigurations] = useState<TestConfiguration[]>([]);
+  const [form, setForm] = useState<TestConfigurationInput>(emptyConfiguration());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = async () => {
+    try {
+      const loaded = await loadTestConfigurations(projectId);
+      setConfigurations(loaded);
+      onChanged?.(loaded);
+    } catch (error) {
+      console.error('Error loading test configurations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test configurations",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setForm(emptyConfiguration());
+      setEditingId(null);
+      loadData();
+    }
+  }, [open, projectId]);
+
+  const startEdit = (configuration: TestConfiguration) => {
+    setEditingId(configuration.id);
+    setForm({
+      name: configuration.name,
+      browser: configuration.browser,
+      operatingSystem: configuration.operatingSystem,
+      environment: configuration.environment,
+      description: configuration.description
+    });
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim() || describeConfiguration(form);
+    if (!name) {
+      toast({
+        title: "Error",
+        description: "Please enter a configuration name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveTestConfiguration(projectId, { ...form, name }, editingId);
+      toast({
+        title: editingId ? "Configuration Updated" : "Configuration Added",
+        description: `"${name}" has been saved`,
+      });
+      setForm(emptyConfiguration());
+      setEditingId(null);
+      loadData();
+    } catch (error) {
+      console.error('Error saving test configuration:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save configuration. Configuration names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (configuration: TestConfiguration) => {
+    try {
+      await deleteTestConfiguration(configuration.id);
+      toast({
+        title: "Configuration Deleted",
+        description: `"${configuration.name}" has been deleted`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error deleting test configuration:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete configuration",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Test Configurations</DialogTitle>
+          <DialogDescription>
+            Browsers, operating systems and environments that test runs can target.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {configurations.length === 0 ? (
+            <div className="text-center py-6">
+              <MonitorSmartphone className="mx-auto h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No configurations defined yet.</p>
+            </div>
+          ) : (
+            configurations.map(configuration => (
+              <div key={configuration.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{configuration.name}</span>
+                    {configuration.usageCount > 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        {configuration.usageCount} {configuration.usageCount === 1 ? 'run' : 'runs'}
+                      </Badge>
+                    )}
+                  </div>
+                  {describeConfiguration(configuration) && (
+                    <p className="text-xs text-muted-foreground truncate">{describeConfiguration(configuration)}</p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startEdit(configuration)}>
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(configuration)}
+                    disabled={configuration.usageCount > 0}
+                    title={configuration.usageCount > 0 ? 'Used by test runs' : 'Delete configuration'}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <p className="text-sm font-medium">{editingId ? 'Edit Configuration' : 'Add Configuration'}</p>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="configuration-browser" className="text-xs">Browser</Label>
+              <Input
+                id="configuration-browser"
+                value={form.browser}
+                onChange={(e) => setForm({ ...form, browser: e.target.value })}
+                placeholder="Chrome"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="configuration-os" className="text-xs">Operating System</Label>
+              <Input
+                id="configuration-os"
+                value={form.operatingSystem}
+                onChange={(e) => setForm({ ...form, operatingSystem: e.target.value })}
+                placeholder="Windows 11"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="configuration-environment" className="text-xs">Environment</Label>
+              <Input
+                id="configuration-environment"
+                value={form.environment}
+                onChange={(e) => setForm({ ...form, environment: e.target.value })}
+                placeholder="Staging"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="configuration-name" className="text-xs">Name (defaults to the combination above)</Label>
+            <Input
+              id="configuration-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder={describeConfiguration(form) || 'Chrome × Windows 11 × Staging'}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="configuration-description" className="text-xs">Description (Optional)</Label>
+            <Input
+              id="configuration-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyConfiguration()); }}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {editingId ? 'Save Changes' : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Configuration
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2, X } from "lucide-react";
+import { TestDataTable } from "@/lib/dataTables";
+
+interface TestDataTableEditorProps {
+  dataTable: TestDataTable | null;
+  onChange: (dataTable: TestDataTable | null) => void;
+}
+
+export const TestDataTableEditor = ({ dataTable, onChange }: TestDataTableEditorProps) => {
+  const table = dataTable || { parameters: [], rows: [] };
+
+  const addParameter = () => {
+    onChange({
+      parameters: [...table.parameters, ''],
+      rows: table.rows.length > 0 ? table.rows.map(row => [...row, '']) : [['']]
+    });
+  };
+
+  const renameParameter = (index: number, name: string) => {
+    onChange({ ...table, parameters: table.parameters.map((parameter, i) => (i === index ? name : parameter)) });
+  };
+
+  const removeParameter = (index: number) => {
+    const parameters = table.parameters.filter((_, i) => i !== index);
+    onChange(parameters.length > 0
+      ? { parameters, rows: table.rows.map(row => row.filter((_, i) => i !== index)) }
+      : null);
+  };
+
+  const updateValue = (rowIndex: number, columnIndex: number, value: string) => {
+    onChange({
+      ...table,
+      rows: table.rows.map((row, r) => (r === rowIndex ? row.map((cell, c) => (c === columnIndex ? value : cell)) : row))
+    });
+  };
+
+  const stopEnterPropagation = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.stopPropagation();
+    }
+  };
+
+  if (table.parameters.length === 0) {
+    return (
+      <Button variant="outline" size="sm" className="w-full" onClick={addParameter}>
+        <Plus className="mr-2 h-3 w-3" />
+        Add Parameter
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              <th className="w-8" />
+              {table.parameters.map((parameter, index) => (
+                <th key={index} className="p-1">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={parameter}
+                      onChange={(e) => renameParameter(index, e.target.value)}
+                      onKeyDown={stopEnterPropagation}
+                      placeholder="parameter"
+                      className="h-7 text-xs font-mono"
+                    />
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0 shrink-0" onClick={() => removeParameter(index)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <td className="font-mono text-muted-foreground text-center">{rowIndex + 1}</td>
+                {table.parameters.map((_, columnIndex) => (
+                  <td key={columnIndex} className="p-1">
+                    <Input
+                      value={row[columnIndex] ?? ''}
+                      onChange={(e) => updateValue(rowIndex, columnIndex, e.target.value)}
+                      onKeyDown={stopEnterPropagation}
+                      className="h-7 text-xs"
+                    />
+                  </td>
+                ))}
+                <td className="w-8">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                    onClick={() => onChange({ ...table, rows: table.rows.filter((_, i) => i !== rowIndex) })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => onChange({ ...table, rows: [...table.rows, table.parameters.map(() => '')] })}
+        >
+          <Plus className="mr-2 h-3 w-3" />
+          Add Row
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={addParameter}>
+          <Plus className="mr-2 h-3 w-3" />
+          Add Parameter
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Use {'{{parameter}}'} in steps and expected results; each row runs as a separate iteration.
+      </p>
+    </div>
+  );
+};
@@ -9,6 +9,10 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { Release, loadReleases } from "@/lib/releases";
+import { resolveAIConfig, aiProviderNotConfiguredMessage } from "@/lib/aiProvider";
+import { ReleaseSelect } from "@/components/ReleaseSelect";
+import { PromptPreviewDialog } from "@/components/PromptPreviewDialog";
 import { 
   FileText, 
   Download, 
@@ -18,7 +22,8 @@ import {
   Calendar,
   Users,
   Upload,
-  Settings
+  Settings,
+  Eye
 } from "lucide-react";
 
 interface TestPlanProps {
@@ -33,6 +38,9 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
   const [customPrompt, setCustomPrompt] = useState("");
   const [requirementsDoc, setRequirementsDoc] = useState("");
   const [userStories, setUserStories] = useState<any[]>([]);
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [releaseFilter, setReleaseFilter] = useState('all');
+  const [previewBody, setPreviewBody] = useState<Record<string, unknown> | null>(null);
   const { toast } = useToast();
   const { session } = useAuth();
 
@@ -45,6 +53,7 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
         const { data, error } = await supabase
           .from('user_stories')
           .select('*')
+          .is('deleted_at', null)
           .eq('project_id', projectId)
           .order('created_at', { ascending: false });
 
@@ -61,44 +70,66 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
     };
 
     loadUserStories();
+    loadReleases(projectId)
+      .then(setReleases)
+      .catch(error => console.error('Error loading releases:', error));
+    setReleaseFilter('all');
   }, [projectId, toast]);
 
-  // Load OpenAI config from localStorage (from integrations)
-  const loadOpenAIConfig = () => {
-    try {
-      const saved = localStorage.getItem('integration-configs');
-      const configs = saved ? JSON.parse(saved) : {};
-      return configs.openai;
-    } catch {
-      return null;
-    }
-  };
+  const selectedRelease = releases.find(release => release.id === releaseFilter) || null;
+  const scopedStories = selectedRelease
+    ? userStories.filter(story => story.release_id === selectedRelease.id)
+    : userStories;
 
-  const generateTestPlan = async () => {
+  const validateInputs = () => {
     if (!projectName.trim()) {
       toast({
         title: "Error",
         description: "Please enter a project name",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    // Check if OpenAI is configured
-    const openAIConfig = loadOpenAIConfig();
-    if (!openAIConfig?.endpoint || !openAIConfig?.apiKey || !openAIConfig?.deploymentId) {
+    if (scopedStories.length === 0 && !requirementsDoc.trim()) {
       toast({
-        title: "Error",
-        description: "Please configure Azure OpenAI in the Integrations tab first",
+        title: "Error", 
+        description: "Please add user stories or upload a requirements document",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    if (userStories.length === 0 && !requirementsDoc.trim()) {
+    return true;
+  };
+
+  // Shared by generation and the prompt preview
+  const buildRequestBody = () => ({
+    userStories: scopedStories,
+    release: selectedRelease
+      ? { name: selectedRelease.name, startDate: selectedRelease.startDate, targetDate: selectedRelease.targetDate }
+      : undefined,
+    projectName,
+    testingScope,
+    customPrompt: customPrompt.trim(),
+    requirementsDoc: requirementsDoc.trim(),
+    projectId
+  });
+
+  const previewTestPlanPrompt = () => {
+    if (!validateInputs()) return;
+    setPreviewBody(buildRequestBody());
+  };
+
+  const generateTestPlan = async () => {
+    if (!validateInputs()) return;
+
+    // Check if the project's AI provider is configured
+    const { provider, config: aiConfig } = await resolveAIConfig(projectId);
+    if (!aiConfig) {
       toast({
-        title: "Error", 
-        description: "Please add user stories or upload a requirements document",
+        title: "Error",
+        description: aiProviderNotConfiguredMessage(provider),
         variant: "destructive",
       });
       return;
@@ -107,15 +138,7 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
     setLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('generate-test-plan', {
-        body: {
-          userStories,
-          projectName,
-          testingScope,
-          customPrompt: customPrompt.trim(),
-          requirementsDoc: requirementsDoc.trim(),
-          projectId,
-          openAIConfig
-        }
+        body: { ...buildRequestBody(), aiConfig }
       });
 
       if (error) throw error;
@@ -221,43 +244,64 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
           </div>
           
           <div className="space-y-2">
-            <Label>User Stories ({userStories.length} available)</Label>
+            <div className="flex items-center justify-between gap-2">
+              <Label>User Stories ({scopedStories.length} available)</Label>
+              {releases.length > 0 && (
+                <ReleaseSelect
+                  releases={releases}
+                  value={releaseFilter}
+                  onValueChange={setReleaseFilter}
+                  className="w-44 h-8"
+                />
+              )}
+            </div>
             <div className="flex flex-wrap gap-2">
-              {userStories.slice(0, 5).map((story, index) => (
+              {scopedStories.slice(0, 5).map((story, index) => (
                 <Badge key={index} variant="outline" className="text-xs">
                   {story.title}
                 </Badge>
               ))}
-              {userStories.length > 5 && (
+              {scopedStories.length > 5 && (
                 <Badge variant="outline" className="text-xs">
-                  +{userStories.length - 5} more
+                  +{scopedStories.length - 5} more
                 </Badge>
               )}
             </div>
-            {userStories.length === 0 && !requirementsDoc.trim() && (
+            {scopedStories.length === 0 && !requirementsDoc.trim() && (
               <p className="text-sm text-muted-foreground">
                 Add user stories in the User Stories tab or paste requirements document above
               </p>
             )}
           </div>
 
-          <Button 
-            onClick={generateTestPlan} 
-            disabled={loading}
-            className="w-full md:w-auto"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Test Plan...
-              </>
-            ) : (
-              <>
-                <FileText className="mr-2 h-4 w-4" />
-                Generate Test Plan
-              </>
-            )}
-          </Button>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Button 
+              onClick={generateTestPlan} 
+              disabled={loading}
+              className="w-full md:w-auto"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating Test Plan...
+                </>
+              ) : (
+                <>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Generate Test Plan
+                </>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={previewTestPlanPrompt}
+              disabled={loading}
+              className="w-full md:w-auto"
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              Preview Prompt
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -294,7 +338,7 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
               <Users className="h-4 w-4 text-primary" />
               <div>
                 <p className="text-sm font-medium">User Stories</p>
-                <p className="text-2xl font-bold">{userStories.length}</p>
+                <p className="text-2xl font-bold">{scopedStories.length}</p>
               </div>
             </div>
           </CardContent>
@@ -326,6 +370,13 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
           </CardContent>
         </Card>
       </div>
+
+      <PromptPreviewDialog
+        generator="generate-test-plan"
+        body={previewBody}
+        open={!!previewBody}
+        onOpenChange={(isOpen) => !isOpen && setPreviewBody(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -10,8 +10,16 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
-import { Document, Packer, Paragraph, TextRun, Table, TableRow, TableCell, WidthType, ImageRun } from "docx";
+import { Document, Packer, Paragraph, TextRun, Table, TableRow, TableCell, WidthType, ImageRun, ExternalHyperlink } from "docx";
 import html2canvas from "html2canvas";
+import { TestAttachment, loadAttachments, getAttachmentUrls, isImageAttachment, formatFileSize } from "@/lib/attachments";
+import { formatIteration } from "@/lib/dataTables";
+import { ConfigurationCoverageMatrix } from "@/components/ConfigurationCoverageMatrix";
+import { ReleaseSelect } from "@/components/ReleaseSelect";
+import { ReleaseReadinessCard } from "@/components/ReleaseReadinessCard";
+import { PromptPreviewDialog } from "@/components/PromptPreviewDialog";
+import { Release, loadReleases } from "@/lib/releases";
+import { resolveAIConfig, aiProviderNotConfiguredMessage } from "@/lib/aiProvider";
 import { 
   FileText, 
   Download, 
@@ -23,7 +31,9 @@ import {
   AlertCircle,
   Bug,
   Shield,
-  TrendingUp
+  TrendingUp,
+  Paperclip,
+  Eye
 } from "lucide-react";
 
 interface TestReportProps {
@@ -48,6 +58,13 @@ export const TestReport = ({ projectId }: TestReportProps) => {
   const [testCases, setTestCases] = useState<TestCase[]>([]);
   const [includeDefects, setIncludeDefects] = useState(false);
   const [azureDevOpsData, setAzureDevOpsData] = useState<any>(null);
+  const [testRuns, setTestRuns] = useState<{ id: string; name: string; status: string; release_id: string | null }[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState("live");
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [releaseFilter, setReleaseFilter] = useState("all");
+  const [evidence, setEvidence] = useState<TestAttachment[]>([]);
+  const [evidenceUrls, setEvidenceUrls] = useState<Record<string, string>>({});
+  const [previewBody, setPreviewBody] = useState<Record<string, unknown> | null>(null);
   const { toast } = useToast();
 
   // Chart refs for capturing images
@@ -56,12 +73,91 @@ export const TestReport = ({ projectId }: TestReportProps) => {
   const defectChartRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    const loadTestRuns = async () => {
+      const { data, error } = await supabase
+        .from('test_runs')
+        .select('id, name, status, release_id')
+        .eq('project_id', projectId)
+        .order('started_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading test runs:', error);
+        return;
+      }
+
+      setTestRuns(data || []);
+    };
+
+    loadTestRuns();
+    loadReleases(projectId)
+      .then(setReleases)
+      .catch(error => console.error('Error loading releases:', error));
+    setSelectedRunId('live');
+    setReleaseFilter('all');
+  }, [projectId]);
+
+  useEffect(() => {
+    const loadEvidence = async (filter: { testCaseIds?: string[]; testRunResultIds?: string[] }) => {
+      try {
+        const attachments = await loadAttachments(filter);
+        setEvidence(attachments);
+        setEvidenceUrls(await getAttachmentUrls(attachments));
+      } catch (error) {
+        console.error('Error loading evidence:', error);
+      }
+    };
+
+    const loadRunResults = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('test_run_results')
+          .select('id, status, iteration_index, iteration_data, test_cases(id, title, priority), test_configurations(name)')
+          .eq('test_run_id', selectedRunId);
+
+        if (error) throw error;
+
+        // Results that haven't been executed yet are reported as pending
+        const formattedTestCases: TestCase[] = (data || [])
+          .filter(result => result.test_cases)
+          .map(result => ({
+            id: result.test_cases.id,
+            // Each data row of a parameterized test case, and each configuration, counts as its own execution
+            title: [
+              result.test_cases.title,
+              result.iteration_data ? `[${formatIteration(result.iteration_data as Record<string, string>)}]` : '',
+              result.test_configurations ? `(${result.test_configurations.name})` : ''
+            ].filter(Boolean).join(' '),
+            status: (result.status === 'not-run' ? 'pending' : result.status) as TestCase['status'],
+            priority: result.test_cases.priority as 'low' | 'medium' | 'high',
+            userStoryTitle: undefined
+          }));
+        setTestCases(formattedTestCases);
+        loadEvidence({ testRunResultIds: (data || []).map(result => result.id) });
+      } catch (error) {
+        console.error('Error loading test run results:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load test run results from database",
+          variant: "destructive",
+        });
+      }
+    };
+
     const loadTestCases = async () => {
       try {
-        const { data: testCasesData, error } = await supabase
-          .from('test_cases')
-          .select('id, title, status, priority, steps, description, expected_result')
-          .eq('project_id', projectId);
+        // Scope the live status to the test cases of the selected release's stories
+        const { data: testCasesData, error } = releaseFilter === 'all'
+          ? await supabase
+              .from('test_cases')
+              .select('id, title, status, priority, steps, description, expected_result')
+              .is('deleted_at', null)
+              .eq('project_id', projectId)
+          : await supabase
+              .from('test_cases')
+              .select('id, title, status, priority, steps, description, expected_result, user_stories!inner(release_id)')
+              .is('deleted_at', null)
+              .eq('project_id', projectId)
+              .eq('user_stories.release_id', releaseFilter);
         
         if (error) {
           console.error('Error loading test cases:', error);
@@ -83,6 +179,7 @@ export const TestReport = ({ projectId }: TestReportProps) => {
             userStoryTitle: undefined // Will be populated later if needed
           }));
           setTestCases(formattedTestCases);
+          loadEvidence({ testCaseIds: formattedTestCases.map(tc => tc.id) });
         }
       } catch (error) {
         console.error('Error loading test cases:', error);
@@ -94,8 +191,14 @@ export const TestReport = ({ projectId }: TestReportProps) => {
       }
     };
     
-    loadTestCases();
-  }, [projectId, toast]);
+    if (selectedRunId === 'live') {
+      loadTestCases();
+    } else {
+      loadRunResults();
+    }
+  }, [projectId, selectedRunId, releaseFilter, toast]);
+
+  const selectedRelease = releases.find(release => release.id === releaseFilter) || null;
 
   const fetchAzureDevOpsDefects = async () => {
     // Check if Azure DevOps integration is configured from the integrations module
@@ -160,14 +263,14 @@ export const TestReport = ({ projectId }: TestReportProps) => {
     }
   };
 
-  const generateTestReport = async () => {
+  const validateInputs = () => {
     if (!projectName.trim()) {
       toast({
         title: "Error",
         description: "Please enter a project name",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
     if (testCases.length === 0) {
@@ -176,55 +279,57 @@ export const TestReport = ({ projectId }: TestReportProps) => {
         description: "No test cases found. Please add test cases first.",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    // Load OpenAI configuration from integrations
-    const savedConfigs = localStorage.getItem('integration-configs');
-    if (!savedConfigs) {
-      toast({
-        title: "Error",
-        description: "OpenAI integration not configured. Please configure it in the Integrations tab.",
-        variant: "destructive",
-      });
-      return;
+    return true;
+  };
+
+  // Shared by generation and the prompt preview
+  const buildReportData = () => {
+    const reportData: any = {
+      testCases,
+      projectName,
+      reportType,
+      projectId,
+      testRunId: selectedRunId === 'live' ? undefined : selectedRunId,
+      releaseName: selectedRelease?.name,
+      testExecutionData: {
+        startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        endDate: new Date().toISOString().split('T')[0]
+      }
+    };
+
+    // Include Azure DevOps defect data if available and enabled
+    if (includeDefects && azureDevOpsData) {
+      reportData.azureDevOpsData = azureDevOpsData;
     }
 
-    const configs = JSON.parse(savedConfigs);
-    const openAIConfig = configs.openai;
-    
-    if (!openAIConfig || !openAIConfig.apiKey) {
+    return reportData;
+  };
+
+  const previewTestReportPrompt = () => {
+    if (!validateInputs()) return;
+    setPreviewBody(buildReportData());
+  };
+
+  const generateTestReport = async () => {
+    if (!validateInputs()) return;
+
+    // Load the project's AI provider configuration from integrations
+    const { provider, config: aiConfig } = await resolveAIConfig(projectId);
+    if (!aiConfig) {
       toast({
-        title: "Error", 
-        description: "OpenAI API key not found. Please configure OpenAI integration first.",
+        title: "Error",
+        description: aiProviderNotConfiguredMessage(provider),
         variant: "destructive",
       });
       return;
     }
 
-    // Convert endpoint to baseURL for Azure OpenAI compatibility
-    if (openAIConfig.endpoint) {
-      openAIConfig.baseURL = openAIConfig.endpoint;
-    }
-
     setLoading(true);
     try {
-      const reportData: any = {
-        testCases,
-        projectName,
-        reportType,
-        projectId,
-        openAIConfig, // Pass the OpenAI config
-        testExecutionData: {
-          startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          endDate: new Date().toISOString().split('T')[0]
-        }
-      };
-
-      // Include Azure DevOps defect data if available and enabled
-      if (includeDefects && azureDevOpsData) {
-        reportData.azureDevOpsData = azureDevOpsData;
-      }
+      const reportData = { ...buildReportData(), aiConfig };
 
       const { data, error } = await supabase.functions.invoke('generate-test-report', {
         body: reportData
@@ -610,6 +715,72 @@ export const TestReport = ({ projectId }: TestReportProps) => {
         }
       }
 
+      // Add execution evidence with thumbnails for images and links for every file
+      if (evidence.length > 0) {
+        // Links in the document need to outlive the session, so sign them for 7 days
+        const documentUrls = await getAttachmentUrls(evidence, 7 * 24 * 60 * 60);
+
+        docChildren.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: "Execution Evidence",
+                bold: true,
+                size: 28,
+              }),
+            ],
+          }),
+          new Paragraph({ text: "" })
+        );
+
+        for (const attachment of evidence) {
+          const url = documentUrls[attachment.filePath];
+          const testCaseTitle = testCases.find(tc => tc.id === attachment.testCaseId)?.title || 'Test case';
+
+          docChildren.push(
+            new Paragraph({
+              children: [
+                new TextRun({ text: `${testCaseTitle}: `, bold: true, size: 22 }),
+                url
+                  ? new ExternalHyperlink({
+                      link: url,
+                      children: [new TextRun({ text: attachment.fileName, style: "Hyperlink", size: 22 })],
+                    })
+                  : new TextRun({ text: attachment.fileName, size: 22 }),
+                new TextRun({ text: ` (${formatFileSize(attachment.fileSize)})`, size: 20 }),
+              ],
+            })
+          );
+
+          const imageType = getDocxImageType(attachment.contentType);
+          if (url && imageType) {
+            try {
+              const imageBlob = await (await fetch(url)).blob();
+              const bitmap = await createImageBitmap(imageBlob);
+              const scale = Math.min(1, 400 / bitmap.width);
+              docChildren.push(
+                new Paragraph({
+                  children: [
+                    new ImageRun({
+                      data: await imageBlob.arrayBuffer(),
+                      transformation: {
+                        width: Math.round(bitmap.width * scale),
+                        height: Math.round(bitmap.height * scale),
+                      },
+                      type: imageType,
+                    }),
+                  ],
+                })
+              );
+            } catch (error) {
+              console.error('Error embedding evidence image:', error);
+            }
+          }
+        }
+
+        docChildren.push(new Paragraph({ text: "" }));
+      }
+
       // Add AI Generated Report Content
       docChildren.push(
         new Paragraph({
@@ -676,6 +847,16 @@ export const TestReport = ({ projectId }: TestReportProps) => {
     }
   };
 
+  const getDocxImageType = (contentType: string): "png" | "jpg" | "gif" | "bmp" | null => {
+    switch (contentType) {
+      case 'image/png': return 'png';
+      case 'image/jpeg': return 'jpg';
+      case 'image/gif': return 'gif';
+      case 'image/bmp': return 'bmp';
+      default: return null;
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'passed': return <CheckCircle className="h-4 w-4 text-success" />;
@@ -956,6 +1137,53 @@ export const TestReport = ({ projectId }: TestReportProps) => {
         </div>
       )}
 
+      {/* Execution Evidence */}
+      {evidence.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Paperclip className="h-5 w-5 text-primary" />
+              Execution Evidence ({evidence.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+              {evidence.map(attachment => (
+                <a
+                  key={attachment.id}
+                  href={evidenceUrls[attachment.filePath]}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="border rounded overflow-hidden hover:shadow-elegant transition-all"
+                  title={attachment.fileName}
+                >
+                  {isImageAttachment(attachment) && evidenceUrls[attachment.filePath] ? (
+                    <img src={evidenceUrls[attachment.filePath]} alt={attachment.fileName} className="h-24 w-full object-cover" />
+                  ) : (
+                    <div className="h-24 flex items-center justify-center bg-muted">
+                      <FileText className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="p-2">
+                    <p className="text-xs font-medium truncate">{attachment.fileName}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {testCases.find(tc => tc.id === attachment.testCaseId)?.title || 'Test case'}
+                    </p>
+                  </div>
+                </a>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedRelease && <ReleaseReadinessCard projectId={projectId} release={selectedRelease} />}
+
+      <ConfigurationCoverageMatrix
+        projectId={projectId}
+        testRunId={selectedRunId === 'live' ? undefined : selectedRunId}
+      />
+
       {/* Configuration */}
       <Card className="shadow-card">
         <CardHeader>
@@ -989,6 +1217,35 @@ export const TestReport = ({ projectId }: TestReportProps) => {
                 </SelectContent>
               </Select>
             </div>
+            {releases.length > 0 && (
+              <div className="space-y-2">
+                <Label>Release</Label>
+                <ReleaseSelect
+                  releases={releases}
+                  value={releaseFilter}
+                  onValueChange={(value) => {
+                    setReleaseFilter(value);
+                    setSelectedRunId('live');
+                  }}
+                />
+              </div>
+            )}
+            <div className={`space-y-2 ${releases.length > 0 ? '' : 'md:col-span-2'}`}>
+              <Label htmlFor="testRun">Results Source</Label>
+              <Select value={selectedRunId} onValueChange={setSelectedRunId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select results source" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">Current test case status</SelectItem>
+                  {testRuns.filter(run => releaseFilter === 'all' || run.release_id === releaseFilter).map(run => (
+                    <SelectItem key={run.id} value={run.id}>
+                      {run.name} ({run.status.replace('-', ' ')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -1042,23 +1299,34 @@ export const TestReport = ({ projectId }: TestReportProps) => {
             </div>
           </div>
 
-          <Button 
-            onClick={generateTestReport} 
-            disabled={loading}
-            className="w-full md:w-auto"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Report...
-              </>
-            ) : (
-              <>
-                <FileText className="mr-2 h-4 w-4" />
-                Generate Test Report
-              </>
-            )}
-          </Button>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Button 
+              onClick={generateTestReport} 
+              disabled={loading}
+              className="w-full md:w-auto"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating Report...
+                </>
+              ) : (
+                <>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Generate Test Report
+                </>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={previewTestReportPrompt}
+              disabled={loading}
+              className="w-full md:w-auto"
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              Preview Prompt
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -1098,6 +1366,13 @@ export const TestReport = ({ projectId }: TestReportProps) => {
           </CardContent>
         </Card>
       )}
+
+      <PromptPreviewDialog
+        generator="generate-test-report"
+        body={previewBody}
+        open={!!previewBody}
+        onOpenChange={(isOpen) => !isOpen && setPreviewBody(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,1102 @@
+import { useState, useEffect, Fragment } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { TestAttachments } from "@/components/TestAttachments";
+import { DefectDialog } from "@/components/DefectDialog";
+import { CommentsButton } from "@/components/Comments";
+import { TestConfigurationsDialog } from "@/components/TestConfigurationsDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useCommentSummaries } from "@/hooks/useCommentSummaries";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  createTestRun,
+  summarizeRunResults,
+  loadStepResults,
+  saveStepResult,
+  RunResultStatus,
+  StepResult
+} from "@/lib/testRuns";
+import { applyParameters, formatIteration } from "@/lib/dataTables";
+import { DefectInput, describeFailedExecution } from "@/lib/defects";
+import { TestConfiguration, loadTestConfigurations, describeConfiguration } from "@/lib/testConfigurations";
+import { Release, loadReleases } from "@/lib/releases";
+import { ReleaseSelect } from "@/components/ReleaseSelect";
+import { TagFilter } from "@/components/TagFilter";
+import { collectTags, matchesTags } from "@/lib/tags";
+import {
+  PlayCircle,
+  Plus,
+  Search,
+  CheckCircle,
+  RotateCcw,
+  Trash2,
+  ListChecks,
+  ChevronDown,
+  ChevronRight,
+  Bug,
+  MonitorSmartphone
+} from "lucide-react";
+
+interface TestRun {
+  id: string;
+  name: string;
+  description: string;
+  status: 'in-progress' | 'completed';
+  startedAt: string;
+  completedAt: string | null;
+  results: { status: string }[];
+  configurationIds: string[];
+  releaseId: string | null;
+}
+
+interface RunResult {
+  id: string;
+  testCaseId: string;
+  readableId: string;
+  title: string;
+  priority: string;
+  userStoryId: string | null;
+  userStoryTitle: string;
+  status: RunResultStatus;
+  notes: string;
+  executedAt: string | null;
+  iterationIndex: number;
+  iterationData: Record<string, string> | null;
+  configurationId: string | null;
+  defectCount: number;
+}
+
+interface SelectableTestCase {
+  id: string;
+  readableId: string;
+  title: string;
+  userStoryTitle: string;
+  tags: string[];
+}
+
+interface TestRunsProps {
+  projectId: string;
+}
+
+export const TestRuns = ({ projectId }: TestRunsProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries(projectId, 'test_run_result');
+  const [runs, setRuns] = useState<TestRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [results, setResults] = useState<RunResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingResults, setIsLoadingResults] = useState(false);
+  const [expandedResultId, setExpandedResultId] = useState<string | null>(null);
+  const [stepResults, setStepResults] = useState<Record<string, StepResult[]>>({});
+
+  // New run dialog state
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newRun, setNewRun] = useState({ name: '', description: '', releaseId: 'none' });
+  const [availableTestCases, setAvailableTestCases] = useState<SelectableTestCase[]>([]);
+  const [selectedTestCaseIds, setSelectedTestCaseIds] = useState<Set<string>>(new Set());
+  const [caseSearchTerm, setCaseSearchTerm] = useState('');
+  const [caseTagFilter, setCaseTagFilter] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [selectedConfigurationIds, setSelectedConfigurationIds] = useState<Set<string>>(new Set());
+
+  // Test configurations (browser × OS × environment)
+  const [configurations, setConfigurations] = useState<TestConfiguration[]>([]);
+  const [showConfigurationsDialog, setShowConfigurationsDialog] = useState(false);
+  const [configurationFilter, setConfigurationFilter] = useState('all');
+
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [releaseFilter, setReleaseFilter] = useState('all');
+
+  // Log defect dialog state
+  const [defectResult, setDefectResult] = useState<RunResult | null>(null);
+  const [defectValues, setDefectValues] = useState<Partial<DefectInput>>({});
+
+  const loadRuns = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('test_runs')
+        .select('*, test_run_results(status), test_run_configurations(configuration_id)')
+        .eq('project_id', projectId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+
+      const transformedRuns: TestRun[] = (data || []).map(run => ({
+        id: run.id,
+        name: run.name,
+        description: run.description || '',
+        status: run.status as TestRun['status'],
+        startedAt: run.started_at,
+        completedAt: run.completed_at,
+        results: run.test_run_results || [],
+        configurationIds: (run.test_run_configurations || []).map(rc => rc.configuration_id),
+        releaseId: run.release_id
+      }));
+
+      setRuns(transformedRuns);
+      if (!selectedRunId && transformedRuns.length > 0) {
+        setSelectedRunId(transformedRuns[0].id);
+      }
+    } catch (error) {
+      console.error('Error loading test runs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test runs",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadResults = async (runId: string) => {
+    setIsLoadingResults(true);
+    try {
+      const { data, error } = await supabase
+        .from('test_run_results')
+        .select('*, test_cases(readable_id, title, priority, user_story_id, user_stories(title)), defects(id)')
+        .eq('test_run_id', runId)
+        .order('created_at', { ascending: true })
+        .order('iteration_index', { ascending: true });
+
+      if (error) throw error;
+
+      setResults((data || []).map(result => ({
+        id: result.id,
+        testCaseId: result.test_case_id,
+        readableId: result.test_cases?.readable_id || '',
+        title: result.test_cases?.title || 'Deleted test case',
+        priority: result.test_cases?.priority || 'medium',
+        userStoryId: result.test_cases?.user_story_id || null,
+        userStoryTitle: result.test_cases?.user_stories?.title || 'Unknown Story',
+        status: result.status as RunResultStatus,
+        notes: result.notes || '',
+        executedAt: result.executed_at,
+        iterationIndex: result.iteration_index,
+        iterationData: result.iteration_data as Record<string, string> | null,
+        configurationId: result.configuration_id,
+        defectCount: result.defects?.length || 0
+      })));
+    } catch (error) {
+      console.error('Error loading run results:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test run results",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingResults(false);
+    }
+  };
+
+  const loadAvailableTestCases = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('test_cases')
+        .select('id, readable_id, title, tags, user_stories(title)')
+        .is('deleted_at', null)
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setAvailableTestCases((data || []).map(tc => ({
+        id: tc.id,
+        readableId: tc.readable_id || '',
+        title: tc.title,
+        userStoryTitle: tc.user_stories?.title || 'Unknown Story',
+        tags: tc.tags || []
+      })));
+    } catch (error) {
+      console.error('Error loading test cases:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test cases",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadConfigurations = async () => {
+    try {
+      setConfigurations(await loadTestConfigurations(projectId));
+    } catch (error) {
+      console.error('Error loading test configurations:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadRuns();
+      loadConfigurations();
+      loadReleases(projectId)
+        .then(setReleases)
+        .catch(error => console.error('Error loading releases:', error));
+    }
+  }, [session?.user?.id, projectId]);
+
+  useEffect(() => {
+    setConfigurationFilter('all');
+    if (selectedRunId) {
+      loadResults(selectedRunId);
+    } else {
+      setResults([]);
+    }
+  }, [selectedRunId]);
+
+  const openCreateDialog = () => {
+    setNewRun({
+      name: `Run ${new Date().toLocaleDateString()}`,
+      description: '',
+      releaseId: releaseFilter !== 'all' && releaseFilter !== 'none' ? releaseFilter : 'none'
+    });
+    setSelectedTestCaseIds(new Set());
+    setSelectedConfigurationIds(new Set());
+    setCaseSearchTerm('');
+    setCaseTagFilter([]);
+    setShowCreateDialog(true);
+    loadAvailableTestCases();
+  };
+
+  // Tag filters make it easy to pick e.g. all "smoke" test cases with Select All
+  const filteredAvailableTestCases = availableTestCases.filter(tc =>
+    matchesTags(tc.tags, caseTagFilter) && (
+      tc.title.toLowerCase().includes(caseSearchTerm.toLowerCase()) ||
+      tc.readableId.toLowerCase().includes(caseSearchTerm.toLowerCase()) ||
+      tc.userStoryTitle.toLowerCase().includes(caseSearchTerm.toLowerCase())
+    )
+  );
+
+  const toggleTestCaseSelection = (testCaseId: string) => {
+    setSelectedTestCaseIds(prev => {
+      const next = new Set(prev);
+      if (next.has(testCaseId)) {
+        next.delete(testCaseId);
+      } else {
+        next.add(testCaseId);
+      }
+      return next;
+    });
+  };
+
+  const toggleConfigurationSelection = (configurationId: string) => {
+    setSelectedConfigurationIds(prev => {
+      const next = new Set(prev);
+      if (next.has(configurationId)) {
+        next.delete(configurationId);
+      } else {
+        next.add(configurationId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAllFiltered = () => {
+    const allSelected = filteredAvailableTestCases.every(tc => selectedTestCaseIds.has(tc.id));
+    setSelectedTestCaseIds(prev => {
+      const next = new Set(prev);
+      filteredAvailableTestCases.forEach(tc => {
+        if (allSelected) {
+          next.delete(tc.id);
+        } else {
+          next.add(tc.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleCreateRun = async () => {
+    if (!newRun.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name for the run",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedTestCaseIds.size === 0) {
+      toast({
+        title: "Error",
+        description: "Please select at least one test case",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const run = await createTestRun({
+        projectId,
+        name: newRun.name.trim(),
+        description: newRun.description.trim(),
+        testCaseIds: Array.from(selectedTestCaseIds),
+        configurationIds: Array.from(selectedConfigurationIds),
+        releaseId: newRun.releaseId === 'none' ? null : newRun.releaseId,
+        createdBy: session?.user?.id
+      });
+
+      setShowCreateDialog(false);
+      setSelectedRunId(run.id);
+      await loadRuns();
+      loadConfigurations();
+
+      toast({
+        title: "Test Run Created",
+        description: selectedConfigurationIds.size > 0
+          ? `"${run.name}" created with ${selectedTestCaseIds.size} test cases on ${selectedConfigurationIds.size} configurations`
+          : `"${run.name}" created with ${selectedTestCaseIds.size} test cases`,
+      });
+    } catch (error) {
+      console.error('Error creating test run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create test run",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const updateResult = async (resultId: string, changes: { status?: RunResultStatus; notes?: string }) => {
+    try {
+      const update: { status?: string; notes?: string; executed_by?: string; executed_at?: string | null } = { ...changes };
+      if (changes.status) {
+        update.executed_by = session?.user?.id;
+        update.executed_at = changes.status === 'not-run' ? null : new Date().toISOString();
+      }
+
+      const { error } = await supabase
+        .from('test_run_results')
+        .update(update)
+        .eq('id', resultId);
+
+      if (error) throw error;
+
+      setResults(prev => prev.map(result =>
+        result.id === resultId
+          ? {
+              ...result,
+              ...changes,
+              executedAt: update.executed_at !== undefined ? update.executed_at : result.executedAt
+            }
+          : result
+      ));
+
+      if (changes.status) {
+        setRuns(prev => prev.map(run => {
+          if (run.id !== selectedRunId) return run;
+          return {
+            ...run,
+            results: results.map(result => ({
+              status: result.id === resultId ? changes.status! : result.status
+            }))
+          };
+        }));
+      }
+    } catch (error) {
+      console.error('Error updating run result:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to record test result",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleStepResults = async (result: RunResult) => {
+    if (expandedResultId === result.id) {
+      setExpandedResultId(null);
+      return;
+    }
+
+    setExpandedResultId(result.id);
+    try {
+      const steps = await loadStepResults(result.id, result.testCaseId);
+      setStepResults(prev => ({ ...prev, [result.id]: steps }));
+    } catch (error) {
+      console.error('Error loading step results:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test steps",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateStepResult = async (resultId: string, stepId: string, changes: { status?: RunResultStatus; actualResult?: string }) => {
+    try {
+      await saveStepResult(resultId, stepId, changes);
+      setStepResults(prev => ({
+        ...prev,
+        [resultId]: (prev[resultId] || []).map(step =>
+          step.stepId === stepId ? { ...step, ...changes } : step
+        )
+      }));
+    } catch (error) {
+      console.error('Error updating step result:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to record step result",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDefectDialog = async (result: RunResult) => {
+    try {
+      const steps = stepResults[result.id] || await loadStepResults(result.id, result.testCaseId);
+      setStepResults(prev => ({ ...prev, [result.id]: steps }));
+      setDefectValues({
+        title: `Failed: ${result.title}`.slice(0, 255),
+        ...describeFailedExecution(steps, result.notes, result.iterationData),
+        severity: result.priority === 'high' ? 'high' : 'medium',
+        priority: result.priority === 'high' || result.priority === 'low' ? result.priority : 'medium',
+        testCaseId: result.testCaseId,
+        testRunResultId: result.id,
+        userStoryId: result.userStoryId
+      });
+      setDefectResult(result);
+    } catch (error) {
+      console.error('Error preparing defect:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test steps for the defect",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setRunRelease = async (runId: string, releaseId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('test_runs')
+        .update({ release_id: releaseId })
+        .eq('id', runId);
+
+      if (error) throw error;
+
+      setRuns(prev => prev.map(run => (run.id === runId ? { ...run, releaseId } : run)));
+    } catch (error) {
+      console.error('Error assigning release:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to assign the run to the release",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setRunStatus = async (runId: string, status: TestRun['status']) => {
+    try {
+      const { error } = await supabase
+        .from('test_runs')
+        .update({
+          status,
+          completed_at: status === 'completed' ? new Date().toISOString() : null
+        })
+        .eq('id', runId);
+
+      if (error) throw error;
+
+      setRuns(prev => prev.map(run =>
+        run.id === runId
+          ? { ...run, status, completedAt: status === 'completed' ? new Date().toISOString() : null }
+          : run
+      ));
+
+      toast({
+        title: status === 'completed' ? "Run Completed" : "Run Reopened",
+        description: status === 'completed'
+          ? "The test run has been marked as completed"
+          : "The test run is open for execution again",
+      });
+    } catch (error) {
+      console.error('Error updating test run:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update test run",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRun = async (runId: string, runName: string) => {
+    try {
+      const { error } = await supabase
+        .from('test_runs')
+        .delete()
+        .eq('id', runId);
+
+      if (error) throw error;
+
+      setRuns(prev => prev.filter(run => run.id !== runId));
+      if (selectedRunId === runId) {
+        setSelectedRunId(null);
+      }
+
+      toast({
+        title: "Test Run Deleted",
+        description: `"${runName}" and its results have been deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting test run:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete test run",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'passed': return 'bg-success text-success-foreground';
+      case 'failed': return 'bg-destructive text-destructive-foreground';
+      case 'blocked': return 'bg-warning text-warning-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  const filteredRuns = runs.filter(run =>
+    releaseFilter === 'all' || (releaseFilter === 'none' ? !run.releaseId : run.releaseId === releaseFilter)
+  );
+  const selectedRun = runs.find(run => run.id === selectedRunId) || null;
+  const getReleaseName = (releaseId: string | null) => releases.find(release => release.id === releaseId)?.name || '';
+  const selectedRunConfigurations = configurations.filter(configuration => selectedRun?.configurationIds.includes(configuration.id));
+  const visibleResults = configurationFilter === 'all'
+    ? results
+    : results.filter(result => result.configurationId === configurationFilter);
+  const selectedRunSummary = summarizeRunResults(visibleResults);
+  const getConfigurationName = (configurationId: string | null) =>
+    configurations.find(configuration => configuration.id === configurationId)?.name || '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Test Runs</h2>
+          <p className="text-muted-foreground">
+            Execute test cases in cycles and keep the history of every result {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowConfigurationsDialog(true)}>
+            <MonitorSmartphone className="mr-2 h-4 w-4" />
+            Configurations
+          </Button>
+          <Button variant="gradient" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Run
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Run list */}
+        <div className="space-y-3">
+          {releases.length > 0 && (
+            <Select value={releaseFilter} onValueChange={setReleaseFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Releases</SelectItem>
+                <SelectItem value="none">No Release</SelectItem>
+                {releases.map(release => (
+                  <SelectItem key={release.id} value={release.id}>{release.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {filteredRuns.map(run => {
+            const summary = summarizeRunResults(run.results);
+            return (
+              <Card
+                key={run.id}
+                className={`shadow-card cursor-pointer transition-all duration-200 hover:shadow-elegant ${selectedRunId === run.id ? 'border-primary' : ''}`}
+                onClick={() => setSelectedRunId(run.id)}
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{run.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Started {new Date(run.startedAt).toLocaleDateString()}
+                        {run.releaseId && ` · ${getReleaseName(run.releaseId)}`}
+                      </p>
+                    </div>
+                    <Badge variant={run.status === 'completed' ? 'secondary' : 'outline'}>
+                      {run.status.replace('-', ' ')}
+                    </Badge>
+                  </div>
+                  <Progress value={summary.progress} />
+                  <p className="text-xs text-muted-foreground">
+                    {summary.executed}/{summary.total} executed · {summary.passed} passed · {summary.failed} failed · {summary.blocked} blocked
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {!isLoading && runs.length === 0 && (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <PlayCircle className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">No Test Runs Yet</h3>
+                <p className="text-muted-foreground">
+                  Create a run from your test cases to start recording results.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Run detail */}
+        <div className="xl:col-span-2">
+          {selectedRun ? (
+            <Card className="shadow-card">
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-xl">{selectedRun.name}</CardTitle>
+                    {selectedRun.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{selectedRun.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      <Badge className={getStatusColor('passed')}>{selectedRunSummary.passed} passed</Badge>
+                      <Badge className={getStatusColor('failed')}>{selectedRunSummary.failed} failed</Badge>
+                      <Badge className={getStatusColor('blocked')}>{selectedRunSummary.blocked} blocked</Badge>
+                      <Badge className={getStatusColor('not-run')}>{selectedRunSummary['not-run']} not run</Badge>
+                    </div>
+                    {selectedRunConfigurations.length > 0 && (
+                      <Select value={configurationFilter} onValueChange={setConfigurationFilter}>
+                        <SelectTrigger className="w-64 h-8 mt-2 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Configurations ({selectedRunConfigurations.length})</SelectItem>
+                          {selectedRunConfigurations.map(configuration => (
+                            <SelectItem key={configuration.id} value={configuration.id}>{configuration.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {releases.length > 0 && (
+                      <ReleaseSelect
+                        releases={releases}
+                        value={selectedRun.releaseId || 'none'}
+                        onValueChange={(value) => setRunRelease(selectedRun.id, value === 'none' ? null : value)}
+                        emptyOption={{ value: 'none', label: 'No Release' }}
+                        className="w-36 h-9"
+                      />
+                    )}
+                    {selectedRun.status === 'in-progress' ? (
+                      <Button variant="outline" size="sm" onClick={() => setRunStatus(selectedRun.id, 'completed')}>
+                        <CheckCircle className="mr-2 h-3 w-3" />
+                        Complete Run
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => setRunStatus(selectedRun.id, 'in-progress')}>
+                        <RotateCcw className="mr-2 h-3 w-3" />
+                        Reopen
+                      </Button>
+                    )}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                          <Trash2 className="mr-2 h-3 w-3" />
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Test Run</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{selectedRun.name}"? All results recorded in this run will be lost. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteRun(selectedRun.id, selectedRun.name)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                {isLoadingResults ? (
+                  <p className="text-center text-muted-foreground py-8">Loading results...</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Test ID</TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead>Executed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleResults.map(result => (
+                        <Fragment key={result.id}>
+                          <TableRow>
+                            <TableCell className="font-mono text-xs">
+                              <button
+                                className="flex items-center gap-1 hover:text-primary"
+                                onClick={() => toggleStepResults(result)}
+                                title="Show step results"
+                              >
+                                {expandedResultId === result.id
+                                  ? <ChevronDown className="h-3 w-3" />
+                                  : <ChevronRight className="h-3 w-3" />}
+                                {result.readableId}
+                              </button>
+                            </TableCell>
+                            <TableCell className="max-w-64">
+                              <div className="truncate font-medium" title={result.title}>{result.title}</div>
+                              <div className="truncate text-xs text-muted-foreground">{result.userStoryTitle}</div>
+                              {result.iterationData && (
+                                <div className="truncate text-xs font-mono text-primary" title={formatIteration(result.iterationData)}>
+                                  Iteration {result.iterationIndex}: {formatIteration(result.iterationData)}
+                                </div>
+                              )}
+                              {result.configurationId && (
+                                <Badge variant="outline" className="mt-1 text-[10px]">
+                                  <MonitorSmartphone className="mr-1 h-3 w-3" />
+                                  {getConfigurationName(result.configurationId)}
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <Select
+                                  value={result.status}
+                                  onValueChange={(value) => updateResult(result.id, { status: value as RunResultStatus })}
+                                  disabled={selectedRun.status === 'completed'}
+                                >
+                                  <SelectTrigger className="w-28">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="not-run">Not Run</SelectItem>
+                                    <SelectItem value="passed">Passed</SelectItem>
+                                    <SelectItem value="failed">Failed</SelectItem>
+                                    <SelectItem value="blocked">Blocked</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                {(result.status === 'failed' || result.status === 'blocked') && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 px-2 text-destructive hover:text-destructive"
+                                    onClick={() => openDefectDialog(result)}
+                                    title="Log defect"
+                                  >
+                                    <Bug className="h-3 w-3" />
+                                    {result.defectCount > 0 && <span className="ml-1 text-xs">{result.defectCount}</span>}
+                                  </Button>
+                                )}
+                                <CommentsButton
+                                  projectId={projectId}
+                                  entityType="test_run_result"
+                                  entityId={result.id}
+                                  title={`${result.readableId} ${result.title}`.trim()}
+                                  summary={commentSummaries[result.id]}
+                                  onRead={refetchCommentSummaries}
+                                  compact
+                                />
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                defaultValue={result.notes}
+                                placeholder="Notes"
+                                className="h-8 text-xs"
+                                disabled={selectedRun.status === 'completed'}
+                                onBlur={(e) => {
+                                  if (e.target.value !== result.notes) {
+                                    updateResult(result.id, { notes: e.target.value });
+                                  }
+                                }}
+                              />
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {result.executedAt ? new Date(result.executedAt).toLocaleString() : '-'}
+                            </TableCell>
+                          </TableRow>
+                          {expandedResultId === result.id && (
+                            <TableRow className="bg-muted/30 hover:bg-muted/30">
+                              <TableCell colSpan={5}>
+                                {!stepResults[result.id] ? (
+                                  <p className="text-xs text-muted-foreground">Loading steps...</p>
+                                ) : stepResults[result.id].length === 0 ? (
+                                  <p className="text-xs text-muted-foreground">This test case has no structured steps.</p>
+                                ) : (
+                                  <ol className="space-y-2">
+                                    {stepResults[result.id].map((step, index) => (
+                                      <li key={step.stepId} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start text-xs">
+                                        <div className="md:col-span-5">
+                                          <span className="font-mono text-muted-foreground mr-2">{index + 1}.</span>
+                                          {applyParameters(step.action, result.iterationData)}
+                                          {step.removed && <Badge variant="outline" className="ml-2 text-[10px]">Removed step</Badge>}
+                                          {step.expectedResult && (
+                                            <p className="text-muted-foreground pl-5">Expected: {applyParameters(step.expectedResult, result.iterationData)}</p>
+                                          )}
+                                          {step.testData && (
+                                            <p className="text-muted-foreground pl-5">Data: {applyParameters(step.testData, result.iterationData)}</p>
+                                          )}
+                                          {step.sharedItems.length > 0 && (
+                                            <ol className="list-[lower-alpha] pl-9 text-muted-foreground">
+                                              {step.sharedItems.map((item, itemIndex) => (
+                                                <li key={itemIndex}>
+                                                  {applyParameters(item.action, result.iterationData)}
+                                                  {item.expectedResult && <span className="italic"> — {applyParameters(item.expectedResult, result.iterationData)}</span>}
+                                                </li>
+                                              ))}
+                                            </ol>
+                                          )}
+                                        </div>
+                                        <div className="md:col-span-2">
+                                          <Select
+                                            value={step.status}
+                                            onValueChange={(value) => updateStepResult(result.id, step.stepId, { status: value as RunResultStatus })}
+                                            disabled={selectedRun.status === 'completed' || step.removed}
+                                          >
+                                            <SelectTrigger className="h-8 text-xs">
+                                              <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                              <SelectItem value="not-run">Not Run</SelectItem>
+                                              <SelectItem value="passed">Passed</SelectItem>
+                                              <SelectItem value="failed">Failed</SelectItem>
+                                              <SelectItem value="blocked">Blocked</SelectItem>
+                                            </SelectContent>
+                                          </Select>
+                                        </div>
+                                        <div className="md:col-span-5">
+                                          <Input
+                                            defaultValue={step.actualResult}
+                                            placeholder="Actual result"
+                                            className="h-8 text-xs"
+                                            disabled={selectedRun.status === 'completed' || step.removed}
+                                            onBlur={(e) => {
+                                              if (e.target.value !== step.actualResult) {
+                                                updateStepResult(result.id, step.stepId, { actualResult: e.target.value });
+                                              }
+                                            }}
+                                          />
+                                        </div>
+                                      </li>
+                                    ))}
+                                  </ol>
+                                )}
+                                <div className="mt-3">
+                                  <TestAttachments
+                                    projectId={projectId}
+                                    testCaseId={result.testCaseId}
+                                    testRunResultId={result.id}
+                                    editable={selectedRun.status !== 'completed'}
+                                  />
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <ListChecks className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">Select a test run to record results.</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <DefectDialog
+        projectId={projectId}
+        open={!!defectResult}
+        onOpenChange={(open) => !open && setDefectResult(null)}
+        initialValues={defectValues}
+        linkedTestCaseLabel={defectResult ? `${defectResult.readableId} ${defectResult.title}`.trim() : undefined}
+        onSaved={() => {
+          const resultId = defectResult?.id;
+          setResults(prev => prev.map(result =>
+            result.id === resultId ? { ...result, defectCount: result.defectCount + 1 } : result
+          ));
+        }}
+      />
+
+      <TestConfigurationsDialog
+        projectId={projectId}
+        open={showConfigurationsDialog}
+        onOpenChange={setShowConfigurationsDialog}
+        onChanged={setConfigurations}
+      />
+
+      {/* New Run Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Create Test Run</DialogTitle>
+            <DialogDescription>
+              Select the test cases to execute in this cycle. Each run keeps its own results.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="run-name">Name</Label>
+              <Input
+                id="run-name"
+                value={newRun.name}
+                onChange={(e) => setNewRun({ ...newRun, name: e.target.value })}
+                placeholder="e.g., Sprint 12 regression"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="run-description">Description (Optional)</Label>
+              <Textarea
+                id="run-description"
+                value={newRun.description}
+                onChange={(e) => setNewRun({ ...newRun, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            {releases.length > 0 && (
+              <div className="space-y-2">
+                <Label>Release</Label>
+                <ReleaseSelect
+                  releases={releases}
+                  value={newRun.releaseId}
+                  onValueChange={(value) => setNewRun({ ...newRun, releaseId: value })}
+                  emptyOption={{ value: 'none', label: 'No Release' }}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Test Cases ({selectedTestCaseIds.size} selected)</Label>
+                <Button variant="ghost" size="sm" onClick={toggleSelectAllFiltered}>
+                  {filteredAvailableTestCases.length > 0 && filteredAvailableTestCases.every(tc => selectedTestCaseIds.has(tc.id))
+                    ? 'Deselect All'
+                    : 'Select All'}
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Filter test cases..."
+                    value={caseSearchTerm}
+                    onChange={(e) => setCaseSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <TagFilter tags={collectTags(availableTestCases)} selected={caseTagFilter} onChange={setCaseTagFilter} />
+              </div>
+              <div className="border rounded-md max-h-72 overflow-y-auto divide-y">
+                {filteredAvailableTestCases.map(tc => (
+                  <label key={tc.id} className="flex items-center gap-3 p-2 cursor-pointer hover:bg-muted/50">
+                    <Checkbox
+                      checked={selectedTestCaseIds.has(tc.id)}
+                      onCheckedChange={() => toggleTestCaseSelection(tc.id)}
+                    />
+                    <span className="font-mono text-xs text-muted-foreground w-24 shrink-0">{tc.readableId}</span>
+                    <span className="text-sm flex-1 truncate">{tc.title}</span>
+                    {tc.tags.length > 0 && (
+                      <span className="text-xs text-muted-foreground truncate max-w-32">{tc.tags.join(', ')}</span>
+                    )}
+                    <span className="text-xs text-muted-foreground truncate max-w-40">{tc.userStoryTitle}</span>
+                  </label>
+                ))}
+                {filteredAvailableTestCases.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No test cases found</p>
+                )}
+              </div>
+            </div>
+            {configurations.length > 0 && (
+              <div className="space-y-2">
+                <Label>Configurations ({selectedConfigurationIds.size} selected)</Label>
+                <div className="flex flex-wrap gap-2">
+                  {configurations.map(configuration => (
+                    <label
+                      key={configuration.id}
+                      className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm cursor-pointer hover:bg-muted/50"
+                      title={describeConfiguration(configuration)}
+                    >
+                      <Checkbox
+                        checked={selectedConfigurationIds.has(configuration.id)}
+                        onCheckedChange={() => toggleConfigurationSelection(configuration.id)}
+                      />
+                      {configuration.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Each selected test case is executed once per configuration. Leave empty to run without a configuration.
+                </p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateRun} disabled={isCreating}>
+              <PlayCircle className="mr-2 h-4 w-4" />
+              {isCreating ? 'Creating...' : 'Create Run'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
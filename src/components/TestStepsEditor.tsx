@@ -0,0 +1,129 @@
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, ArrowUp, ArrowDown, Layers } from "lucide-react";
+import { TestStep, emptyTestStep } from "@/lib/testSteps";
+import { SharedStep } from "@/lib/sharedSteps";
+
+interface TestStepsEditorProps {
+  steps: TestStep[];
+  onChange: (steps: TestStep[]) => void;
+  sharedSteps?: SharedStep[];
+}
+
+export const TestStepsEditor = ({ steps, onChange, sharedSteps = [] }: TestStepsEditorProps) => {
+  const updateStep = (index: number, changes: Partial<TestStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const stopEnterPropagation = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.stopPropagation();
+    }
+  };
+
+  const insertSharedStep = (sharedStepId: string) => {
+    const sharedStep = sharedSteps.find(shared => shared.id === sharedStepId);
+    if (!sharedStep) return;
+    onChange([...steps, { action: sharedStep.name, expectedResult: '', testData: '', sharedStepId: sharedStep.id }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => {
+        const sharedStep = step.sharedStepId ? sharedSteps.find(shared => shared.id === step.sharedStepId) : undefined;
+        return (
+        <div key={step.id || `new-${index}`} className={`border rounded p-2 space-y-1 ${step.sharedStepId ? 'bg-muted/30' : ''}`}>
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-xs text-muted-foreground">Step {index + 1}</span>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          {step.sharedStepId ? (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Layers className="h-3 w-3 text-primary" />
+                <span className="text-xs font-medium">{sharedStep?.name || step.action}</span>
+                <Badge variant="outline" className="text-[10px]">Shared</Badge>
+              </div>
+              <ol className="list-decimal list-inside text-xs text-muted-foreground space-y-0.5">
+                {(sharedStep?.items || []).map((item, itemIndex) => (
+                  <li key={item.id || itemIndex}>
+                    {item.action}
+                    {item.expectedResult && <span className="italic"> — {item.expectedResult}</span>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : (
+          <>
+          <Textarea
+            value={step.action}
+            onChange={(e) => updateStep(index, { action: e.target.value })}
+            onKeyDown={stopEnterPropagation}
+            placeholder="Action"
+            className="text-xs min-h-[40px]"
+          />
+          <Textarea
+            value={step.expectedResult}
+            onChange={(e) => updateStep(index, { expectedResult: e.target.value })}
+            onKeyDown={stopEnterPropagation}
+            placeholder="Expected result (optional)"
+            className="text-xs min-h-[40px]"
+          />
+          <Textarea
+            value={step.testData}
+            onChange={(e) => updateStep(index, { testData: e.target.value })}
+            onKeyDown={stopEnterPropagation}
+            placeholder="Test data (optional)"
+            className="text-xs min-h-[40px]"
+          />
+          </>
+          )}
+        </div>
+        );
+      })}
+      <Button variant="outline" size="sm" className="w-full" onClick={() => onChange([...steps, emptyTestStep()])}>
+        <Plus className="mr-2 h-3 w-3" />
+        Add Step
+      </Button>
+      {sharedSteps.length > 0 && (
+        <Select value="" onValueChange={insertSharedStep}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Insert shared step..." />
+          </SelectTrigger>
+          <SelectContent>
+            {sharedSteps.map(sharedStep => (
+              <SelectItem key={sharedStep.id} value={sharedStep.id}>
+                {sharedStep.name} ({sharedStep.items.length} steps)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
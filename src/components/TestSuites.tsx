@@ -0,0 +1,874 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { createTestRun } from "@/lib/testRuns";
+import { loadTestCaseSteps, formatStepsCell, toAutomationSteps } from "@/lib/testSteps";
+import { loadSharedSteps, expandSteps } from "@/lib/sharedSteps";
+import { TestDataTable, normalizeDataTable, hasDataTable, formatDataTableCell } from "@/lib/dataTables";
+import {
+  TestSuite,
+  TestSuiteNode,
+  buildSuiteTree,
+  getDescendantSuiteIds,
+  getSuitePath,
+  loadTestSuites,
+  loadSuiteTestCaseIds
+} from "@/lib/testSuites";
+import {
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Search,
+  Edit3,
+  Trash2,
+  X,
+  PlayCircle,
+  Download,
+  Code2,
+  GripVertical
+} from "lucide-react";
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+
+interface SuiteTestCase {
+  id: string;
+  readableId: string;
+  title: string;
+  description: string;
+  expectedResult: string;
+  testData: string;
+  dataTable: TestDataTable | null;
+  priority: string;
+  status: string;
+  userStoryTitle: string;
+}
+
+interface TestSuitesProps {
+  projectId: string;
+}
+
+// Drag payload types so suites and test cases can share drop targets
+const SUITE_DRAG_TYPE = 'application/x-test-suite-id';
+const TEST_CASE_DRAG_TYPE = 'application/x-test-case-id';
+
+export const TestSuites = ({ projectId }: TestSuitesProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [testCases, setTestCases] = useState<SuiteTestCase[]>([]);
+  const [selectedSuiteId, setSelectedSuiteId] = useState<string | null>(null);
+  const [suiteCaseIds, setSuiteCaseIds] = useState<string[]>([]);
+  const [includeSubSuites, setIncludeSubSuites] = useState(false);
+  const [expandedSuites, setExpandedSuites] = useState<Set<string>>(new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [caseSearchTerm, setCaseSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Create / edit suite dialog state
+  const [showSuiteDialog, setShowSuiteDialog] = useState(false);
+  const [editingSuiteId, setEditingSuiteId] = useState<string | null>(null);
+  const [suiteForm, setSuiteForm] = useState({ name: '', description: '', parentId: 'root' });
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [loadedSuites, { data: dbTestCases, error }] = await Promise.all([
+        loadTestSuites(projectId),
+        supabase
+          .from('test_cases')
+          .select('id, readable_id, title, description, expected_result, test_data, data_table, priority, status, user_stories(title)')
+          .is('deleted_at', null)
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true })
+      ]);
+
+      if (error) throw error;
+
+      setSuites(loadedSuites);
+      setTestCases((dbTestCases || []).map(tc => ({
+        id: tc.id,
+        readableId: tc.readable_id || '',
+        title: tc.title,
+        description: tc.description || '',
+        expectedResult: tc.expected_result || '',
+        testData: tc.test_data || '',
+        dataTable: normalizeDataTable(tc.data_table),
+        priority: tc.priority || 'medium',
+        status: tc.status || 'not-run',
+        userStoryTitle: tc.user_stories?.title || 'Unknown Story'
+      })));
+    } catch (error) {
+      console.error('Error loading test suites:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test suites",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadSuiteCases = async () => {
+    if (!selectedSuiteId) {
+      setSuiteCaseIds([]);
+      return;
+    }
+
+    try {
+      const suiteIds = includeSubSuites ? getDescendantSuiteIds(suites, selectedSuiteId) : [selectedSuiteId];
+      setSuiteCaseIds(await loadSuiteTestCaseIds(suiteIds));
+    } catch (error) {
+      console.error('Error loading suite test cases:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test cases for this suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  useEffect(() => {
+    loadSuiteCases();
+  }, [selectedSuiteId, includeSubSuites, suites]);
+
+  const selectedSuite = suites.find(suite => suite.id === selectedSuiteId) || null;
+  const suiteTree = buildSuiteTree(suites);
+  const suiteTestCases = suiteCaseIds
+    .map(id => testCases.find(tc => tc.id === id))
+    .filter((tc): tc is SuiteTestCase => !!tc);
+  const availableTestCases = testCases.filter(tc =>
+    !suiteCaseIds.includes(tc.id) &&
+    (tc.title.toLowerCase().includes(caseSearchTerm.toLowerCase()) ||
+      tc.readableId.toLowerCase().includes(caseSearchTerm.toLowerCase()) ||
+      tc.userStoryTitle.toLowerCase().includes(caseSearchTerm.toLowerCase()))
+  );
+
+  const toggleSuiteExpansion = (suiteId: string) => {
+    setExpandedSuites(prev => {
+      const next = new Set(prev);
+      if (next.has(suiteId)) {
+        next.delete(suiteId);
+      } else {
+        next.add(suiteId);
+      }
+      return next;
+    });
+  };
+
+  const openCreateDialog = (parentId: string | null) => {
+    setEditingSuiteId(null);
+    setSuiteForm({ name: '', description: '', parentId: parentId || 'root' });
+    setShowSuiteDialog(true);
+  };
+
+  const openEditDialog = (suite: TestSuite) => {
+    setEditingSuiteId(suite.id);
+    setSuiteForm({ name: suite.name, description: suite.description, parentId: suite.parentId || 'root' });
+    setShowSuiteDialog(true);
+  };
+
+  const saveSuite = async () => {
+    if (!suiteForm.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a suite name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parentId = suiteForm.parentId === 'root' ? null : suiteForm.parentId;
+    try {
+      if (editingSuiteId) {
+        const { error } = await supabase
+          .from('test_suites')
+          .update({ name: suiteForm.name.trim(), description: suiteForm.description.trim() || null, parent_id: parentId })
+          .eq('id', editingSuiteId);
+
+        if (error) throw error;
+      } else {
+        const siblings = suites.filter(suite => suite.parentId === parentId);
+        const { data, error } = await supabase
+          .from('test_suites')
+          .insert({
+            project_id: projectId,
+            parent_id: parentId,
+            name: suiteForm.name.trim(),
+            description: suiteForm.description.trim() || null,
+            position: siblings.length,
+            created_by: session?.user?.id
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setSelectedSuiteId(data.id);
+        if (parentId) {
+          setExpandedSuites(prev => new Set(prev).add(parentId));
+        }
+      }
+
+      setShowSuiteDialog(false);
+      setSuites(await loadTestSuites(projectId));
+      toast({
+        title: editingSuiteId ? "Suite Updated" : "Suite Created",
+        description: `"${suiteForm.name.trim()}" has been saved`,
+      });
+    } catch (error) {
+      console.error('Error saving test suite:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save test suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteSuite = async (suite: TestSuite) => {
+    try {
+      const { error } = await supabase
+        .from('test_suites')
+        .delete()
+        .eq('id', suite.id);
+
+      if (error) throw error;
+
+      if (selectedSuiteId && getDescendantSuiteIds(suites, suite.id).includes(selectedSuiteId)) {
+        setSelectedSuiteId(null);
+      }
+      setSuites(await loadTestSuites(projectId));
+      toast({
+        title: "Suite Deleted",
+        description: `"${suite.name}" and its sub-suites have been deleted. Test cases were not removed.`,
+      });
+    } catch (error) {
+      console.error('Error deleting test suite:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete test suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveSuite = async (suiteId: string, newParentId: string | null) => {
+    const suite = suites.find(s => s.id === suiteId);
+    if (!suite || suite.parentId === newParentId || suiteId === newParentId) return;
+
+    if (newParentId && getDescendantSuiteIds(suites, suiteId).includes(newParentId)) {
+      toast({
+        title: "Invalid Move",
+        description: "A suite cannot be moved into one of its own sub-suites",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('test_suites')
+        .update({
+          parent_id: newParentId,
+          position: suites.filter(s => s.parentId === newParentId).length
+        })
+        .eq('id', suiteId);
+
+      if (error) throw error;
+
+      if (newParentId) {
+        setExpandedSuites(prev => new Set(prev).add(newParentId));
+      }
+      setSuites(await loadTestSuites(projectId));
+    } catch (error) {
+      console.error('Error moving test suite:', error);
+      toast({
+        title: "Move Failed",
+        description: "Failed to move test suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addTestCasesToSuite = async (suiteId: string, testCaseIds: string[]) => {
+    if (testCaseIds.length === 0) return;
+
+    try {
+      const existingIds = await loadSuiteTestCaseIds([suiteId]);
+      const newIds = testCaseIds.filter(id => !existingIds.includes(id));
+      if (newIds.length === 0) return;
+
+      const { error } = await supabase
+        .from('test_suite_cases')
+        .insert(newIds.map((testCaseId, index) => ({
+          suite_id: suiteId,
+          test_case_id: testCaseId,
+          position: existingIds.length + index
+        })));
+
+      if (error) throw error;
+
+      await loadSuiteCases();
+      const suite = suites.find(s => s.id === suiteId);
+      toast({
+        title: "Added to Suite",
+        description: `${newIds.length} test case${newIds.length === 1 ? '' : 's'} added to "${suite?.name}"`,
+      });
+    } catch (error) {
+      console.error('Error adding test cases to suite:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to add test cases to suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeTestCaseFromSuite = async (testCaseId: string) => {
+    if (!selectedSuiteId) return;
+
+    try {
+      const suiteIds = includeSubSuites ? getDescendantSuiteIds(suites, selectedSuiteId) : [selectedSuiteId];
+      const { error } = await supabase
+        .from('test_suite_cases')
+        .delete()
+        .in('suite_id', suiteIds)
+        .eq('test_case_id', testCaseId);
+
+      if (error) throw error;
+
+      setSuiteCaseIds(prev => prev.filter(id => id !== testCaseId));
+    } catch (error) {
+      console.error('Error removing test case from suite:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to remove test case from suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, targetSuiteId: string | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTargetId(null);
+
+    const draggedSuiteId = event.dataTransfer.getData(SUITE_DRAG_TYPE);
+    const draggedTestCaseId = event.dataTransfer.getData(TEST_CASE_DRAG_TYPE);
+
+    if (draggedSuiteId) {
+      moveSuite(draggedSuiteId, targetSuiteId);
+    } else if (draggedTestCaseId && targetSuiteId) {
+      addTestCasesToSuite(targetSuiteId, [draggedTestCaseId]);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent, targetSuiteId: string | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTargetId(targetSuiteId ?? 'root');
+  };
+
+  const startSuiteRun = async () => {
+    if (!selectedSuite || suiteTestCases.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      const run = await createTestRun({
+        projectId,
+        name: `${selectedSuite.name} - ${new Date().toLocaleDateString()}`,
+        description: `Run created from suite "${getSuitePath(suites, selectedSuite.id)}"`,
+        testCaseIds: suiteTestCases.map(tc => tc.id),
+        createdBy: session?.user?.id
+      });
+
+      toast({
+        title: "Test Run Created",
+        description: `"${run.name}" created with ${suiteTestCases.length} test cases. Open Test Runs to execute it.`,
+      });
+    } catch (error) {
+      console.error('Error creating test run from suite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create test run",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const exportSuite = async () => {
+    if (!selectedSuite || suiteTestCases.length === 0) return;
+
+    try {
+      const [stepsByTestCase, sharedSteps] = await Promise.all([
+        loadTestCaseSteps(suiteTestCases.map(tc => tc.id)),
+        loadSharedSteps(projectId)
+      ]);
+
+      // Create Excel workbook
+      const wb = XLSX.utils.book_new();
+
+      // Prepare data for Excel
+      const excelData = suiteTestCases.map(tc => ({
+        'Test Case ID': tc.readableId || tc.id,
+        'Title': tc.title,
+        'Description': tc.description,
+        'Steps': formatStepsCell(expandSteps(stepsByTestCase[tc.id] || [], sharedSteps)),
+        'Expected Result': tc.expectedResult,
+        'Test Data': tc.testData,
+        'Data Table': formatDataTableCell(tc.dataTable),
+        'Priority': tc.priority,
+        'Status': tc.status,
+        'User Story': tc.userStoryTitle,
+        'Suite': getSuitePath(suites, selectedSuite.id)
+      }));
+
+      const ws = XLSX.utils.json_to_sheet(excelData);
+      XLSX.utils.book_append_sheet(wb, ws, 'Test Cases');
+
+      const filename = `test-suite-${selectedSuite.name.replace(/[^a-zA-Z0-9]/g, '-')}.xlsx`;
+      XLSX.writeFile(wb, filename);
+
+      toast({
+        title: "Export Complete",
+        description: `Suite "${selectedSuite.name}" exported to Excel successfully`,
+      });
+    } catch (error) {
+      console.error('Error exporting suite:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export test suite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const generateSuiteAutomation = async () => {
+    if (!selectedSuite || suiteTestCases.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      toast({
+        title: "Generating Automation",
+        description: `Creating Selenium Java code for ${suiteTestCases.length} test cases`,
+      });
+
+      const [stepsByTestCase, sharedSteps] = await Promise.all([
+        loadTestCaseSteps(suiteTestCases.map(tc => tc.id)),
+        loadSharedSteps(projectId)
+      ]);
+      const { data, error } = await supabase.functions.invoke('generate-selenium-automation', {
+        body: {
+          projectId,
+          testCases: suiteTestCases.map(tc => ({
+            id: tc.id,
+            title: tc.title,
+            description: tc.description,
+            expectedResult: tc.expectedResult,
+            priority: tc.priority,
+            steps: toAutomationSteps(expandSteps(stepsByTestCase[tc.id] || [], sharedSteps)),
+            dataTable: hasDataTable(tc.dataTable) ? tc.dataTable : null
+          }))
+        }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to generate automation');
+
+      const zip = new JSZip();
+      data.files.forEach((file: { className: string; seleniumCode: string }) => {
+        zip.file(`${file.className}.java`, file.seleniumCode);
+      });
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${selectedSuite.name.replace(/[^a-zA-Z0-9]/g, '-')}-selenium.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Automation Generated",
+        description: `${data.files.length} Selenium Java test files have been downloaded`,
+      });
+    } catch (error) {
+      console.error('Error generating suite automation:', error);
+      toast({
+        title: "Generation Failed",
+        description: "Failed to generate Selenium automation code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderSuiteNode = (node: TestSuiteNode, depth: number) => {
+    const isExpanded = expandedSuites.has(node.id);
+    const isSelected = selectedSuiteId === node.id;
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(SUITE_DRAG_TYPE, node.id)}
+          onDragOver={(e) => handleDragOver(e, node.id)}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, node.id)}
+          onClick={() => setSelectedSuiteId(node.id)}
+          className={`group flex items-center gap-1 rounded px-2 py-1 cursor-pointer text-sm transition-colors ${
+            isSelected ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50'
+          } ${dropTargetId === node.id ? 'ring-1 ring-primary' : ''}`}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        >
+          <button
+            className="h-4 w-4 flex items-center justify-center"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleSuiteExpansion(node.id);
+            }}
+          >
+            {node.children.length > 0 && (isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />)}
+          </button>
+          {isExpanded ? <FolderOpen className="h-4 w-4 shrink-0" /> : <Folder className="h-4 w-4 shrink-0" />}
+          <span className="flex-1 truncate">{node.name}</span>
+          <div className="hidden group-hover:flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Add sub-suite"
+              onClick={(e) => {
+                e.stopPropagation();
+                openCreateDialog(node.id);
+              }}
+            >
+              <FolderPlus className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Edit suite"
+              onClick={(e) => {
+                e.stopPropagation();
+                openEditDialog(node);
+              }}
+            >
+              <Edit3 className="h-3 w-3" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                  title="Delete suite"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Test Suite</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to delete "{node.name}" and all of its sub-suites? The test cases themselves will not be deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => deleteSuite(node)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+        {isExpanded && node.children.map(child => renderSuiteNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Test Suites</h2>
+          <p className="text-muted-foreground">
+            Organize test cases into nested suites and regression packs {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <Button variant="gradient" onClick={() => openCreateDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Suite
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Suite tree */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg">Suites</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {suiteTree.map(node => renderSuiteNode(node, 0))}
+
+            {suites.length === 0 && !isLoading && (
+              <div className="text-center py-8">
+                <Folder className="mx-auto h-10 w-10 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">No suites yet. Create one to start organizing.</p>
+              </div>
+            )}
+
+            {suites.length > 0 && (
+              <div
+                onDragOver={(e) => handleDragOver(e, null)}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(e) => handleDrop(e, null)}
+                className={`mt-3 rounded border border-dashed p-2 text-center text-xs text-muted-foreground ${
+                  dropTargetId === 'root' ? 'border-primary text-primary' : ''
+                }`}
+              >
+                Drop a suite here to move it to the top level
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Suite detail */}
+        <div className="xl:col-span-2 space-y-6">
+          {selectedSuite ? (
+            <>
+              <Card className="shadow-card">
+                <CardHeader>
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div>
+                      <p className="text-xs text-muted-foreground">{getSuitePath(suites, selectedSuite.id)}</p>
+                      <CardTitle className="text-xl">{selectedSuite.name}</CardTitle>
+                      {selectedSuite.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{selectedSuite.description}</p>
+                      )}
+                      <div className="flex items-center gap-2 mt-3">
+                        <Switch
+                          id="include-sub-suites"
+                          checked={includeSubSuites}
+                          onCheckedChange={setIncludeSubSuites}
+                        />
+                        <Label htmlFor="include-sub-suites" className="text-sm">Include sub-suites</Label>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={startSuiteRun} disabled={isWorking || suiteTestCases.length === 0}>
+                        <PlayCircle className="mr-2 h-3 w-3" />
+                        Start Run
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={exportSuite} disabled={suiteTestCases.length === 0}>
+                        <Download className="mr-2 h-3 w-3" />
+                        Export Excel
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={generateSuiteAutomation} disabled={isWorking || suiteTestCases.length === 0}>
+                        <Code2 className="mr-2 h-3 w-3" />
+                        Selenium
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {suiteTestCases.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      This suite is empty. Drag test cases from the list below onto any suite.
+                    </p>
+                  ) : (
+                    <div className="divide-y border rounded">
+                      {suiteTestCases.map(tc => (
+                        <div
+                          key={tc.id}
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData(TEST_CASE_DRAG_TYPE, tc.id)}
+                          className="flex items-center gap-3 p-2 text-sm"
+                        >
+                          <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+                          <span className="font-mono text-xs text-muted-foreground w-24 shrink-0">{tc.readableId}</span>
+                          <span className="flex-1 truncate">{tc.title}</span>
+                          <Badge variant="outline" className="text-xs">{tc.priority}</Badge>
+                          <span className="text-xs text-muted-foreground truncate max-w-40">{tc.userStoryTitle}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            title="Remove from suite"
+                            onClick={() => removeTestCaseFromSuite(tc.id)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle className="text-lg">Add Test Cases</CardTitle>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Filter test cases..."
+                      value={caseSearchTerm}
+                      onChange={(e) => setCaseSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y border rounded max-h-96 overflow-y-auto">
+                    {availableTestCases.map(tc => (
+                      <div
+                        key={tc.id}
+                        draggable
+                        onDragStart={(e) => e.dataTransfer.setData(TEST_CASE_DRAG_TYPE, tc.id)}
+                        className="flex items-center gap-3 p-2 text-sm hover:bg-muted/50"
+                      >
+                        <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+                        <span className="font-mono text-xs text-muted-foreground w-24 shrink-0">{tc.readableId}</span>
+                        <span className="flex-1 truncate">{tc.title}</span>
+                        <span className="text-xs text-muted-foreground truncate max-w-40">{tc.userStoryTitle}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Add to selected suite"
+                          onClick={() => addTestCasesToSuite(selectedSuite.id, [tc.id])}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    {availableTestCases.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-6">No test cases to add</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          ) : (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <FolderOpen className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">Select a suite to see and organize its test cases.</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Suite Dialog */}
+      <Dialog open={showSuiteDialog} onOpenChange={setShowSuiteDialog}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingSuiteId ? 'Edit Suite' : 'Create Suite'}</DialogTitle>
+            <DialogDescription>
+              Suites can be nested and a test case can belong to several suites.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="suite-name">Name</Label>
+              <Input
+                id="suite-name"
+                value={suiteForm.name}
+                onChange={(e) => setSuiteForm({ ...suiteForm, name: e.target.value })}
+                placeholder="e.g., Regression / Payments"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suite-description">Description (Optional)</Label>
+              <Textarea
+                id="suite-description"
+                value={suiteForm.description}
+                onChange={(e) => setSuiteForm({ ...suiteForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parent Suite</Label>
+              <Select value={suiteForm.parentId} onValueChange={(value) => setSuiteForm({ ...suiteForm, parentId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="root">None (top level)</SelectItem>
+                  {suites
+                    .filter(suite => !editingSuiteId || !getDescendantSuiteIds(suites, editingSuiteId).includes(suite.id))
+                    .map(suite => (
+                      <SelectItem key={suite.id} value={suite.id}>
+                        {getSuitePath(suites, suite.id)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSuiteDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveSuite}>
+              {editingSuiteId ? 'Save Changes' : 'Create Suite'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
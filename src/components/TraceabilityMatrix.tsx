@@ -0,0 +1,307 @@
+import { useState, useEffect, Fragment } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CoverageStatus,
+  TraceabilityRow,
+  loadTraceability,
+  linkDefects,
+  exportTraceability
+} from "@/lib/traceability";
+import { Search, Download, Bug, Network } from "lucide-react";
+
+interface TraceabilityMatrixProps {
+  projectId: string;
+}
+
+type CoverageFilter = 'all' | CoverageStatus;
+
+const COVERAGE_LABELS: Record<CoverageStatus, string> = {
+  uncovered: 'Uncovered',
+  failing: 'Failing',
+  'not-run': 'Not Fully Run',
+  passing: 'Passing'
+};
+
+const getCoverageColor = (coverage: CoverageStatus) => {
+  switch (coverage) {
+    case 'passing': return 'bg-success text-success-foreground';
+    case 'failing': return 'bg-destructive text-destructive-foreground';
+    case 'not-run': return 'bg-warning text-warning-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'passed': return 'text-success border-success';
+    case 'failed': return 'text-destructive border-destructive';
+    case 'blocked': return 'text-warning border-warning';
+    default: return 'text-muted-foreground';
+  }
+};
+
+export const TraceabilityMatrix = ({ projectId }: TraceabilityMatrixProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [rows, setRows] = useState<TraceabilityRow[]>([]);
+  const [coverageFilter, setCoverageFilter] = useState<CoverageFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingDefects, setLoadingDefects] = useState(false);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      setRows(await loadTraceability(projectId));
+    } catch (error) {
+      console.error('Error loading traceability matrix:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load traceability data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const loadAzureDevOpsDefects = async () => {
+    const savedConfigs = localStorage.getItem('integration-configs');
+    const azureConfig = savedConfigs ? JSON.parse(savedConfigs)['azure-devops'] : null;
+
+    if (!azureConfig || !azureConfig.enabled || !azureConfig.organizationUrl || !azureConfig.projectName || !azureConfig.personalAccessToken) {
+      toast({
+        title: "Integration Not Configured",
+        description: "Please configure Azure DevOps integration in the Integrations module first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoadingDefects(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('azure-devops-defects', {
+        body: {
+          organizationUrl: azureConfig.organizationUrl,
+          projectName: azureConfig.projectName,
+          personalAccessToken: azureConfig.personalAccessToken
+        }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to fetch defects');
+
+      const linked = linkDefects(rows, data.defects);
+      const linkedCount = linked.reduce(
+        (sum, row) => sum + row.testCases.filter(tc => tc.defects.some(defect => defect.source !== 'app')).length,
+        0
+      );
+      setRows(linked);
+      toast({
+        title: "Defects Linked",
+        description: `${linkedCount} test cases are referenced by Azure DevOps defects`,
+      });
+    } catch (error) {
+      console.error('Error fetching Azure DevOps defects:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch defects from Azure DevOps",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingDefects(false);
+    }
+  };
+
+  const filteredRows = rows.filter(row =>
+    (coverageFilter === 'all' || row.coverage === coverageFilter) &&
+    (row.storyTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      row.testCases.some(tc =>
+        tc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        tc.readableId.toLowerCase().includes(searchTerm.toLowerCase())
+      ))
+  );
+
+  const coverageCounts = rows.reduce((counts, row) => {
+    counts[row.coverage]++;
+    return counts;
+  }, { uncovered: 0, failing: 0, 'not-run': 0, passing: 0 } as Record<CoverageStatus, number>);
+  const coveredPercent = rows.length > 0 ? Math.round(((rows.length - coverageCounts.uncovered) / rows.length) * 100) : 0;
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    exportTraceability(filteredRows, format);
+    toast({
+      title: "Export Complete",
+      description: `Traceability matrix exported as ${format.toUpperCase()}`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Traceability Matrix</h2>
+          <p className="text-muted-foreground">
+            Requirement coverage across user stories, test cases, results and defects {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={loadAzureDevOpsDefects} disabled={loadingDefects || rows.length === 0}>
+            <Bug className="mr-2 h-4 w-4" />
+            {loadingDefects ? 'Loading Defects...' : 'Link Azure DevOps Defects'}
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={filteredRows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Excel
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={filteredRows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Stories Covered</p>
+            <p className="text-2xl font-bold">{coveredPercent}%</p>
+          </CardContent>
+        </Card>
+        {(Object.keys(COVERAGE_LABELS) as CoverageStatus[]).map(coverage => (
+          <Card
+            key={coverage}
+            className={`shadow-card cursor-pointer ${coverageFilter === coverage ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setCoverageFilter(coverageFilter === coverage ? 'all' : coverage)}
+          >
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{COVERAGE_LABELS[coverage]}</p>
+              <p className="text-2xl font-bold">{coverageCounts[coverage]}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+            <CardTitle className="text-lg">Coverage</CardTitle>
+            <div className="flex gap-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search stories or test cases..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10 w-64"
+                />
+              </div>
+              <Select value={coverageFilter} onValueChange={(value) => setCoverageFilter(value as CoverageFilter)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Stories</SelectItem>
+                  <SelectItem value="uncovered">Uncovered</SelectItem>
+                  <SelectItem value="failing">Failing Coverage</SelectItem>
+                  <SelectItem value="not-run">Not Fully Run</SelectItem>
+                  <SelectItem value="passing">Passing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {filteredRows.length === 0 ? (
+            <div className="text-center py-12">
+              <Network className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {rows.length === 0 ? 'No user stories in this project yet.' : 'No stories match the current filters.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User Story</TableHead>
+                  <TableHead>Test Case</TableHead>
+                  <TableHead>Latest Result</TableHead>
+                  <TableHead>Latest Run</TableHead>
+                  <TableHead>Defects</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.map(row => (
+                  <Fragment key={row.storyId}>
+                    {(row.testCases.length > 0 ? row.testCases : [null]).map((tc, index) => (
+                      <TableRow key={tc?.id || row.storyId}>
+                        {index === 0 && (
+                          <TableCell rowSpan={Math.max(row.testCases.length, 1)} className="align-top max-w-64 border-r">
+                            <div className="font-medium">{row.storyTitle}</div>
+                            <Badge className={`mt-1 text-xs ${getCoverageColor(row.coverage)}`}>
+                              {COVERAGE_LABELS[row.coverage]}
+                            </Badge>
+                          </TableCell>
+                        )}
+                        {tc ? (
+                          <>
+                            <TableCell className="max-w-72">
+                              <span className="font-mono text-xs text-muted-foreground mr-2">{tc.readableId}</span>
+                              <span className="text-sm">{tc.title}</span>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={`text-xs ${getStatusColor(tc.latestStatus)}`}>
+                                {tc.latestStatus}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {tc.latestRunName ? (
+                                <>
+                                  <div>{tc.latestRunName}</div>
+                                  {tc.latestExecutedAt && <div>{new Date(tc.latestExecutedAt).toLocaleDateString()}</div>}
+                                </>
+                              ) : '-'}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              {tc.defects.length > 0 ? (
+                                <div className="flex flex-wrap gap-1">
+                                  {tc.defects.map(defect => (
+                                    <Badge key={defect.id} variant="outline" className="text-xs" title={defect.title}>
+                                      {defect.source === 'app' ? defect.id : `#${defect.id}`} · {defect.state}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              ) : '-'}
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-sm text-muted-foreground italic">
+                            No test cases cover this story
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
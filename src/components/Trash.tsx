@@ -0,0 +1,367 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  TrashItem,
+  TrashEntityType,
+  TRASH_RETENTION_OPTIONS,
+  loadTrash,
+  loadTrashRetention,
+  saveTrashRetention,
+  restoreFromTrash,
+  purgeFromTrash
+} from "@/lib/trash";
+import { ProjectMember, loadProjectMembers } from "@/lib/customFields";
+import { getDaysRemaining } from "@/lib/releases";
+import { Trash2, RotateCcw, Clock } from "lucide-react";
+
+interface TrashProps {
+  projectId: string;
+}
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  user_story: 'User Story',
+  test_case: 'Test Case'
+};
+
+export const Trash = ({ projectId }: TrashProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [typeFilter, setTypeFilter] = useState<'all' | TrashEntityType>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const retention = await loadTrashRetention(projectId);
+      const [loadedItems, loadedMembers] = await Promise.all([
+        loadTrash(projectId, retention),
+        loadProjectMembers(projectId)
+      ]);
+      setRetentionDays(retention);
+      setItems(loadedItems);
+      setMembers(loadedMembers);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load trash",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      loadData();
+    }
+  }, [session?.user?.id, projectId]);
+
+  const visibleItems = items.filter(item => typeFilter === 'all' || item.entityType === typeFilter);
+  const selectedItems = visibleItems.filter(item => selectedIds.has(item.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Stories go first so their test cases can be restored in the same action
+  const runForEntityTypes = async (targets: TrashItem[], action: (entityType: TrashEntityType, ids: string[]) => Promise<void>) => {
+    for (const entityType of ['user_story', 'test_case'] as TrashEntityType[]) {
+      const ids = targets.filter(item => item.entityType === entityType).map(item => item.id);
+      if (ids.length > 0) {
+        await action(entityType, ids);
+      }
+    }
+  };
+
+  const handleRestore = async (targets: TrashItem[]) => {
+    const restoredStoryTitles = new Set(targets.filter(item => item.entityType === 'user_story').map(item => item.title));
+    const blocked = targets.filter(item => item.userStoryDeleted && !restoredStoryTitles.has(item.userStoryTitle || ''));
+    if (blocked.length > 0) {
+      toast({
+        title: "Restore Story First",
+        description: `"${blocked[0].title}" belongs to "${blocked[0].userStoryTitle}", which is in the trash`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await runForEntityTypes(targets, restoreFromTrash);
+      toast({
+        title: "Restored",
+        description: targets.length === 1 ? `"${targets[0].title}" has been restored` : `${targets.length} items have been restored`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error restoring items:', error);
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore items",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePurge = async (targets: TrashItem[]) => {
+    setIsWorking(true);
+    try {
+      await runForEntityTypes(targets, purgeFromTrash);
+      toast({
+        title: "Permanently Deleted",
+        description: targets.length === 1 ? `"${targets[0].title}" has been deleted` : `${targets.length} items have been deleted`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error purging items:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to permanently delete items",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = Number(value);
+    try {
+      await saveTrashRetention(projectId, days);
+      setRetentionDays(days);
+      setItems(prev => prev.map(item => ({
+        ...item,
+        expiresAt: new Date(new Date(item.deletedAt).getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+      })));
+      toast({
+        title: "Retention Updated",
+        description: `Items are now kept in the trash for ${days} days`,
+      });
+    } catch (error) {
+      console.error('Error saving trash retention:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update trash retention",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getMemberName = (userId: string | null) =>
+    userId ? members.find(member => member.userId === userId)?.name || 'Unknown user' : '-';
+
+  const purgeDialog = (targets: TrashItem[], trigger: React.ReactNode, description: string) => (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{trigger}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+          <AlertDialogDescription>{description} This action cannot be undone.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => handlePurge(targets)}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Delete Permanently
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Trash</h2>
+          <p className="text-muted-foreground">
+            Deleted user stories and test cases are kept for {retentionDays} days {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...TRASH_RETENTION_OPTIONS, retentionDays])).sort((a, b) => a - b).map(days => (
+                <SelectItem key={days} value={String(days)}>Keep {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {items.length > 0 && purgeDialog(
+            items,
+            <Button variant="outline" className="text-destructive hover:text-destructive" disabled={isWorking}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Empty Trash
+            </Button>,
+            `Permanently delete all ${items.length} items in the trash?`
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as 'all' | TrashEntityType)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Items</SelectItem>
+            <SelectItem value="user_story">User Stories</SelectItem>
+            <SelectItem value="test_case">Test Cases</SelectItem>
+          </SelectContent>
+        </Select>
+        {selectedItems.length > 0 && (
+          <>
+            <span className="text-sm text-muted-foreground">{selectedItems.length} selected</span>
+            <Button variant="outline" size="sm" onClick={() => handleRestore(selectedItems)} disabled={isWorking}>
+              <RotateCcw className="mr-2 h-3 w-3" />
+              Restore
+            </Button>
+            {purgeDialog(
+              selectedItems,
+              <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" disabled={isWorking}>
+                <Trash2 className="mr-2 h-3 w-3" />
+                Delete Permanently
+              </Button>,
+              `Permanently delete ${selectedItems.length} selected items?`
+            )}
+          </>
+        )}
+      </div>
+
+      {!isLoading && visibleItems.length === 0 ? (
+        <Card className="shadow-card">
+          <CardContent className="text-center py-12">
+            <Trash2 className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Trash Is Empty</h3>
+            <p className="text-muted-foreground">
+              Deleted user stories and test cases show up here until they are restored or purged.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="shadow-card">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={visibleItems.length > 0 && visibleItems.every(item => selectedIds.has(item.id))}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? new Set(visibleItems.map(item => item.id)) : new Set())}
+                    />
+                  </TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purged In</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.map(item => {
+                  const daysLeft = Math.max(0, getDaysRemaining(item.expiresAt.split('T')[0]) || 0);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <Checkbox checked={selectedIds.has(item.id)} onCheckedChange={() => toggleSelected(item.id)} />
+                      </TableCell>
+                      <TableCell className="max-w-80">
+                        <div className="truncate font-medium" title={item.title}>
+                          {item.readableId && <span className="font-mono text-xs text-muted-foreground mr-2">{item.readableId}</span>}
+                          {item.title}
+                        </div>
+                        {item.userStoryTitle && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {item.userStoryTitle}
+                            {item.userStoryDeleted && ' (in trash)'}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ENTITY_LABELS[item.entityType]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{getMemberName(item.deletedBy)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(item.deletedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={daysLeft <= 3 ? 'bg-warning text-warning-foreground' : 'bg-secondary text-secondary-foreground'}>
+                          {daysLeft} days
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRestore([item])}
+                            disabled={isWorking || item.userStoryDeleted}
+                            title={item.userStoryDeleted ? 'Restore the user story first' : 'Restore'}
+                          >
+                            <RotateCcw className="mr-1 h-3 w-3" />
+                            Restore
+                          </Button>
+                          {purgeDialog(
+                            [item],
+                            <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" disabled={isWorking}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>,
+                            item.entityType === 'user_story'
+                              ? `Permanently delete "${item.title}" and all of its test cases?`
+                              : `Permanently delete "${item.title}"?`
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -6,8 +6,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useCommentSummaries } from "@/hooks/useCommentSummaries";
 import { supabase } from "@/integrations/supabase/client";
 import { 
   Plus, 
@@ -20,7 +22,10 @@ import {
   Filter,
   RefreshCw,
   Cloud,
-  Trash2
+  Trash2,
+  SlidersHorizontal,
+  Tags,
+  Eye
 } from "lucide-react";
 import {
   AlertDialog,
@@ -44,6 +49,36 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { sanitizeHtml } from "@/lib/security";
+import { Release, loadReleases } from "@/lib/releases";
+import { ReleaseSelect } from "@/components/ReleaseSelect";
+import { CustomFieldsDialog } from "@/components/CustomFieldsDialog";
+import { CustomFieldInputs } from "@/components/CustomFieldInputs";
+import { CustomFieldFilterSelect } from "@/components/CustomFieldFilterSelect";
+import { TagInput } from "@/components/TagInput";
+import { TagBadges } from "@/components/TagBadges";
+import { TagFilter } from "@/components/TagFilter";
+import { BulkTagDialog } from "@/components/BulkTagDialog";
+import { CommentsButton } from "@/components/Comments";
+import { RegenerationMergeDialog } from "@/components/RegenerationMergeDialog";
+import { PromptPreviewDialog } from "@/components/PromptPreviewDialog";
+import { collectTags, matchesTags, normalizeTags, applyTagChange } from "@/lib/tags";
+import { moveToTrash } from "@/lib/trash";
+import { createSuggestions, loadPendingSuggestionCounts, normalizeGeneratedTestCase } from "@/lib/suggestions";
+import { RegenerationDiff, loadStoryTestCases, computeRegenerationDiff } from "@/lib/regeneration";
+import { SearchFocus } from "@/lib/search";
+import { resolveAIConfig, aiProviderNotConfiguredMessage } from "@/lib/aiProvider";
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  CustomFieldFilter,
+  ProjectMember,
+  loadCustomFieldDefinitions,
+  loadCustomFieldValues,
+  loadProjectMembers,
+  saveCustomFieldValues,
+  getMissingRequiredFields,
+  matchesCustomFieldFilter
+} from "@/lib/customFields";
 
 interface TestCase {
   id: string;
@@ -60,23 +95,30 @@ interface TestCase {
 
 interface UserStory {
   id: string;
+  projectId: string;
+  readableId: string | null;
   title: string;
   description: string;
   acceptanceCriteria: string;
   source: 'manual' | 'jira' | 'azure';
   priority: 'low' | 'medium' | 'high';
   status: 'draft' | 'ready' | 'in-progress' | 'completed';
+  releaseId: string | null;
   testCasesGenerated: number;
+  tags: string[];
+  customFields: CustomFieldValues;
 }
 
 interface UserStoriesProps {
   onViewChange: (view: string) => void;
   projectId: string;
+  focus?: SearchFocus | null;
 }
 
-export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
+export const UserStories = ({ onViewChange, projectId, focus }: UserStoriesProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries(projectId, 'user_story');
   const [stories, setStories] = useState<UserStory[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -89,18 +131,41 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     description: string;
     acceptanceCriteria: string;
     priority: 'low' | 'medium' | 'high';
+    releaseId: string;
+    tags: string[];
+    customFields: CustomFieldValues;
   }>({
     title: '',
     description: '',
     acceptanceCriteria: '',
-    priority: 'medium'
+    priority: 'medium',
+    releaseId: 'none',
+    tags: [],
+    customFields: {}
   });
+  const [releases, setReleases] = useState<Release[]>([]);
+
+  // Custom field states
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [pendingSuggestions, setPendingSuggestions] = useState<Record<string, number>>({});
+  const [regenerationMerge, setRegenerationMerge] = useState<{ storyId: string; storyTitle: string; diff: RegenerationDiff } | null>(null);
+  const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const [showCustomFields, setShowCustomFields] = useState(false);
+  const [customFieldsStory, setCustomFieldsStory] = useState<UserStory | null>(null);
+  const [customFieldsForm, setCustomFieldsForm] = useState<CustomFieldValues>({});
 
   // Filter states
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(focus?.term || '');
   const [priorityFilter, setPriorityFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
   const [sourceFilter, setSourceFilter] = useState('all');
+  const [releaseFilter, setReleaseFilter] = useState('all');
+  const [customFieldFilter, setCustomFieldFilter] = useState<CustomFieldFilter | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+
+  // Bulk tagging
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkTags, setShowBulkTags] = useState(false);
   
   // Custom prompt states for regeneration
   const [showCustomPromptDialog, setShowCustomPromptDialog] = useState(false);
@@ -112,18 +177,44 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
   // Custom prompt states for initial generation
   const [showInitialGenerationDialog, setShowInitialGenerationDialog] = useState(false);
   const [selectedStoryForGeneration, setSelectedStoryForGeneration] = useState<string | null>(null);
+  const [promptPreviewBody, setPromptPreviewBody] = useState<Record<string, unknown> | null>(null);
 
   // Filtered stories
   const filteredStories = stories.filter(story => {
     const matchesSearch = story.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         story.description.toLowerCase().includes(searchTerm.toLowerCase());
+                         story.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (story.readableId || '').toLowerCase().includes(searchTerm.toLowerCase());
     const matchesPriority = priorityFilter === 'all' || story.priority === priorityFilter;
     const matchesStatus = statusFilter === 'all' || story.status === statusFilter;
     const matchesSource = sourceFilter === 'all' || story.source === sourceFilter;
+    const matchesRelease = releaseFilter === 'all' ||
+      (releaseFilter === 'none' ? !story.releaseId : story.releaseId === releaseFilter);
     
-    return matchesSearch && matchesPriority && matchesStatus && matchesSource;
+    const matchesCustomField = matchesCustomFieldFilter(customFieldDefinitions, story.customFields, customFieldFilter);
+    const matchesTagFilter = matchesTags(story.tags, tagFilter);
+    
+    return matchesSearch && matchesPriority && matchesStatus && matchesSource && matchesRelease && matchesCustomField && matchesTagFilter;
   });
 
+  const projectTags = collectTags(stories);
+
+  const toggleSelected = (storyId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(storyId)) {
+        next.delete(storyId);
+      } else {
+        next.add(storyId);
+      }
+      return next;
+    });
+  };
+
+  const applyBulkTags = (change: { add: string[]; remove: string[] }) => {
+    setStories(prev => prev.map(story => (selectedIds.has(story.id) ? { ...story, tags: applyTagChange(story.tags, change) } : story)));
+    setSelectedIds(new Set());
+  };
+
   // Load saved configurations from localStorage
   const loadSavedConfigurations = () => {
     try {
@@ -162,11 +253,13 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     if (!session?.user?.id) return [];
 
     try {
-      // Get owned projects
+      // Get owned projects; templates and deleted projects are not working projects
       const { data: ownedProjects, error: ownedError } = await supabase
         .from('projects')
         .select('id, name')
-        .eq('created_by', session.user.id);
+        .eq('created_by', session.user.id)
+        .eq('is_template', false)
+        .is('deleted_at', null);
 
       if (ownedError) {
         console.error('Error fetching owned projects:', ownedError);
@@ -176,8 +269,10 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
       // Get member projects
       const { data: memberProjects, error: memberError } = await supabase
         .from('project_members')
-        .select('project_id, projects(id, name)')
-        .eq('user_id', session.user.id);
+        .select('project_id, projects!inner(id, name)')
+        .eq('user_id', session.user.id)
+        .eq('projects.is_template', false)
+        .is('projects.deleted_at', null);
 
       if (memberError) {
         console.error('Error fetching member projects:', memberError);
@@ -243,6 +338,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
       const { data: dbStories, error } = await supabase
         .from('user_stories')
         .select('*')
+        .is('deleted_at', null)
         .in('project_id', projectIds)
         .order('created_at', { ascending: false });
 
@@ -250,24 +346,32 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
         throw error;
       }
 
+      const customFieldValues = await loadCustomFieldValues(projectId, 'user_story');
+
       const transformedStories: UserStory[] = await Promise.all(
         (dbStories || []).map(async (story) => {
           // Count test cases for this story
           const { count } = await supabase
             .from('test_cases')
             .select('*', { count: 'exact', head: true })
+            .is('deleted_at', null)
             .eq('user_story_id', story.id)
             .eq('project_id', projectId);
 
           return {
             id: story.id,
+            projectId: story.project_id,
+            readableId: story.readable_id,
             title: story.title,
             description: story.description || '',
             acceptanceCriteria: story.acceptance_criteria || '',
             source: 'manual' as const,
             priority: story.priority as 'low' | 'medium' | 'high',
             status: story.status as 'draft' | 'ready' | 'in-progress' | 'completed',
-            testCasesGenerated: count || 0
+            releaseId: story.release_id,
+            testCasesGenerated: count || 0,
+            tags: story.tags || [],
+            customFields: customFieldValues[story.id] || {}
           };
         })
       );
@@ -474,6 +578,79 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     }
   }, [session?.user?.id]);
 
+  useEffect(() => {
+    loadReleases(projectId)
+      .then(setReleases)
+      .catch(error => console.error('Error loading releases:', error));
+    Promise.all([loadCustomFieldDefinitions(projectId, 'user_story'), loadProjectMembers(projectId)])
+      .then(([definitions, members]) => {
+        setCustomFieldDefinitions(definitions);
+        setProjectMembers(members);
+      })
+      .catch(error => console.error('Error loading custom fields:', error));
+    loadPendingSuggestionCounts(projectId)
+      .then(setPendingSuggestions)
+      .catch(error => console.error('Error loading test case suggestions:', error));
+  }, [projectId]);
+
+  const openCustomFields = (story: UserStory) => {
+    setCustomFieldsStory(story);
+    setCustomFieldsForm(story.customFields);
+  };
+
+  const saveStoryCustomFields = async () => {
+    if (!customFieldsStory) return;
+
+    const missingFields = getMissingRequiredFields(customFieldDefinitions, customFieldsForm);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Missing Required Fields",
+        description: `Please fill in: ${missingFields.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveCustomFieldValues(projectId, 'user_story', customFieldsStory.id, customFieldDefinitions, customFieldsForm);
+      setStories(prev => prev.map(story => (
+        story.id === customFieldsStory.id ? { ...story, customFields: customFieldsForm } : story
+      )));
+      setCustomFieldsStory(null);
+      toast({
+        title: "Fields Updated",
+        description: `Custom fields of "${customFieldsStory.title}" have been saved`,
+      });
+    } catch (error) {
+      console.error('Error saving custom fields:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save custom fields",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const assignRelease = async (storyId: string, releaseId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('user_stories')
+        .update({ release_id: releaseId })
+        .eq('id', storyId);
+
+      if (error) throw error;
+
+      setStories(prev => prev.map(story => (story.id === storyId ? { ...story, releaseId } : story)));
+    } catch (error) {
+      console.error('Error assigning release:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to assign the story to the release",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleAddStory = async () => {
     if (!newStory.title || !newStory.description) {
       toast({
@@ -493,6 +670,16 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
       return;
     }
 
+    const missingFields = getMissingRequiredFields(customFieldDefinitions, newStory.customFields);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Error",
+        description: `Please fill in: ${missingFields.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('user_stories')
@@ -502,7 +689,9 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           description: newStory.description,
           acceptance_criteria: newStory.acceptanceCriteria,
           priority: newStory.priority,
-          status: 'draft'
+          status: 'draft',
+          release_id: newStory.releaseId === 'none' ? null : newStory.releaseId,
+          tags: normalizeTags(newStory.tags)
         })
         .select()
         .single();
@@ -511,19 +700,30 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
         throw error;
       }
 
+      // Custom fields are defined per project, so they only apply to stories of this project
+      const customFields = data.project_id === projectId ? newStory.customFields : {};
+      if (data.project_id === projectId) {
+        await saveCustomFieldValues(projectId, 'user_story', data.id, customFieldDefinitions, customFields);
+      }
+
       const newUserStory: UserStory = {
         id: data.id,
+        projectId: data.project_id,
+        readableId: data.readable_id,
         title: data.title,
         description: data.description || '',
         acceptanceCriteria: data.acceptance_criteria || '',
         source: 'manual',
         priority: data.priority as 'low' | 'medium' | 'high',
         status: data.status as 'draft' | 'ready' | 'in-progress' | 'completed',
-        testCasesGenerated: 0
+        releaseId: data.release_id,
+        testCasesGenerated: 0,
+        tags: data.tags || [],
+        customFields
       };
 
       setStories(prev => [newUserStory, ...prev]);
-      setNewStory({ title: '', description: '', acceptanceCriteria: '', priority: 'medium' });
+      setNewStory({ title: '', description: '', acceptanceCriteria: '', priority: 'medium', releaseId: 'none', tags: [], customFields: {} });
       setShowAddForm(false);
       
       toast({
@@ -540,7 +740,32 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     }
   };
 
-  const generateTestCases = async (storyId: string, customPrompt?: string, imageFiles?: File[]) => {
+  // Shared by generation and the prompt preview
+  const buildGenerationRequest = (story: UserStory, customPrompt?: string) => ({
+    story: {
+      id: story.id,
+      project_id: currentProject,
+      title: story.title,
+      description: story.description,
+      acceptanceCriteria: story.acceptanceCriteria,
+      priority: story.priority,
+      issueType: 'Story'
+    },
+    customPrompt
+  });
+
+  // The preview only needs to know how many images there are, not their contents
+  const previewGenerationPrompt = (storyId: string | null) => {
+    const story = stories.find(s => s.id === storyId);
+    if (!story) return;
+
+    setPromptPreviewBody({
+      ...buildGenerationRequest(story, customPrompt || undefined),
+      imageData: uploadedImages.map(image => ({ type: image.type, name: image.name }))
+    });
+  };
+
+  const generateTestCases = async (storyId: string, customPrompt?: string, imageFiles?: File[], merge = false) => {
     const story = stories.find(s => s.id === storyId);
     if (!story) return;
 
@@ -553,13 +778,12 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
       return;
     }
 
-    // Check if Azure OpenAI is configured
-    const savedConfigs = loadSavedConfigurations();
-    const azureConfig = savedConfigs.openai;
-    if (!azureConfig?.endpoint || !azureConfig?.apiKey || !azureConfig?.deploymentId) {
+    // Check if the project's AI provider is configured
+    const { provider, config: aiConfig } = await resolveAIConfig(currentProject);
+    if (!aiConfig) {
       toast({
-        title: "Azure OpenAI Not Configured",
-        description: "Please configure Azure OpenAI in integrations first",
+        title: "AI Provider Not Configured",
+        description: aiProviderNotConfiguredMessage(provider),
         variant: "destructive",
       });
       return;
@@ -568,19 +792,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     setGeneratingTestCases(storyId);
 
     try {
-      let requestBody: any = {
-        story: {
-          id: story.id,
-          project_id: currentProject,
-          title: story.title,
-          description: story.description,
-          acceptanceCriteria: story.acceptanceCriteria,
-          priority: story.priority,
-          issueType: 'Story'
-        },
-        azureConfig,
-        customPrompt
-      };
+      const requestBody: any = { ...buildGenerationRequest(story, customPrompt), aiConfig };
 
       // Convert images to base64 if provided
       if (imageFiles && imageFiles.length > 0) {
@@ -617,51 +829,24 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           throw new Error('No project selected');
         }
 
-        // Delete existing test cases for this user story (for regeneration)
-        await supabase
-          .from('test_cases')
-          .delete()
-          .eq('user_story_id', storyId)
-          .eq('project_id', currentProject);
-
-        // Save new test cases to database
-        const testCasesToInsert = data.testCases.map((testCase: any) => ({
-          project_id: currentProject,
-          user_story_id: storyId,
-          title: testCase.title || testCase.name || 'Test Case',
-          description: testCase.description || '',
-          steps: testCase.steps ? (Array.isArray(testCase.steps) ? testCase.steps.join('\n') : testCase.steps) : '',
-          expected_result: testCase.expectedResult || testCase.expected || '',
-          priority: (testCase.priority || 'medium').toLowerCase(),
-          status: 'draft'
-        }));
-
-        const { error: insertError } = await supabase
-          .from('test_cases')
-          .insert(testCasesToInsert);
-
-        if (insertError) {
-          throw insertError;
+        if (merge) {
+          // Regeneration is merged into the existing cases so manual edits and run history are kept
+          const existing = await loadStoryTestCases(currentProject, storyId);
+          setRegenerationMerge({
+            storyId,
+            storyTitle: story.title,
+            diff: computeRegenerationDiff(existing, data.testCases.map(normalizeGeneratedTestCase))
+          });
+          return;
         }
 
-        // Update story status in database
-        await supabase
-          .from('user_stories')
-          .update({ status: 'completed' })
-          .eq('id', storyId)
-          .eq('project_id', currentProject);
-
-        // Update local state with actual count from database
-        const updatedStories = stories.map(s => 
-          s.id === storyId 
-            ? { ...s, testCasesGenerated: data.testCases.length, status: 'completed' as const }
-            : s
-        );
-        setStories(updatedStories);
+        // Generated cases wait for review; only approved suggestions become test cases
+        const suggestionCount = await createSuggestions(currentProject, storyId, data.testCases, customPrompt);
+        setPendingSuggestions(prev => ({ ...prev, [storyId]: suggestionCount }));
 
         toast({
-          title: "Test Cases Generated & Saved",
-          description: `Generated and saved ${data.testCases.length} test cases for this story`,
+          title: "Test Cases Ready for Review",
+          description: `Generated ${suggestionCount} test case suggestions for this story. Approve them in AI Review.`,
         });
       }
     } catch (error) {
@@ -678,28 +863,15 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
 
   const deleteUserStory = async (storyId: string, storyTitle: string) => {
     try {
-      // First delete all associated test cases
-      const { error: testCasesError } = await supabase
-        .from('test_cases')
-        .delete()
-        .eq('user_story_id', storyId);
-
-      if (testCasesError) throw testCasesError;
-
-      // Then delete the user story
-      const { error } = await supabase
-        .from('user_stories')
-        .delete()
-        .eq('id', storyId);
-
-      if (error) throw error;
+      // The database moves the story's test cases to the trash along with it
+      await moveToTrash('user_story', [storyId]);
 
       // Remove from local state
       setStories(prev => prev.filter(story => story.id !== storyId));
 
       toast({
         title: "User Story Deleted",
-        description: `"${storyTitle}" and its test cases have been deleted successfully`,
+        description: `"${storyTitle}" and its test cases have been moved to the trash`,
       });
     } catch (error) {
       console.error('Error deleting user story:', error);
@@ -721,7 +893,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     if (!selectedStoryForRegenerate) return;
     
     setShowCustomPromptDialog(false);
-    await generateTestCases(selectedStoryForRegenerate, customPrompt || undefined, uploadedImages.length > 0 ? uploadedImages : undefined);
+    await generateTestCases(selectedStoryForRegenerate, customPrompt || undefined, uploadedImages.length > 0 ? uploadedImages : undefined, true);
     setSelectedStoryForRegenerate(null);
     setCustomPrompt('');
     setUploadedImages([]);
@@ -812,6 +984,10 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
             <Settings className="mr-2 h-4 w-4" />
             Setup Integrations
           </Button>
+          <Button variant="outline" onClick={() => setShowCustomFields(true)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Custom Fields
+          </Button>
           <Button variant="gradient" onClick={() => setShowAddForm(true)}>
             <Plus className="mr-2 h-4 w-4" />
             Add Story
@@ -884,6 +1060,27 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                   <SelectItem value="azure">Azure</SelectItem>
                 </SelectContent>
               </Select>
+              {releases.length > 0 && (
+                <Select value={releaseFilter} onValueChange={setReleaseFilter}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue placeholder="Release" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Releases</SelectItem>
+                    <SelectItem value="none">No Release</SelectItem>
+                    {releases.map(release => (
+                      <SelectItem key={release.id} value={release.id}>{release.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <TagFilter tags={projectTags} selected={tagFilter} onChange={setTagFilter} />
+              <CustomFieldFilterSelect
+                definitions={customFieldDefinitions}
+                members={projectMembers}
+                value={customFieldFilter}
+                onChange={setCustomFieldFilter}
+              />
             </div>
           </div>
         </CardContent>
@@ -923,6 +1120,27 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                 <SelectItem value="high">High</SelectItem>
               </SelectContent>
             </Select>
+            {releases.length > 0 && (
+              <ReleaseSelect
+                releases={releases}
+                value={newStory.releaseId}
+                onValueChange={(value) => setNewStory({ ...newStory, releaseId: value })}
+                emptyOption={{ value: 'none', label: 'No Release' }}
+              />
+            )}
+            <TagInput
+              tags={newStory.tags}
+              onChange={(tags) => setNewStory({ ...newStory, tags })}
+              suggestions={projectTags}
+              placeholder="Tags (e.g., payments, smoke)"
+            />
+            <CustomFieldInputs
+              definitions={customFieldDefinitions}
+              values={newStory.customFields}
+              onChange={(customFields) => setNewStory({ ...newStory, customFields })}
+              members={projectMembers}
+              idPrefix="new-story-field"
+            />
             <div className="flex gap-2">
               <Button onClick={handleAddStory} disabled={isLoading}>
                 {isLoading ? 'Creating...' : 'Create Story'}
@@ -980,6 +1198,20 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
         </Card>
       )}
 
+      {/* Bulk actions */}
+      {selectedIds.size > 0 && (
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">{selectedIds.size} selected</span>
+          <Button variant="outline" size="sm" onClick={() => setShowBulkTags(true)}>
+            <Tags className="mr-2 h-3 w-3" />
+            Edit Tags
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+            Clear Selection
+          </Button>
+        </div>
+      )}
+
       {/* Stories Table */}
       {!isLoading && filteredStories.length > 0 && (
         <Card className="shadow-card">
@@ -987,11 +1219,18 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={filteredStories.every(story => selectedIds.has(story.id))}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? new Set(filteredStories.map(story => story.id)) : new Set())}
+                    />
+                  </TableHead>
                   <TableHead>Title</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Source</TableHead>
                   <TableHead>Priority</TableHead>
                   <TableHead>Status</TableHead>
+                  {releases.length > 0 && <TableHead>Release</TableHead>}
                   <TableHead>Test Cases</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -999,10 +1238,24 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
               <TableBody>
                 {filteredStories.map((story) => (
                   <TableRow key={story.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(story.id)}
+                        onCheckedChange={() => toggleSelected(story.id)}
+                      />
+                    </TableCell>
                     <TableCell className="font-medium max-w-48">
+                      {story.readableId && (
+                        <div className="font-mono text-xs text-muted-foreground">{story.readableId}</div>
+                      )}
                       <div className="truncate" title={story.title}>
                         {story.title}
                       </div>
+                      <TagBadges
+                        tags={story.tags}
+                        onTagClick={(tag) => !tagFilter.includes(tag) && setTagFilter([...tagFilter, tag])}
+                        className="mt-1"
+                      />
                     </TableCell>
                     <TableCell className="max-w-64">
                       <div className="truncate text-muted-foreground" title={sanitizeHtml(story.description)}>
@@ -1023,6 +1276,17 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                     <TableCell>
                       <Badge variant="secondary">{story.status}</Badge>
                     </TableCell>
+                    {releases.length > 0 && (
+                      <TableCell>
+                        <ReleaseSelect
+                          releases={releases}
+                          value={story.releaseId || 'none'}
+                          onValueChange={(value) => assignRelease(story.id, value === 'none' ? null : value)}
+                          emptyOption={{ value: 'none', label: 'No Release' }}
+                          className="w-32 h-8 text-xs"
+                        />
+                      </TableCell>
+                    )}
                     <TableCell>
                       {story.testCasesGenerated > 0 ? (
                         <span className="text-sm text-muted-foreground">
@@ -1031,6 +1295,13 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                       ) : (
                         <span className="text-sm text-muted-foreground">None</span>
                       )}
+                      {pendingSuggestions[story.id] > 0 && (
+                        <button className="block" onClick={() => onViewChange('ai-review')} title="Review generated test cases">
+                          <Badge className="bg-warning text-warning-foreground mt-1">
+                            {pendingSuggestions[story.id]} to review
+                          </Badge>
+                        </button>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex gap-1">
@@ -1073,6 +1344,24 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                             </Button>
                           </>
                         )}
+                        <CommentsButton
+                          projectId={story.projectId}
+                          entityType="user_story"
+                          entityId={story.id}
+                          title={story.title}
+                          summary={commentSummaries[story.id]}
+                          onRead={refetchCommentSummaries}
+                        />
+                        {customFieldDefinitions.length > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openCustomFields(story)}
+                            title="Custom fields"
+                          >
+                            <SlidersHorizontal className="h-3 w-3" />
+                          </Button>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button 
@@ -1088,7 +1377,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Delete User Story</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Are you sure you want to delete "{story.title}"? This will also delete all associated test cases. This action cannot be undone.
+                                Are you sure you want to delete "{story.title}"? It will be moved to the trash together with its test cases, where they can be restored until they are purged.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -1112,6 +1401,63 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
         </Card>
       )}
 
+      {regenerationMerge && (
+        <RegenerationMergeDialog
+          open={!!regenerationMerge}
+          onOpenChange={(open) => !open && setRegenerationMerge(null)}
+          projectId={currentProject || projectId}
+          userStoryId={regenerationMerge.storyId}
+          storyTitle={regenerationMerge.storyTitle}
+          diff={regenerationMerge.diff}
+          onApplied={() => {
+            setRegenerationMerge(null);
+            loadStoriesFromDatabase();
+          }}
+        />
+      )}
+
+      <BulkTagDialog
+        entityType="user_story"
+        ids={Array.from(selectedIds)}
+        open={showBulkTags}
+        onOpenChange={setShowBulkTags}
+        suggestions={projectTags}
+        onApplied={applyBulkTags}
+      />
+
+      <CustomFieldsDialog
+        projectId={projectId}
+        entityType="user_story"
+        open={showCustomFields}
+        onOpenChange={setShowCustomFields}
+        onChanged={setCustomFieldDefinitions}
+      />
+
+      {/* Custom Fields of a single story */}
+      <Dialog open={!!customFieldsStory} onOpenChange={(open) => !open && setCustomFieldsStory(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Custom Fields</DialogTitle>
+            <DialogDescription>{customFieldsStory?.title}</DialogDescription>
+          </DialogHeader>
+          <CustomFieldInputs
+            definitions={customFieldDefinitions}
+            values={customFieldsForm}
+            onChange={setCustomFieldsForm}
+            members={projectMembers}
+            idPrefix="story-field"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCustomFieldsStory(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveStoryCustomFields}>
+              Save Fields
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Custom Prompt Dialog for Initial Generation */}
       <Dialog open={showInitialGenerationDialog} onOpenChange={setShowInitialGenerationDialog}>
         <DialogContent className="sm:max-w-[600px]">
@@ -1205,6 +1551,10 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
             <Button variant="outline" onClick={() => setShowInitialGenerationDialog(false)}>
               Cancel
             </Button>
+            <Button variant="outline" onClick={() => previewGenerationPrompt(selectedStoryForGeneration)}>
+              <Eye className="mr-2 h-4 w-4" />
+              Preview Prompt
+            </Button>
             <Button 
               onClick={handleCustomGenerate}
               disabled={generatingTestCases !== null}
@@ -1313,6 +1663,10 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
             <Button variant="outline" onClick={() => setShowCustomPromptDialog(false)}>
               Cancel
             </Button>
+            <Button variant="outline" onClick={() => previewGenerationPrompt(selectedStoryForRegenerate)}>
+              <Eye className="mr-2 h-4 w-4" />
+              Preview Prompt
+            </Button>
             <Button 
               onClick={handleCustomRegenerate}
               disabled={generatingTestCases !== null}
@@ -1327,6 +1681,13 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PromptPreviewDialog
+        generator="generate-test-cases"
+        body={promptPreviewBody}
+        open={!!promptPreviewBody}
+        onOpenChange={(isOpen) => !isOpen && setPromptPreviewBody(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
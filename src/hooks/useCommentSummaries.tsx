@@ -0,0 +1,45 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CommentEntityType,
+  CommentSummary,
+  loadCommentSummaries,
+  subscribeToComments
+} from "@/lib/comments";
+
+/**
+ * Comment and unread counts for every item of a type in a project, kept current through realtime
+ */
+export const useCommentSummaries = (projectId: string, entityType: CommentEntityType) => {
+  const { user } = useAuth();
+  const [summaries, setSummaries] = useState<Record<string, CommentSummary>>({});
+
+  const fetchSummaries = async () => {
+    try {
+      setSummaries(await loadCommentSummaries(projectId, entityType));
+    } catch (error) {
+      console.error('Error loading comment summaries:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user || !projectId) return;
+
+    fetchSummaries();
+    // Deleted comments only carry their id, so any delete refreshes the counts
+    return subscribeToComments(
+      `comment-summaries-${entityType}-${projectId}`,
+      `project_id=eq.${projectId}`,
+      (event, comment) => {
+        if (event === 'DELETE' || comment.entityType === entityType) {
+          fetchSummaries();
+        }
+      }
+    );
+  }, [user, projectId, entityType]);
+
+  return {
+    summaries,
+    refetch: fetchSummaries,
+  };
+};
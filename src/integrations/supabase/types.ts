@@ -16,6 +16,7 @@ export type Database = {
     Tables: {
       ai_usage_logs: {
         Row: {
+          ai_provider: string | null
           created_at: string
           execution_time_ms: number | null
           feature_type: string
@@ -30,6 +31,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          ai_provider?: string | null
           created_at?: string
           execution_time_ms?: number | null
           feature_type: string
@@ -44,6 +46,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          ai_provider?: string | null
           created_at?: string
           execution_time_ms?: number | null
           feature_type?: string
@@ -67,163 +70,1299 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          project_id: string | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          project_id?: string | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          project_id?: string | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      comment_reads: {
+        Row: {
+          entity_id: string
+          entity_type: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          entity_id: string
+          entity_type: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Update: {
+          entity_id?: string
+          entity_type?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          edited_at: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          mentions: string[]
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string
+          body: string
+          created_at?: string
+          edited_at?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          mentions?: string[]
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          mentions?: string[]
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_type: string
+          field_type: string
+          id: string
+          name: string
+          options: string[]
+          position: number
+          project_id: string
+          required: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_type: string
+          field_type: string
+          id?: string
+          name: string
+          options?: string[]
+          position?: number
+          project_id: string
+          required?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          field_type?: string
+          id?: string
+          name?: string
+          options?: string[]
+          position?: number
+          project_id?: string
+          required?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_definitions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_values: {
+        Row: {
+          created_at: string
+          field_id: string
+          id: string
+          project_id: string
+          test_case_id: string | null
+          updated_at: string
+          user_story_id: string | null
+          value_date: string | null
+          value_number: number | null
+          value_options: string[] | null
+          value_text: string | null
+          value_user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          field_id: string
+          id?: string
+          project_id: string
+          test_case_id?: string | null
+          updated_at?: string
+          user_story_id?: string | null
+          value_date?: string | null
+          value_number?: number | null
+          value_options?: string[] | null
+          value_text?: string | null
+          value_user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          field_id?: string
+          id?: string
+          project_id?: string
+          test_case_id?: string | null
+          updated_at?: string
+          user_story_id?: string | null
+          value_date?: string | null
+          value_number?: number | null
+          value_options?: string[] | null
+          value_text?: string | null
+          value_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_values_field_id_fkey"
+            columns: ["field_id"]
+            isOneToOne: false
+            referencedRelation: "custom_field_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_user_story_id_fkey"
+            columns: ["user_story_id"]
+            isOneToOne: false
+            referencedRelation: "user_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      defects: {
+        Row: {
+          actual_result: string | null
+          created_at: string
+          defect_number: number
+          description: string | null
+          expected_result: string | null
+          id: string
+          priority: string
+          project_id: string
+          reported_by: string | null
+          repro_steps: string | null
+          resolved_at: string | null
+          severity: string
+          state: string
+          test_case_id: string | null
+          test_run_result_id: string | null
+          title: string
+          updated_at: string
+          user_story_id: string | null
+        }
+        Insert: {
+          actual_result?: string | null
+          created_at?: string
+          defect_number?: number
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          priority?: string
+          project_id: string
+          reported_by?: string | null
+          repro_steps?: string | null
+          resolved_at?: string | null
+          severity?: string
+          state?: string
+          test_case_id?: string | null
+          test_run_result_id?: string | null
+          title: string
+          updated_at?: string
+          user_story_id?: string | null
+        }
+        Update: {
+          actual_result?: string | null
+          created_at?: string
+          defect_number?: number
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          priority?: string
+          project_id?: string
+          reported_by?: string | null
+          repro_steps?: string | null
+          resolved_at?: string | null
+          severity?: string
+          state?: string
+          test_case_id?: string | null
+          test_run_result_id?: string | null
+          title?: string
+          updated_at?: string
+          user_story_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "defects_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "defects_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "defects_test_run_result_id_fkey"
+            columns: ["test_run_result_id"]
+            isOneToOne: false
+            referencedRelation: "test_run_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "defects_user_story_id_fkey"
+            columns: ["user_story_id"]
+            isOneToOne: false
+            referencedRelation: "user_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
-          display_name: string | null
-          email: string | null
+          display_name: string | null
+          email: string | null
+          id: string
+          role: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          role?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          role?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      project_members: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          role: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          role?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          role?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_sequences: {
+        Row: {
+          entity_type: string
+          last_value: number
+          project_id: string
+        }
+        Insert: {
+          entity_type: string
+          last_value?: number
+          project_id: string
+        }
+        Update: {
+          entity_type?: string
+          last_value?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_sequences_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          ai_provider: string | null
+          created_at: string
+          created_by: string
+          deleted_at: string | null
+          description: string | null
+          id: string
+          is_template: boolean
+          key: string
+          markdown_settings: string | null
+          name: string
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          ai_provider?: string | null
+          created_at?: string
+          created_by: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          is_template?: boolean
+          key?: string
+          markdown_settings?: string | null
+          name: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          ai_provider?: string | null
+          created_at?: string
+          created_by?: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          is_template?: boolean
+          key?: string
+          markdown_settings?: string | null
+          name?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      releases: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          project_id: string
+          released_at: string | null
+          start_date: string | null
+          status: string
+          target_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          project_id: string
+          released_at?: string | null
+          start_date?: string | null
+          status?: string
+          target_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          released_at?: string | null
+          start_date?: string | null
+          status?: string
+          target_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "releases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shared_step_items: {
+        Row: {
+          action: string
+          created_at: string
+          expected_result: string | null
+          id: string
+          shared_step_id: string
+          step_order: number
+          test_data: string | null
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          expected_result?: string | null
+          id?: string
+          shared_step_id: string
+          step_order: number
+          test_data?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          expected_result?: string | null
+          id?: string
+          shared_step_id?: string
+          step_order?: number
+          test_data?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_step_items_shared_step_id_fkey"
+            columns: ["shared_step_id"]
+            isOneToOne: false
+            referencedRelation: "shared_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shared_steps: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_steps_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number | null
+          id: string
+          project_id: string
+          test_case_id: string
+          test_run_result_id: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          id?: string
+          project_id: string
+          test_case_id: string
+          test_run_result_id?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          id?: string
+          project_id?: string
+          test_case_id?: string
+          test_run_result_id?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_attachments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_attachments_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_attachments_test_run_result_id_fkey"
+            columns: ["test_run_result_id"]
+            isOneToOne: false
+            referencedRelation: "test_run_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_case_revisions: {
+        Row: {
+          changed_by: string | null
+          changed_by_name: string | null
+          changed_fields: string[]
+          created_at: string
+          data_table: Json | null
+          description: string | null
+          expected_result: string | null
+          id: string
+          note: string | null
+          priority: string | null
+          revision_number: number
+          steps: Json
+          test_case_id: string
+          test_data: string | null
+          title: string
+          transaction_id: number
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          data_table?: Json | null
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          note?: string | null
+          priority?: string | null
+          revision_number: number
+          steps?: Json
+          test_case_id: string
+          test_data?: string | null
+          title: string
+          transaction_id?: number
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          data_table?: Json | null
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          note?: string | null
+          priority?: string | null
+          revision_number?: number
+          steps?: Json
+          test_case_id?: string
+          test_data?: string | null
+          title?: string
+          transaction_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_case_revisions_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_case_steps: {
+        Row: {
+          action: string
+          created_at: string
+          expected_result: string | null
+          id: string
+          shared_step_id: string | null
+          step_order: number
+          test_case_id: string
+          test_data: string | null
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          expected_result?: string | null
+          id?: string
+          shared_step_id?: string | null
+          step_order: number
+          test_case_id: string
+          test_data?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          expected_result?: string | null
+          id?: string
+          shared_step_id?: string | null
+          step_order?: number
+          test_case_id?: string
+          test_data?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_case_steps_shared_step_id_fkey"
+            columns: ["shared_step_id"]
+            isOneToOne: false
+            referencedRelation: "shared_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_case_steps_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_case_suggestions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          custom_prompt: string | null
+          description: string | null
+          duplicate_of: string | null
+          duplicate_score: number | null
+          expected_result: string | null
+          generation_id: string
+          id: string
+          priority: string
+          project_id: string
+          rejection_category: string | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          steps: Json
+          test_case_id: string | null
+          test_data: string | null
+          title: string
+          updated_at: string
+          user_story_id: string
+          was_edited: boolean
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          custom_prompt?: string | null
+          description?: string | null
+          duplicate_of?: string | null
+          duplicate_score?: number | null
+          expected_result?: string | null
+          generation_id: string
+          id?: string
+          priority?: string
+          project_id: string
+          rejection_category?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          steps?: Json
+          test_case_id?: string | null
+          test_data?: string | null
+          title: string
+          updated_at?: string
+          user_story_id: string
+          was_edited?: boolean
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          custom_prompt?: string | null
+          description?: string | null
+          duplicate_of?: string | null
+          duplicate_score?: number | null
+          expected_result?: string | null
+          generation_id?: string
+          id?: string
+          priority?: string
+          project_id?: string
+          rejection_category?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          steps?: Json
+          test_case_id?: string | null
+          test_data?: string | null
+          title?: string
+          updated_at?: string
+          user_story_id?: string
+          was_edited?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_case_suggestions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_case_suggestions_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_case_suggestions_user_story_id_fkey"
+            columns: ["user_story_id"]
+            isOneToOne: false
+            referencedRelation: "user_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_cases: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          data_table: Json | null
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          expected_result: string | null
+          id: string
+          possible_duplicate_of: string | null
+          priority: string | null
+          project_id: string
+          readable_id: string | null
+          status: string | null
+          steps: string | null
+          tags: string[]
+          test_data: string | null
+          title: string
+          updated_at: string
+          user_story_id: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          data_table?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          possible_duplicate_of?: string | null
+          priority?: string | null
+          project_id: string
+          readable_id?: string | null
+          status?: string | null
+          steps?: string | null
+          tags?: string[]
+          test_data?: string | null
+          title: string
+          updated_at?: string
+          user_story_id?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          data_table?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          expected_result?: string | null
+          id?: string
+          possible_duplicate_of?: string | null
+          priority?: string | null
+          project_id?: string
+          readable_id?: string | null
+          status?: string | null
+          steps?: string | null
+          tags?: string[]
+          test_data?: string | null
+          title?: string
+          updated_at?: string
+          user_story_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_cases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_cases_user_story_id_fkey"
+            columns: ["user_story_id"]
+            isOneToOne: false
+            referencedRelation: "user_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_configurations: {
+        Row: {
+          browser: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          environment: string | null
           id: string
-          role: string | null
+          name: string
+          operating_system: string | null
+          project_id: string
           updated_at: string
-          user_id: string
         }
         Insert: {
+          browser?: string | null
           created_at?: string
-          display_name?: string | null
-          email?: string | null
+          created_by?: string | null
+          description?: string | null
+          environment?: string | null
           id?: string
-          role?: string | null
+          name: string
+          operating_system?: string | null
+          project_id: string
           updated_at?: string
-          user_id: string
         }
         Update: {
+          browser?: string | null
           created_at?: string
-          display_name?: string | null
-          email?: string | null
+          created_by?: string | null
+          description?: string | null
+          environment?: string | null
           id?: string
-          role?: string | null
+          name?: string
+          operating_system?: string | null
+          project_id?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "test_configurations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      project_members: {
+      test_run_configurations: {
         Row: {
+          configuration_id: string
           created_at: string
           id: string
-          project_id: string
-          role: string | null
+          test_run_id: string
+        }
+        Insert: {
+          configuration_id: string
+          created_at?: string
+          id?: string
+          test_run_id: string
+        }
+        Update: {
+          configuration_id?: string
+          created_at?: string
+          id?: string
+          test_run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_run_configurations_configuration_id_fkey"
+            columns: ["configuration_id"]
+            isOneToOne: false
+            referencedRelation: "test_configurations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_configurations_test_run_id_fkey"
+            columns: ["test_run_id"]
+            isOneToOne: false
+            referencedRelation: "test_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_run_results: {
+        Row: {
+          configuration_id: string | null
+          created_at: string
+          executed_at: string | null
+          executed_by: string | null
+          id: string
+          iteration_data: Json | null
+          iteration_index: number
+          notes: string | null
+          status: string
+          test_case_id: string
+          test_run_id: string
           updated_at: string
-          user_id: string
         }
         Insert: {
+          configuration_id?: string | null
           created_at?: string
+          executed_at?: string | null
+          executed_by?: string | null
           id?: string
-          project_id: string
-          role?: string | null
+          iteration_data?: Json | null
+          iteration_index?: number
+          notes?: string | null
+          status?: string
+          test_case_id: string
+          test_run_id: string
           updated_at?: string
-          user_id: string
         }
         Update: {
+          configuration_id?: string | null
           created_at?: string
+          executed_at?: string | null
+          executed_by?: string | null
           id?: string
-          project_id?: string
-          role?: string | null
+          iteration_data?: Json | null
+          iteration_index?: number
+          notes?: string | null
+          status?: string
+          test_case_id?: string
+          test_run_id?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_members_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "test_run_results_configuration_id_fkey"
+            columns: ["configuration_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "test_configurations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_results_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_results_test_run_id_fkey"
+            columns: ["test_run_id"]
+            isOneToOne: false
+            referencedRelation: "test_runs"
             referencedColumns: ["id"]
           },
         ]
       }
-      projects: {
+      test_run_step_results: {
         Row: {
+          actual_result: string | null
           created_at: string
-          created_by: string
-          deleted_at: string | null
+          id: string
+          status: string
+          step_action: string | null
+          step_expected_result: string | null
+          test_case_step_id: string | null
+          test_run_result_id: string
+          updated_at: string
+        }
+        Insert: {
+          actual_result?: string | null
+          created_at?: string
+          id?: string
+          status?: string
+          step_action?: string | null
+          step_expected_result?: string | null
+          test_case_step_id?: string | null
+          test_run_result_id: string
+          updated_at?: string
+        }
+        Update: {
+          actual_result?: string | null
+          created_at?: string
+          id?: string
+          status?: string
+          step_action?: string | null
+          step_expected_result?: string | null
+          test_case_step_id?: string | null
+          test_run_result_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_run_step_results_test_case_step_id_fkey"
+            columns: ["test_case_step_id"]
+            isOneToOne: false
+            referencedRelation: "test_case_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_step_results_test_run_result_id_fkey"
+            columns: ["test_run_result_id"]
+            isOneToOne: false
+            referencedRelation: "test_run_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
           description: string | null
           id: string
-          markdown_settings: string | null
           name: string
+          project_id: string
+          release_id: string | null
+          started_at: string
+          status: string
           updated_at: string
         }
         Insert: {
+          completed_at?: string | null
           created_at?: string
-          created_by: string
-          deleted_at?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
-          markdown_settings?: string | null
           name: string
+          project_id: string
+          release_id?: string | null
+          started_at?: string
+          status?: string
           updated_at?: string
         }
         Update: {
+          completed_at?: string | null
           created_at?: string
-          created_by?: string
-          deleted_at?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
-          markdown_settings?: string | null
           name?: string
+          project_id?: string
+          release_id?: string | null
+          started_at?: string
+          status?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "test_runs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_runs_release_id_fkey"
+            columns: ["release_id"]
+            isOneToOne: false
+            referencedRelation: "releases"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      test_cases: {
+      test_suite_cases: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          suite_id: string
+          test_case_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position?: number
+          suite_id: string
+          test_case_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          suite_id?: string
+          test_case_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_suite_cases_suite_id_fkey"
+            columns: ["suite_id"]
+            isOneToOne: false
+            referencedRelation: "test_suites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_suite_cases_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_suites: {
         Row: {
           created_at: string
+          created_by: string | null
           description: string | null
-          expected_result: string | null
           id: string
-          priority: string | null
+          name: string
+          parent_id: string | null
+          position: number
           project_id: string
-          readable_id: string | null
-          status: string | null
-          steps: string | null
-          test_data: string | null
-          title: string
           updated_at: string
-          user_story_id: string | null
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           description?: string | null
-          expected_result?: string | null
           id?: string
-          priority?: string | null
+          name: string
+          parent_id?: string | null
+          position?: number
           project_id: string
-          readable_id?: string | null
-          status?: string | null
-          steps?: string | null
-          test_data?: string | null
-          title: string
           updated_at?: string
-          user_story_id?: string | null
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           description?: string | null
-          expected_result?: string | null
           id?: string
-          priority?: string | null
+          name?: string
+          parent_id?: string | null
+          position?: number
           project_id?: string
-          readable_id?: string | null
-          status?: string | null
-          steps?: string | null
-          test_data?: string | null
-          title?: string
           updated_at?: string
-          user_story_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "test_cases_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "test_suites_parent_id_fkey"
+            columns: ["parent_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "test_suites"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "test_cases_user_story_id_fkey"
-            columns: ["user_story_id"]
+            foreignKeyName: "test_suites_project_id_fkey"
+            columns: ["project_id"]
             isOneToOne: false
-            referencedRelation: "user_stories"
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
         ]
@@ -256,33 +1395,48 @@ export type Database = {
         Row: {
           acceptance_criteria: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           id: string
           priority: string | null
           project_id: string
+          readable_id: string | null
+          release_id: string | null
           status: string | null
+          tags: string[]
           title: string
           updated_at: string
         }
         Insert: {
           acceptance_criteria?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
           priority?: string | null
           project_id: string
+          readable_id?: string | null
+          release_id?: string | null
           status?: string | null
+          tags?: string[]
           title: string
           updated_at?: string
         }
         Update: {
           acceptance_criteria?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
           priority?: string | null
           project_id?: string
+          readable_id?: string | null
+          release_id?: string | null
           status?: string | null
+          tags?: string[]
           title?: string
           updated_at?: string
         }
@@ -294,6 +1448,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_stories_release_id_fkey"
+            columns: ["release_id"]
+            isOneToOne: false
+            referencedRelation: "releases"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -317,14 +1478,50 @@ export type Database = {
       }
     }
     Functions: {
-      generate_unique_test_case_id: {
-        Args: { p_project_id: string }
+      apply_test_case_regeneration: {
+        Args: { _add: Json; _retire: string[]; _update: Json; _user_story_id: string }
+        Returns: undefined
+      }
+      approve_test_case_suggestion: {
+        Args: { _suggestion_id: string }
+        Returns: string
+      }
+      bulk_update_test_cases: {
+        Args: { _changes: Json; _ids: string[]; _project_id: string }
+        Returns: Json
+      }
+      clone_project: {
+        Args: { _as_template?: boolean; _description?: string; _include_history?: boolean; _key?: string; _name: string; _source_id: string }
+        Returns: string
+      }
+      defect_search_document: {
+        Args: { _title: string; _description: string; _repro_steps: string; _expected_result: string; _actual_result: string }
+        Returns: unknown
+      }
+      derive_project_key: {
+        Args: { _name: string }
         Returns: string
       }
+      format_readable_id: {
+        Args: { _prefix: string; _key: string; _number: number }
+        Returns: string
+      }
+      get_comment_summaries: {
+        Args: { _project_id: string; _entity_type: string }
+        Returns: { entity_id: string; comment_count: number; unread_count: number; unread_mentions: number }[]
+      }
+      get_project_members: {
+        Args: { _project_id: string }
+        Returns: { user_id: string; display_name: string; email: string }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_project_access: {
+        Args: { _project_id: string; _user_id?: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -340,6 +1537,67 @@ export type Database = {
         Args: { project_id: string; user_id?: string }
         Returns: boolean
       }
+      merge_test_cases: {
+        Args: { _keep_id: string; _duplicate_ids: string[] }
+        Returns: number
+      }
+      next_readable_id: {
+        Args: { _project_id: string; _entity_type: string }
+        Returns: string
+      }
+      normalize_tags: {
+        Args: { _tags: string[] }
+        Returns: string[]
+      }
+      purge_expired_trash: {
+        Args: never
+        Returns: number
+      }
+      refresh_test_case_steps_text: {
+        Args: { _test_case_id: string }
+        Returns: undefined
+      }
+      replace_shared_step_items: {
+        Args: { _items: Json; _shared_step_id: string }
+        Returns: undefined
+      }
+      restore_test_case_revision: {
+        Args: { _revision_id: string }
+        Returns: number
+      }
+      search_items: {
+        Args: { _query: string; _project_id?: string; _entity_types?: string[]; _limit?: number }
+        Returns: { entity_type: string; entity_id: string; project_id: string; project_name: string; reference: string; title: string; title_highlight: string; snippet: string; rank: number }[]
+      }
+      strip_html: {
+        Args: { _text: string }
+        Returns: string
+      }
+      test_case_search_document: {
+        Args: { _title: string; _description: string; _expected_result: string; _test_data: string }
+        Returns: unknown
+      }
+      test_case_steps_snapshot: {
+        Args: { _test_case_id: string }
+        Returns: Json
+      }
+      test_step_search_document: {
+        Args: { _action: string; _expected_result: string; _test_data: string }
+        Returns: unknown
+      }
+      update_item_tags: {
+        Args: {
+          _add?: string[]
+          _entity_type: string
+          _ids: string[]
+          _remove?: string[]
+        }
+        Returns: number
+      }
+      user_story_search_document: {
+        Args: { _title: string; _description: string; _acceptance_criteria: string }
+        Returns: unknown
+      }
     }
     Enums: {
       app_role: "admin" | "tester"
@@ -0,0 +1,120 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * AI provider used by a project's generation features. The choice is stored on the project;
+ * credentials stay in each user's integration settings in localStorage and are sent with each
+ * request to the edge functions, which share _shared/ai-provider.ts.
+ */
+
+export type AIProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  apiKey?: string;
+  // Azure resource URL, or the base URL of an OpenAI-compatible server (e.g. https://llm.example.com/v1)
+  endpoint?: string;
+  deploymentId?: string;
+  apiVersion?: string;
+  model?: string;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, { label: string; description: string }> = {
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    description: 'GPT models deployed to your Azure OpenAI resource'
+  },
+  'openai': {
+    label: 'OpenAI',
+    description: 'GPT models through api.openai.com'
+  },
+  'anthropic': {
+    label: 'Anthropic',
+    description: 'Claude models through the Anthropic API'
+  },
+  'openai-compatible': {
+    label: 'Self-hosted / OpenAI-compatible',
+    description: 'Self-hosted servers with an OpenAI-style API, such as Ollama or vLLM, reachable from the internet'
+  }
+};
+
+export const DEFAULT_AI_PROVIDER: AIProviderId = 'azure-openai';
+
+export const AI_PROVIDER_DEFAULT_MODELS: Partial<Record<AIProviderId, string>> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest'
+};
+
+const INTEGRATION_CONFIGS_KEY = 'integration-configs';
+
+const loadIntegrationConfigs = () => {
+  try {
+    const saved = localStorage.getItem(INTEGRATION_CONFIGS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Azure OpenAI keeps its original place under "openai"; other providers live under "ai-providers"
+export const loadProviderConfig = (provider: AIProviderId): AIProviderConfig => {
+  const configs = loadIntegrationConfigs();
+  const saved = provider === 'azure-openai' ? configs.openai : configs['ai-providers']?.[provider];
+  return { ...saved, provider };
+};
+
+export const saveProviderConfig = (config: AIProviderConfig) => {
+  const configs = loadIntegrationConfigs();
+  if (config.provider === 'azure-openai') {
+    configs.openai = { ...configs.openai, ...config, enabled: true };
+  } else {
+    configs['ai-providers'] = { ...configs['ai-providers'], [config.provider]: config };
+  }
+  localStorage.setItem(INTEGRATION_CONFIGS_KEY, JSON.stringify(configs));
+};
+
+// Mirrors validateProviderConfig in the edge functions
+export const isProviderConfigured = (config: AIProviderConfig) => {
+  switch (config.provider) {
+    case 'azure-openai':
+      return !!(config.endpoint && config.apiKey && config.deploymentId);
+    case 'openai-compatible':
+      return !!(config.endpoint && config.model);
+    default:
+      return !!config.apiKey;
+  }
+};
+
+export const loadProjectAIProvider = async (projectId: string): Promise<AIProviderId> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('ai_provider')
+    .eq('id', projectId)
+    .single();
+
+  if (error) throw error;
+  return (data?.ai_provider as AIProviderId) || DEFAULT_AI_PROVIDER;
+};
+
+export const saveProjectAIProvider = async (projectId: string, provider: AIProviderId) => {
+  const { error } = await supabase
+    .from('projects')
+    .update({ ai_provider: provider })
+    .eq('id', projectId);
+
+  if (error) throw error;
+};
+
+/**
+ * The project's provider and the config to send with its generation requests. The config is null
+ * when this user has not set up that provider yet.
+ */
+export const resolveAIConfig = async (
+  projectId?: string | null
+): Promise<{ provider: AIProviderId; config: AIProviderConfig | null }> => {
+  const provider = projectId ? await loadProjectAIProvider(projectId) : DEFAULT_AI_PROVIDER;
+  const config = loadProviderConfig(provider);
+  return { provider, config: isProviderConfigured(config) ? config : null };
+};
+
+export const aiProviderNotConfiguredMessage = (provider: AIProviderId) =>
+  `Please configure ${AI_PROVIDERS[provider].label} in the Integrations tab first`;
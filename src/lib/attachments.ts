@@ -0,0 +1,150 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Evidence attachments (screenshots, logs, HAR files) stored in the test-evidence bucket
+ */
+
+export const EVIDENCE_BUCKET = 'test-evidence';
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // Matches the bucket file_size_limit
+
+export interface TestAttachment {
+  id: string;
+  testCaseId: string;
+  testRunResultId: string | null;
+  fileName: string;
+  filePath: string;
+  contentType: string;
+  fileSize: number;
+  createdAt: string;
+}
+
+interface UploadAttachmentInput {
+  projectId: string;
+  testCaseId: string;
+  testRunResultId?: string | null;
+  file: File;
+  uploadedBy: string;
+}
+
+export const isImageAttachment = (attachment: Pick<TestAttachment, 'contentType'>) =>
+  attachment.contentType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const transformAttachment = (row: {
+  id: string;
+  test_case_id: string;
+  test_run_result_id: string | null;
+  file_name: string;
+  file_path: string;
+  content_type: string | null;
+  file_size: number | null;
+  created_at: string;
+}): TestAttachment => ({
+  id: row.id,
+  testCaseId: row.test_case_id,
+  testRunResultId: row.test_run_result_id,
+  fileName: row.file_name,
+  filePath: row.file_path,
+  contentType: row.content_type || 'application/octet-stream',
+  fileSize: row.file_size || 0,
+  createdAt: row.created_at
+});
+
+export const uploadAttachment = async ({ projectId, testCaseId, testRunResultId, file, uploadedBy }: UploadAttachmentInput) => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`);
+  }
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const filePath = `${projectId}/${testCaseId}/${Date.now()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(filePath, file, { contentType: file.type || undefined });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('test_attachments')
+    .insert({
+      project_id: projectId,
+      test_case_id: testCaseId,
+      test_run_result_id: testRunResultId || null,
+      file_name: file.name,
+      file_path: filePath,
+      content_type: file.type || null,
+      file_size: file.size,
+      uploaded_by: uploadedBy
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned object behind if the metadata insert failed
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([filePath]);
+    throw error;
+  }
+
+  return transformAttachment(data);
+};
+
+export const loadAttachments = async (filter: { testCaseIds?: string[]; testRunResultIds?: string[] }) => {
+  let query = supabase
+    .from('test_attachments')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (filter.testCaseIds) {
+    if (filter.testCaseIds.length === 0) return [];
+    query = query.in('test_case_id', filter.testCaseIds);
+  }
+  if (filter.testRunResultIds) {
+    if (filter.testRunResultIds.length === 0) return [];
+    query = query.in('test_run_result_id', filter.testRunResultIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(transformAttachment);
+};
+
+export const deleteAttachment = async (attachment: TestAttachment) => {
+  const { error: storageError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .remove([attachment.filePath]);
+
+  if (storageError) throw storageError;
+
+  const { error } = await supabase
+    .from('test_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+};
+
+/**
+ * Signed URLs for private evidence files; the expiry defaults to one hour
+ */
+export const getAttachmentUrls = async (attachments: TestAttachment[], expiresIn = 3600) => {
+  if (attachments.length === 0) return {} as Record<string, string>;
+
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrls(attachments.map(attachment => attachment.filePath), expiresIn);
+
+  if (error) throw error;
+
+  return (data || []).reduce((acc, item) => {
+    if (item.path && item.signedUrl) {
+      acc[item.path] = item.signedUrl;
+    }
+    return acc;
+  }, {} as Record<string, string>);
+};
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import * as XLSX from 'xlsx';
+
+/**
+ * Trigger-based audit trail of changes to projects, stories, test cases, members and roles
+ */
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export const AUDITED_TABLES: Record<string, string> = {
+  projects: 'Projects',
+  user_stories: 'User Stories',
+  test_cases: 'Test Cases',
+  project_members: 'Project Members',
+  user_roles: 'User Roles'
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted'
+};
+
+export interface AuditLogEntry {
+  id: string;
+  tableName: string;
+  recordId: string | null;
+  projectId: string | null;
+  operation: AuditOperation;
+  actorId: string | null;
+  actorEmail: string | null;
+  oldData: Record<string, Json> | null;
+  newData: Record<string, Json> | null;
+  changedFields: string[];
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  tableName: string; // 'all' or a table name
+  operation: string; // 'all' or an operation
+  actor: string;
+  // Record or project id
+  recordId: string;
+  from: string | null;
+  to: string | null;
+}
+
+export const emptyAuditLogFilters = (): AuditLogFilters => ({
+  tableName: 'all',
+  operation: 'all',
+  actor: '',
+  recordId: '',
+  from: null,
+  to: null
+});
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const buildQuery = (filters: AuditLogFilters) => {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false });
+
+  if (filters.tableName !== 'all') query = query.eq('table_name', filters.tableName);
+  if (filters.operation !== 'all') query = query.eq('operation', filters.operation);
+  if (filters.actor.trim()) query = query.ilike('actor_email', `%${filters.actor.trim()}%`);
+  if (UUID_PATTERN.test(filters.recordId.trim())) {
+    const id = filters.recordId.trim();
+    query = query.or(`record_id.eq.${id},project_id.eq.${id}`);
+  }
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    // Include the whole "to" day
+    const to = new Date(`${filters.to}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+    query = query.lt('created_at', to.toISOString());
+  }
+
+  return query;
+};
+
+const toAuditLogEntry = (row: {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  project_id: string | null;
+  operation: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  old_data: Json | null;
+  new_data: Json | null;
+  changed_fields: string[];
+  created_at: string;
+}): AuditLogEntry => ({
+  id: row.id,
+  tableName: row.table_name,
+  recordId: row.record_id,
+  projectId: row.project_id,
+  operation: row.operation as AuditOperation,
+  actorId: row.actor_id,
+  actorEmail: row.actor_email,
+  oldData: row.old_data as Record<string, Json> | null,
+  newData: row.new_data as Record<string, Json> | null,
+  changedFields: row.changed_fields || [],
+  createdAt: row.created_at
+});
+
+export const loadAuditLog = async (filters: AuditLogFilters, page: number, pageSize: number) => {
+  const { data, error, count } = await buildQuery(filters).range(page * pageSize, (page + 1) * pageSize - 1);
+
+  if (error) throw error;
+
+  return { entries: (data || []).map(toAuditLogEntry), total: count || 0 };
+};
+
+/**
+ * Title, name or email of the changed record, for lists
+ */
+export const describeAuditRecord = (entry: AuditLogEntry) => {
+  const row = entry.newData || entry.oldData || {};
+  const label = row.title || row.name || row.readable_id || row.role;
+  return typeof label === 'string' ? label : entry.recordId || '';
+};
+
+const formatValue = (value: Json | undefined) =>
+  value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Changed fields of an update with their old and new values
+ */
+export const getAuditChanges = (entry: AuditLogEntry) =>
+  entry.changedFields.map(field => ({
+    field,
+    oldValue: formatValue(entry.oldData?.[field]),
+    newValue: formatValue(entry.newData?.[field])
+  }));
+
+// Upper bound on exported rows, to keep the export in a single request
+const EXPORT_LIMIT = 10000;
+
+export const exportAuditLog = async (filters: AuditLogFilters, format: 'xlsx' | 'csv') => {
+  const { data, error } = await buildQuery(filters).limit(EXPORT_LIMIT);
+
+  if (error) throw error;
+
+  const rows = (data || []).map(toAuditLogEntry).map(entry => ({
+    'Timestamp': new Date(entry.createdAt).toISOString(),
+    'Table': entry.tableName,
+    'Operation': entry.operation,
+    'Record ID': entry.recordId || '',
+    'Record': describeAuditRecord(entry),
+    'Project ID': entry.projectId || '',
+    'Actor': entry.actorEmail || entry.actorId || 'system',
+    'Changed Fields': entry.changedFields.join(', '),
+    'Old Data': entry.oldData ? JSON.stringify(entry.oldData) : '',
+    'New Data': entry.newData ? JSON.stringify(entry.newData) : ''
+  }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'Audit Log');
+  XLSX.writeFile(wb, `audit-log.${format}`, { bookType: format });
+
+  return rows.length;
+};
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+/**
+ * Bulk changes to selected test cases, applied in one transaction by the bulk_update_test_cases RPC
+ */
+
+export interface BulkTestCaseChanges {
+  priority?: 'low' | 'medium' | 'high';
+  status?: 'not-run' | 'passed' | 'failed' | 'blocked';
+  // null unassigns
+  assignedTo?: string | null;
+  addTags?: string[];
+  removeTags?: string[];
+  userStoryId?: string;
+  // The cases leave the project's other suites
+  suiteId?: string;
+  delete?: boolean;
+}
+
+// Number of test cases each kind of change actually modified
+export interface BulkUpdateSummary {
+  selected: number;
+  priority?: number;
+  status?: number;
+  assignedTo?: number;
+  tags?: number;
+  userStoryId?: number;
+  suiteId?: number;
+  deleted?: number;
+}
+
+export const hasBulkChanges = (changes: BulkTestCaseChanges) =>
+  Object.entries(changes).some(([key, value]) => {
+    if (Array.isArray(value)) return value.length > 0;
+    if (key === 'assignedTo') return value !== undefined;
+    return value !== undefined && value !== false;
+  });
+
+export const bulkUpdateTestCases = async (
+  projectId: string,
+  ids: string[],
+  changes: BulkTestCaseChanges
+): Promise<BulkUpdateSummary> => {
+  const payload: Record<string, Json> = {};
+  if (changes.priority) payload.priority = changes.priority;
+  if (changes.status) payload.status = changes.status;
+  if (changes.assignedTo !== undefined) payload.assigned_to = changes.assignedTo;
+  if (changes.addTags?.length) payload.add_tags = changes.addTags;
+  if (changes.removeTags?.length) payload.remove_tags = changes.removeTags;
+  if (changes.userStoryId) payload.user_story_id = changes.userStoryId;
+  if (changes.suiteId) payload.suite_id = changes.suiteId;
+  if (changes.delete) payload.delete = true;
+
+  const { data, error } = await supabase.rpc('bulk_update_test_cases', {
+    _project_id: projectId,
+    _ids: ids,
+    _changes: payload
+  });
+
+  if (error) throw error;
+
+  const summary = (data || {}) as Record<string, number>;
+  return {
+    selected: summary.selected || 0,
+    priority: summary.priority,
+    status: summary.status,
+    assignedTo: summary.assigned_to,
+    tags: summary.tags,
+    userStoryId: summary.user_story_id,
+    suiteId: summary.suite_id,
+    deleted: summary.deleted
+  };
+};
+
+const SUMMARY_LABELS: [keyof BulkUpdateSummary, string][] = [
+  ['priority', 'priority changed'],
+  ['status', 'status changed'],
+  ['assignedTo', 'reassigned'],
+  ['tags', 'tags updated'],
+  ['userStoryId', 'moved to the story'],
+  ['suiteId', 'moved to the suite'],
+  ['deleted', 'moved to the trash']
+];
+
+// e.g. "15 test cases: 12 priority changed, 3 reassigned"
+export const describeBulkSummary = (summary: BulkUpdateSummary) => {
+  const parts = SUMMARY_LABELS
+    .filter(([key]) => summary[key] !== undefined)
+    .map(([key, label]) => `${summary[key]} ${label}`);
+  return `${summary.selected} test case${summary.selected === 1 ? '' : 's'}: ${parts.join(', ') || 'nothing to change'}`;
+};
@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ProjectMember } from "@/lib/customFields";
+
+/**
+ * Comment threads on user stories, test cases and test run results. Mentions are stored in the
+ * body as @[Name](user-id) so they survive renames, and copied to the mentions column on save.
+ */
+
+export type CommentEntityType = 'user_story' | 'test_case' | 'test_run_result';
+
+export interface Comment {
+  id: string;
+  projectId: string;
+  entityType: CommentEntityType;
+  entityId: string;
+  authorId: string;
+  body: string;
+  mentions: string[];
+  editedAt: string | null;
+  createdAt: string;
+}
+
+export interface CommentSummary {
+  commentCount: number;
+  unreadCount: number;
+  unreadMentions: number;
+}
+
+export const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+
+export const formatMention = (member: ProjectMember) => `@[${member.name.replace(/[[\]]/g, '')}](${member.userId}) `;
+
+export const extractMentions = (body: string) =>
+  Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[2])));
+
+type CommentRow = {
+  id: string;
+  project_id: string;
+  entity_type: string;
+  entity_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  edited_at: string | null;
+  created_at: string;
+};
+
+export const toComment = (row: CommentRow): Comment => ({
+  id: row.id,
+  projectId: row.project_id,
+  entityType: row.entity_type as CommentEntityType,
+  entityId: row.entity_id,
+  authorId: row.author_id,
+  body: row.body,
+  mentions: row.mentions || [],
+  editedAt: row.edited_at,
+  createdAt: row.created_at
+});
+
+export const loadComments = async (entityType: CommentEntityType, entityId: string): Promise<Comment[]> => {
+  const { data, error } = await supabase
+    .from('comments')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toComment);
+};
+
+export const addComment = async (
+  projectId: string,
+  entityType: CommentEntityType,
+  entityId: string,
+  body: string
+): Promise<Comment> => {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      project_id: projectId,
+      entity_type: entityType,
+      entity_id: entityId,
+      body: body.trim(),
+      mentions: extractMentions(body)
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toComment(data);
+};
+
+export const updateComment = async (commentId: string, body: string) => {
+  const { error } = await supabase
+    .from('comments')
+    .update({ body: body.trim(), mentions: extractMentions(body) })
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+export const deleteComment = async (commentId: string) => {
+  const { error } = await supabase
+    .from('comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+export const markCommentsRead = async (entityType: CommentEntityType, entityId: string) => {
+  const { error } = await supabase
+    .from('comment_reads')
+    .upsert(
+      { entity_type: entityType, entity_id: entityId, last_read_at: new Date().toISOString() },
+      { onConflict: 'user_id,entity_type,entity_id' }
+    );
+
+  if (error) throw error;
+};
+
+/**
+ * Comment and unread counts of the current user, keyed by story / test case / run result id
+ */
+export const loadCommentSummaries = async (
+  projectId: string,
+  entityType: CommentEntityType
+): Promise<Record<string, CommentSummary>> => {
+  const { data, error } = await supabase.rpc('get_comment_summaries', {
+    _project_id: projectId,
+    _entity_type: entityType
+  });
+
+  if (error) throw error;
+
+  const summaries: Record<string, CommentSummary> = {};
+  for (const row of data || []) {
+    summaries[row.entity_id] = {
+      commentCount: row.comment_count,
+      unreadCount: row.unread_count,
+      unreadMentions: row.unread_mentions
+    };
+  }
+  return summaries;
+};
+
+/**
+ * Calls onChange for every comment inserted, edited or deleted that matches the realtime filter
+ * (e.g. "project_id=eq.<id>"). Returns a function that unsubscribes.
+ */
+export const subscribeToComments = (
+  channelName: string,
+  filter: string,
+  onChange: (event: 'INSERT' | 'UPDATE' | 'DELETE', comment: Comment) => void
+) => {
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'comments', filter },
+      (payload) => {
+        const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as CommentRow;
+        onChange(payload.eventType, toComment(row));
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
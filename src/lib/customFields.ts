@@ -0,0 +1,301 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Project-defined custom fields on user stories and test cases, stored as typed values
+ */
+
+export type CustomFieldEntityType = 'test_case' | 'user_story';
+export type CustomFieldType = 'text' | 'number' | 'select' | 'multi-select' | 'date' | 'user';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  'multi-select': 'Multi-select',
+  date: 'Date',
+  user: 'User'
+};
+
+export interface CustomFieldDefinition {
+  id: string;
+  entityType: CustomFieldEntityType;
+  name: string;
+  fieldType: CustomFieldType;
+  options: string[];
+  required: boolean;
+  position: number;
+}
+
+export type CustomFieldDefinitionInput = Pick<CustomFieldDefinition, 'name' | 'fieldType' | 'options' | 'required'>;
+
+// Multi-select values are arrays, numbers are numbers, everything else (including dates and user ids) is a string
+export type CustomFieldValue = string | number | string[] | null;
+
+// Values per field id
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// A filter on a single custom field; an empty value doesn't narrow anything down
+export interface CustomFieldFilter {
+  fieldId: string;
+  value: string;
+}
+
+export interface ProjectMember {
+  userId: string;
+  name: string;
+}
+
+// Multi-select values are written to and read from Excel separated by ";"
+const MULTI_VALUE_SEPARATOR = ';';
+
+export const loadCustomFieldDefinitions = async (projectId: string, entityType: CustomFieldEntityType): Promise<CustomFieldDefinition[]> => {
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('entity_type', entityType)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(field => ({
+    id: field.id,
+    entityType: field.entity_type as CustomFieldEntityType,
+    name: field.name,
+    fieldType: field.field_type as CustomFieldType,
+    options: field.options || [],
+    required: field.required,
+    position: field.position
+  }));
+};
+
+export const saveCustomFieldDefinition = async (
+  projectId: string,
+  entityType: CustomFieldEntityType,
+  input: CustomFieldDefinitionInput,
+  fieldId?: string | null,
+  position = 0
+) => {
+  const row = {
+    name: input.name.trim(),
+    field_type: input.fieldType,
+    options: input.fieldType === 'select' || input.fieldType === 'multi-select'
+      ? Array.from(new Set(input.options.map(option => option.trim()).filter(Boolean)))
+      : [],
+    required: input.required
+  };
+
+  const { error } = fieldId
+    ? await supabase
+        .from('custom_field_definitions')
+        .update(row)
+        .eq('id', fieldId)
+    : await supabase
+        .from('custom_field_definitions')
+        .insert({ project_id: projectId, entity_type: entityType, position, ...row });
+
+  if (error) throw error;
+};
+
+export const deleteCustomFieldDefinition = async (fieldId: string) => {
+  const { error } = await supabase
+    .from('custom_field_definitions')
+    .delete()
+    .eq('id', fieldId);
+
+  if (error) throw error;
+};
+
+export const loadProjectMembers = async (projectId: string): Promise<ProjectMember[]> => {
+  const { data, error } = await supabase.rpc('get_project_members', { _project_id: projectId });
+
+  if (error) throw error;
+
+  return (data || []).map(member => ({
+    userId: member.user_id,
+    name: member.display_name || member.email || 'Unknown user'
+  }));
+};
+
+/**
+ * Loads the custom field values of every story or test case in a project, keyed by story / test case id
+ */
+export const loadCustomFieldValues = async (
+  projectId: string,
+  entityType: CustomFieldEntityType
+): Promise<Record<string, CustomFieldValues>> => {
+  const entityColumn = entityType === 'test_case' ? 'test_case_id' : 'user_story_id';
+  const { data, error } = await supabase
+    .from('custom_field_values')
+    .select('*, custom_field_definitions!inner(field_type, entity_type)')
+    .eq('project_id', projectId)
+    .eq('custom_field_definitions.entity_type', entityType);
+
+  if (error) throw error;
+
+  const values: Record<string, CustomFieldValues> = {};
+  (data || []).forEach(row => {
+    const entityId = row[entityColumn];
+    if (!entityId) return;
+
+    let value: CustomFieldValue;
+    switch (row.custom_field_definitions.field_type as CustomFieldType) {
+      case 'number': value = row.value_number; break;
+      case 'date': value = row.value_date; break;
+      case 'multi-select': value = row.value_options; break;
+      case 'user': value = row.value_user_id; break;
+      default: value = row.value_text;
+    }
+
+    values[entityId] = { ...values[entityId], [row.field_id]: value };
+  });
+
+  return values;
+};
+
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Returns the names of required fields that have no value
+ */
+export const getMissingRequiredFields = (definitions: CustomFieldDefinition[], values: CustomFieldValues) =>
+  definitions.filter(field => field.required && isEmptyCustomFieldValue(values[field.id])).map(field => field.name);
+
+/**
+ * Writes the values of one story / test case: empty values are removed, the rest upserted
+ */
+export const saveCustomFieldValues = async (
+  projectId: string,
+  entityType: CustomFieldEntityType,
+  entityId: string,
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues
+) => {
+  const entityColumn = entityType === 'test_case' ? 'test_case_id' : 'user_story_id';
+  const emptyFieldIds = definitions.filter(field => isEmptyCustomFieldValue(values[field.id])).map(field => field.id);
+  const rows = definitions
+    .filter(field => !isEmptyCustomFieldValue(values[field.id]))
+    .map(field => {
+      const value = values[field.id];
+      return {
+        field_id: field.id,
+        project_id: projectId,
+        [entityColumn]: entityId,
+        value_text: field.fieldType === 'text' || field.fieldType === 'select' ? String(value) : null,
+        value_number: field.fieldType === 'number' ? Number(value) : null,
+        value_date: field.fieldType === 'date' ? String(value) : null,
+        value_options: field.fieldType === 'multi-select' ? (value as string[]) : null,
+        value_user_id: field.fieldType === 'user' ? String(value) : null
+      };
+    });
+
+  if (emptyFieldIds.length > 0) {
+    const { error } = await supabase
+      .from('custom_field_values')
+      .delete()
+      .eq(entityColumn, entityId)
+      .in('field_id', emptyFieldIds);
+
+    if (error) throw error;
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('custom_field_values')
+      .upsert(rows, { onConflict: `field_id,${entityColumn}` });
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Human-readable value for tables and Excel export
+ */
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  members: ProjectMember[] = []
+) => {
+  if (isEmptyCustomFieldValue(value)) return '';
+  switch (field.fieldType) {
+    case 'multi-select': return (value as string[]).join(`${MULTI_VALUE_SEPARATOR} `);
+    case 'user': return members.find(member => member.userId === value)?.name || String(value);
+    default: return String(value);
+  }
+};
+
+/**
+ * Parses a value from an Excel cell. Throws when the cell doesn't fit the field type.
+ */
+export const parseCustomFieldValue = (
+  field: CustomFieldDefinition,
+  cell: unknown,
+  members: ProjectMember[] = []
+): CustomFieldValue => {
+  if (cell === null || cell === undefined || String(cell).trim() === '') return null;
+  const text = String(cell).trim();
+
+  switch (field.fieldType) {
+    case 'number': {
+      const number = Number(text);
+      if (Number.isNaN(number)) throw new Error(`${field.name} must be a number`);
+      return number;
+    }
+    case 'date': {
+      // Excel stores dates as serial day numbers counted from 1899-12-30
+      const date = typeof cell === 'number'
+        ? new Date(Date.UTC(1899, 11, 30) + cell * 24 * 60 * 60 * 1000)
+        : new Date(text);
+      if (Number.isNaN(date.getTime())) throw new Error(`${field.name} must be a date`);
+      return date.toISOString().split('T')[0];
+    }
+    case 'select': {
+      const option = field.options.find(o => o.toLowerCase() === text.toLowerCase());
+      if (!option) throw new Error(`"${text}" is not an option of ${field.name}`);
+      return option;
+    }
+    case 'multi-select': {
+      const selected = text.split(MULTI_VALUE_SEPARATOR).map(part => part.trim()).filter(Boolean);
+      return selected.map(part => {
+        const option = field.options.find(o => o.toLowerCase() === part.toLowerCase());
+        if (!option) throw new Error(`"${part}" is not an option of ${field.name}`);
+        return option;
+      });
+    }
+    case 'user': {
+      const member = members.find(m => m.name.toLowerCase() === text.toLowerCase() || m.userId === text);
+      if (!member) throw new Error(`"${text}" is not a member of this project`);
+      return member.userId;
+    }
+    default:
+      return text;
+  }
+};
+
+// Filter value that matches items without a value for the field
+export const EMPTY_FILTER_VALUE = '__empty__';
+
+/**
+ * Text fields match by substring, multi-select fields when they contain the option, the rest by equality
+ */
+export const matchesCustomFieldFilter = (
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues | undefined,
+  filter: CustomFieldFilter | null
+) => {
+  const field = filter && definitions.find(definition => definition.id === filter.fieldId);
+  if (!field || !filter.value) return true;
+
+  const value = values?.[field.id];
+  if (filter.value === EMPTY_FILTER_VALUE) return isEmptyCustomFieldValue(value);
+  if (isEmptyCustomFieldValue(value)) return false;
+
+  switch (field.fieldType) {
+    case 'text': return String(value).toLowerCase().includes(filter.value.toLowerCase());
+    case 'multi-select': return (value as string[]).includes(filter.value);
+    case 'number': return Number(value) === Number(filter.value);
+    default: return String(value) === filter.value;
+  }
+};
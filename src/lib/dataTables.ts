@@ -0,0 +1,97 @@
+/**
+ * Data tables for parameterized test cases: each row is executed as its own iteration and
+ * steps refer to the columns as {{parameter}}
+ */
+
+// A type alias rather than an interface so it can be written to the JSONB column directly
+export type TestDataTable = {
+  parameters: string[];
+  rows: string[][];
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const hasDataTable = (dataTable?: TestDataTable | null): dataTable is TestDataTable =>
+  !!dataTable && dataTable.parameters.length > 0 && dataTable.rows.length > 0;
+
+/**
+ * Reads a data_table column value, dropping malformed rows and padding short ones
+ */
+export const normalizeDataTable = (value: unknown): TestDataTable | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as { parameters?: unknown; rows?: unknown };
+  if (!Array.isArray(raw.parameters) || !Array.isArray(raw.rows)) return null;
+
+  const parameters = raw.parameters.map(parameter => String(parameter ?? '').trim());
+  const rows = raw.rows
+    .filter((row): row is unknown[] => Array.isArray(row))
+    .map(row => parameters.map((_, index) => String(row[index] ?? '')));
+
+  return parameters.length > 0 ? { parameters, rows } : null;
+};
+
+/**
+ * Removes unnamed parameters and empty rows before saving; returns null when nothing is left
+ */
+export const cleanDataTable = (dataTable?: TestDataTable | null): TestDataTable | null => {
+  if (!dataTable) return null;
+
+  const keep = dataTable.parameters
+    .map((parameter, index) => ({ parameter: parameter.trim(), index }))
+    .filter(({ parameter }) => parameter);
+  if (keep.length === 0) return null;
+
+  return {
+    parameters: keep.map(({ parameter }) => parameter),
+    rows: dataTable.rows
+      .map(row => keep.map(({ index }) => (row[index] ?? '').trim()))
+      .filter(row => row.some(value => value))
+  };
+};
+
+/**
+ * Returns one {parameter: value} map per data row
+ */
+export const getIterations = (dataTable?: TestDataTable | null): Record<string, string>[] => {
+  if (!hasDataTable(dataTable)) return [];
+  return dataTable.rows.map(row =>
+    Object.fromEntries(dataTable.parameters.map((parameter, index) => [parameter, row[index] ?? '']))
+  );
+};
+
+export const formatIteration = (values: Record<string, string>) =>
+  Object.entries(values).map(([parameter, value]) => `${parameter}=${value}`).join(', ');
+
+/**
+ * Replaces {{parameter}} placeholders with the values of one iteration; unknown placeholders are left as is
+ */
+export const applyParameters = (text: string, values?: Record<string, string> | null) => {
+  if (!text || !values) return text;
+  return text.replace(PLACEHOLDER_PATTERN, (match, parameter: string) =>
+    Object.prototype.hasOwnProperty.call(values, parameter) ? values[parameter] : match
+  );
+};
+
+/**
+ * Excel cell format: the first line holds the parameter names and every following line one row,
+ * with values separated by "|" like the steps column
+ */
+export const formatDataTableCell = (dataTable?: TestDataTable | null) => {
+  if (!hasDataTable(dataTable)) return '';
+  return [dataTable.parameters, ...dataTable.rows].map(line => line.join(' | ')).join('\n');
+};
+
+export const parseDataTableCell = (value: unknown): TestDataTable | null => {
+  if (value === undefined || value === null) return null;
+
+  const [header, ...lines] = String(value)
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => line.split('|').map(part => part.trim()));
+
+  if (!header) return null;
+
+  return cleanDataTable({ parameters: header, rows: lines });
+};
@@ -0,0 +1,185 @@
+import { supabase } from "@/integrations/supabase/client";
+import { applyParameters, formatIteration } from "@/lib/dataTables";
+import type { StepResult } from "@/lib/testRuns";
+
+/**
+ * In-app defects, optionally linked to the test case, run result and user story they were found in
+ */
+
+export type DefectSeverity = 'critical' | 'high' | 'medium' | 'low';
+export type DefectPriority = 'high' | 'medium' | 'low';
+export type DefectState = 'new' | 'open' | 'in-progress' | 'resolved' | 'closed' | 'rejected';
+
+export const DEFECT_SEVERITIES: DefectSeverity[] = ['critical', 'high', 'medium', 'low'];
+export const DEFECT_PRIORITIES: DefectPriority[] = ['high', 'medium', 'low'];
+export const DEFECT_STATES: DefectState[] = ['new', 'open', 'in-progress', 'resolved', 'closed', 'rejected'];
+
+export const DEFECT_STATE_LABELS: Record<DefectState, string> = {
+  new: 'New',
+  open: 'Open',
+  'in-progress': 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  rejected: 'Rejected'
+};
+
+export const OPEN_DEFECT_STATES: DefectState[] = ['new', 'open', 'in-progress'];
+
+export interface Defect {
+  id: string;
+  defectNumber: number;
+  title: string;
+  description: string;
+  reproSteps: string;
+  expectedResult: string;
+  actualResult: string;
+  severity: DefectSeverity;
+  priority: DefectPriority;
+  state: DefectState;
+  testCaseId: string | null;
+  testCaseTitle: string | null;
+  testCaseReadableId: string | null;
+  testRunResultId: string | null;
+  userStoryId: string | null;
+  userStoryTitle: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export type DefectInput = Pick<
+  Defect,
+  'title' | 'description' | 'reproSteps' | 'expectedResult' | 'actualResult' | 'severity' | 'priority' | 'state' |
+  'testCaseId' | 'testRunResultId' | 'userStoryId'
+>;
+
+export const formatDefectId = (defectNumber: number) => `BUG-${defectNumber}`;
+
+export const loadDefects = async (projectId: string): Promise<Defect[]> => {
+  const { data, error } = await supabase
+    .from('defects')
+    .select('*, test_cases(readable_id, title), user_stories(title)')
+    .eq('project_id', projectId)
+    .order('defect_number', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(defect => ({
+    id: defect.id,
+    defectNumber: defect.defect_number,
+    title: defect.title,
+    description: defect.description || '',
+    reproSteps: defect.repro_steps || '',
+    expectedResult: defect.expected_result || '',
+    actualResult: defect.actual_result || '',
+    severity: defect.severity as DefectSeverity,
+    priority: defect.priority as DefectPriority,
+    state: defect.state as DefectState,
+    testCaseId: defect.test_case_id,
+    testCaseTitle: defect.test_cases?.title || null,
+    testCaseReadableId: defect.test_cases?.readable_id || null,
+    testRunResultId: defect.test_run_result_id,
+    userStoryId: defect.user_story_id,
+    userStoryTitle: defect.user_stories?.title || null,
+    createdAt: defect.created_at,
+    resolvedAt: defect.resolved_at
+  }));
+};
+
+const toDefectRow = (input: DefectInput) => ({
+  title: input.title.trim(),
+  description: input.description.trim() || null,
+  repro_steps: input.reproSteps.trim() || null,
+  expected_result: input.expectedResult.trim() || null,
+  actual_result: input.actualResult.trim() || null,
+  severity: input.severity,
+  priority: input.priority,
+  state: input.state,
+  test_case_id: input.testCaseId,
+  test_run_result_id: input.testRunResultId,
+  user_story_id: input.userStoryId
+});
+
+export const createDefect = async (projectId: string, input: DefectInput) => {
+  const { data, error } = await supabase
+    .from('defects')
+    .insert({ project_id: projectId, ...toDefectRow(input) })
+    .select('id, defect_number')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateDefect = async (defectId: string, input: DefectInput) => {
+  const { error } = await supabase
+    .from('defects')
+    .update(toDefectRow(input))
+    .eq('id', defectId);
+
+  if (error) throw error;
+};
+
+export const updateDefectState = async (defectId: string, state: DefectState) => {
+  const { error } = await supabase
+    .from('defects')
+    .update({ state })
+    .eq('id', defectId);
+
+  if (error) throw error;
+};
+
+/**
+ * Prefills repro steps and results from a failed run result: every step up to the first failing one,
+ * with parameters substituted for the iteration that was executed
+ */
+export const describeFailedExecution = (
+  steps: StepResult[],
+  notes: string,
+  iterationData: Record<string, string> | null
+): Pick<DefectInput, 'reproSteps' | 'expectedResult' | 'actualResult'> => {
+  // Steps removed from the test case since can no longer be reproduced
+  steps = steps.filter(step => !step.removed);
+  const failedIndex = steps.findIndex(step => step.status === 'failed' || step.status === 'blocked');
+  const reproduced = failedIndex >= 0 ? steps.slice(0, failedIndex + 1) : steps;
+  const failedStep = failedIndex >= 0 ? steps[failedIndex] : null;
+
+  const reproSteps = reproduced.map((step, index) => {
+    const lines = [`${index + 1}. ${applyParameters(step.action, iterationData)}`];
+    step.sharedItems.forEach((item, itemIndex) => {
+      lines.push(`   ${String.fromCharCode(97 + itemIndex)}. ${applyParameters(item.action, iterationData)}`);
+    });
+    if (step.testData) {
+      lines.push(`   Data: ${applyParameters(step.testData, iterationData)}`);
+    }
+    return lines.join('\n');
+  });
+
+  if (iterationData) {
+    reproSteps.unshift(`Data: ${formatIteration(iterationData)}`);
+  }
+
+  return {
+    reproSteps: reproSteps.join('\n'),
+    expectedResult: failedStep ? applyParameters(failedStep.expectedResult, iterationData) : '',
+    actualResult: [failedStep?.actualResult, notes].filter(Boolean).join('\n')
+  };
+};
+
+/**
+ * Defect metrics in the same shape the azure-devops-defects function returns
+ */
+export const summarizeDefects = (defects: { severity: string; priority: string; state: string }[]) => {
+  const totalDefects = defects.length;
+  const openDefects = defects.filter(d => OPEN_DEFECT_STATES.includes(d.state as DefectState)).length;
+  const closedDefects = totalDefects - openDefects;
+  return {
+    totalDefects,
+    openDefects,
+    closedDefects,
+    criticalDefects: defects.filter(d => d.severity === 'critical').length,
+    highDefects: defects.filter(d => d.priority === 'high' || d.severity === 'high').length,
+    mediumDefects: defects.filter(d => d.priority === 'medium' || d.severity === 'medium').length,
+    lowDefects: defects.filter(d => d.priority === 'low' || d.severity === 'low').length,
+    defectClosureRate: totalDefects > 0 ? ((closedDefects / totalDefects) * 100).toFixed(1) : '0'
+  };
+};
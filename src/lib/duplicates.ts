@@ -0,0 +1,211 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep, loadTestCaseSteps } from "@/lib/testSteps";
+
+/**
+ * Duplicate detection for test cases. Titles and step actions are normalized and broken into word
+ * shingles; two cases are compared by the Jaccard similarity of their shingle sets.
+ */
+
+export interface DuplicateCandidate {
+  title: string;
+  steps: TestStep[];
+}
+
+export interface PooledTestCase extends DuplicateCandidate {
+  id: string;
+  readableId: string | null;
+  userStoryTitle: string;
+  createdAt: string;
+}
+
+export interface DuplicateMatch {
+  testCaseId: string;
+  readableId: string | null;
+  title: string;
+  score: number;
+}
+
+export interface DuplicateGroup {
+  testCases: PooledTestCase[];
+  // Highest similarity between any two cases of the group
+  score: number;
+}
+
+// Cases at least this similar are flagged as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.7;
+
+const SHINGLE_SIZE = 3;
+
+const normalizeWords = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+const toShingles = (text: string) => {
+  const words = normalizeWords(text);
+  if (words.length <= SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(' ')] : []);
+
+  const shingles = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach(shingle => {
+    if (larger.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+interface Fingerprint {
+  title: Set<string>;
+  steps: Set<string>;
+}
+
+const fingerprint = (testCase: DuplicateCandidate): Fingerprint => ({
+  title: toShingles(testCase.title),
+  steps: toShingles(testCase.steps.map(step => step.action).join(' '))
+});
+
+// Titles and steps weigh the same; cases without steps on either side are compared by title alone
+const similarity = (a: Fingerprint, b: Fingerprint) => {
+  const titleScore = jaccard(a.title, b.title);
+  if (a.steps.size === 0 || b.steps.size === 0) return titleScore;
+  return (titleScore + jaccard(a.steps, b.steps)) / 2;
+};
+
+export const similarityScore = (a: DuplicateCandidate, b: DuplicateCandidate) =>
+  similarity(fingerprint(a), fingerprint(b));
+
+/**
+ * Active test cases of a project with their steps, the pool new cases are checked against
+ */
+export const loadDuplicatePool = async (projectId: string): Promise<PooledTestCase[]> => {
+  const { data, error } = await supabase
+    .from('test_cases')
+    .select('id, readable_id, title, created_at, user_stories(title)')
+    .eq('project_id', projectId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const stepsByTestCase = await loadTestCaseSteps((data || []).map(tc => tc.id));
+
+  return (data || []).map(tc => ({
+    id: tc.id,
+    readableId: tc.readable_id,
+    title: tc.title,
+    steps: stepsByTestCase[tc.id] || [],
+    userStoryTitle: tc.user_stories?.title || 'Unknown Story',
+    createdAt: tc.created_at
+  }));
+};
+
+/**
+ * Best likely duplicate in the pool for each candidate, or null when none reaches the threshold
+ */
+export const findDuplicates = (
+  candidates: DuplicateCandidate[],
+  pool: PooledTestCase[]
+): (DuplicateMatch | null)[] => {
+  const pooled = pool.map(testCase => ({ testCase, fingerprint: fingerprint(testCase) }));
+
+  return candidates.map(candidate => {
+    const candidateFingerprint = fingerprint(candidate);
+    let best: DuplicateMatch | null = null;
+    for (const { testCase, fingerprint: existing } of pooled) {
+      const score = similarity(candidateFingerprint, existing);
+      if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+        best = { testCaseId: testCase.id, readableId: testCase.readableId, title: testCase.title, score };
+      }
+    }
+    return best;
+  });
+};
+
+/**
+ * Clusters the pool into groups of likely duplicates, most similar groups first
+ */
+export const findDuplicateGroups = (pool: PooledTestCase[]): DuplicateGroup[] => {
+  const fingerprints = pool.map(fingerprint);
+  const parent = pool.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const bestScore = new Map<number, number>();
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      const score = similarity(fingerprints[i], fingerprints[j]);
+      if (score < DUPLICATE_THRESHOLD) continue;
+
+      const [left, right] = [find(i), find(j)];
+      const groupScore = Math.max(score, bestScore.get(left) || 0, bestScore.get(right) || 0);
+      parent[right] = left;
+      bestScore.set(left, groupScore);
+    }
+  }
+
+  const groups = new Map<number, PooledTestCase[]>();
+  pool.forEach((testCase, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), testCase]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, testCases]) => testCases.length > 1)
+    .map(([root, testCases]) => ({ testCases, score: bestScore.get(root) || 0 }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Number of recorded run results per test case, used to suggest which duplicate to keep
+ */
+export const loadExecutionCounts = async (testCaseIds: string[]): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  if (testCaseIds.length === 0) return counts;
+
+  const { data, error } = await supabase
+    .from('test_run_results')
+    .select('test_case_id')
+    .in('test_case_id', testCaseIds)
+    .neq('status', 'not-run');
+
+  if (error) throw error;
+
+  for (const row of data || []) {
+    counts[row.test_case_id] = (counts[row.test_case_id] || 0) + 1;
+  }
+  return counts;
+};
+
+/**
+ * Folds the duplicates into the kept case and moves them to the trash. Returns the number of run
+ * results re-pointed to the kept case.
+ */
+export const mergeTestCases = async (keepId: string, duplicateIds: string[]) => {
+  const { data, error } = await supabase.rpc('merge_test_cases', {
+    _keep_id: keepId,
+    _duplicate_ids: duplicateIds
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const dismissDuplicateFlag = async (testCaseId: string) => {
+  const { error } = await supabase
+    .from('test_cases')
+    .update({ possible_duplicate_of: null })
+    .eq('id', testCaseId);
+
+  if (error) throw error;
+};
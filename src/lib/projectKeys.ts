@@ -0,0 +1,37 @@
+import { ValidationResult } from "@/lib/security";
+
+/**
+ * Project keys prefix the readable IDs of stories and test cases, e.g. US-PAY-0003 and TC-PAY-0012.
+ * Keys are unique across projects; changing one renumbers the project's generated IDs.
+ */
+
+export const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+/**
+ * Mirrors derive_project_key: initials of multi-word names, otherwise the first three letters.
+ * The database appends a number when the key is already taken.
+ */
+export const suggestProjectKey = (name: string) => {
+  const words = name.toUpperCase().replace(/[^A-Z]+/g, ' ').trim().split(' ').filter(Boolean);
+  const key = words.length > 1
+    ? words.map(word => word[0]).join('').slice(0, 4)
+    : (words[0] || '').slice(0, 3);
+  return key.padEnd(2, 'X');
+};
+
+export const validateReadableIdKey = (key: string): ValidationResult => {
+  if (!key) {
+    return { isValid: false, error: 'Project key is required' };
+  }
+
+  if (!PROJECT_KEY_PATTERN.test(key)) {
+    return { isValid: false, error: 'Project key must be 2-10 uppercase letters or digits and start with a letter' };
+  }
+
+  return { isValid: true };
+};
+
+export const formatReadableIdExample = (key: string) => `TC-${key || 'KEY'}-0001`;
+
+// Postgres unique_violation, raised when the key is already used by another project
+export const isDuplicateKeyError = (error: unknown) => (error as { code?: string })?.code === '23505';
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Project cloning and templates. Templates are hidden projects that new projects are cloned from
+ * via the clone_project RPC, carrying over settings, stories, test cases, suites and shared steps.
+ */
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  key: string;
+  description: string | null;
+  createdAt: string;
+}
+
+export interface CloneProjectOptions {
+  name: string;
+  // Derived from the name by the database when left out
+  key?: string;
+  // Defaults to the source project's description
+  description?: string;
+  // Copy test runs and their results; test case statuses are reset otherwise
+  includeHistory?: boolean;
+  asTemplate?: boolean;
+}
+
+export const loadProjectTemplates = async (): Promise<ProjectTemplate[]> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, name, key, description, created_at')
+    .eq('is_template', true)
+    .is('deleted_at', null)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    key: row.key,
+    description: row.description,
+    createdAt: row.created_at
+  }));
+};
+
+// Returns the id of the new project or template
+export const cloneProject = async (sourceId: string, options: CloneProjectOptions): Promise<string> => {
+  const { data, error } = await supabase.rpc('clone_project', {
+    _source_id: sourceId,
+    _name: options.name,
+    _key: options.key || undefined,
+    _description: options.description,
+    _include_history: options.includeHistory ?? false,
+    _as_template: options.asTemplate ?? false
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Templates go to the trash like projects do
+export const deleteProjectTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from('projects')
+    .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', templateId)
+    .eq('is_template', true);
+
+  if (error) throw error;
+};
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * The prompt a generator would send to the AI provider, including the guidance from the project's
+ * AI Generation Settings. The edge functions build it on a dry run without calling the provider.
+ */
+
+export type PromptSettingsSection = 'general' | 'testCases' | 'automation' | 'testPlan' | 'testReport';
+
+export interface PromptPreview {
+  prompt: { system: string; user: string };
+  // Settings sections that were added to the system prompt
+  sections: PromptSettingsSection[];
+  // Uploaded images are sent alongside the prompt and are only counted here
+  imageCount?: number;
+}
+
+export type PromptGenerator =
+  | 'generate-test-cases'
+  | 'generate-test-plan'
+  | 'generate-test-report'
+  | 'generate-selenium-automation';
+
+// Matches the tab names in ProjectSettings
+export const PROMPT_SETTINGS_LABELS: Record<PromptSettingsSection, string> = {
+  general: 'General',
+  testCases: 'Test Cases',
+  automation: 'Automation',
+  testPlan: 'Test Plan',
+  testReport: 'Report'
+};
+
+export const previewPrompt = async (
+  generator: PromptGenerator,
+  body: Record<string, unknown>
+): Promise<PromptPreview> => {
+  const { data, error } = await supabase.functions.invoke(generator, {
+    body: { ...body, dryRun: true }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as PromptPreview;
+};
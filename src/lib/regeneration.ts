@@ -0,0 +1,208 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep, loadTestCaseSteps, formatStepsCell, matchStepsByPosition } from "@/lib/testSteps";
+import { SuggestionInput } from "@/lib/suggestions";
+import { loadDuplicatePool, findDuplicates } from "@/lib/duplicates";
+
+/**
+ * Merge-aware regeneration: compares a fresh AI generation for a story with its current test cases
+ * so new cases can be added, changed ones updated and obsolete ones retired selectively.
+ */
+
+export interface ExistingTestCase extends SuggestionInput {
+  id: string;
+  readableId: string | null;
+  // Changed by hand since it was created
+  isEdited: boolean;
+  // Has at least one recorded run result
+  isExecuted: boolean;
+}
+
+export type MergeField = keyof SuggestionInput;
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  steps: 'Steps',
+  expectedResult: 'Expected Result',
+  testData: 'Test Data',
+  priority: 'Priority'
+};
+
+export interface ChangedTestCase {
+  existing: ExistingTestCase;
+  generated: SuggestionInput;
+  changedFields: MergeField[];
+}
+
+export interface RegenerationDiff {
+  added: SuggestionInput[];
+  changed: ChangedTestCase[];
+  unchanged: ExistingTestCase[];
+  obsolete: ExistingTestCase[];
+}
+
+export interface MergeSelection {
+  add: SuggestionInput[];
+  update: ChangedTestCase[];
+  retire: string[];
+}
+
+export const loadStoryTestCases = async (projectId: string, userStoryId: string): Promise<ExistingTestCase[]> => {
+  const { data, error } = await supabase
+    .from('test_cases')
+    .select('id, readable_id, title, description, expected_result, test_data, priority')
+    .eq('project_id', projectId)
+    .eq('user_story_id', userStoryId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const ids = (data || []).map(tc => tc.id);
+  if (ids.length === 0) return [];
+
+  const [stepsByTestCase, { data: revisions, error: revisionsError }, { data: results, error: resultsError }] = await Promise.all([
+    loadTestCaseSteps(ids),
+    supabase
+      .from('test_case_revisions')
+      .select('test_case_id')
+      .in('test_case_id', ids)
+      .gt('revision_number', 1),
+    supabase
+      .from('test_run_results')
+      .select('test_case_id')
+      .in('test_case_id', ids)
+      .neq('status', 'not-run')
+  ]);
+
+  if (revisionsError) throw revisionsError;
+  if (resultsError) throw resultsError;
+
+  const editedIds = new Set((revisions || []).map(revision => revision.test_case_id));
+  const executedIds = new Set((results || []).map(result => result.test_case_id));
+
+  return (data || []).map(tc => ({
+    id: tc.id,
+    readableId: tc.readable_id,
+    title: tc.title,
+    description: tc.description || '',
+    expectedResult: tc.expected_result || '',
+    testData: tc.test_data || '',
+    priority: tc.priority === 'low' || tc.priority === 'high' ? tc.priority : 'medium',
+    steps: stepsByTestCase[tc.id] || [],
+    isEdited: editedIds.has(tc.id),
+    isExecuted: executedIds.has(tc.id)
+  }));
+};
+
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(word => word.length > 1));
+
+const titleSimilarity = (a: string, b: string) => {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.size === 0 || right.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  const shared = [...left].filter(word => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+// Titles at least this similar are treated as the same test case
+const MATCH_THRESHOLD = 0.5;
+
+const normalizeText = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const getChangedFields = (existing: ExistingTestCase, generated: SuggestionInput): MergeField[] =>
+  (Object.keys(MERGE_FIELD_LABELS) as MergeField[]).filter(field => {
+    if (field === 'steps') {
+      return normalizeText(formatStepsCell(existing.steps)) !== normalizeText(formatStepsCell(generated.steps));
+    }
+    return normalizeText(existing[field] as string) !== normalizeText(generated[field] as string);
+  });
+
+/**
+ * Pairs generated cases with existing ones by title similarity, best matches first
+ */
+export const computeRegenerationDiff = (existing: ExistingTestCase[], generated: SuggestionInput[]): RegenerationDiff => {
+  const pairs = existing
+    .flatMap((tc, existingIndex) => generated.map((candidate, generatedIndex) => ({
+      existingIndex,
+      generatedIndex,
+      score: titleSimilarity(tc.title, candidate.title)
+    })))
+    .filter(pair => pair.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const matchedExisting = new Map<number, number>();
+  const matchedGenerated = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedExisting.has(pair.existingIndex) || matchedGenerated.has(pair.generatedIndex)) continue;
+    matchedExisting.set(pair.existingIndex, pair.generatedIndex);
+    matchedGenerated.add(pair.generatedIndex);
+  }
+
+  const diff: RegenerationDiff = { added: [], changed: [], unchanged: [], obsolete: [] };
+
+  existing.forEach((tc, index) => {
+    const generatedIndex = matchedExisting.get(index);
+    if (generatedIndex === undefined) {
+      diff.obsolete.push(tc);
+      return;
+    }
+    const changedFields = getChangedFields(tc, generated[generatedIndex]);
+    if (changedFields.length === 0) {
+      diff.unchanged.push(tc);
+    } else {
+      diff.changed.push({ existing: tc, generated: generated[generatedIndex], changedFields });
+    }
+  });
+
+  diff.added = generated.filter((_, index) => !matchedGenerated.has(index));
+  return diff;
+};
+
+// Step rows in the snake_case shape taken by apply_test_case_regeneration
+const toMergeSteps = (steps: TestStep[]) =>
+  steps.map(step => ({
+    id: step.id || null,
+    action: step.action,
+    expected_result: step.expectedResult,
+    test_data: step.testData,
+    shared_step_id: step.sharedStepId || null
+  }));
+
+/**
+ * Applies the picked changes in a single transaction. Added cases are recorded as approved
+ * suggestions; updated cases keep their ids, step ids and run history; retired cases go to the
+ * trash so they can still be restored.
+ */
+export const applyRegenerationMerge = async (projectId: string, userStoryId: string, selection: MergeSelection) => {
+  const duplicates = selection.add.length > 0
+    ? findDuplicates(selection.add, await loadDuplicatePool(projectId))
+    : [];
+
+  const { error } = await supabase.rpc('apply_test_case_regeneration', {
+    _user_story_id: userStoryId,
+    _add: selection.add.map((tc, index) => ({
+      title: tc.title,
+      description: tc.description,
+      expected_result: tc.expectedResult,
+      test_data: tc.testData,
+      priority: tc.priority,
+      steps: toMergeSteps(tc.steps),
+      duplicate_of: duplicates[index]?.testCaseId || null,
+      duplicate_score: duplicates[index]?.score ?? null
+    })),
+    _update: selection.update.map(({ existing, generated }) => ({
+      id: existing.id,
+      title: generated.title,
+      description: generated.description,
+      expected_result: generated.expectedResult,
+      test_data: generated.testData,
+      priority: generated.priority,
+      steps: toMergeSteps(matchStepsByPosition(existing.steps, generated.steps))
+    })),
+    _retire: selection.retire
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,204 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DefectState, OPEN_DEFECT_STATES } from "@/lib/defects";
+
+/**
+ * Releases / milestones that scope user stories and test runs, and their readiness
+ */
+
+export type ReleaseStatus = 'planned' | 'in-progress' | 'released';
+
+export const RELEASE_STATUS_LABELS: Record<ReleaseStatus, string> = {
+  planned: 'Planned',
+  'in-progress': 'In Progress',
+  released: 'Released'
+};
+
+export interface Release {
+  id: string;
+  name: string;
+  description: string;
+  startDate: string | null;
+  targetDate: string | null;
+  status: ReleaseStatus;
+  releasedAt: string | null;
+}
+
+export type ReleaseInput = Pick<Release, 'name' | 'description' | 'startDate' | 'targetDate' | 'status'>;
+
+export interface ReleaseReadiness {
+  storyCount: number;
+  coveredStories: number;
+  testCaseCount: number;
+  passed: number;
+  failed: number;
+  blocked: number;
+  notRun: number;
+  passRate: number;
+  executionProgress: number;
+  runCount: number;
+  openDefects: number;
+  criticalDefects: number;
+  daysRemaining: number | null;
+  // Reasons the release isn't ready to ship; empty when it is
+  blockers: string[];
+}
+
+// Worst status wins when a test case ran several times in the same run
+const STATUS_SEVERITY: Record<string, number> = { failed: 3, blocked: 2, passed: 1 };
+
+export const loadReleases = async (projectId: string): Promise<Release[]> => {
+  const { data, error } = await supabase
+    .from('releases')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('target_date', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(release => ({
+    id: release.id,
+    name: release.name,
+    description: release.description || '',
+    startDate: release.start_date,
+    targetDate: release.target_date,
+    status: release.status as ReleaseStatus,
+    releasedAt: release.released_at
+  }));
+};
+
+const toReleaseRow = (input: ReleaseInput) => ({
+  name: input.name.trim(),
+  description: input.description.trim() || null,
+  start_date: input.startDate || null,
+  target_date: input.targetDate || null,
+  status: input.status
+});
+
+export const saveRelease = async (projectId: string, input: ReleaseInput, releaseId?: string | null) => {
+  const { error } = releaseId
+    ? await supabase
+        .from('releases')
+        .update(toReleaseRow(input))
+        .eq('id', releaseId)
+    : await supabase
+        .from('releases')
+        .insert({ project_id: projectId, ...toReleaseRow(input) });
+
+  if (error) throw error;
+};
+
+export const deleteRelease = async (releaseId: string) => {
+  const { error } = await supabase
+    .from('releases')
+    .delete()
+    .eq('id', releaseId);
+
+  if (error) throw error;
+};
+
+export const getDaysRemaining = (targetDate: string | null) => {
+  if (!targetDate) return null;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${targetDate}T00:00:00`).getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+/**
+ * Summarizes how close a release is to shipping. Test cases take the worst result of the most
+ * recent run of the release they were executed in, falling back to their own status.
+ */
+export const loadReleaseReadiness = async (projectId: string, release: Release): Promise<ReleaseReadiness> => {
+  const [
+    { data: stories, error: storiesError },
+    { data: runs, error: runsError }
+  ] = await Promise.all([
+    supabase
+      .from('user_stories')
+      .select('id')
+      .is('deleted_at', null)
+      .eq('project_id', projectId)
+      .eq('release_id', release.id),
+    supabase
+      .from('test_runs')
+      .select('id, started_at, test_run_results(test_case_id, status)')
+      .eq('project_id', projectId)
+      .eq('release_id', release.id)
+      .order('started_at', { ascending: false })
+  ]);
+
+  if (storiesError) throw storiesError;
+  if (runsError) throw runsError;
+
+  const storyIds = (stories || []).map(story => story.id);
+
+  const [
+    { data: testCases, error: testCasesError },
+    { data: defects, error: defectsError }
+  ] = storyIds.length > 0
+    ? await Promise.all([
+        supabase
+          .from('test_cases')
+          .select('id, status, user_story_id')
+          .is('deleted_at', null)
+          .in('user_story_id', storyIds),
+        supabase
+          .from('defects')
+          .select('severity, state')
+          .eq('project_id', projectId)
+          .in('user_story_id', storyIds)
+      ])
+    : [{ data: [], error: null }, { data: [], error: null }];
+
+  if (testCasesError) throw testCasesError;
+  if (defectsError) throw defectsError;
+
+  // Runs are ordered newest first, so the first run that executed a test case decides its status
+  const latestStatus = new Map<string, string>();
+  (runs || []).forEach(run => {
+    const runStatuses = new Map<string, string>();
+    (run.test_run_results || []).forEach(result => {
+      if (result.status === 'not-run' || latestStatus.has(result.test_case_id)) return;
+      const current = runStatuses.get(result.test_case_id);
+      if (!current || (STATUS_SEVERITY[result.status] || 0) > (STATUS_SEVERITY[current] || 0)) {
+        runStatuses.set(result.test_case_id, result.status);
+      }
+    });
+    runStatuses.forEach((status, testCaseId) => latestStatus.set(testCaseId, status));
+  });
+
+  const statuses = (testCases || []).map(tc => latestStatus.get(tc.id) || tc.status || 'not-run');
+  const passed = statuses.filter(status => status === 'passed').length;
+  const failed = statuses.filter(status => status === 'failed').length;
+  const blocked = statuses.filter(status => status === 'blocked').length;
+  const testCaseCount = statuses.length;
+  const executed = passed + failed + blocked;
+  const coveredStories = new Set((testCases || []).map(tc => tc.user_story_id)).size;
+  const openDefects = (defects || []).filter(defect => OPEN_DEFECT_STATES.includes(defect.state as DefectState));
+  const criticalDefects = openDefects.filter(defect => defect.severity === 'critical' || defect.severity === 'high').length;
+  const daysRemaining = release.status === 'released' ? null : getDaysRemaining(release.targetDate);
+
+  const blockers: string[] = [];
+  if (storyIds.length === 0) blockers.push('No user stories are assigned to this release');
+  if (coveredStories < storyIds.length) blockers.push(`${storyIds.length - coveredStories} stories have no test cases`);
+  if (executed < testCaseCount) blockers.push(`${testCaseCount - executed} test cases haven't been executed`);
+  if (failed + blocked > 0) blockers.push(`${failed} failed and ${blocked} blocked test cases`);
+  if (criticalDefects > 0) blockers.push(`${criticalDefects} open critical or high severity defects`);
+
+  return {
+    storyCount: storyIds.length,
+    coveredStories,
+    testCaseCount,
+    passed,
+    failed,
+    blocked,
+    notRun: testCaseCount - executed,
+    passRate: executed > 0 ? Math.round((passed / executed) * 100) : 0,
+    executionProgress: testCaseCount > 0 ? Math.round((executed / testCaseCount) * 100) : 0,
+    runCount: (runs || []).length,
+    openDefects: openDefects.length,
+    criticalDefects,
+    daysRemaining,
+    blockers
+  };
+};
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Ranked full-text search over stories, test cases and defects via the search_items RPC
+ */
+
+export type SearchEntityType = 'user_story' | 'test_case' | 'defect';
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  user_story: 'User Stories',
+  test_case: 'Test Cases',
+  defect: 'Defects'
+};
+
+// The project view that lists each kind of item
+export const SEARCH_ENTITY_VIEWS: Record<SearchEntityType, string> = {
+  user_story: 'user-stories',
+  test_case: 'test-cases',
+  defect: 'defects'
+};
+
+export interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: string;
+  projectId: string;
+  projectName: string;
+  // Readable ID such as TC-PAY-0012 or BUG-7
+  reference: string | null;
+  title: string;
+  titleHighlight: string;
+  snippet: string;
+  rank: number;
+}
+
+// An item picked in global search; the view listing it opens filtered to the term
+export interface SearchFocus {
+  id: string;
+  term: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// search_items wraps matched terms in these control characters
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+export const parseHighlights = (text: string): HighlightSegment[] =>
+  text
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, highlighted: false }];
+      const [highlighted, ...rest] = part.split(HIGHLIGHT_END);
+      return [{ text: highlighted, highlighted: true }, { text: rest.join(''), highlighted: false }];
+    })
+    .filter(segment => segment.text);
+
+export const searchItems = async (
+  query: string,
+  options: { projectId?: string; entityTypes?: SearchEntityType[]; limit?: number } = {}
+): Promise<SearchResult[]> => {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.rpc('search_items', {
+    _query: query,
+    _project_id: options.projectId,
+    _entity_types: options.entityTypes,
+    _limit: options.limit
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    entityType: row.entity_type as SearchEntityType,
+    entityId: row.entity_id,
+    projectId: row.project_id,
+    projectName: row.project_name,
+    reference: row.reference,
+    title: row.title,
+    titleHighlight: row.title_highlight,
+    snippet: row.snippet,
+    rank: row.rank
+  }));
+};
@@ -0,0 +1,80 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep } from "@/lib/testSteps";
+
+/**
+ * Shared step blocks referenced from test case steps and expanded at execution/export time
+ */
+
+export interface SharedStep {
+  id: string;
+  name: string;
+  description: string;
+  items: TestStep[];
+  usageCount: number;
+}
+
+export interface ExpandedTestStep extends TestStep {
+  sharedStepName?: string;
+}
+
+export const loadSharedSteps = async (projectId: string): Promise<SharedStep[]> => {
+  const { data, error } = await supabase
+    .from('shared_steps')
+    .select('id, name, description, shared_step_items(id, step_order, action, expected_result, test_data), test_case_steps(id)')
+    .eq('project_id', projectId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(sharedStep => ({
+    id: sharedStep.id,
+    name: sharedStep.name,
+    description: sharedStep.description || '',
+    items: [...(sharedStep.shared_step_items || [])]
+      .sort((a, b) => a.step_order - b.step_order)
+      .map(item => ({
+        id: item.id,
+        action: item.action,
+        expectedResult: item.expected_result || '',
+        testData: item.test_data || ''
+      })),
+    usageCount: sharedStep.test_case_steps?.length || 0
+  }));
+};
+
+/**
+ * Replaces references to shared blocks with the block's own steps
+ */
+export const expandSteps = (steps: TestStep[], sharedSteps: SharedStep[]): ExpandedTestStep[] =>
+  steps.flatMap(step => {
+    if (!step.sharedStepId) return [step];
+
+    const sharedStep = sharedSteps.find(shared => shared.id === step.sharedStepId);
+    if (!sharedStep) return [step];
+
+    return sharedStep.items.map(item => ({
+      action: item.action,
+      expectedResult: item.expectedResult,
+      testData: item.testData,
+      sharedStepName: sharedStep.name
+    }));
+  });
+
+/**
+ * Saves the items of a shared block; every referencing test case picks the change up by reference
+ */
+export const saveSharedStepItems = async (sharedStepId: string, items: TestStep[]) => {
+  const cleanItems = items.filter(item => item.action.trim());
+
+  // Replaced in one transaction so a failed save cannot leave the block empty
+  const { error } = await supabase.rpc('replace_shared_step_items', {
+    _shared_step_id: sharedStepId,
+    _items: cleanItems.map(item => ({
+      action: item.action.trim(),
+      expected_result: item.expectedResult.trim() || null,
+      test_data: item.testData.trim() || null
+    }))
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,258 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep, normalizeGeneratedSteps } from "@/lib/testSteps";
+import { DuplicateMatch, loadDuplicatePool, findDuplicates } from "@/lib/duplicates";
+
+/**
+ * Review queue for AI-generated test cases. Generation creates pending suggestions; approving one
+ * creates the live test case, rejecting it records why so prompts can be tuned.
+ */
+
+export type SuggestionStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export type RejectionCategory = 'duplicate' | 'incorrect' | 'out_of_scope' | 'incomplete' | 'too_vague' | 'other';
+
+export const REJECTION_CATEGORY_LABELS: Record<RejectionCategory, string> = {
+  duplicate: 'Duplicate of an existing test case',
+  incorrect: 'Incorrect expected behavior',
+  out_of_scope: 'Out of scope for the story',
+  incomplete: 'Missing steps or data',
+  too_vague: 'Too vague to execute',
+  other: 'Other'
+};
+
+export interface TestCaseSuggestion {
+  id: string;
+  userStoryId: string;
+  userStoryTitle: string;
+  generationId: string;
+  customPrompt: string | null;
+  title: string;
+  description: string;
+  expectedResult: string;
+  testData: string;
+  priority: 'low' | 'medium' | 'high';
+  steps: TestStep[];
+  status: SuggestionStatus;
+  wasEdited: boolean;
+  rejectionCategory: RejectionCategory | null;
+  rejectionReason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  testCaseId: string | null;
+  // Existing test case this suggestion likely duplicates, found when it was generated
+  duplicateOf: DuplicateMatch | null;
+  createdAt: string;
+}
+
+// A test case as returned by generate-test-cases
+export interface GeneratedTestCase {
+  title?: string;
+  name?: string;
+  description?: string;
+  expectedResult?: string;
+  expected?: string;
+  testData?: string;
+  priority?: string;
+  steps?: unknown;
+}
+
+export type SuggestionInput = Pick<TestCaseSuggestion, 'title' | 'description' | 'expectedResult' | 'testData' | 'priority' | 'steps'>;
+
+// Steps are stored in the same snake_case shape as test case revisions
+type StoredStep = {
+  action: string;
+  expected_result: string | null;
+  test_data: string | null;
+  shared_step_id: string | null;
+};
+
+const toStoredSteps = (steps: TestStep[]): StoredStep[] =>
+  steps
+    .filter(step => step.action.trim())
+    .map(step => ({
+      action: step.action.trim(),
+      expected_result: step.expectedResult.trim() || null,
+      test_data: step.testData.trim() || null,
+      shared_step_id: step.sharedStepId || null
+    }));
+
+const fromStoredSteps = (steps: unknown): TestStep[] =>
+  (Array.isArray(steps) ? steps as StoredStep[] : []).map(step => ({
+    action: step.action || '',
+    expectedResult: step.expected_result || '',
+    testData: step.test_data || '',
+    sharedStepId: step.shared_step_id || null
+  }));
+
+const normalizePriority = (priority: unknown): TestCaseSuggestion['priority'] => {
+  const value = (priority || 'medium').toString().toLowerCase();
+  return value === 'low' || value === 'high' ? value : 'medium';
+};
+
+export const normalizeGeneratedTestCase = (testCase: GeneratedTestCase): SuggestionInput => ({
+  title: (testCase.title || testCase.name || 'Test Case').toString().slice(0, 255),
+  description: testCase.description || '',
+  expectedResult: testCase.expectedResult || testCase.expected || '',
+  testData: testCase.testData || '',
+  priority: normalizePriority(testCase.priority),
+  steps: normalizeGeneratedSteps(testCase.steps)
+});
+
+/**
+ * Stores a generation result as pending suggestions for a story. Suggestions still pending from
+ * earlier generations of the story are superseded. Returns the number of suggestions created.
+ */
+export const createSuggestions = async (
+  projectId: string,
+  userStoryId: string,
+  generated: GeneratedTestCase[],
+  customPrompt?: string
+) => {
+  const { error: supersedeError } = await supabase
+    .from('test_case_suggestions')
+    .update({ status: 'superseded' })
+    .eq('user_story_id', userStoryId)
+    .eq('status', 'pending');
+
+  if (supersedeError) throw supersedeError;
+
+  const generationId = crypto.randomUUID();
+  const testCases = generated.map(normalizeGeneratedTestCase);
+  const duplicates = findDuplicates(testCases, await loadDuplicatePool(projectId));
+  const rows = testCases.map((testCase, index) => ({
+    project_id: projectId,
+    user_story_id: userStoryId,
+    generation_id: generationId,
+    custom_prompt: customPrompt || null,
+    title: testCase.title,
+    description: testCase.description,
+    expected_result: testCase.expectedResult,
+    test_data: testCase.testData,
+    priority: testCase.priority,
+    steps: toStoredSteps(testCase.steps),
+    duplicate_of: duplicates[index]?.testCaseId || null,
+    duplicate_score: duplicates[index]?.score ?? null
+  }));
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('test_case_suggestions').insert(rows);
+  if (error) throw error;
+
+  return rows.length;
+};
+
+export const loadSuggestions = async (
+  projectId: string,
+  statuses: SuggestionStatus[]
+): Promise<TestCaseSuggestion[]> => {
+  const { data, error } = await supabase
+    .from('test_case_suggestions')
+    .select('*, user_stories(title)')
+    .eq('project_id', projectId)
+    .in('status', statuses)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const duplicateIds = Array.from(new Set((data || []).map(row => row.duplicate_of).filter(Boolean)));
+  const duplicatesById: Record<string, { readable_id: string | null; title: string }> = {};
+  if (duplicateIds.length > 0) {
+    const { data: duplicates, error: duplicatesError } = await supabase
+      .from('test_cases')
+      .select('id, readable_id, title')
+      .in('id', duplicateIds)
+      .is('deleted_at', null);
+
+    if (duplicatesError) throw duplicatesError;
+    for (const duplicate of duplicates || []) {
+      duplicatesById[duplicate.id] = duplicate;
+    }
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    userStoryId: row.user_story_id,
+    userStoryTitle: row.user_stories?.title || 'Unknown Story',
+    generationId: row.generation_id,
+    customPrompt: row.custom_prompt,
+    title: row.title,
+    description: row.description || '',
+    expectedResult: row.expected_result || '',
+    testData: row.test_data || '',
+    priority: normalizePriority(row.priority),
+    steps: fromStoredSteps(row.steps),
+    status: row.status as SuggestionStatus,
+    wasEdited: row.was_edited,
+    rejectionCategory: row.rejection_category as RejectionCategory | null,
+    rejectionReason: row.rejection_reason,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    testCaseId: row.test_case_id,
+    duplicateOf: duplicatesById[row.duplicate_of] ? {
+      testCaseId: row.duplicate_of,
+      readableId: duplicatesById[row.duplicate_of].readable_id,
+      title: duplicatesById[row.duplicate_of].title,
+      score: row.duplicate_score || 0
+    } : null,
+    createdAt: row.created_at
+  }));
+};
+
+/**
+ * Number of suggestions waiting for review, keyed by story id
+ */
+export const loadPendingSuggestionCounts = async (projectId: string): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('test_case_suggestions')
+    .select('user_story_id')
+    .eq('project_id', projectId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  for (const row of data || []) {
+    counts[row.user_story_id] = (counts[row.user_story_id] || 0) + 1;
+  }
+  return counts;
+};
+
+export const updateSuggestion = async (suggestionId: string, input: SuggestionInput) => {
+  const { error } = await supabase
+    .from('test_case_suggestions')
+    .update({
+      title: input.title.trim(),
+      description: input.description,
+      expected_result: input.expectedResult,
+      test_data: input.testData,
+      priority: input.priority,
+      steps: toStoredSteps(input.steps)
+    })
+    .eq('id', suggestionId);
+
+  if (error) throw error;
+};
+
+/**
+ * Creates the live test case for a suggestion and returns its id
+ */
+export const approveSuggestion = async (suggestionId: string) => {
+  const { data, error } = await supabase.rpc('approve_test_case_suggestion', { _suggestion_id: suggestionId });
+
+  if (error) throw error;
+  return data;
+};
+
+export const rejectSuggestion = async (suggestionId: string, category: RejectionCategory, reason: string) => {
+  const { error } = await supabase
+    .from('test_case_suggestions')
+    .update({
+      status: 'rejected',
+      rejection_category: category,
+      rejection_reason: reason.trim() || null
+    })
+    .eq('id', suggestionId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Free-form tags on user stories and test cases
+ */
+
+export type TaggableEntityType = 'test_case' | 'user_story';
+
+// Mirrors public.normalize_tags so the UI shows tags the way they are stored
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).sort();
+
+/**
+ * All tags used by the given items, most used first
+ */
+export const collectTags = (items: { tags: string[] }[]) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => item.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+/**
+ * An item matches when it has every selected tag
+ */
+export const matchesTags = (tags: string[], selectedTags: string[]) =>
+  selectedTags.every(tag => tags.includes(tag));
+
+/**
+ * Adds and removes tags on many stories or test cases at once
+ */
+export const updateItemTags = async (
+  entityType: TaggableEntityType,
+  ids: string[],
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] }
+) => {
+  const { data, error } = await supabase.rpc('update_item_tags', {
+    _entity_type: entityType,
+    _ids: ids,
+    _add: normalizeTags(add),
+    _remove: normalizeTags(remove)
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Applies the same change locally that update_item_tags applies in the database
+ */
+export const applyTagChange = (tags: string[], { add = [], remove = [] }: { add?: string[]; remove?: string[] }) => {
+  const removed = normalizeTags(remove);
+  return normalizeTags([...tags, ...add]).filter(tag => !removed.includes(tag));
+};
@@ -0,0 +1,130 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Test configurations (browser × OS × environment) a run can target, and the coverage matrix across them
+ */
+
+export interface TestConfiguration {
+  id: string;
+  name: string;
+  browser: string;
+  operatingSystem: string;
+  environment: string;
+  description: string;
+  usageCount: number;
+}
+
+export type TestConfigurationInput = Pick<TestConfiguration, 'name' | 'browser' | 'operatingSystem' | 'environment' | 'description'>;
+
+export interface ConfigurationMatrixRow {
+  testCaseId: string;
+  readableId: string;
+  title: string;
+  // Status per configuration id; configurations the test case wasn't run on are missing
+  statuses: Record<string, string>;
+}
+
+// Worst status wins when a test case ran several iterations on the same configuration
+const STATUS_SEVERITY: Record<string, number> = { failed: 4, blocked: 3, passed: 2, 'not-run': 1 };
+
+export const describeConfiguration = (configuration: Pick<TestConfiguration, 'browser' | 'operatingSystem' | 'environment'>) =>
+  [configuration.browser, configuration.operatingSystem, configuration.environment].filter(Boolean).join(' × ');
+
+export const loadTestConfigurations = async (projectId: string): Promise<TestConfiguration[]> => {
+  const { data, error } = await supabase
+    .from('test_configurations')
+    .select('*, test_run_configurations(id)')
+    .eq('project_id', projectId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(configuration => ({
+    id: configuration.id,
+    name: configuration.name,
+    browser: configuration.browser || '',
+    operatingSystem: configuration.operating_system || '',
+    environment: configuration.environment || '',
+    description: configuration.description || '',
+    usageCount: configuration.test_run_configurations?.length || 0
+  }));
+};
+
+const toConfigurationRow = (input: TestConfigurationInput) => ({
+  name: input.name.trim(),
+  browser: input.browser.trim() || null,
+  operating_system: input.operatingSystem.trim() || null,
+  environment: input.environment.trim() || null,
+  description: input.description.trim() || null
+});
+
+export const saveTestConfiguration = async (projectId: string, input: TestConfigurationInput, configurationId?: string | null) => {
+  const { error } = configurationId
+    ? await supabase
+        .from('test_configurations')
+        .update(toConfigurationRow(input))
+        .eq('id', configurationId)
+    : await supabase
+        .from('test_configurations')
+        .insert({ project_id: projectId, ...toConfigurationRow(input) });
+
+  if (error) throw error;
+};
+
+export const deleteTestConfiguration = async (configurationId: string) => {
+  const { error } = await supabase
+    .from('test_configurations')
+    .delete()
+    .eq('id', configurationId);
+
+  if (error) throw error;
+};
+
+/**
+ * Builds the test case × configuration matrix. For a single run every result counts; across runs
+ * the most recently executed run decides the status of each cell.
+ */
+export const loadConfigurationMatrix = async (projectId: string, testRunId?: string): Promise<ConfigurationMatrixRow[]> => {
+  let query = supabase
+    .from('test_run_results')
+    .select('test_case_id, test_run_id, configuration_id, status, executed_at, test_cases(readable_id, title), test_runs!inner(project_id)')
+    .eq('test_runs.project_id', projectId)
+    .not('configuration_id', 'is', null)
+    .order('executed_at', { ascending: false, nullsFirst: false });
+
+  query = testRunId ? query.eq('test_run_id', testRunId) : query.neq('status', 'not-run');
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = new Map<string, ConfigurationMatrixRow>();
+  const cellRuns = new Map<string, string>();
+
+  (data || []).forEach(result => {
+    if (!result.test_cases || !result.configuration_id) return;
+
+    let row = rows.get(result.test_case_id);
+    if (!row) {
+      row = {
+        testCaseId: result.test_case_id,
+        readableId: result.test_cases.readable_id || '',
+        title: result.test_cases.title,
+        statuses: {}
+      };
+      rows.set(result.test_case_id, row);
+    }
+
+    const cellKey = `${result.test_case_id}:${result.configuration_id}`;
+    const cellRun = cellRuns.get(cellKey);
+    const current = row.statuses[result.configuration_id];
+
+    if (!cellRun) {
+      cellRuns.set(cellKey, result.test_run_id);
+      row.statuses[result.configuration_id] = result.status;
+    } else if (cellRun === result.test_run_id && (STATUS_SEVERITY[result.status] || 0) > (STATUS_SEVERITY[current] || 0)) {
+      row.statuses[result.configuration_id] = result.status;
+    }
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.readableId.localeCompare(b.readableId, undefined, { numeric: true }));
+};
@@ -0,0 +1,193 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getIterations, normalizeDataTable } from "@/lib/dataTables";
+
+/**
+ * Test run helpers shared by every screen that can start an execution cycle
+ */
+
+export type RunResultStatus = 'not-run' | 'passed' | 'failed' | 'blocked';
+
+export const RUN_RESULT_STATUSES: RunResultStatus[] = ['not-run', 'passed', 'failed', 'blocked'];
+
+export interface CreateTestRunInput {
+  projectId: string;
+  name: string;
+  description?: string;
+  testCaseIds: string[];
+  // Configurations the run targets; every test case is executed once per configuration
+  configurationIds?: string[];
+  releaseId?: string | null;
+  createdBy?: string;
+}
+
+/**
+ * Creates a test run and seeds a "not-run" result for every selected test case, or one per
+ * data row for parameterized test cases, repeated for each targeted configuration
+ */
+export const createTestRun = async ({
+  projectId,
+  name,
+  description,
+  testCaseIds,
+  configurationIds = [],
+  releaseId,
+  createdBy
+}: CreateTestRunInput) => {
+  const { data: run, error } = await supabase
+    .from('test_runs')
+    .insert({
+      project_id: projectId,
+      name,
+      description: description || null,
+      release_id: releaseId || null,
+      created_by: createdBy || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (testCaseIds.length > 0) {
+    const { data: dataTables, error: dataTablesError } = await supabase
+      .from('test_cases')
+      .select('id, data_table')
+      .in('id', testCaseIds)
+      .not('data_table', 'is', null);
+
+    const caseRows = testCaseIds.flatMap(testCaseId => {
+      const iterations = getIterations(normalizeDataTable(dataTables?.find(tc => tc.id === testCaseId)?.data_table));
+      if (iterations.length === 0) {
+        return [{ test_run_id: run.id, test_case_id: testCaseId }];
+      }
+      return iterations.map((values, index) => ({
+        test_run_id: run.id,
+        test_case_id: testCaseId,
+        iteration_index: index + 1,
+        iteration_data: values
+      }));
+    });
+
+    const rows = configurationIds.length > 0
+      ? configurationIds.flatMap(configurationId => caseRows.map(row => ({ ...row, configuration_id: configurationId })))
+      : caseRows;
+
+    const { error: configurationsError } = dataTablesError || configurationIds.length === 0
+      ? { error: dataTablesError }
+      : await supabase
+          .from('test_run_configurations')
+          .insert(configurationIds.map(configurationId => ({ test_run_id: run.id, configuration_id: configurationId })));
+
+    const { error: resultsError } = configurationsError
+      ? { error: configurationsError }
+      : await supabase.from('test_run_results').insert(rows);
+
+    if (resultsError) {
+      // Don't leave an empty run behind if seeding the results failed
+      await supabase.from('test_runs').delete().eq('id', run.id);
+      throw resultsError;
+    }
+  }
+
+  return run;
+};
+
+/**
+ * Counts results per status, used for run progress bars and summaries
+ */
+export const summarizeRunResults = (results: { status: string }[]) => {
+  const summary: Record<RunResultStatus, number> = { 'not-run': 0, passed: 0, failed: 0, blocked: 0 };
+  results.forEach(result => {
+    const status = (RUN_RESULT_STATUSES.includes(result.status as RunResultStatus) ? result.status : 'not-run') as RunResultStatus;
+    summary[status]++;
+  });
+  const total = results.length;
+  const executed = total - summary['not-run'];
+  return {
+    ...summary,
+    total,
+    executed,
+    progress: total > 0 ? Math.round((executed / total) * 100) : 0,
+    passRate: executed > 0 ? Math.round((summary.passed / executed) * 100) : 0
+  };
+};
+
+export interface StepResult {
+  stepId: string;
+  action: string;
+  expectedResult: string;
+  testData: string;
+  status: RunResultStatus;
+  actualResult: string;
+  // Steps of the referenced shared block; the outcome is recorded once for the whole block
+  sharedItems: { action: string; expectedResult: string }[];
+  // Recorded against a step since removed from the test case; stepId then holds the result's id
+  removed?: boolean;
+}
+
+/**
+ * Loads the steps of a run result's test case together with any outcome recorded for them.
+ * Outcomes recorded against steps that were removed since are listed after the current steps.
+ */
+export const loadStepResults = async (runResultId: string, testCaseId: string): Promise<StepResult[]> => {
+  const [{ data: steps, error: stepsError }, { data: stepResults, error: resultsError }] = await Promise.all([
+    supabase
+      .from('test_case_steps')
+      .select('id, action, expected_result, test_data, shared_steps(shared_step_items(step_order, action, expected_result))')
+      .eq('test_case_id', testCaseId)
+      .order('step_order', { ascending: true }),
+    supabase
+      .from('test_run_step_results')
+      .select('id, test_case_step_id, step_action, step_expected_result, status, actual_result')
+      .eq('test_run_result_id', runResultId)
+  ]);
+
+  if (stepsError) throw stepsError;
+  if (resultsError) throw resultsError;
+
+  const removed = (stepResults || [])
+    .filter(result => !result.test_case_step_id)
+    .map(result => ({
+      stepId: result.id,
+      action: result.step_action || '',
+      expectedResult: result.step_expected_result || '',
+      testData: '',
+      status: result.status as RunResultStatus,
+      actualResult: result.actual_result || '',
+      sharedItems: [],
+      removed: true
+    }));
+
+  const current = (steps || []).map(step => {
+    const recorded = stepResults?.find(result => result.test_case_step_id === step.id);
+    return {
+      stepId: step.id,
+      action: step.action,
+      expectedResult: step.expected_result || '',
+      testData: step.test_data || '',
+      status: (recorded?.status || 'not-run') as RunResultStatus,
+      actualResult: recorded?.actual_result || '',
+      sharedItems: [...(step.shared_steps?.shared_step_items || [])]
+        .sort((a, b) => a.step_order - b.step_order)
+        .map(item => ({ action: item.action, expectedResult: item.expected_result || '' }))
+    };
+  });
+
+  return [...current, ...removed];
+};
+
+export const saveStepResult = async (
+  runResultId: string,
+  stepId: string,
+  changes: { status?: RunResultStatus; actualResult?: string }
+) => {
+  const { error } = await supabase
+    .from('test_run_step_results')
+    .upsert({
+      test_run_result_id: runResultId,
+      test_case_step_id: stepId,
+      ...(changes.status !== undefined && { status: changes.status }),
+      ...(changes.actualResult !== undefined && { actual_result: changes.actualResult })
+    }, { onConflict: 'test_run_result_id,test_case_step_id' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,186 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Structured test step helpers shared by the editor, Excel import/export, AI generation and automation
+ */
+
+export interface TestStep {
+  id?: string;
+  action: string;
+  expectedResult: string;
+  testData: string;
+  // Set when the step is a reference to a shared step block; action then holds the block name
+  sharedStepId?: string | null;
+}
+
+// Excel cells hold one step per line as "action | expected result | test data"
+const STEP_CELL_SEPARATOR = ' | ';
+
+export const emptyTestStep = (): TestStep => ({ action: '', expectedResult: '', testData: '' });
+
+export const parseStepLine = (line: string): TestStep => {
+  const [action = '', expectedResult = '', testData = ''] = line.split('|').map(part => part.trim());
+  return { action, expectedResult, testData };
+};
+
+export const formatStepLine = (step: TestStep) => {
+  const parts = [step.action, step.expectedResult, step.testData];
+  while (parts.length > 1 && !parts[parts.length - 1]) {
+    parts.pop();
+  }
+  return parts.join(STEP_CELL_SEPARATOR);
+};
+
+export const parseStepsCell = (value: unknown): TestStep[] =>
+  (value ?? '').toString()
+    .split('\n')
+    .filter((line: string) => line.trim())
+    .map(parseStepLine);
+
+export const formatStepsCell = (steps: TestStep[]) => steps.map(formatStepLine).join('\n');
+
+/**
+ * Accepts AI output in either the legacy string form or the structured object form
+ */
+export const normalizeGeneratedSteps = (steps: unknown): TestStep[] => {
+  if (!steps) return [];
+  if (typeof steps === 'string') return parseStepsCell(steps);
+  if (!Array.isArray(steps)) return [];
+
+  return steps
+    .map(step => {
+      if (typeof step === 'string') return { action: step.trim(), expectedResult: '', testData: '' };
+      return {
+        action: (step?.action || step?.step || step?.description || '').toString().trim(),
+        expectedResult: (step?.expectedResult || step?.expected || '').toString().trim(),
+        testData: (step?.testData || step?.data || '').toString().trim(),
+        sharedStepId: step?.sharedStepId || null
+      };
+    })
+    .filter(step => step.action);
+};
+
+/**
+ * Converts steps to the {type, content} shape expected by generate-selenium-automation
+ */
+export const toAutomationSteps = (steps: TestStep[]) =>
+  steps.flatMap(step => [
+    { type: 'action', content: step.testData ? `${step.action} (data: ${step.testData})` : step.action },
+    ...(step.expectedResult ? [{ type: 'verify', content: step.expectedResult }] : [])
+  ]);
+
+export const loadTestCaseSteps = async (testCaseIds: string[]) => {
+  const stepsByTestCase: Record<string, TestStep[]> = {};
+  if (testCaseIds.length === 0) return stepsByTestCase;
+
+  const { data, error } = await supabase
+    .from('test_case_steps')
+    .select('*')
+    .in('test_case_id', testCaseIds)
+    .order('step_order', { ascending: true });
+
+  if (error) throw error;
+
+  (data || []).forEach(step => {
+    if (!stepsByTestCase[step.test_case_id]) {
+      stepsByTestCase[step.test_case_id] = [];
+    }
+    stepsByTestCase[step.test_case_id].push({
+      id: step.id,
+      action: step.action,
+      expectedResult: step.expected_result || '',
+      testData: step.test_data || '',
+      sharedStepId: step.shared_step_id
+    });
+  });
+
+  return stepsByTestCase;
+};
+
+/**
+ * Gives replacement steps without ids (Excel import, AI regeneration) the ids of the existing steps
+ * at the same position, so results recorded against those steps stay attached. A shared step
+ * reference is kept while the replacement still names the same block.
+ */
+export const matchStepsByPosition = (existing: TestStep[], replacement: TestStep[]): TestStep[] =>
+  replacement.map((step, index) => {
+    const current = existing[index];
+    if (!current || step.id) return step;
+    const keepsSharedStep = !step.sharedStepId && current.sharedStepId && step.action.trim() === current.action;
+    return {
+      ...step,
+      id: current.id,
+      ...(keepsSharedStep && { sharedStepId: current.sharedStepId })
+    };
+  });
+
+/**
+ * Replaces the steps of a test case. Steps passed with an id are updated in place so results
+ * recorded against them in earlier runs stay attached; results of removed steps keep the step's
+ * text. The legacy text column is synced by a trigger.
+ */
+export const saveTestCaseSteps = async (testCaseId: string, steps: TestStep[]) => {
+  const cleanSteps = steps.filter(step => step.action.trim());
+
+  const { data: existing, error: existingError } = await supabase
+    .from('test_case_steps')
+    .select('id')
+    .eq('test_case_id', testCaseId);
+
+  if (existingError) throw existingError;
+
+  const keptIds = new Set(cleanSteps.map(step => step.id).filter(Boolean));
+  const removedIds = (existing || []).map(step => step.id).filter(id => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('test_case_steps').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  const rows = cleanSteps.map((step, index) => ({
+    test_case_id: testCaseId,
+    step_order: index + 1,
+    action: step.action.trim(),
+    expected_result: step.expectedResult.trim() || null,
+    test_data: step.testData.trim() || null,
+    shared_step_id: step.sharedStepId || null
+  }));
+
+  for (let i = 0; i < cleanSteps.length; i++) {
+    if (!cleanSteps[i].id) continue;
+    const { error } = await supabase.from('test_case_steps').update(rows[i]).eq('id', cleanSteps[i].id);
+    if (error) throw error;
+  }
+
+  const newRows = rows.filter((_, index) => !cleanSteps[index].id);
+  if (newRows.length > 0) {
+    const { error } = await supabase.from('test_case_steps').insert(newRows);
+    if (error) throw error;
+  }
+
+  const saved = await loadTestCaseSteps([testCaseId]);
+  return saved[testCaseId] || [];
+};
+
+/**
+ * Inserts the steps of freshly created test cases in a single request
+ */
+export const insertStepsForTestCases = async (entries: { testCaseId: string; steps: TestStep[] }[]) => {
+  const rows = entries.flatMap(({ testCaseId, steps }) =>
+    steps
+      .filter(step => step.action.trim())
+      .map((step, index) => ({
+        test_case_id: testCaseId,
+        step_order: index + 1,
+        action: step.action.trim(),
+        expected_result: step.expectedResult.trim() || null,
+        test_data: step.testData.trim() || null,
+        shared_step_id: step.sharedStepId || null
+      }))
+  );
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('test_case_steps').insert(rows);
+  if (error) throw error;
+};
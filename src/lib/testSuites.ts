@@ -0,0 +1,98 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Test suite tree helpers; suites nest through parent_id and cases join through test_suite_cases
+ */
+
+export interface TestSuite {
+  id: string;
+  parentId: string | null;
+  name: string;
+  description: string;
+  position: number;
+}
+
+export interface TestSuiteNode extends TestSuite {
+  children: TestSuiteNode[];
+}
+
+export const buildSuiteTree = (suites: TestSuite[]): TestSuiteNode[] => {
+  const nodes = new Map<string, TestSuiteNode>();
+  suites.forEach(suite => nodes.set(suite.id, { ...suite, children: [] }));
+
+  const roots: TestSuiteNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortNodes = (list: TestSuiteNode[]) => {
+    list.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+/**
+ * Returns the suite and all of its nested sub-suites
+ */
+export const getDescendantSuiteIds = (suites: TestSuite[], suiteId: string): string[] => {
+  const ids = [suiteId];
+  for (let i = 0; i < ids.length; i++) {
+    suites.filter(suite => suite.parentId === ids[i]).forEach(child => ids.push(child.id));
+  }
+  return ids;
+};
+
+export const getSuitePath = (suites: TestSuite[], suiteId: string) => {
+  const names: string[] = [];
+  let current = suites.find(suite => suite.id === suiteId);
+  while (current) {
+    names.unshift(current.name);
+    current = current.parentId ? suites.find(suite => suite.id === current!.parentId) : undefined;
+  }
+  return names.join(' / ');
+};
+
+export const loadTestSuites = async (projectId: string): Promise<TestSuite[]> => {
+  const { data, error } = await supabase
+    .from('test_suites')
+    .select('id, parent_id, name, description, position')
+    .eq('project_id', projectId);
+
+  if (error) throw error;
+
+  return (data || []).map(suite => ({
+    id: suite.id,
+    parentId: suite.parent_id,
+    name: suite.name,
+    description: suite.description || '',
+    position: suite.position
+  }));
+};
+
+/**
+ * Loads the ordered, de-duplicated test case ids of the given suites
+ */
+export const loadSuiteTestCaseIds = async (suiteIds: string[]) => {
+  if (suiteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('test_suite_cases')
+    .select('suite_id, test_case_id, position')
+    .in('suite_id', suiteIds)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  const ordered = [...(data || [])].sort((a, b) =>
+    suiteIds.indexOf(a.suite_id) - suiteIds.indexOf(b.suite_id) || a.position - b.position
+  );
+  return Array.from(new Set(ordered.map(row => row.test_case_id)));
+};
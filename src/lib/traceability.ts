@@ -0,0 +1,192 @@
+import { supabase } from "@/integrations/supabase/client";
+import * as XLSX from 'xlsx';
+import { formatDefectId } from "@/lib/defects";
+
+/**
+ * Requirements traceability: user stories, their test cases, the latest execution result and linked defects
+ */
+
+export type CoverageStatus = 'uncovered' | 'failing' | 'not-run' | 'passing';
+
+export interface TraceabilityDefect {
+  id: string;
+  title: string;
+  state: string;
+  source: string;
+}
+
+export interface TraceabilityTestCase {
+  id: string;
+  readableId: string;
+  title: string;
+  priority: string;
+  latestStatus: string;
+  latestRunName: string | null;
+  latestExecutedAt: string | null;
+  defects: TraceabilityDefect[];
+}
+
+export interface TraceabilityRow {
+  storyId: string;
+  storyTitle: string;
+  storyPriority: string;
+  storyStatus: string;
+  testCases: TraceabilityTestCase[];
+  coverage: CoverageStatus;
+}
+
+// Worst status wins when a test case ran several iterations in its latest run
+const STATUS_SEVERITY: Record<string, number> = { failed: 3, blocked: 2, passed: 1 };
+
+export const getCoverageStatus = (testCases: TraceabilityTestCase[]): CoverageStatus => {
+  if (testCases.length === 0) return 'uncovered';
+  if (testCases.some(tc => tc.latestStatus === 'failed' || tc.latestStatus === 'blocked')) return 'failing';
+  if (testCases.every(tc => tc.latestStatus === 'passed')) return 'passing';
+  return 'not-run';
+};
+
+export const loadTraceability = async (projectId: string): Promise<TraceabilityRow[]> => {
+  const [
+    { data: stories, error: storiesError },
+    { data: testCases, error: testCasesError },
+    { data: results, error: resultsError },
+    { data: defects, error: defectsError }
+  ] = await Promise.all([
+    supabase
+      .from('user_stories')
+      .select('id, title, priority, status')
+      .is('deleted_at', null)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('test_cases')
+      .select('id, readable_id, title, priority, status, user_story_id')
+      .is('deleted_at', null)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('test_run_results')
+      .select('test_case_id, test_run_id, status, executed_at, test_runs!inner(name, project_id)')
+      .eq('test_runs.project_id', projectId)
+      .neq('status', 'not-run')
+      .order('executed_at', { ascending: false }),
+    supabase
+      .from('defects')
+      .select('defect_number, title, state, test_case_id')
+      .eq('project_id', projectId)
+      .not('test_case_id', 'is', null)
+      .order('defect_number', { ascending: true })
+  ]);
+
+  if (storiesError) throw storiesError;
+  if (testCasesError) throw testCasesError;
+  if (resultsError) throw resultsError;
+  if (defectsError) throw defectsError;
+
+  const latestByTestCase = new Map<string, { status: string; runId: string; runName: string; executedAt: string | null }>();
+  (results || []).forEach(result => {
+    const latest = latestByTestCase.get(result.test_case_id);
+    if (!latest) {
+      latestByTestCase.set(result.test_case_id, {
+        status: result.status,
+        runId: result.test_run_id,
+        runName: result.test_runs?.name || '',
+        executedAt: result.executed_at
+      });
+    } else if (latest.runId === result.test_run_id && (STATUS_SEVERITY[result.status] || 0) > (STATUS_SEVERITY[latest.status] || 0)) {
+      latest.status = result.status;
+    }
+  });
+
+  return (stories || []).map(story => {
+    const storyTestCases: TraceabilityTestCase[] = (testCases || [])
+      .filter(tc => tc.user_story_id === story.id)
+      .map(tc => {
+        const latest = latestByTestCase.get(tc.id);
+        return {
+          id: tc.id,
+          readableId: tc.readable_id || '',
+          title: tc.title,
+          priority: tc.priority || 'medium',
+          // Test cases never executed in a run fall back to their manually set status
+          latestStatus: latest?.status || tc.status || 'not-run',
+          latestRunName: latest?.runName || null,
+          latestExecutedAt: latest?.executedAt || null,
+          defects: (defects || [])
+            .filter(defect => defect.test_case_id === tc.id)
+            .map(defect => ({
+              id: formatDefectId(defect.defect_number),
+              title: defect.title,
+              state: defect.state,
+              source: 'app'
+            }))
+        };
+      });
+
+    return {
+      storyId: story.id,
+      storyTitle: story.title,
+      storyPriority: story.priority || 'medium',
+      storyStatus: story.status || '',
+      testCases: storyTestCases,
+      coverage: getCoverageStatus(storyTestCases)
+    };
+  });
+};
+
+/**
+ * Links Azure DevOps defects to the test cases whose ID they mention in the title or repro steps.
+ * In-app defects are kept; previously linked external defects are replaced.
+ */
+export const linkDefects = (
+  rows: TraceabilityRow[],
+  defects: { id: string; title: string; state: string; reproSteps?: string; description?: string; source?: string }[]
+): TraceabilityRow[] =>
+  rows.map(row => ({
+    ...row,
+    testCases: row.testCases.map(tc => ({
+      ...tc,
+      defects: [
+        ...tc.defects.filter(defect => defect.source === 'app'),
+        ...(tc.readableId
+          ? defects
+              .filter(defect =>
+                [defect.title, defect.reproSteps, defect.description]
+                  .some(text => text?.toLowerCase().includes(tc.readableId.toLowerCase()))
+              )
+              .map(defect => ({ id: defect.id, title: defect.title, state: defect.state, source: defect.source || 'azure-devops' }))
+          : [])
+      ]
+    }))
+  }));
+
+/**
+ * Exports one line per story and test case; uncovered stories get a single line without a test case
+ */
+export const exportTraceability = (rows: TraceabilityRow[], format: 'xlsx' | 'csv', filename = 'traceability-matrix') => {
+  const data = rows.flatMap(row => {
+    const story = {
+      'User Story': row.storyTitle,
+      'Story Priority': row.storyPriority,
+      'Coverage': row.coverage
+    };
+
+    if (row.testCases.length === 0) {
+      return [{ ...story, 'Test Case ID': '', 'Test Case': '', 'Latest Result': '', 'Latest Run': '', 'Executed': '', 'Defects': '' }];
+    }
+
+    return row.testCases.map(tc => ({
+      ...story,
+      'Test Case ID': tc.readableId,
+      'Test Case': tc.title,
+      'Latest Result': tc.latestStatus,
+      'Latest Run': tc.latestRunName || '',
+      'Executed': tc.latestExecutedAt ? new Date(tc.latestExecutedAt).toLocaleString() : '',
+      'Defects': tc.defects.map(defect => `${defect.id} ${defect.title} (${defect.state})`).join('; ')
+    }));
+  });
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(data), 'Traceability');
+  XLSX.writeFile(wb, `${filename}.${format}`, { bookType: format });
+};
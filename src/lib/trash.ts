@@ -0,0 +1,130 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Soft delete ("trash") for user stories and test cases. Trashed items are hidden everywhere
+ * (queries filter on deleted_at), can be restored, and are purged after the project's retention.
+ */
+
+export type TrashEntityType = 'test_case' | 'user_story';
+
+export interface TrashItem {
+  id: string;
+  entityType: TrashEntityType;
+  title: string;
+  readableId: string | null;
+  // Story of a test case, and whether that story is in the trash as well
+  userStoryTitle: string | null;
+  userStoryDeleted: boolean;
+  deletedAt: string;
+  deletedBy: string | null;
+  expiresAt: string;
+}
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+const tableFor = (entityType: TrashEntityType) => (entityType === 'test_case' ? 'test_cases' : 'user_stories');
+
+export const moveToTrash = async (entityType: TrashEntityType, ids: string[]) => {
+  const { error } = await supabase
+    .from(tableFor(entityType))
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+/**
+ * Restoring a story also restores the test cases that were trashed together with it
+ */
+export const restoreFromTrash = async (entityType: TrashEntityType, ids: string[]) => {
+  const { error } = await supabase
+    .from(tableFor(entityType))
+    .update({ deleted_at: null })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+/**
+ * Permanently deletes trashed items. Purging a story deletes all of its test cases.
+ */
+export const purgeFromTrash = async (entityType: TrashEntityType, ids: string[]) => {
+  const { error } = await supabase
+    .from(tableFor(entityType))
+    .delete()
+    .in('id', ids)
+    .not('deleted_at', 'is', null);
+
+  if (error) throw error;
+};
+
+export const loadTrashRetention = async (projectId: string) => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('trash_retention_days')
+    .eq('id', projectId)
+    .single();
+
+  if (error) throw error;
+  return data.trash_retention_days;
+};
+
+export const saveTrashRetention = async (projectId: string, days: number) => {
+  const { error } = await supabase
+    .from('projects')
+    .update({ trash_retention_days: days })
+    .eq('id', projectId);
+
+  if (error) throw error;
+};
+
+export const loadTrash = async (projectId: string, retentionDays: number): Promise<TrashItem[]> => {
+  const [
+    { data: stories, error: storiesError },
+    { data: testCases, error: testCasesError }
+  ] = await Promise.all([
+    supabase
+      .from('user_stories')
+      .select('id, title, deleted_at, deleted_by')
+      .eq('project_id', projectId)
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('test_cases')
+      .select('id, readable_id, title, deleted_at, deleted_by, user_stories(title, deleted_at)')
+      .eq('project_id', projectId)
+      .not('deleted_at', 'is', null)
+  ]);
+
+  if (storiesError) throw storiesError;
+  if (testCasesError) throw testCasesError;
+
+  const expiresAt = (deletedAt: string) =>
+    new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const items: TrashItem[] = [
+    ...(stories || []).map(story => ({
+      id: story.id,
+      entityType: 'user_story' as const,
+      title: story.title,
+      readableId: null,
+      userStoryTitle: null,
+      userStoryDeleted: false,
+      deletedAt: story.deleted_at,
+      deletedBy: story.deleted_by,
+      expiresAt: expiresAt(story.deleted_at)
+    })),
+    ...(testCases || []).map(tc => ({
+      id: tc.id,
+      entityType: 'test_case' as const,
+      title: tc.title,
+      readableId: tc.readable_id,
+      userStoryTitle: tc.user_stories?.title || null,
+      userStoryDeleted: !!tc.user_stories?.deleted_at,
+      deletedAt: tc.deleted_at,
+      deletedBy: tc.deleted_by,
+      expiresAt: expiresAt(tc.deleted_at)
+    }))
+  ];
+
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
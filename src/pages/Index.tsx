@@ -2,17 +2,28 @@ import { useState } from "react";
 import { Layout } from "@/components/Layout";
 import { Projects } from "@/components/Projects";
 import { Dashboard } from "@/components/Dashboard";
+import { Releases } from "@/components/Releases";
 import { UserStories } from "@/components/UserStories";
 import { TestCases } from "@/components/TestCases";
+import { SuggestionReview } from "@/components/SuggestionReview";
+import { TestSuites } from "@/components/TestSuites";
+import { SharedSteps } from "@/components/SharedSteps";
 import { TestPlan } from "@/components/TestPlan";
+import { TestRuns } from "@/components/TestRuns";
+import { TraceabilityMatrix } from "@/components/TraceabilityMatrix";
+import { Defects } from "@/components/Defects";
 import { TestReport } from "@/components/TestReport";
 import { Integrations } from "@/components/Integrations";
+import { Trash } from "@/components/Trash";
 import { AIAnalytics } from "@/components/AIAnalytics";
 import RoleManager from "@/components/RoleManager";
+import { AuditLog } from "@/components/AuditLog";
+import { SearchResult, SearchFocus, SEARCH_ENTITY_VIEWS } from "@/lib/search";
 
 const Index = () => {
   const [currentView, setCurrentView] = useState('projects');
   const [selectedProject, setSelectedProject] = useState<{ id: string; name: string } | null>(null);
+  const [searchFocus, setSearchFocus] = useState<SearchFocus | null>(null);
 
   const handleProjectSelect = (projectId: string, projectName: string) => {
     setSelectedProject({ id: projectId, name: projectName });
@@ -21,9 +32,21 @@ const Index = () => {
 
   const handleBackToProjects = () => {
     setSelectedProject(null);
+    setSearchFocus(null);
     setCurrentView('projects');
   };
 
+  const handleViewChange = (view: string) => {
+    setSearchFocus(null);
+    setCurrentView(view);
+  };
+
+  const handleSearchSelect = (result: SearchResult) => {
+    setSelectedProject({ id: result.projectId, name: result.projectName });
+    setSearchFocus({ id: result.entityId, term: result.reference || result.title });
+    setCurrentView(SEARCH_ENTITY_VIEWS[result.entityType]);
+  };
+
   const renderView = () => {
     if (currentView === 'projects') {
       return <Projects onProjectSelect={handleProjectSelect} />;
@@ -33,6 +56,10 @@ const Index = () => {
       return <RoleManager />;
     }
 
+    if (currentView === 'audit-log') {
+      return <AuditLog />;
+    }
+
     if (currentView === 'ai-analytics') {
       return <AIAnalytics />;
     }
@@ -43,28 +70,45 @@ const Index = () => {
 
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard onViewChange={setCurrentView} projectId={selectedProject.id} />;
+        return <Dashboard onViewChange={handleViewChange} projectId={selectedProject.id} />;
+      case 'releases':
+        return <Releases projectId={selectedProject.id} />;
       case 'user-stories':
-        return <UserStories onViewChange={setCurrentView} projectId={selectedProject.id} />;
+        return <UserStories key={searchFocus?.id} onViewChange={handleViewChange} projectId={selectedProject.id} focus={searchFocus} />;
+      case 'ai-review':
+        return <SuggestionReview projectId={selectedProject.id} />;
       case 'test-cases':
-        return <TestCases projectId={selectedProject.id} />;
+        return <TestCases key={searchFocus?.id} projectId={selectedProject.id} focus={searchFocus} />;
+      case 'test-suites':
+        return <TestSuites projectId={selectedProject.id} />;
+      case 'shared-steps':
+        return <SharedSteps projectId={selectedProject.id} />;
       case 'test-plan':
         return <TestPlan projectId={selectedProject.id} />;
+      case 'test-runs':
+        return <TestRuns projectId={selectedProject.id} />;
+      case 'traceability':
+        return <TraceabilityMatrix projectId={selectedProject.id} />;
+      case 'defects':
+        return <Defects key={searchFocus?.id} projectId={selectedProject.id} focus={searchFocus} />;
       case 'test-report':
         return <TestReport projectId={selectedProject.id} />;
       case 'integrations':
-        return <Integrations />;
+        return <Integrations projectId={selectedProject.id} />;
+      case 'trash':
+        return <Trash projectId={selectedProject.id} />;
       default:
-        return <Dashboard onViewChange={setCurrentView} projectId={selectedProject.id} />;
+        return <Dashboard onViewChange={handleViewChange} projectId={selectedProject.id} />;
     }
   };
 
   return (
     <Layout 
       currentView={currentView} 
-      onViewChange={setCurrentView}
+      onViewChange={handleViewChange}
       selectedProject={selectedProject}
       onBackToProjects={handleBackToProjects}
+      onSearchSelect={handleSearchSelect}
     >
       {renderView()}
     </Layout>
@@ -0,0 +1,374 @@
+// Chat completions against the AI provider chosen for a project, with token and cost reporting
+// into ai_usage_logs. Supports OpenAI, Azure OpenAI, Anthropic and OpenAI-compatible servers
+// such as Ollama or vLLM, as long as they are reachable from the internet.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type AIProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  apiKey?: string;
+  // Azure resource URL, or the public base URL of an OpenAI-compatible server (e.g. https://llm.example.com/v1)
+  endpoint?: string;
+  deploymentId?: string;
+  apiVersion?: string;
+  model?: string;
+}
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  // A data URL, as sent by the app for uploaded images
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export class AIProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  'openai': 'OpenAI',
+  'azure-openai': 'Azure OpenAI',
+  'anthropic': 'Anthropic',
+  'openai-compatible': 'OpenAI-compatible server'
+};
+
+const DEFAULT_MODELS: Partial<Record<AIProviderId, string>> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest'
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-02-15-preview';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+// USD per million prompt / completion tokens, matched by model name prefix, most specific first
+const MODEL_PRICING: [string, number, number][] = [
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4.1-nano', 0.1, 0.4],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-4.1', 2, 8],
+  ['gpt-4-turbo', 10, 30],
+  ['gpt-4', 30, 60],
+  ['gpt-35-turbo', 0.5, 1.5],
+  ['gpt-3.5-turbo', 0.5, 1.5],
+  ['o3-mini', 1.1, 4.4],
+  ['o4-mini', 1.1, 4.4],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-haiku', 0.25, 1.25],
+  ['claude-haiku', 1, 5],
+  ['claude-3-opus', 15, 75],
+  ['claude-opus', 15, 75],
+  ['claude', 3, 15]
+];
+
+// Used when the model is not in the table; self-hosted servers cost nothing per token
+const FALLBACK_PRICING: Record<AIProviderId, [number, number]> = {
+  'openai': [2.5, 10],
+  'azure-openai': [2.5, 10],
+  'anthropic': [3, 15],
+  'openai-compatible': [0, 0]
+};
+
+export const estimateCostUsd = (config: AIProviderConfig, model: string, promptTokens: number, completionTokens: number) => {
+  const name = model.toLowerCase();
+  const match = config.provider === 'openai-compatible'
+    ? undefined
+    : MODEL_PRICING.find(([prefix]) => name.startsWith(prefix) || name.includes(`-${prefix}`));
+  const [promptRate, completionRate] = match ? [match[1], match[2]] : FALLBACK_PRICING[config.provider];
+  return (promptTokens * promptRate + completionTokens * completionRate) / 1_000_000;
+};
+
+// Azure OpenAI settings as sent by older clients
+interface LegacyAIConfig {
+  apiKey?: string;
+  endpoint?: string;
+  baseURL?: string;
+  deploymentId?: string;
+  apiVersion?: string;
+  model?: string;
+}
+
+/**
+ * Reads the provider config from a request body. Older clients send an Azure OpenAI config as
+ * azureConfig or openAIConfig; those are mapped onto the matching provider.
+ */
+export const resolveProviderConfig = (
+  body: { aiConfig?: AIProviderConfig; azureConfig?: LegacyAIConfig; openAIConfig?: LegacyAIConfig }
+): AIProviderConfig | null => {
+  if (body?.aiConfig?.provider) {
+    return body.aiConfig;
+  }
+
+  const legacy = body?.azureConfig || body?.openAIConfig;
+  if (!legacy) return null;
+
+  const endpoint = legacy.endpoint || legacy.baseURL;
+  if (endpoint && legacy.deploymentId) {
+    return {
+      provider: 'azure-openai',
+      apiKey: legacy.apiKey,
+      endpoint,
+      deploymentId: legacy.deploymentId,
+      apiVersion: legacy.apiVersion
+    };
+  }
+
+  return { provider: 'openai', apiKey: legacy.apiKey, model: legacy.model };
+};
+
+// Endpoints come from the request, so they must not reach into the network the functions run in.
+// URL parsing normalizes numeric IPv4 forms such as http://2130706433/ to dotted quads first.
+const isPrivateHost = (hostname: string) => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || host.startsWith('::ffff:') || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+
+  const octets = host.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet))) return false;
+  const [a, b] = octets;
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+};
+
+const validateEndpoint = (endpoint: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return 'Endpoint must be a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Endpoint must be an http or https URL';
+  }
+  if (isPrivateHost(url.hostname)) {
+    return 'Endpoint must not point to a local or private network address';
+  }
+  return null;
+};
+
+// Returns an error message for configs that cannot be used, or null
+export const validateProviderConfig = (config: AIProviderConfig | null): string | null => {
+  if (!config) {
+    return 'AI provider configuration is required';
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return config.apiKey ? null : 'OpenAI configuration is required (apiKey)';
+    case 'azure-openai':
+      return config.endpoint && config.apiKey && config.deploymentId
+        ? validateEndpoint(config.endpoint)
+        : 'Azure OpenAI configuration is required (endpoint, apiKey, deploymentId)';
+    case 'anthropic':
+      return config.apiKey ? null : 'Anthropic configuration is required (apiKey)';
+    case 'openai-compatible':
+      return config.endpoint && config.model
+        ? validateEndpoint(config.endpoint)
+        : 'OpenAI-compatible server configuration is required (endpoint, model)';
+    default:
+      return `Unknown AI provider: ${(config as AIProviderConfig).provider}`;
+  }
+};
+
+// e.g. "Azure OpenAI gpt4o-deployment", used to label generated content
+export const describeProvider = (config: AIProviderConfig) =>
+  `${AI_PROVIDER_LABELS[config.provider]} ${modelFor(config)}`;
+
+const modelFor = (config: AIProviderConfig) =>
+  config.provider === 'azure-openai'
+    ? config.model || config.deploymentId || ''
+    : config.model || DEFAULT_MODELS[config.provider] || '';
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const readError = async (response: Response) => {
+  const text = await response.text();
+  try {
+    const parsed = JSON.parse(text);
+    return parsed.error?.message || parsed.message || text;
+  } catch {
+    return text;
+  }
+};
+
+const openAIChat = async (config: AIProviderConfig, request: ChatCompletionRequest) => {
+  let url: string;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const body: Record<string, unknown> = {
+    messages: request.messages,
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 2500
+  };
+
+  if (config.provider === 'azure-openai') {
+    url = `${trimSlash(config.endpoint!)}/openai/deployments/${config.deploymentId}/chat/completions?api-version=${config.apiVersion || DEFAULT_AZURE_API_VERSION}`;
+    headers['api-key'] = config.apiKey!;
+  } else {
+    url = config.provider === 'openai'
+      ? 'https://api.openai.com/v1/chat/completions'
+      : `${trimSlash(config.endpoint!)}/chat/completions`;
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+    body.model = modelFor(config);
+  }
+
+  // Redirects are not followed so a public endpoint cannot forward the request to a private one
+  const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body), redirect: 'manual' });
+  if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) {
+    throw new AIProviderError(`${AI_PROVIDER_LABELS[config.provider]} API error: the endpoint redirected the request`, 502);
+  }
+  if (!response.ok) {
+    const message = await readError(response);
+    console.error(`${AI_PROVIDER_LABELS[config.provider]} API error:`, response.status, message);
+    throw new AIProviderError(`${AI_PROVIDER_LABELS[config.provider]} API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices?.[0]?.message?.content ?? '',
+    model: data.model || modelFor(config),
+    promptTokens: data.usage?.prompt_tokens || 0,
+    completionTokens: data.usage?.completion_tokens || 0
+  };
+};
+
+// Anthropic takes the system prompt separately and images as base64 sources
+const toAnthropicContent = (content: ChatMessage['content']) => {
+  if (typeof content === 'string') return content;
+
+  return content.map(part => {
+    if (part.type === 'text') return part;
+    const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+    return match
+      ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+      : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+  });
+};
+
+const anthropicChat = async (config: AIProviderConfig, request: ChatCompletionRequest) => {
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => (typeof message.content === 'string' ? message.content : ''))
+    .join('\n\n');
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': config.apiKey!,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: modelFor(config),
+      system: system || undefined,
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: toAnthropicContent(message.content) })),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2500
+    }),
+  });
+
+  if (!response.ok) {
+    const message = await readError(response);
+    console.error('Anthropic API error:', response.status, message);
+    throw new AIProviderError(`Anthropic API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  return {
+    content: (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join(''),
+    model: data.model || modelFor(config),
+    promptTokens: data.usage?.input_tokens || 0,
+    completionTokens: data.usage?.output_tokens || 0
+  };
+};
+
+export const chatCompletion = async (
+  config: AIProviderConfig,
+  request: ChatCompletionRequest
+): Promise<ChatCompletionResult> => {
+  const validationError = validateProviderConfig(config);
+  if (validationError) {
+    throw new AIProviderError(validationError, 400);
+  }
+
+  const result = config.provider === 'anthropic'
+    ? await anthropicChat(config, request)
+    : await openAIChat(config, request);
+
+  return {
+    ...result,
+    totalTokens: result.promptTokens + result.completionTokens,
+    costUsd: estimateCostUsd(config, result.model, result.promptTokens, result.completionTokens)
+  };
+};
+
+export interface AIUsageLogEntry {
+  userId: string;
+  projectId?: string | null;
+  featureType: string;
+  config: AIProviderConfig;
+  // Missing when the provider call itself failed
+  result?: ChatCompletionResult;
+  startTime: number;
+  success: boolean;
+}
+
+// Logging failures are reported but never fail the request
+export const logAIUsage = async (supabase: SupabaseClient, entry: AIUsageLogEntry) => {
+  try {
+    const { error } = await supabase.from('ai_usage_logs').insert({
+      user_id: entry.userId,
+      project_id: entry.projectId || null,
+      feature_type: entry.featureType,
+      ai_provider: entry.config.provider,
+      tokens_used: entry.result?.totalTokens || 0,
+      openai_model: entry.result?.model || modelFor(entry.config),
+      openai_tokens_prompt: entry.result?.promptTokens || 0,
+      openai_tokens_completion: entry.result?.completionTokens || 0,
+      openai_cost_usd: entry.result?.costUsd || 0,
+      execution_time_ms: Date.now() - entry.startTime,
+      success: entry.success
+    });
+
+    if (error) throw error;
+  } catch (logError) {
+    console.error('Failed to log AI usage:', logError);
+  }
+};
@@ -0,0 +1,75 @@
+// Project guidance written in ProjectSettings and stored as JSON in projects.markdown_settings.
+// Generators add the sections relevant to them to their system prompt.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type MarkdownSettingsSection = 'general' | 'testCases' | 'automation' | 'testPlan' | 'testReport';
+
+export type MarkdownSettings = Partial<Record<MarkdownSettingsSection, string>>;
+
+const SECTION_TITLES: Record<MarkdownSettingsSection, string> = {
+  general: 'Project Context',
+  testCases: 'Test Case Guidelines',
+  automation: 'Automation Guidelines',
+  testPlan: 'Test Plan Guidelines',
+  testReport: 'Test Report Guidelines'
+};
+
+// Long guidance is cut so it cannot crowd out the rest of the prompt
+const MAX_SECTION_LENGTH = 10000;
+
+// Returns no settings when the user cannot access the project or nothing was saved
+export const loadProjectMarkdownSettings = async (
+  supabase: SupabaseClient,
+  projectId: string | null | undefined,
+  userId: string
+): Promise<MarkdownSettings> => {
+  if (!projectId) return {};
+
+  const { data: hasAccess } = await supabase.rpc('has_project_access', {
+    _project_id: projectId,
+    _user_id: userId
+  });
+  if (!hasAccess) return {};
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('markdown_settings')
+    .eq('id', projectId)
+    .single();
+
+  if (error) {
+    console.error('Failed to load project settings:', error);
+    return {};
+  }
+
+  try {
+    return data?.markdown_settings ? JSON.parse(data.markdown_settings) : {};
+  } catch {
+    console.error('Project settings are not valid JSON');
+    return {};
+  }
+};
+
+/**
+ * Joins the non-empty sections into a block for the system prompt, along with the sections that
+ * made it in. The block is empty when the project has no guidance for these sections.
+ */
+export const buildProjectGuidance = (
+  settings: MarkdownSettings,
+  sections: MarkdownSettingsSection[]
+): { guidance: string; sections: MarkdownSettingsSection[] } => {
+  const included = sections.filter(section => typeof settings[section] === 'string' && settings[section]!.trim());
+  if (included.length === 0) {
+    return { guidance: '', sections: [] };
+  }
+
+  const body = included
+    .map(section => `## ${SECTION_TITLES[section]}\n${settings[section]!.trim().slice(0, MAX_SECTION_LENGTH)}`)
+    .join('\n\n');
+
+  return {
+    guidance: `\n\nFollow this guidance written by the project's team. It takes precedence over general conventions but not over the required response format.\n\n${body}`,
+    sections: included
+  };
+};
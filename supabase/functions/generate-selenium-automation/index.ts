@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildProjectGuidance, loadProjectMarkdownSettings } from '../_shared/project-settings.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -18,6 +19,8 @@ interface TestCase {
   steps: Array<{ type: string; content: string }>;
   expectedResult: string;
   priority: string;
+  // Parameterized test cases become a JUnit @ParameterizedTest with one @CsvSource line per row
+  dataTable?: { parameters: string[]; rows: string[][] } | null;
 }
 
 serve(async (req) => {
@@ -42,11 +45,83 @@ serve(async (req) => {
       );
     }
 
-    const { testCase, projectId }: { testCase: TestCase, projectId: string } = await req.json();
+    const { testCase, testCases, projectId, dryRun }: { testCase?: TestCase, testCases?: TestCase[], projectId: string, dryRun?: boolean } = await req.json();
+
+    // Code comes from a template; the project's guidance is added to each class as a header comment
+    const projectSettings = await loadProjectMarkdownSettings(supabase, projectId, user.id);
+    const { guidance, sections } = buildProjectGuidance(projectSettings, ['general', 'automation']);
+
+    // Return what would be added to the generated code without generating it
+    if (dryRun) {
+      const requested = Array.isArray(testCases) ? testCases : testCase ? [testCase] : [];
+      return new Response(JSON.stringify({
+        prompt: {
+          system: `Selenium Java classes are generated from a template without calling the AI provider. The project guidance is added to each class as a header comment.${guidance}`,
+          user: `Test cases:\n${requested.map(tc => `- ${tc.title}`).join('\n')}`
+        },
+        sections
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Batch mode: generate one Java class per test case (used for whole suites)
+    if (Array.isArray(testCases)) {
+      if (testCases.length === 0 || testCases.length > 200) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Between 1 and 200 test cases are allowed per request' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.log(`Generating Selenium automation for ${testCases.length} test cases`);
+
+      const usedClassNames = new Set<string>();
+      const files = testCases.map((tc) => {
+        let className = sanitizeClassName(tc.title);
+        // Titles that sanitize to the same class name get a numeric suffix
+        let suffix = 2;
+        while (usedClassNames.has(className)) {
+          className = `${sanitizeClassName(tc.title).replace(/Test$/, '')}${suffix}Test`;
+          suffix++;
+        }
+        usedClassNames.add(className);
+        return {
+          testCaseId: tc.id,
+          className,
+          seleniumCode: generateSeleniumJavaCode(tc, className, guidance)
+        };
+      });
+
+      try {
+        await supabase.from('ai_usage_logs').insert({
+          user_id: user.id,
+          project_id: projectId,
+          feature_type: 'selenium_automation_generation',
+          tokens_used: 0,
+          execution_time_ms: Date.now() - startTime,
+          success: true
+        });
+      } catch (logError) {
+        console.error('Failed to log AI usage:', logError);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, files }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
+    if (!testCase) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'testCase or testCases is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
     console.log('Generating Selenium automation for test case:', testCase.title);
 
-    const seleniumCode = generateSeleniumJavaCode(testCase);
+    const seleniumCode = generateSeleniumJavaCode(testCase, sanitizeClassName(testCase.title), guidance);
 
     // Log AI usage for automation generation
     try {
@@ -95,23 +170,102 @@ function sanitizeClassName(title: string): string {
     + 'Test';
 }
 
-function generateSeleniumJavaCode(testCase: TestCase): string {
-  const className = sanitizeClassName(testCase.title);
-  
+/**
+ * Maps data table parameters to unique Java identifiers, e.g. "User Name" -> userName
+ */
+function toJavaVariables(parameters: string[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const used = new Set<string>();
+  parameters.forEach((parameter, index) => {
+    const words = parameter.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    let name = words
+      .map((word, i) => i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+    if (!name || /^[0-9]/.test(name)) {
+      name = `param${name || index + 1}`;
+    }
+    let unique = name;
+    let suffix = 2;
+    while (used.has(unique)) {
+      unique = `${name}${suffix++}`;
+    }
+    used.add(unique);
+    variables[parameter] = unique;
+  });
+  return variables;
+}
+
+function escapeJava(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Builds a Java string expression, concatenating the method parameters in place of {{parameter}} placeholders
+ */
+function toJavaStringExpression(text: string, variables: Record<string, string>): string {
+  const parts = text.split(/\{\{\s*([^{}]+?)\s*\}\}/);
+  return parts
+    .map((part, index) => {
+      if (index % 2 === 0) return `"${escapeJava(part)}"`;
+      return variables[part] || `"${escapeJava(`{{${part}}}`)}"`;
+    })
+    .filter(part => part !== '""')
+    .join(' + ') || '""';
+}
+
+/**
+ * Renders the project guidance as a Java block comment placed above the class
+ */
+function toGuidanceComment(guidance: string): string {
+  if (!guidance.trim()) return '';
+  const lines = guidance.trim().replace(/\*\//g, '* /').split('\n').map(line => line ? ` * ${line}` : ' *');
+  return `/*\n${lines.join('\n')}\n */\n`;
+}
+
+function generateSeleniumJavaCode(testCase: TestCase, className: string = sanitizeClassName(testCase.title), guidance: string = ''): string {
+  const dataTable = testCase.dataTable?.parameters?.length && testCase.dataTable.rows?.length ? testCase.dataTable : null;
+  const variables = dataTable ? toJavaVariables(dataTable.parameters) : {};
+
   let testSteps = '';
   let stepCounter = 1;
   
   testCase.steps.forEach((step) => {
-    const stepComment = `        // Step ${stepCounter}: ${step.content}`;
-    const stepCode = generateStepCode(step, stepCounter);
+    // Expected results of structured steps arrive as 'verify' entries following their action
+    const stepComment = step.type === 'verify'
+      ? `        // Verify step ${stepCounter - 1}: ${step.content}`
+      : `        // Step ${stepCounter}: ${step.content}`;
+    const stepCode = generateStepCode(step, stepCounter, variables);
     testSteps += `${stepComment}\n${stepCode}\n\n`;
-    stepCounter++;
+    if (step.type !== 'verify') {
+      stepCounter++;
+    }
   });
 
+  // Quote every value for @CsvSource (single quotes, doubled when they appear in the value)
+  const csvRows = dataTable
+    ? dataTable.rows.map(row =>
+        `        "${escapeJava(dataTable.parameters.map((_, i) => `'${(row[i] ?? '').replace(/'/g, "''")}'`).join(', '))}"`
+      ).join(',\n')
+    : '';
+  const testAnnotation = dataTable
+    ? `@ParameterizedTest(name = "${escapeJava(`[{index}] ${dataTable.parameters.map((parameter, i) => `${parameter}={${i}}`).join(', ')}`)}")
+    @CsvSource({
+${csvRows}
+    })`
+    : '@Test';
+  const methodParameters = dataTable
+    ? dataTable.parameters.map(parameter => `String ${variables[parameter]}`).join(', ')
+    : '';
+  const parameterizedImports = dataTable
+    ? `import org.junit.jupiter.params.ParameterizedTest;
+import org.junit.jupiter.params.provider.CsvSource;
+`
+    : '';
+
   return `package com.testautomation.tests;
 
 import org.junit.jupiter.api.Test;
-import org.junit.jupiter.api.BeforeEach;
+${parameterizedImports}import org.junit.jupiter.api.BeforeEach;
 import org.junit.jupiter.api.AfterEach;
 import org.openqa.selenium.WebDriver;
 import org.openqa.selenium.WebElement;
@@ -122,10 +276,11 @@ import org.openqa.selenium.support.ui.ExpectedConditions;
 import java.time.Duration;
 import static org.junit.jupiter.api.Assertions.*;
 
-/**
+${toGuidanceComment(guidance)}/**
  * Automated test for: ${testCase.title}
  * Description: ${testCase.description}
- * Priority: ${testCase.priority}
+ * Priority: ${testCase.priority}${dataTable ? `
+ * Data-driven: ${dataTable.rows.length} iterations (requires junit-jupiter-params)` : ''}
  */
 public class ${className} {
     
@@ -140,13 +295,13 @@ public class ${className} {
         driver.manage().window().maximize();
     }
     
-    @Test
-    public void test${className.replace('Test', '')}() {
+    ${testAnnotation}
+    public void test${className.replace('Test', '')}(${methodParameters}) {
         try {
 ${testSteps}
             // Verify expected result: ${testCase.expectedResult}
             // Add your verification logic here
-            assertTrue(true, "Test completed - verify: ${testCase.expectedResult}");
+            assertTrue(true, ${toJavaStringExpression(`Test completed - verify: ${testCase.expectedResult}`, variables)});
             
         } catch (Exception e) {
             fail("Test failed with exception: " + e.getMessage());
@@ -162,9 +317,20 @@ ${testSteps}
 }`;
 }
 
-function generateStepCode(step: { type: string; content: string }, stepNumber: number): string {
+function generateStepCode(step: { type: string; content: string }, stepNumber: number, variables: Record<string, string> = {}): string {
   const content = step.content.toLowerCase();
   
+  if (step.type === 'verify') {
+    return `        WebElement expectedElement${stepNumber - 1} = wait.until(ExpectedConditions.presenceOfElementLocated(By.xpath("//element_xpath")));
+        assertTrue(expectedElement${stepNumber - 1}.isDisplayed(), ${toJavaStringExpression(step.content, variables)});`;
+  }
+
+  // Typed values come from the first data table parameter used in the step
+  const placeholder = step.content
+    .split(/\{\{\s*([^{}]+?)\s*\}\}/)
+    .find((part, index) => index % 2 === 1 && variables[part]);
+  const inputValue = placeholder ? variables[placeholder] : '"test_data"';
+
   // Generate appropriate Selenium code based on step content
   if (content.includes('navigate') || content.includes('open') || content.includes('go to')) {
     return `        driver.get("https://your-application-url.com");`;
@@ -174,7 +340,7 @@ function generateStepCode(step: { type: string; content: string }, stepNumber: n
   } else if (content.includes('enter') || content.includes('type') || content.includes('input')) {
     return `        WebElement inputField${stepNumber} = wait.until(ExpectedConditions.presenceOfElementLocated(By.id("input_id")));
         inputField${stepNumber}.clear();
-        inputField${stepNumber}.sendKeys("test_data");`;
+        inputField${stepNumber}.sendKeys(${inputValue});`;
   } else if (content.includes('verify') || content.includes('check') || content.includes('assert')) {
     return `        WebElement verificationElement${stepNumber} = wait.until(ExpectedConditions.presenceOfElementLocated(By.xpath("//element_xpath")));
         assertTrue(verificationElement${stepNumber}.isDisplayed(), "Element should be visible");`;
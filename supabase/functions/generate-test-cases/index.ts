@@ -3,6 +3,16 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import {
+  AIProviderError,
+  ChatCompletionResult,
+  chatCompletion,
+  describeProvider,
+  logAIUsage,
+  resolveProviderConfig,
+  validateProviderConfig
+} from '../_shared/ai-provider.ts'
+import { buildProjectGuidance, loadProjectMarkdownSettings } from '../_shared/project-settings.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -39,7 +49,8 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { story, azureConfig, customPrompt, imageData } = body;
+    const { story, customPrompt, imageData, dryRun } = body;
+    const aiConfig = resolveProviderConfig(body);
 
     // Input validation
     if (!story || !story.title) {
@@ -63,12 +74,27 @@ serve(async (req) => {
       story.description = story.description.substring(0, 5000) + '... [truncated]';
     }
 
-    // Validate Azure OpenAI config
-    if (!azureConfig || !azureConfig.endpoint || !azureConfig.apiKey || !azureConfig.deploymentId) {
-      return new Response(
-        JSON.stringify({ error: 'Azure OpenAI configuration is required (endpoint, apiKey, deploymentId)' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Load the project's shared step blocks so generated cases can reference them instead of repeating them
+    let sharedSteps: { id: string; name: string; description: string | null; shared_step_items: { step_order: number; action: string }[] }[] = [];
+    if (story.project_id) {
+      const { data: hasAccess } = await supabase.rpc('has_project_access', {
+        _project_id: story.project_id,
+        _user_id: user.id
+      });
+
+      if (hasAccess) {
+        const { data, error: sharedStepsError } = await supabase
+          .from('shared_steps')
+          .select('id, name, description, shared_step_items(step_order, action)')
+          .eq('project_id', story.project_id)
+          .order('name', { ascending: true });
+
+        if (sharedStepsError) {
+          console.error('Failed to load shared steps:', sharedStepsError);
+        } else {
+          sharedSteps = data || [];
+        }
+      }
     }
 
     console.log(`Generating test cases for story: ${story.title}`);
@@ -124,28 +150,61 @@ Format the response as a JSON array of test case objects with the following stru
   "description": "Detailed test case description",
   "type": "positive|negative|edge|boundary", 
   "priority": "high|medium|low",
-  "steps": ["Step 1", "Step 2", "Step 3"],
+  "steps": [
+    { "action": "Step action", "expectedResult": "Expected outcome of this step", "testData": "Input used in this step (optional)" }
+  ],
   "expectedResult": "Expected outcome",
   "testData": "Sample test data, input values, or data sets needed for this test case",
   "category": "functional|ui|integration|performance"
 }
 
+Each step must be an object with a concrete "action"; add "expectedResult" for steps that have an observable outcome and "testData" when the step needs input values.${sharedSteps.length > 0 ? `
+
+SHARED STEPS:
+The project has these reusable step blocks. When a test case needs one of them, add a single step of the form { "sharedStepId": "<id>" } instead of writing its steps out again:
+${sharedSteps.map(sharedStep => {
+  const items = [...(sharedStep.shared_step_items || [])]
+    .sort((a, b) => a.step_order - b.step_order)
+    .map(item => item.action)
+    .join('; ');
+  return `- id: ${sharedStep.id} | ${sharedStep.name}${sharedStep.description ? ` (${sharedStep.description})` : ''}: ${items}`;
+}).join('\n')}` : ''}
+
 Generate 8-12 test cases covering all important scenarios.`;
 
-    // Build Azure OpenAI endpoint from user config
-    const azureEndpoint = `${azureConfig.endpoint}/openai/deployments/${azureConfig.deploymentId}/chat/completions?api-version=${azureConfig.apiVersion}`;
-    
-    const response = await fetch(azureEndpoint, {
-      method: 'POST',
-      headers: {
-        'api-key': azureConfig.apiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    // Guidance the project's team wrote in Project Settings
+    const projectSettings = await loadProjectMarkdownSettings(supabase, story.project_id, user.id);
+    const { guidance, sections } = buildProjectGuidance(projectSettings, ['general', 'testCases']);
+    const systemPrompt = `You are a QA expert who generates comprehensive test cases. When an image is provided, analyze it carefully for UI elements, workflows, and visual components. Return only valid JSON arrays without any markdown formatting or explanations.${guidance}`;
+
+    // Return the assembled prompt without calling the provider
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({
+          prompt: { system: systemPrompt, user: prompt },
+          sections,
+          imageCount: Array.isArray(imageData) ? imageData.length : 0
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate the AI provider config
+    const configError = validateProviderConfig(aiConfig);
+    if (!aiConfig || configError) {
+      return new Response(
+        JSON.stringify({ error: configError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let result: ChatCompletionResult;
+    try {
+      result = await chatCompletion(aiConfig, {
         messages: [
           {
             role: 'system',
-            content: 'You are a QA expert who generates comprehensive test cases. When an image is provided, analyze it carefully for UI elements, workflows, and visual components. Return only valid JSON arrays without any markdown formatting or explanations.'
+            content: systemPrompt
           },
           {
             role: 'user',
@@ -155,7 +214,7 @@ Generate 8-12 test cases covering all important scenarios.`;
                 text: prompt
               },
               ...imageData.map(img => ({
-                type: 'image_url',
+                type: 'image_url' as const,
                 image_url: {
                   url: img.data
                 }
@@ -164,58 +223,59 @@ Generate 8-12 test cases covering all important scenarios.`;
           }
         ],
         temperature: 0.7,
-        max_tokens: 2500,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Azure OpenAI API error:', response.status, errorText);
+        maxTokens: 2500,
+      });
+    } catch (providerError) {
+      if (!(providerError instanceof AIProviderError)) throw providerError;
+      await logAIUsage(supabase, {
+        userId: user.id,
+        projectId: story.project_id,
+        featureType: 'test_case_generation',
+        config: aiConfig,
+        startTime,
+        success: false
+      });
       return new Response(
-        JSON.stringify({ error: `Azure OpenAI API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: providerError.message }),
+        { status: providerError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-
-    // Calculate cost (Azure OpenAI gpt-4o pricing may vary - using standard rates as estimate)
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00003 / 1000) + (completionTokens * 0.00006 / 1000); // GPT-4o Azure pricing estimate
+    const content = result.content;
 
-    // Log usage to analytics
     try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: story.project_id,
-        feature_type: 'test_case_generation',
-        tokens_used: totalTokens,
-        openai_model: `azure-${azureConfig.deploymentId}`,
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
+      // Parse the JSON response from the model
+      const testCases = JSON.parse(content);
+
+      await logAIUsage(supabase, {
+        userId: user.id,
+        projectId: story.project_id,
+        featureType: 'test_case_generation',
+        config: aiConfig,
+        result,
+        startTime,
         success: true
       });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
-    }
-
-    try {
-      // Parse the JSON response from OpenAI
-      const testCases = JSON.parse(content);
       
+      // Resolve shared step references, dropping any id that is not one of this project's blocks
+      const resolveSteps = (steps: unknown) => {
+        if (!Array.isArray(steps)) return steps;
+        return steps.flatMap((step: { sharedStepId?: string }) => {
+          if (!step?.sharedStepId) return [step];
+          const sharedStep = sharedSteps.find(shared => shared.id === step.sharedStepId);
+          return sharedStep ? [{ action: sharedStep.name, sharedStepId: sharedStep.id }] : [];
+        });
+      };
+
       // Add additional metadata
       const enrichedTestCases = testCases.map((testCase: any, index: number) => ({
         ...testCase,
+        steps: resolveSteps(testCase.steps),
         id: testCase.id || `TC${String(index + 1).padStart(3, '0')}`,
         storyId: story.id,
         storyTitle: story.title,
         generatedAt: new Date().toISOString(),
-        source: `Azure OpenAI ${azureConfig.deploymentId}`
+        source: describeProvider(aiConfig)
       }));
 
       console.log(`Generated ${enrichedTestCases.length} test cases for story ${story.id}`);
@@ -230,31 +290,24 @@ Generate 8-12 test cases covering all important scenarios.`;
       );
 
     } catch (parseError) {
-      console.error('Failed to parse OpenAI response as JSON:', parseError);
+      console.error('Failed to parse AI response as JSON:', parseError);
       console.log('Raw content:', content);
-      
+
       // Log failed usage
-      try {
-        await supabase.from('ai_usage_logs').insert({
-          user_id: user.id,
-          project_id: story.project_id,
-          feature_type: 'test_case_generation',
-          tokens_used: data.usage?.total_tokens || 0,
-          openai_model: `azure-${azureConfig.deploymentId}`,
-          openai_tokens_prompt: data.usage?.prompt_tokens || 0,
-          openai_tokens_completion: data.usage?.completion_tokens || 0,
-          openai_cost_usd: ((data.usage?.prompt_tokens || 0) * 0.00015 / 1000) + ((data.usage?.completion_tokens || 0) * 0.0006 / 1000),
-          execution_time_ms: Date.now() - startTime,
-          success: false
-        });
-      } catch (logError) {
-        console.error('Failed to log AI usage:', logError);
-      }
-      
+      await logAIUsage(supabase, {
+        userId: user.id,
+        projectId: story.project_id,
+        featureType: 'test_case_generation',
+        config: aiConfig,
+        result,
+        startTime,
+        success: false
+      });
+
       return new Response(
         JSON.stringify({
           error: 'Failed to parse generated test cases',
-          details: 'Azure OpenAI response was not valid JSON',
+          details: 'The AI response was not valid JSON',
           rawContent: content
         }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
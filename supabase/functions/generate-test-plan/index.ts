@@ -2,6 +2,8 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ChatCompletionResult, chatCompletion, logAIUsage, resolveProviderConfig, validateProviderConfig } from '../_shared/ai-provider.ts'
+import { buildProjectGuidance, loadProjectMarkdownSettings } from '../_shared/project-settings.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -33,15 +35,8 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { userStories, projectName, testingScope, projectId, customPrompt, requirementsDoc, openAIConfig } = body;
-
-    // Validate OpenAI configuration
-    if (!openAIConfig?.endpoint || !openAIConfig?.apiKey || !openAIConfig?.deploymentId) {
-      return new Response(
-        JSON.stringify({ error: 'Azure OpenAI configuration is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const { userStories, projectName, testingScope, projectId, customPrompt, requirementsDoc, release, dryRun } = body;
+    const aiConfig = resolveProviderConfig(body);
 
     // Input validation - either user stories or requirements document required
     if ((!userStories || !Array.isArray(userStories) || userStories.length === 0) && !requirementsDoc) {
@@ -86,9 +81,14 @@ serve(async (req) => {
       contentSection += `Requirements Document:\n${requirementsDoc}\n\n`;
     }
 
+    // Scope the plan to a release / milestone when one was selected
+    const releaseSection = release && typeof release.name === 'string'
+      ? `Release: ${release.name}${release.startDate ? `, starting ${release.startDate}` : ''}${release.targetDate ? `, targeting ${release.targetDate}` : ''}\n\n`
+      : '';
+
     let prompt = `Generate a comprehensive test plan for the project "${projectName}".
 
-${contentSection}Testing Scope: ${testingScope || 'Full application testing'}`;
+${releaseSection}${contentSection}Testing Scope: ${testingScope || 'Full application testing'}`;
 
     if (customPrompt) {
       prompt += `\n\nAdditional Requirements:\n${customPrompt}`;
@@ -108,60 +108,67 @@ ${contentSection}Testing Scope: ${testingScope || 'Full application testing'}`;
 
 Format the response as a structured document with clear sections and subsections.`;
 
-    // Use Azure OpenAI endpoint
-    const azureEndpoint = `${openAIConfig.endpoint}/openai/deployments/${openAIConfig.deploymentId}/chat/completions?api-version=${openAIConfig.apiVersion || '2024-02-15-preview'}`;
+    // Guidance the project's team wrote in Project Settings
+    const projectSettings = await loadProjectMarkdownSettings(supabase, projectId, user.id);
+    const { guidance, sections } = buildProjectGuidance(projectSettings, ['general', 'testPlan']);
+    const systemPrompt = `You are an expert test manager with deep knowledge of software testing methodologies, test planning, and quality assurance. Generate comprehensive, professional test plans that follow industry standards.${guidance}`;
+
+    // Return the assembled prompt without calling the provider
+    if (dryRun) {
+      return new Response(JSON.stringify({
+        prompt: { system: systemPrompt, user: prompt },
+        sections
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate the AI provider configuration
+    const configError = validateProviderConfig(aiConfig);
+    if (!aiConfig || configError) {
+      return new Response(
+        JSON.stringify({ error: configError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    const response = await fetch(azureEndpoint, {
-      method: 'POST',
-      headers: {
-        'api-key': openAIConfig.apiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    let result: ChatCompletionResult;
+    try {
+      result = await chatCompletion(aiConfig, {
         messages: [
           { 
             role: 'system', 
-            content: 'You are an expert test manager with deep knowledge of software testing methodologies, test planning, and quality assurance. Generate comprehensive, professional test plans that follow industry standards.' 
+            content: systemPrompt
           },
           { role: 'user', content: prompt }
         ],
         temperature: 0.7,
-        max_tokens: 4000,
-      }),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      console.error('OpenAI API error:', data);
-      throw new Error(data.error?.message || 'Failed to generate test plan');
+        maxTokens: 4000,
+      });
+    } catch (providerError) {
+      await logAIUsage(supabase, {
+        userId: user.id,
+        projectId,
+        featureType: 'test_plan_generation',
+        config: aiConfig,
+        startTime,
+        success: false
+      });
+      throw providerError;
     }
 
-    const testPlan = data.choices[0].message.content;
-
-    // Calculate cost and log usage
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00015 / 1000) + (completionTokens * 0.0006 / 1000);
+    const testPlan = result.content;
 
     // Log successful usage
-    try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: projectId,
-        feature_type: 'test_plan_generation',
-        tokens_used: totalTokens,
-        openai_model: 'gpt-4o-mini',
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
-        success: true
-      });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
-    }
+    await logAIUsage(supabase, {
+      userId: user.id,
+      projectId,
+      featureType: 'test_plan_generation',
+      config: aiConfig,
+      result,
+      startTime,
+      success: true
+    });
     
     console.log('Test plan generated successfully');
 
@@ -2,14 +2,14 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ChatCompletionResult, chatCompletion, logAIUsage, resolveProviderConfig, validateProviderConfig } from '../_shared/ai-provider.ts'
+import { buildProjectGuidance, loadProjectMarkdownSettings } from '../_shared/project-settings.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 )
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -35,14 +35,76 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { testCases, projectName, testExecutionData, reportType, projectId, azureDevOpsData, openAIConfig } = body;
+    const { projectName, testExecutionData, reportType, projectId, azureDevOpsData, testRunId, releaseName, dryRun } = body;
+    const aiConfig = resolveProviderConfig(body);
+    let { testCases } = body;
+
+    // When a test run is selected, report on its recorded results instead of the live test case status
+    let testRun: { id: string; name: string; status: string; started_at: string; completed_at: string | null } | null = null;
+    if (testRunId) {
+      const { data: runData, error: runError } = await supabase
+        .from('test_runs')
+        .select('id, name, status, project_id, started_at, completed_at')
+        .eq('id', testRunId)
+        .single();
+
+      if (runError || !runData || runData.project_id !== projectId) {
+        return new Response(
+          JSON.stringify({ error: 'Test run not found for this project' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    // Validate OpenAI configuration
-    if (!openAIConfig || !openAIConfig.apiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OpenAI configuration is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      const { data: hasAccess } = await supabase.rpc('has_project_access', {
+        _project_id: projectId,
+        _user_id: user.id
+      });
+
+      if (!hasAccess) {
+        return new Response(
+          JSON.stringify({ error: 'Access denied to this project' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: runResults, error: resultsError } = await supabase
+        .from('test_run_results')
+        .select('test_case_id, status, notes, iteration_index, iteration_data, test_cases(title, priority, user_stories(title)), test_configurations(name)')
+        .eq('test_run_id', testRunId);
+
+      if (resultsError) {
+        throw new Error(`Failed to load test run results: ${resultsError.message}`);
+      }
+
+      type RunResultRow = {
+        test_case_id: string;
+        status: string;
+        notes: string | null;
+        iteration_index: number;
+        iteration_data: Record<string, string> | null;
+        test_cases: { title: string; priority: string; user_stories: { title: string } | null } | null;
+        test_configurations: { name: string } | null;
+      };
+
+      testRun = runData;
+      testCases = ((runResults || []) as RunResultRow[])
+        .filter(result => result.test_cases)
+        .map(result => ({
+          // Each data row of a parameterized test case is reported as its own iteration, and each
+          // configuration the run targets as its own execution
+          title: [
+            result.test_cases.title,
+            result.iteration_data
+              ? `[iteration ${result.iteration_index}: ${Object.entries(result.iteration_data).map(([key, value]) => `${key}=${value}`).join(', ')}]`
+              : '',
+            result.test_configurations ? `(configuration: ${result.test_configurations.name})` : ''
+          ].filter(Boolean).join(' '),
+          testCaseId: result.test_case_id,
+          status: result.status === 'not-run' ? 'pending' : result.status,
+          priority: result.test_cases.priority,
+          userStoryTitle: result.test_cases.user_stories?.title,
+          notes: result.notes
+        }));
     }
 
     // Input validation
@@ -67,13 +129,22 @@ serve(async (req) => {
       );
     }
 
-    // Limit test cases to prevent excessive API usage
-    if (testCases.length > 200) {
+    // Limit test cases to prevent excessive API usage. A run has one row per test case, iteration and
+    // configuration, so distinct test cases are counted, with a separate cap on executions.
+    const distinctTestCases = new Set(testCases.map((tc: { testCaseId?: string; id?: string; title?: string }) => tc.testCaseId || tc.id || tc.title)).size;
+    if (distinctTestCases > 200) {
       return new Response(
         JSON.stringify({ error: 'Maximum 200 test cases allowed per request' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+
+    if (testCases.length > 1000) {
+      return new Response(
+        JSON.stringify({ error: 'Maximum 1000 test executions allowed per request' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
     console.log('Generating test report for project:', projectName);
 
@@ -87,7 +158,9 @@ serve(async (req) => {
 
     // Process Azure DevOps defect data if provided
     let defectMetrics = '';
+    let defectSource: 'azure-devops' | 'app' | null = null;
     if (azureDevOpsData?.defects && azureDevOpsData?.metrics) {
+      defectSource = 'azure-devops';
       const metrics = azureDevOpsData.metrics;
       defectMetrics = `
 Defect Metrics (Azure DevOps Integration):
@@ -108,10 +181,71 @@ ${index + 1}. ${defect.title}
    Assigned To: ${defect.assignedTo}
    Created: ${new Date(defect.createdDate).toLocaleDateString()}
 `).join('\n')}`;
+    } else if (projectId) {
+      // Without Azure DevOps data, fall back to the defects logged in the app
+      const { data: hasAccess } = await supabase.rpc('has_project_access', {
+        _project_id: projectId,
+        _user_id: user.id
+      });
+
+      if (hasAccess) {
+        // For a selected run, only the defects logged against its results count
+        let defectsQuery = supabase
+          .from('defects')
+          .select(`defect_number, title, severity, priority, state, created_at, test_cases(title)${testRunId ? ', test_run_results!inner(test_run_id)' : ''}`)
+          .eq('project_id', projectId)
+          .order('defect_number', { ascending: false });
+
+        if (testRunId) {
+          defectsQuery = defectsQuery.eq('test_run_results.test_run_id', testRunId);
+        }
+
+        const { data: defectRows, error: defectsError } = await defectsQuery;
+        if (defectsError) {
+          console.error('Error loading in-app defects:', defectsError);
+        }
+
+        type DefectRow = {
+          defect_number: number;
+          title: string;
+          severity: string;
+          priority: string;
+          state: string;
+          created_at: string;
+          test_cases: { title: string } | null;
+        };
+
+        const defects = (defectRows || []) as DefectRow[];
+        if (defects.length > 0) {
+          const totalDefects = defects.length;
+          const openDefects = defects.filter(d => ['new', 'open', 'in-progress'].includes(d.state)).length;
+          const closedDefects = totalDefects - openDefects;
+          defectSource = 'app';
+          defectMetrics = `
+Defect Metrics (In-App Defects${testRun ? ` logged against ${testRun.name}` : ''}):
+- Total Defects: ${totalDefects}
+- Open Defects: ${openDefects}
+- Closed Defects: ${closedDefects}
+- Critical Defects: ${defects.filter(d => d.severity === 'critical').length}
+- High Priority Defects: ${defects.filter(d => d.priority === 'high' || d.severity === 'high').length}
+- Medium Priority Defects: ${defects.filter(d => d.priority === 'medium' || d.severity === 'medium').length}
+- Low Priority Defects: ${defects.filter(d => d.priority === 'low' || d.severity === 'low').length}
+- Defect Closure Rate: ${((closedDefects / totalDefects) * 100).toFixed(1)}%
+
+Recent Defects:
+${defects.slice(0, 10).map((defect, index) => `
+${index + 1}. BUG-${defect.defect_number} ${defect.title}
+   Priority: ${defect.priority} | Severity: ${defect.severity}
+   State: ${defect.state}
+   Test Case: ${defect.test_cases?.title || 'N/A'}
+   Created: ${new Date(defect.created_at).toLocaleDateString()}
+`).join('\n')}`;
+        }
+      }
     }
 
     const prompt = `Generate a comprehensive test execution report for the project "${projectName}" with integrated defect analysis.
-
+${typeof releaseName === 'string' && releaseName ? `\nRelease: ${releaseName}\n` : ''}${testRun ? `\nTest Run: ${testRun.name} (${testRun.status}, started ${new Date(testRun.started_at).toLocaleDateString()}${testRun.completed_at ? `, completed ${new Date(testRun.completed_at).toLocaleDateString()}` : ''})\n` : ''}
 Test Execution Statistics:
 - Total Test Cases: ${totalTests}
 - Passed: ${passedTests}
@@ -128,6 +262,7 @@ ${index + 1}. ${tc.title}
    Priority: ${tc.priority}
    User Story: ${tc.userStoryTitle || 'N/A'}
    ${tc.status === 'failed' ? 'Issue: Test failed during execution' : ''}
+   ${tc.notes ? `Execution Notes: ${tc.notes}` : ''}
 `).join('\n')}
 
 Report Type: ${reportType || 'Executive Summary'}
@@ -137,7 +272,7 @@ Create a comprehensive test execution report that includes:
 1. Executive Summary
 2. Test Execution Overview
 3. Test Results Summary with charts description
-4. Defect Analysis and Quality Metrics (if Azure DevOps data is available)
+4. Defect Analysis and Quality Metrics (if defect data is available)
 5. Test-to-Defect Correlation Analysis
 6. Detailed Test Results by Priority/User Story
 7. Failed Test Cases and Related Defects Analysis
@@ -146,83 +281,71 @@ Create a comprehensive test execution report that includes:
 10. Recommendations and Next Steps
 11. Appendix with test case and defect details
 
-${azureDevOpsData ? 'Include detailed analysis of the relationship between test failures and defects. Provide insights on defect density, escape rates, and quality trends.' : ''}
+${defectSource ? 'Include detailed analysis of the relationship between test failures and defects. Provide insights on defect density, escape rates, and quality trends.' : ''}
 
 Format the response as a professional document with clear sections, bullet points, and actionable insights for stakeholders.`;
 
-    // Determine the API endpoint - use Azure if baseURL is provided, otherwise use OpenAI
-    const isAzure = openAIConfig.baseURL && openAIConfig.baseURL.includes('openai.azure.com');
-    const deploymentId = openAIConfig.deploymentId || openAIConfig.model || 'gpt-4o-mini';
-    const apiVersion = openAIConfig.apiVersion || '2024-02-15-preview';
-    const apiEndpoint = isAzure 
-      ? `${openAIConfig.baseURL}/openai/deployments/${deploymentId}/chat/completions?api-version=${apiVersion}`
-      : 'https://api.openai.com/v1/chat/completions';
-
-    const headers = isAzure
-      ? {
-          'api-key': openAIConfig.apiKey,
-          'Content-Type': 'application/json',
-        }
-      : {
-          'Authorization': `Bearer ${openAIConfig.apiKey}`,
-          'Content-Type': 'application/json',
-        };
-
-    const requestBody: any = {
-      messages: [
-        { 
-          role: 'system', 
-          content: 'You are a senior QA manager with expertise in test reporting, quality metrics, and stakeholder communication. Generate comprehensive, data-driven test reports that provide clear insights and actionable recommendations.' 
-        },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.6,
-      max_tokens: 4000,
-    };
-
-    // Only include model for non-Azure OpenAI
-    if (!isAzure) {
-      requestBody.model = 'gpt-4o-mini';
+    // Guidance the project's team wrote in Project Settings
+    const projectSettings = await loadProjectMarkdownSettings(supabase, projectId, user.id);
+    const { guidance, sections } = buildProjectGuidance(projectSettings, ['general', 'testReport']);
+    const systemPrompt = `You are a senior QA manager with expertise in test reporting, quality metrics, and stakeholder communication. Generate comprehensive, data-driven test reports that provide clear insights and actionable recommendations.${guidance}`;
+
+    // Return the assembled prompt without calling the provider
+    if (dryRun) {
+      return new Response(JSON.stringify({
+        prompt: { system: systemPrompt, user: prompt },
+        sections
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    const response = await fetch(apiEndpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      console.error('OpenAI API error:', data);
-      throw new Error(data.error?.message || 'Failed to generate test report');
+    // Validate the AI provider configuration
+    const configError = validateProviderConfig(aiConfig);
+    if (!aiConfig || configError) {
+      return new Response(
+        JSON.stringify({ error: configError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const testReport = data.choices[0].message.content;
-
-    // Calculate cost and log usage
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00015 / 1000) + (completionTokens * 0.0006 / 1000);
-
-    // Log successful usage
+    let result: ChatCompletionResult;
     try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: projectId,
-        feature_type: 'test_report_generation',
-        tokens_used: totalTokens,
-        openai_model: 'gpt-4o-mini',
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
-        success: true
+      result = await chatCompletion(aiConfig, {
+        messages: [
+          { 
+            role: 'system', 
+            content: systemPrompt
+          },
+          { role: 'user', content: prompt }
+        ],
+        temperature: 0.6,
+        maxTokens: 4000,
+      });
+    } catch (providerError) {
+      await logAIUsage(supabase, {
+        userId: user.id,
+        projectId,
+        featureType: 'test_report_generation',
+        config: aiConfig,
+        startTime,
+        success: false
       });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
+      throw providerError;
     }
+
+    const testReport = result.content;
+
+    // Log successful usage
+    await logAIUsage(supabase, {
+      userId: user.id,
+      projectId,
+      featureType: 'test_report_generation',
+      config: aiConfig,
+      result,
+      startTime,
+      success: true
+    });
     
     console.log('Test report generated successfully');
 
@@ -240,7 +363,10 @@ Format the response as a professional document with clear sections, bullet point
         projectName,
         generatedAt: new Date().toISOString(),
         reportType,
-        executionPeriod: testExecutionData
+        releaseName: releaseName || null,
+        executionPeriod: testExecutionData,
+        testRun: testRun ? { id: testRun.id, name: testRun.name, status: testRun.status } : null,
+        defectSource
       }
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
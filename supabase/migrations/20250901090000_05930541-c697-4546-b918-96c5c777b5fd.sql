@@ -0,0 +1,159 @@
+-- Create security definer function to check project access (owner or member)
+CREATE OR REPLACE FUNCTION public.has_project_access(_project_id UUID, _user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM public.projects
+    WHERE projects.id = $1 AND projects.created_by = $2
+  ) OR public.is_project_member($1, $2);
+$$;
+
+-- Create test_runs table (one row per execution cycle)
+CREATE TABLE public.test_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'in-progress', -- 'in-progress', 'completed'
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_runs_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255),
+  CONSTRAINT test_runs_status_check CHECK (status IN ('in-progress', 'completed'))
+);
+
+-- Create test_run_results table (one row per test case per run)
+CREATE TABLE public.test_run_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_run_id UUID REFERENCES public.test_runs(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'not-run',
+  notes TEXT,
+  executed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  executed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (test_run_id, test_case_id),
+  CONSTRAINT test_run_results_status_check CHECK (status IN ('not-run', 'passed', 'failed', 'blocked'))
+);
+
+CREATE INDEX idx_test_runs_project_id ON public.test_runs(project_id);
+CREATE INDEX idx_test_run_results_test_run_id ON public.test_run_results(test_run_id);
+CREATE INDEX idx_test_run_results_test_case_id ON public.test_run_results(test_case_id);
+
+-- Enable RLS
+ALTER TABLE public.test_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.test_run_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for test_runs (project owners and project members)
+CREATE POLICY "Project members can view test runs"
+ON public.test_runs
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create test runs"
+ON public.test_runs
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update test runs"
+ON public.test_runs
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete test runs"
+ON public.test_runs
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- RLS policies for test_run_results (access follows the parent run)
+CREATE POLICY "Project members can view test run results"
+ON public.test_run_results
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_results.test_run_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+-- The test case must belong to the run's project, or its details would leak into that project's reports
+CREATE POLICY "Project members can create test run results"
+ON public.test_run_results
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_id
+  AND public.has_project_access(test_runs.project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_runs.project_id
+  )
+));
+
+CREATE POLICY "Project members can update test run results"
+ON public.test_run_results
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_results.test_run_id
+  AND public.has_project_access(test_runs.project_id)
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_id
+  AND public.has_project_access(test_runs.project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_runs.project_id
+  )
+));
+
+CREATE POLICY "Project members can delete test run results"
+ON public.test_run_results
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_results.test_run_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+-- Keep test_cases.status in sync with the most recently recorded execution
+CREATE OR REPLACE FUNCTION public.sync_test_case_status_from_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'not-run' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.test_cases
+    SET status = NEW.status
+    WHERE id = NEW.test_case_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_test_case_status_on_result_update
+  AFTER UPDATE OF status ON public.test_run_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_test_case_status_from_result();
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_test_runs_updated_at
+  BEFORE UPDATE ON public.test_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_test_run_results_updated_at
+  BEFORE UPDATE ON public.test_run_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
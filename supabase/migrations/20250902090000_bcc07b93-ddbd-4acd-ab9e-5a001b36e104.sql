@@ -0,0 +1,187 @@
+-- Create test_case_steps table (structured steps replacing newline-joined test_cases.steps)
+CREATE TABLE public.test_case_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  step_order INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  expected_result TEXT,
+  test_data TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_case_steps_order_check CHECK (step_order >= 1)
+);
+
+-- Create test_run_step_results table (per-step outcome within a run result).
+-- Results outlive the step they were recorded against: when a step is removed from its test case,
+-- the step reference is cleared and its text is kept in step_action / step_expected_result.
+CREATE TABLE public.test_run_step_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_run_result_id UUID REFERENCES public.test_run_results(id) ON DELETE CASCADE NOT NULL,
+  test_case_step_id UUID REFERENCES public.test_case_steps(id) ON DELETE SET NULL,
+  step_action TEXT,
+  step_expected_result TEXT,
+  status TEXT NOT NULL DEFAULT 'not-run',
+  actual_result TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (test_run_result_id, test_case_step_id),
+  CONSTRAINT test_run_step_results_status_check CHECK (status IN ('not-run', 'passed', 'failed', 'blocked'))
+);
+
+CREATE INDEX idx_test_case_steps_test_case_id ON public.test_case_steps(test_case_id, step_order);
+CREATE INDEX idx_test_run_step_results_result_id ON public.test_run_step_results(test_run_result_id);
+
+-- Migrate existing newline-joined steps into structured rows, in line order with blank lines skipped
+INSERT INTO public.test_case_steps (test_case_id, step_order, action)
+SELECT tc.id, s.step_order, trim(s.action)
+FROM public.test_cases tc
+CROSS JOIN LATERAL (
+  SELECT lines.action, row_number() OVER (ORDER BY lines.ord) AS step_order
+  FROM unnest(string_to_array(tc.steps, E'\n')) WITH ORDINALITY AS lines(action, ord)
+  WHERE trim(lines.action) <> ''
+) s
+WHERE tc.steps IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.test_case_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.test_run_step_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for test_case_steps (access follows the parent test case)
+CREATE POLICY "Project members can view test case steps"
+ON public.test_case_steps
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_cases
+  WHERE test_cases.id = test_case_steps.test_case_id
+  AND public.has_project_access(test_cases.project_id)
+));
+
+CREATE POLICY "Project members can create test case steps"
+ON public.test_case_steps
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_cases
+  WHERE test_cases.id = test_case_id
+  AND public.has_project_access(test_cases.project_id)
+));
+
+CREATE POLICY "Project members can update test case steps"
+ON public.test_case_steps
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.test_cases
+  WHERE test_cases.id = test_case_steps.test_case_id
+  AND public.has_project_access(test_cases.project_id)
+));
+
+CREATE POLICY "Project members can delete test case steps"
+ON public.test_case_steps
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.test_cases
+  WHERE test_cases.id = test_case_steps.test_case_id
+  AND public.has_project_access(test_cases.project_id)
+));
+
+-- RLS policies for test_run_step_results (access follows the parent run)
+CREATE POLICY "Project members can view test run step results"
+ON public.test_run_step_results
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_run_results
+  JOIN public.test_runs ON test_runs.id = test_run_results.test_run_id
+  WHERE test_run_results.id = test_run_step_results.test_run_result_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+CREATE POLICY "Project members can create test run step results"
+ON public.test_run_step_results
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_run_results
+  JOIN public.test_runs ON test_runs.id = test_run_results.test_run_id
+  WHERE test_run_results.id = test_run_result_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+CREATE POLICY "Project members can update test run step results"
+ON public.test_run_step_results
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.test_run_results
+  JOIN public.test_runs ON test_runs.id = test_run_results.test_run_id
+  WHERE test_run_results.id = test_run_step_results.test_run_result_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+CREATE POLICY "Project members can delete test run step results"
+ON public.test_run_step_results
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.test_run_results
+  JOIN public.test_runs ON test_runs.id = test_run_results.test_run_id
+  WHERE test_run_results.id = test_run_step_results.test_run_result_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+-- Keep the legacy test_cases.steps text column in sync for reports and AI prompts
+CREATE OR REPLACE FUNCTION public.sync_test_case_steps_text()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _test_case_id UUID;
+BEGIN
+  _test_case_id := COALESCE(NEW.test_case_id, OLD.test_case_id);
+
+  UPDATE public.test_cases
+  SET steps = (
+    SELECT string_agg(action, E'\n' ORDER BY step_order)
+    FROM public.test_case_steps
+    WHERE test_case_id = _test_case_id
+  )
+  WHERE id = _test_case_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_test_case_steps_text_on_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.test_case_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_test_case_steps_text();
+
+-- Keep the text of a removed step on the results recorded against it
+CREATE OR REPLACE FUNCTION public.snapshot_removed_test_case_step()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.test_run_step_results
+  SET step_action = OLD.action,
+      step_expected_result = OLD.expected_result
+  WHERE test_case_step_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER snapshot_removed_test_case_step_on_delete
+  BEFORE DELETE ON public.test_case_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_removed_test_case_step();
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_test_case_steps_updated_at
+  BEFORE UPDATE ON public.test_case_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_test_run_step_results_updated_at
+  BEFORE UPDATE ON public.test_run_step_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
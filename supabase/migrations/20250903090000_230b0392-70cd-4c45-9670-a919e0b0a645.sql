@@ -0,0 +1,98 @@
+-- Create private storage bucket for test execution evidence (screenshots, logs, HAR files)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('test-evidence', 'test-evidence', false, 20971520)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored under "<project_id>/<test_case_id>/<file>", so access follows the first folder
+CREATE POLICY "Project members can view test evidence"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'test-evidence'
+  AND public.has_project_access(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Project members can upload test evidence"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'test-evidence'
+  AND public.has_project_access(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Project members can delete test evidence"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'test-evidence'
+  AND public.has_project_access(((storage.foldername(name))[1])::uuid)
+);
+
+-- Create test_attachments table (metadata for files in the test-evidence bucket)
+CREATE TABLE public.test_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  test_run_result_id UUID REFERENCES public.test_run_results(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  file_size INTEGER,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_attachments_file_name_length_check CHECK (length(file_name) >= 1 AND length(file_name) <= 255)
+);
+
+CREATE INDEX idx_test_attachments_test_case_id ON public.test_attachments(test_case_id);
+CREATE INDEX idx_test_attachments_test_run_result_id ON public.test_attachments(test_run_result_id);
+
+-- Enable RLS
+ALTER TABLE public.test_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for test_attachments
+CREATE POLICY "Project members can view test attachments"
+ON public.test_attachments
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+-- The test case and run result must belong to the attachment's project
+CREATE POLICY "Project members can create test attachments"
+ON public.test_attachments
+FOR INSERT
+WITH CHECK (
+  public.has_project_access(project_id)
+  AND auth.uid() = uploaded_by
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_attachments.project_id
+  )
+  AND (
+    test_run_result_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.test_run_results r
+      JOIN public.test_runs run ON run.id = r.test_run_id
+      WHERE r.id = test_run_result_id
+      AND run.project_id = test_attachments.project_id
+    )
+  )
+);
+
+-- Lets merge_test_cases move attachments onto the kept test case
+CREATE POLICY "Project members can update test attachments"
+ON public.test_attachments
+FOR UPDATE
+USING (public.has_project_access(project_id))
+WITH CHECK (
+  public.has_project_access(project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_attachments.project_id
+  )
+);
+
+CREATE POLICY "Project members can delete test attachments"
+ON public.test_attachments
+FOR DELETE
+USING (public.has_project_access(project_id));
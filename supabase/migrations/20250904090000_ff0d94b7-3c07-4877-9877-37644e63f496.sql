@@ -0,0 +1,152 @@
+-- Create test_suites table (nested folders of test cases per project)
+CREATE TABLE public.test_suites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.test_suites(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_suites_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255),
+  CONSTRAINT test_suites_not_own_parent_check CHECK (parent_id IS DISTINCT FROM id)
+);
+
+-- Create test_suite_cases table (a test case can belong to several suites)
+CREATE TABLE public.test_suite_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  suite_id UUID REFERENCES public.test_suites(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (suite_id, test_case_id)
+);
+
+CREATE INDEX idx_test_suites_project_id ON public.test_suites(project_id);
+CREATE INDEX idx_test_suites_parent_id ON public.test_suites(parent_id);
+CREATE INDEX idx_test_suite_cases_test_case_id ON public.test_suite_cases(test_case_id);
+
+-- Enable RLS
+ALTER TABLE public.test_suites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.test_suite_cases ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for test_suites
+CREATE POLICY "Project members can view test suites"
+ON public.test_suites
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create test suites"
+ON public.test_suites
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update test suites"
+ON public.test_suites
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete test suites"
+ON public.test_suites
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- RLS policies for test_suite_cases (access follows the parent suite)
+CREATE POLICY "Project members can view test suite cases"
+ON public.test_suite_cases
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_suites
+  WHERE test_suites.id = test_suite_cases.suite_id
+  AND public.has_project_access(test_suites.project_id)
+));
+
+-- The test case must belong to the suite's project
+CREATE POLICY "Project members can create test suite cases"
+ON public.test_suite_cases
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_suites
+  WHERE test_suites.id = suite_id
+  AND public.has_project_access(test_suites.project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_suites.project_id
+  )
+));
+
+CREATE POLICY "Project members can update test suite cases"
+ON public.test_suite_cases
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.test_suites
+  WHERE test_suites.id = test_suite_cases.suite_id
+  AND public.has_project_access(test_suites.project_id)
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_suites
+  WHERE test_suites.id = suite_id
+  AND public.has_project_access(test_suites.project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.test_cases tc
+    WHERE tc.id = test_case_id
+    AND tc.project_id = test_suites.project_id
+  )
+));
+
+CREATE POLICY "Project members can delete test suite cases"
+ON public.test_suite_cases
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.test_suites
+  WHERE test_suites.id = test_suite_cases.suite_id
+  AND public.has_project_access(test_suites.project_id)
+));
+
+-- Prevent cycles and cross-project nesting when a suite is moved
+CREATE OR REPLACE FUNCTION public.validate_test_suite_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.test_suites
+    WHERE id = NEW.parent_id AND project_id = NEW.project_id
+  ) THEN
+    RAISE EXCEPTION 'Parent suite must belong to the same project';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.test_suites WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT s.id, s.parent_id
+      FROM public.test_suites s
+      JOIN ancestors a ON s.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A suite cannot be moved into one of its own sub-suites';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_test_suite_parent_on_change
+  BEFORE INSERT OR UPDATE OF parent_id ON public.test_suites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_test_suite_parent();
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_test_suites_updated_at
+  BEFORE UPDATE ON public.test_suites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
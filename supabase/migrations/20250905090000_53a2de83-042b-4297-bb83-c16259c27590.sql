@@ -0,0 +1,201 @@
+-- Create test_case_revisions table (snapshot of a test case after every content change)
+CREATE TABLE public.test_case_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expected_result TEXT,
+  test_data TEXT,
+  priority TEXT,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_name TEXT,
+  transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (test_case_id, revision_number)
+);
+
+CREATE INDEX idx_test_case_revisions_test_case_id ON public.test_case_revisions(test_case_id, revision_number DESC);
+
+-- Enable RLS (rows are written by the trigger only)
+ALTER TABLE public.test_case_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view test case revisions"
+ON public.test_case_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_cases
+  WHERE test_cases.id = test_case_revisions.test_case_id
+  AND public.has_project_access(test_cases.project_id)
+));
+
+-- Snapshot the structured steps of a test case as JSON
+CREATE OR REPLACE FUNCTION public.test_case_steps_snapshot(_test_case_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('action', action, 'expected_result', expected_result, 'test_data', test_data)
+      ORDER BY step_order
+    ),
+    '[]'::jsonb
+  )
+  FROM public.test_case_steps
+  WHERE test_case_id = _test_case_id;
+$$;
+
+-- Record a revision whenever the content of a test case changes.
+-- Step edits reach this trigger through sync_test_case_steps_text(), which updates test_cases once per
+-- step row, so changes made in the same transaction, or by the same user within a few seconds
+-- (field update followed by the step save from the editor), are folded into a single revision.
+CREATE OR REPLACE FUNCTION public.record_test_case_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last public.test_case_revisions%ROWTYPE;
+  _steps JSONB;
+  _changed TEXT[] := '{}';
+  _note TEXT := NULLIF(current_setting('app.revision_note', true), '');
+  _user_name TEXT;
+BEGIN
+  _steps := public.test_case_steps_snapshot(NEW.id);
+
+  SELECT * INTO _last
+  FROM public.test_case_revisions
+  WHERE test_case_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF _last.id IS NULL THEN
+    _changed := ARRAY['created'];
+  ELSE
+    IF NEW.title IS DISTINCT FROM _last.title THEN _changed := _changed || 'title'; END IF;
+    IF NEW.description IS DISTINCT FROM _last.description THEN _changed := _changed || 'description'; END IF;
+    IF _steps IS DISTINCT FROM _last.steps THEN _changed := _changed || 'steps'; END IF;
+    IF NEW.expected_result IS DISTINCT FROM _last.expected_result THEN _changed := _changed || 'expected_result'; END IF;
+    IF NEW.test_data IS DISTINCT FROM _last.test_data THEN _changed := _changed || 'test_data'; END IF;
+    IF NEW.priority IS DISTINCT FROM _last.priority THEN _changed := _changed || 'priority'; END IF;
+
+    IF array_length(_changed, 1) IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF _last.id IS NOT NULL AND (
+    _last.transaction_id = txid_current()
+    OR (
+      _note IS NULL AND _last.note IS NULL
+      AND _last.changed_by IS NOT DISTINCT FROM auth.uid()
+      AND _last.created_at > now() - interval '10 seconds'
+    )
+  ) THEN
+    UPDATE public.test_case_revisions
+    SET title = NEW.title,
+        description = NEW.description,
+        steps = _steps,
+        expected_result = NEW.expected_result,
+        test_data = NEW.test_data,
+        priority = NEW.priority,
+        changed_fields = ARRAY(SELECT DISTINCT unnest(_last.changed_fields || _changed)),
+        note = COALESCE(_note, _last.note)
+    WHERE id = _last.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, email) INTO _user_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  INSERT INTO public.test_case_revisions (
+    test_case_id, revision_number, title, description, steps, expected_result,
+    test_data, priority, changed_fields, note, changed_by, changed_by_name
+  ) VALUES (
+    NEW.id, COALESCE(_last.revision_number, 0) + 1, NEW.title, NEW.description, _steps, NEW.expected_result,
+    NEW.test_data, NEW.priority, _changed, _note, auth.uid(), _user_name
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_test_case_revision_on_change
+  AFTER INSERT OR UPDATE ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_test_case_revision();
+
+-- Baseline revision for existing test cases
+INSERT INTO public.test_case_revisions (
+  test_case_id, revision_number, title, description, steps, expected_result,
+  test_data, priority, changed_fields, note, created_at
+)
+SELECT id, 1, title, description, public.test_case_steps_snapshot(id), expected_result,
+  test_data, priority, ARRAY['created'], 'Baseline revision', created_at
+FROM public.test_cases;
+
+-- Restore a test case to a revision. Steps are updated in place by position so that
+-- step results recorded in earlier runs stay attached.
+CREATE OR REPLACE FUNCTION public.restore_test_case_revision(_revision_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.test_case_revisions%ROWTYPE;
+  _step JSONB;
+  _index INTEGER := 0;
+  _new_revision INTEGER;
+BEGIN
+  SELECT * INTO _revision FROM public.test_case_revisions WHERE id = _revision_id;
+
+  IF _revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.revision_note', 'Restored from revision ' || _revision.revision_number, true);
+
+  UPDATE public.test_cases
+  SET title = _revision.title,
+      description = _revision.description,
+      expected_result = _revision.expected_result,
+      test_data = _revision.test_data,
+      priority = _revision.priority
+  WHERE id = _revision.test_case_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test case not found or access denied';
+  END IF;
+
+  FOR _step IN SELECT * FROM jsonb_array_elements(_revision.steps) LOOP
+    _index := _index + 1;
+
+    UPDATE public.test_case_steps
+    SET action = _step->>'action',
+        expected_result = _step->>'expected_result',
+        test_data = _step->>'test_data'
+    WHERE test_case_id = _revision.test_case_id AND step_order = _index;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.test_case_steps (test_case_id, step_order, action, expected_result, test_data)
+      VALUES (_revision.test_case_id, _index, _step->>'action', _step->>'expected_result', _step->>'test_data');
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.test_case_steps
+  WHERE test_case_id = _revision.test_case_id AND step_order > _index;
+
+  SELECT max(revision_number) INTO _new_revision
+  FROM public.test_case_revisions
+  WHERE test_case_id = _revision.test_case_id;
+
+  RETURN _new_revision;
+END;
+$$;
@@ -0,0 +1,304 @@
+-- Create shared_steps table (reusable step blocks per project, e.g. "Log in as admin")
+CREATE TABLE public.shared_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT shared_steps_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255)
+);
+
+-- Create shared_step_items table (the ordered steps inside a shared block)
+CREATE TABLE public.shared_step_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shared_step_id UUID REFERENCES public.shared_steps(id) ON DELETE CASCADE NOT NULL,
+  step_order INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  expected_result TEXT,
+  test_data TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT shared_step_items_order_check CHECK (step_order >= 1)
+);
+
+-- A test case step either holds its own action or references a shared block
+ALTER TABLE public.test_case_steps
+ADD COLUMN shared_step_id UUID REFERENCES public.shared_steps(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_shared_steps_project_id ON public.shared_steps(project_id);
+CREATE INDEX idx_shared_step_items_shared_step_id ON public.shared_step_items(shared_step_id, step_order);
+CREATE INDEX idx_test_case_steps_shared_step_id ON public.test_case_steps(shared_step_id);
+
+-- Enable RLS
+ALTER TABLE public.shared_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shared_step_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for shared_steps
+CREATE POLICY "Project members can view shared steps"
+ON public.shared_steps
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create shared steps"
+ON public.shared_steps
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update shared steps"
+ON public.shared_steps
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete shared steps"
+ON public.shared_steps
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- RLS policies for shared_step_items (access follows the parent block)
+CREATE POLICY "Project members can view shared step items"
+ON public.shared_step_items
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.shared_steps
+  WHERE shared_steps.id = shared_step_items.shared_step_id
+  AND public.has_project_access(shared_steps.project_id)
+));
+
+CREATE POLICY "Project members can create shared step items"
+ON public.shared_step_items
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.shared_steps
+  WHERE shared_steps.id = shared_step_id
+  AND public.has_project_access(shared_steps.project_id)
+));
+
+CREATE POLICY "Project members can update shared step items"
+ON public.shared_step_items
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.shared_steps
+  WHERE shared_steps.id = shared_step_items.shared_step_id
+  AND public.has_project_access(shared_steps.project_id)
+));
+
+CREATE POLICY "Project members can delete shared step items"
+ON public.shared_step_items
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.shared_steps
+  WHERE shared_steps.id = shared_step_items.shared_step_id
+  AND public.has_project_access(shared_steps.project_id)
+));
+
+-- A step may only reference a shared block of its own test case's project
+CREATE OR REPLACE FUNCTION public.check_test_case_step_shared_step()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shared_step_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.shared_steps ss
+    JOIN public.test_cases tc ON tc.project_id = ss.project_id
+    WHERE ss.id = NEW.shared_step_id AND tc.id = NEW.test_case_id
+  ) THEN
+    RAISE EXCEPTION 'Shared step must belong to the test case''s project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_test_case_step_shared_step_on_change
+  BEFORE INSERT OR UPDATE OF shared_step_id, test_case_id ON public.test_case_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_test_case_step_shared_step();
+
+-- Rebuild the legacy test_cases.steps text with shared blocks expanded in place
+CREATE OR REPLACE FUNCTION public.refresh_test_case_steps_text(_test_case_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.test_cases
+  SET steps = (
+    SELECT string_agg(line, E'\n' ORDER BY outer_order, inner_order)
+    FROM (
+      SELECT s.step_order AS outer_order, 0 AS inner_order, s.action AS line
+      FROM public.test_case_steps s
+      WHERE s.test_case_id = _test_case_id AND s.shared_step_id IS NULL
+      UNION ALL
+      SELECT s.step_order, i.step_order, i.action
+      FROM public.test_case_steps s
+      JOIN public.shared_step_items i ON i.shared_step_id = s.shared_step_id
+      WHERE s.test_case_id = _test_case_id
+    ) expanded
+  )
+  WHERE id = _test_case_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_test_case_steps_text()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_test_case_steps_text(COALESCE(NEW.test_case_id, OLD.test_case_id));
+  RETURN NULL;
+END;
+$$;
+
+-- Propagate shared block edits to the text of every referencing test case
+CREATE OR REPLACE FUNCTION public.sync_shared_step_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _test_case_id UUID;
+BEGIN
+  FOR _test_case_id IN
+    SELECT DISTINCT test_case_id
+    FROM public.test_case_steps
+    WHERE shared_step_id = COALESCE(NEW.shared_step_id, OLD.shared_step_id)
+  LOOP
+    PERFORM public.refresh_test_case_steps_text(_test_case_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_shared_step_references_on_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.shared_step_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_shared_step_references();
+
+-- Include shared block references in revision snapshots
+CREATE OR REPLACE FUNCTION public.test_case_steps_snapshot(_test_case_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'action', action,
+        'expected_result', expected_result,
+        'test_data', test_data,
+        'shared_step_id', shared_step_id
+      )
+      ORDER BY step_order
+    ),
+    '[]'::jsonb
+  )
+  FROM public.test_case_steps
+  WHERE test_case_id = _test_case_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_test_case_revision(_revision_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.test_case_revisions%ROWTYPE;
+  _step JSONB;
+  _index INTEGER := 0;
+  _new_revision INTEGER;
+  _project_id UUID;
+BEGIN
+  SELECT * INTO _revision FROM public.test_case_revisions WHERE id = _revision_id;
+
+  IF _revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.revision_note', 'Restored from revision ' || _revision.revision_number, true);
+
+  UPDATE public.test_cases
+  SET title = _revision.title,
+      description = _revision.description,
+      expected_result = _revision.expected_result,
+      test_data = _revision.test_data,
+      priority = _revision.priority
+  WHERE id = _revision.test_case_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test case not found or access denied';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.test_cases WHERE id = _revision.test_case_id;
+
+  FOR _step IN SELECT * FROM jsonb_array_elements(_revision.steps) LOOP
+    _index := _index + 1;
+
+    UPDATE public.test_case_steps
+    SET action = _step->>'action',
+        expected_result = _step->>'expected_result',
+        test_data = _step->>'test_data',
+        -- Shared blocks deleted since the revision are restored as plain steps
+        shared_step_id = (
+          SELECT id FROM public.shared_steps
+          WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id
+        )
+    WHERE test_case_id = _revision.test_case_id AND step_order = _index;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.test_case_steps (test_case_id, step_order, action, expected_result, test_data, shared_step_id)
+      VALUES (
+        _revision.test_case_id, _index, _step->>'action', _step->>'expected_result', _step->>'test_data',
+        (SELECT id FROM public.shared_steps WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id)
+      );
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.test_case_steps
+  WHERE test_case_id = _revision.test_case_id AND step_order > _index;
+
+  SELECT max(revision_number) INTO _new_revision
+  FROM public.test_case_revisions
+  WHERE test_case_id = _revision.test_case_id;
+
+  RETURN _new_revision;
+END;
+$$;
+
+-- Replaces the items of a shared block in one transaction, so a failed save never leaves the block
+-- (and every test case referencing it) without steps. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.replace_shared_step_items(_shared_step_id UUID, _items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.shared_steps WHERE id = _shared_step_id) THEN
+    RAISE EXCEPTION 'Shared step not found or access denied';
+  END IF;
+
+  DELETE FROM public.shared_step_items WHERE shared_step_id = _shared_step_id;
+
+  INSERT INTO public.shared_step_items (shared_step_id, step_order, action, expected_result, test_data)
+  SELECT _shared_step_id, item.ord, item.value->>'action', item.value->>'expected_result', item.value->>'test_data'
+  FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb)) WITH ORDINALITY AS item(value, ord);
+END;
+$$;
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_shared_steps_updated_at
+  BEFORE UPDATE ON public.shared_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shared_step_items_updated_at
+  BEFORE UPDATE ON public.shared_step_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
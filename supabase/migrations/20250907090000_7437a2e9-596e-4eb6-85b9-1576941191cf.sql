@@ -0,0 +1,205 @@
+-- Data table for parameterized test cases: {"parameters": ["username", ...], "rows": [["admin", ...], ...]}
+-- Steps and expected results refer to the parameters as {{username}}
+ALTER TABLE public.test_cases
+ADD COLUMN data_table JSONB,
+ADD CONSTRAINT test_cases_data_table_check CHECK (
+  data_table IS NULL OR (
+    jsonb_typeof(data_table->'parameters') = 'array'
+    AND jsonb_typeof(data_table->'rows') = 'array'
+  )
+);
+
+-- Each data row of a parameterized test case is executed as its own iteration within a run
+ALTER TABLE public.test_run_results
+ADD COLUMN iteration_index INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN iteration_data JSONB,
+ADD CONSTRAINT test_run_results_iteration_index_check CHECK (iteration_index >= 0);
+
+ALTER TABLE public.test_run_results
+DROP CONSTRAINT test_run_results_test_run_id_test_case_id_key;
+
+ALTER TABLE public.test_run_results
+ADD CONSTRAINT test_run_results_test_run_id_test_case_id_iteration_key UNIQUE (test_run_id, test_case_id, iteration_index);
+
+-- Keep test_cases.status in sync with the most recently recorded execution. A test case with several
+-- iterations in the run takes the worst status of the iterations executed so far.
+CREATE OR REPLACE FUNCTION public.sync_test_case_status_from_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF NEW.status <> 'not-run' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    SELECT CASE
+      WHEN bool_or(status = 'failed') THEN 'failed'
+      WHEN bool_or(status = 'blocked') THEN 'blocked'
+      ELSE 'passed'
+    END INTO _status
+    FROM public.test_run_results
+    WHERE test_run_id = NEW.test_run_id
+    AND test_case_id = NEW.test_case_id
+    AND status <> 'not-run';
+
+    UPDATE public.test_cases
+    SET status = _status
+    WHERE id = NEW.test_case_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Track data table changes in the revision history
+ALTER TABLE public.test_case_revisions
+ADD COLUMN data_table JSONB;
+
+UPDATE public.test_case_revisions r
+SET data_table = tc.data_table
+FROM public.test_cases tc
+WHERE tc.id = r.test_case_id;
+
+CREATE OR REPLACE FUNCTION public.record_test_case_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last public.test_case_revisions%ROWTYPE;
+  _steps JSONB;
+  _changed TEXT[] := '{}';
+  _note TEXT := NULLIF(current_setting('app.revision_note', true), '');
+  _user_name TEXT;
+BEGIN
+  _steps := public.test_case_steps_snapshot(NEW.id);
+
+  SELECT * INTO _last
+  FROM public.test_case_revisions
+  WHERE test_case_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF _last.id IS NULL THEN
+    _changed := ARRAY['created'];
+  ELSE
+    IF NEW.title IS DISTINCT FROM _last.title THEN _changed := _changed || 'title'; END IF;
+    IF NEW.description IS DISTINCT FROM _last.description THEN _changed := _changed || 'description'; END IF;
+    IF _steps IS DISTINCT FROM _last.steps THEN _changed := _changed || 'steps'; END IF;
+    IF NEW.expected_result IS DISTINCT FROM _last.expected_result THEN _changed := _changed || 'expected_result'; END IF;
+    IF NEW.test_data IS DISTINCT FROM _last.test_data THEN _changed := _changed || 'test_data'; END IF;
+    IF NEW.data_table IS DISTINCT FROM _last.data_table THEN _changed := _changed || 'data_table'; END IF;
+    IF NEW.priority IS DISTINCT FROM _last.priority THEN _changed := _changed || 'priority'; END IF;
+
+    IF array_length(_changed, 1) IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF _last.id IS NOT NULL AND (
+    _last.transaction_id = txid_current()
+    OR (
+      _note IS NULL AND _last.note IS NULL
+      AND _last.changed_by IS NOT DISTINCT FROM auth.uid()
+      AND _last.created_at > now() - interval '10 seconds'
+    )
+  ) THEN
+    UPDATE public.test_case_revisions
+    SET title = NEW.title,
+        description = NEW.description,
+        steps = _steps,
+        expected_result = NEW.expected_result,
+        test_data = NEW.test_data,
+        data_table = NEW.data_table,
+        priority = NEW.priority,
+        changed_fields = ARRAY(SELECT DISTINCT unnest(_last.changed_fields || _changed)),
+        note = COALESCE(_note, _last.note)
+    WHERE id = _last.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, email) INTO _user_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  INSERT INTO public.test_case_revisions (
+    test_case_id, revision_number, title, description, steps, expected_result,
+    test_data, data_table, priority, changed_fields, note, changed_by, changed_by_name
+  ) VALUES (
+    NEW.id, COALESCE(_last.revision_number, 0) + 1, NEW.title, NEW.description, _steps, NEW.expected_result,
+    NEW.test_data, NEW.data_table, NEW.priority, _changed, _note, auth.uid(), _user_name
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_test_case_revision(_revision_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.test_case_revisions%ROWTYPE;
+  _step JSONB;
+  _index INTEGER := 0;
+  _new_revision INTEGER;
+  _project_id UUID;
+BEGIN
+  SELECT * INTO _revision FROM public.test_case_revisions WHERE id = _revision_id;
+
+  IF _revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.revision_note', 'Restored from revision ' || _revision.revision_number, true);
+
+  UPDATE public.test_cases
+  SET title = _revision.title,
+      description = _revision.description,
+      expected_result = _revision.expected_result,
+      test_data = _revision.test_data,
+      data_table = _revision.data_table,
+      priority = _revision.priority
+  WHERE id = _revision.test_case_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test case not found or access denied';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.test_cases WHERE id = _revision.test_case_id;
+
+  FOR _step IN SELECT * FROM jsonb_array_elements(_revision.steps) LOOP
+    _index := _index + 1;
+
+    UPDATE public.test_case_steps
+    SET action = _step->>'action',
+        expected_result = _step->>'expected_result',
+        test_data = _step->>'test_data',
+        -- Shared blocks deleted since the revision are restored as plain steps
+        shared_step_id = (
+          SELECT id FROM public.shared_steps
+          WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id
+        )
+    WHERE test_case_id = _revision.test_case_id AND step_order = _index;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.test_case_steps (test_case_id, step_order, action, expected_result, test_data, shared_step_id)
+      VALUES (
+        _revision.test_case_id, _index, _step->>'action', _step->>'expected_result', _step->>'test_data',
+        (SELECT id FROM public.shared_steps WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id)
+      );
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.test_case_steps
+  WHERE test_case_id = _revision.test_case_id AND step_order > _index;
+
+  SELECT max(revision_number) INTO _new_revision
+  FROM public.test_case_revisions
+  WHERE test_case_id = _revision.test_case_id;
+
+  RETURN _new_revision;
+END;
+$$;
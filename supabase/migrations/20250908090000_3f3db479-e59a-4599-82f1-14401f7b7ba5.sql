@@ -0,0 +1,100 @@
+-- Create defects table (defects logged inside the app, optionally linked to the failed execution)
+CREATE TABLE public.defects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  defect_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  repro_steps TEXT,
+  expected_result TEXT,
+  actual_result TEXT,
+  severity TEXT NOT NULL DEFAULT 'medium',
+  priority TEXT NOT NULL DEFAULT 'medium',
+  state TEXT NOT NULL DEFAULT 'new',
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE SET NULL,
+  test_run_result_id UUID REFERENCES public.test_run_results(id) ON DELETE SET NULL,
+  user_story_id UUID REFERENCES public.user_stories(id) ON DELETE SET NULL,
+  reported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, defect_number),
+  CONSTRAINT defects_title_length_check CHECK (length(title) >= 1 AND length(title) <= 255),
+  CONSTRAINT defects_severity_check CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+  CONSTRAINT defects_priority_check CHECK (priority IN ('high', 'medium', 'low')),
+  CONSTRAINT defects_state_check CHECK (state IN ('new', 'open', 'in-progress', 'resolved', 'closed', 'rejected'))
+);
+
+CREATE INDEX idx_defects_project_id ON public.defects(project_id);
+CREATE INDEX idx_defects_test_case_id ON public.defects(test_case_id);
+CREATE INDEX idx_defects_test_run_result_id ON public.defects(test_run_result_id);
+CREATE INDEX idx_defects_user_story_id ON public.defects(user_story_id);
+
+-- Enable RLS
+ALTER TABLE public.defects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view defects"
+ON public.defects
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create defects"
+ON public.defects
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update defects"
+ON public.defects
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete defects"
+ON public.defects
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- Number defects per project and stamp when they are resolved
+CREATE OR REPLACE FUNCTION public.prepare_defect()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Serialize numbering per project so concurrent inserts don't collide
+    PERFORM pg_advisory_xact_lock(hashtext('defects:' || NEW.project_id::text));
+
+    SELECT COALESCE(MAX(defect_number), 0) + 1 INTO NEW.defect_number
+    FROM public.defects
+    WHERE project_id = NEW.project_id;
+
+    NEW.reported_by := COALESCE(NEW.reported_by, auth.uid());
+  ELSIF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+    RAISE EXCEPTION 'Defects cannot be moved between projects';
+  ELSE
+    NEW.defect_number := OLD.defect_number;
+  END IF;
+
+  IF NEW.state IN ('resolved', 'closed', 'rejected') THEN
+    IF TG_OP = 'INSERT' OR OLD.state NOT IN ('resolved', 'closed', 'rejected') THEN
+      NEW.resolved_at := now();
+    END IF;
+  ELSE
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_defect_on_change
+  BEFORE INSERT OR UPDATE ON public.defects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_defect();
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_defects_updated_at
+  BEFORE UPDATE ON public.defects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,131 @@
+-- Project-defined test configurations: the browser, operating system and environment a run targets
+CREATE TABLE public.test_configurations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  browser TEXT,
+  operating_system TEXT,
+  environment TEXT,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name),
+  CONSTRAINT test_configurations_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255)
+);
+
+-- Configurations targeted by a run. Configurations that were used in a run can't be deleted.
+CREATE TABLE public.test_run_configurations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_run_id UUID REFERENCES public.test_runs(id) ON DELETE CASCADE NOT NULL,
+  configuration_id UUID REFERENCES public.test_configurations(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (test_run_id, configuration_id)
+);
+
+CREATE INDEX idx_test_configurations_project_id ON public.test_configurations(project_id);
+CREATE INDEX idx_test_run_configurations_test_run_id ON public.test_run_configurations(test_run_id);
+CREATE INDEX idx_test_run_configurations_configuration_id ON public.test_run_configurations(configuration_id);
+
+-- Each test case (and iteration) is executed once per configuration of the run
+ALTER TABLE public.test_run_results
+ADD COLUMN configuration_id UUID REFERENCES public.test_configurations(id);
+
+CREATE INDEX idx_test_run_results_configuration_id ON public.test_run_results(configuration_id);
+
+ALTER TABLE public.test_run_results
+DROP CONSTRAINT test_run_results_test_run_id_test_case_id_iteration_key;
+
+ALTER TABLE public.test_run_results
+ADD CONSTRAINT test_run_results_test_run_id_test_case_id_iteration_configuration_key
+UNIQUE NULLS NOT DISTINCT (test_run_id, test_case_id, iteration_index, configuration_id);
+
+-- Enable RLS
+ALTER TABLE public.test_configurations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.test_run_configurations ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for test_configurations (project owners and project members)
+CREATE POLICY "Project members can view test configurations"
+ON public.test_configurations
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create test configurations"
+ON public.test_configurations
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update test configurations"
+ON public.test_configurations
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete test configurations"
+ON public.test_configurations
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- RLS policies for test_run_configurations (inherit access from the run)
+CREATE POLICY "Project members can view test run configurations"
+ON public.test_run_configurations
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_configurations.test_run_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+CREATE POLICY "Project members can create test run configurations"
+ON public.test_run_configurations
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+CREATE POLICY "Project members can delete test run configurations"
+ON public.test_run_configurations
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.test_runs
+  WHERE test_runs.id = test_run_configurations.test_run_id
+  AND public.has_project_access(test_runs.project_id)
+));
+
+-- A run and its results may only use configurations of the run's project
+CREATE OR REPLACE FUNCTION public.check_test_run_configuration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.configuration_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.test_configurations c
+    JOIN public.test_runs r ON r.project_id = c.project_id
+    WHERE c.id = NEW.configuration_id AND r.id = NEW.test_run_id
+  ) THEN
+    RAISE EXCEPTION 'Configuration must belong to the test run''s project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_test_run_configuration_on_change
+  BEFORE INSERT OR UPDATE OF configuration_id, test_run_id ON public.test_run_configurations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_test_run_configuration();
+
+CREATE TRIGGER check_test_run_result_configuration_on_change
+  BEFORE INSERT OR UPDATE OF configuration_id, test_run_id ON public.test_run_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_test_run_configuration();
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_test_configurations_updated_at
+  BEFORE UPDATE ON public.test_configurations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,82 @@
+-- Releases / milestones that user stories and test runs are scoped to
+CREATE TABLE public.releases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  start_date DATE,
+  target_date DATE,
+  status TEXT NOT NULL DEFAULT 'planned', -- 'planned', 'in-progress', 'released'
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name),
+  CONSTRAINT releases_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255),
+  CONSTRAINT releases_status_check CHECK (status IN ('planned', 'in-progress', 'released')),
+  CONSTRAINT releases_dates_check CHECK (start_date IS NULL OR target_date IS NULL OR start_date <= target_date)
+);
+
+CREATE INDEX idx_releases_project_id ON public.releases(project_id);
+
+-- Stories and runs can each belong to one release
+ALTER TABLE public.user_stories
+ADD COLUMN release_id UUID REFERENCES public.releases(id) ON DELETE SET NULL;
+
+ALTER TABLE public.test_runs
+ADD COLUMN release_id UUID REFERENCES public.releases(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_user_stories_release_id ON public.user_stories(release_id);
+CREATE INDEX idx_test_runs_release_id ON public.test_runs(release_id);
+
+-- Enable RLS
+ALTER TABLE public.releases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view releases"
+ON public.releases
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create releases"
+ON public.releases
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update releases"
+ON public.releases
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete releases"
+ON public.releases
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- Stamp when a release ships
+CREATE OR REPLACE FUNCTION public.set_release_released_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'released' THEN
+    IF TG_OP = 'INSERT' OR OLD.status <> 'released' THEN
+      NEW.released_at := now();
+    END IF;
+  ELSE
+    NEW.released_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_release_released_at
+  BEFORE INSERT OR UPDATE ON public.releases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_release_released_at();
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_releases_updated_at
+  BEFORE UPDATE ON public.releases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
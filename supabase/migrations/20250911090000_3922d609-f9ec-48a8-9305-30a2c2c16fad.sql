@@ -0,0 +1,164 @@
+-- Project-defined custom fields for user stories and test cases
+CREATE TABLE public.custom_field_definitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  entity_type TEXT NOT NULL, -- 'test_case', 'user_story'
+  name TEXT NOT NULL,
+  field_type TEXT NOT NULL, -- 'text', 'number', 'select', 'multi-select', 'date', 'user'
+  options TEXT[] NOT NULL DEFAULT '{}',
+  required BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, entity_type, name),
+  CONSTRAINT custom_field_definitions_name_length_check CHECK (length(name) >= 1 AND length(name) <= 100),
+  CONSTRAINT custom_field_definitions_entity_type_check CHECK (entity_type IN ('test_case', 'user_story')),
+  CONSTRAINT custom_field_definitions_field_type_check CHECK (field_type IN ('text', 'number', 'select', 'multi-select', 'date', 'user'))
+);
+
+-- One typed value per field and story / test case; only the column matching the field type is set
+CREATE TABLE public.custom_field_values (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  field_id UUID REFERENCES public.custom_field_definitions(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE,
+  user_story_id UUID REFERENCES public.user_stories(id) ON DELETE CASCADE,
+  value_text TEXT,
+  value_number NUMERIC,
+  value_date DATE,
+  value_options TEXT[],
+  value_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (field_id, test_case_id),
+  UNIQUE (field_id, user_story_id),
+  CONSTRAINT custom_field_values_entity_check CHECK (num_nonnulls(test_case_id, user_story_id) = 1)
+);
+
+CREATE INDEX idx_custom_field_definitions_project_id ON public.custom_field_definitions(project_id);
+CREATE INDEX idx_custom_field_values_project_id ON public.custom_field_values(project_id);
+CREATE INDEX idx_custom_field_values_test_case_id ON public.custom_field_values(test_case_id);
+CREATE INDEX idx_custom_field_values_user_story_id ON public.custom_field_values(user_story_id);
+
+-- Enable RLS
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custom_field_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view custom field definitions"
+ON public.custom_field_definitions
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create custom field definitions"
+ON public.custom_field_definitions
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update custom field definitions"
+ON public.custom_field_definitions
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete custom field definitions"
+ON public.custom_field_definitions
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can view custom field values"
+ON public.custom_field_values
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create custom field values"
+ON public.custom_field_values
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can update custom field values"
+ON public.custom_field_values
+FOR UPDATE
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can delete custom field values"
+ON public.custom_field_values
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- Check that a value belongs to the same project and entity type as its field, and matches the field type
+CREATE OR REPLACE FUNCTION public.validate_custom_field_value()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _field public.custom_field_definitions%ROWTYPE;
+  _entity_project_id UUID;
+BEGIN
+  SELECT * INTO _field FROM public.custom_field_definitions WHERE id = NEW.field_id;
+
+  IF _field.entity_type = 'test_case' THEN
+    SELECT project_id INTO _entity_project_id FROM public.test_cases WHERE id = NEW.test_case_id;
+  ELSE
+    SELECT project_id INTO _entity_project_id FROM public.user_stories WHERE id = NEW.user_story_id;
+  END IF;
+
+  IF _entity_project_id IS NULL OR _entity_project_id <> _field.project_id THEN
+    RAISE EXCEPTION 'Custom field % does not apply to this item', _field.name;
+  END IF;
+
+  NEW.project_id := _field.project_id;
+
+  IF _field.field_type = 'select' AND NEW.value_text IS NOT NULL AND NOT (NEW.value_text = ANY(_field.options)) THEN
+    RAISE EXCEPTION '"%" is not an option of custom field %', NEW.value_text, _field.name;
+  END IF;
+
+  IF _field.field_type = 'multi-select' AND NEW.value_options IS NOT NULL AND NOT (NEW.value_options <@ _field.options) THEN
+    RAISE EXCEPTION 'Some values are not options of custom field %', _field.name;
+  END IF;
+
+  IF _field.field_type = 'user' AND NEW.value_user_id IS NOT NULL
+    AND NOT public.has_project_access(_field.project_id, NEW.value_user_id) THEN
+    RAISE EXCEPTION 'The selected user is not a member of this project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_custom_field_value
+  BEFORE INSERT OR UPDATE ON public.custom_field_values
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_custom_field_value();
+
+-- Lists the owner and members of a project for user pickers
+CREATE OR REPLACE FUNCTION public.get_project_members(_project_id UUID)
+RETURNS TABLE (user_id UUID, display_name TEXT, email TEXT)
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT u.user_id, p.display_name, p.email
+  FROM (
+    SELECT created_by AS user_id FROM public.projects WHERE id = _project_id
+    UNION
+    SELECT pm.user_id FROM public.project_members pm WHERE pm.project_id = _project_id
+  ) u
+  LEFT JOIN public.profiles p ON p.user_id = u.user_id
+  WHERE u.user_id IS NOT NULL
+  AND public.has_project_access(_project_id)
+  ORDER BY COALESCE(p.display_name, p.email);
+$$;
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_custom_field_definitions_updated_at
+  BEFORE UPDATE ON public.custom_field_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_custom_field_values_updated_at
+  BEFORE UPDATE ON public.custom_field_values
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
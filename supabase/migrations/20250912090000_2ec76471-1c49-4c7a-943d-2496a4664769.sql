@@ -0,0 +1,77 @@
+-- Free-form tags on user stories and test cases (smoke, regression, payments...)
+ALTER TABLE public.user_stories
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.test_cases
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_user_stories_tags ON public.user_stories USING GIN (tags);
+CREATE INDEX idx_test_cases_tags ON public.test_cases USING GIN (tags);
+
+-- Tags are stored trimmed, lowercase and without duplicates so filters match regardless of how they were typed
+CREATE OR REPLACE FUNCTION public.normalize_tags(_tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT tag ORDER BY tag), '{}')
+  FROM (
+    SELECT lower(btrim(t)) AS tag FROM unnest(COALESCE(_tags, '{}')) t
+  ) normalized
+  WHERE tag <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_tags_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_user_story_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_tags_column();
+
+CREATE TRIGGER normalize_test_case_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_tags_column();
+
+-- Adds and removes tags on many stories or test cases at once. Runs with the caller's rights,
+-- so RLS limits it to items the caller can update. Returns the number of updated items.
+CREATE OR REPLACE FUNCTION public.update_item_tags(
+  _entity_type TEXT,
+  _ids UUID[],
+  _add TEXT[] DEFAULT '{}',
+  _remove TEXT[] DEFAULT '{}'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _remove_normalized TEXT[] := public.normalize_tags(_remove);
+  _count INTEGER;
+BEGIN
+  IF _entity_type = 'test_case' THEN
+    UPDATE public.test_cases
+    SET tags = ARRAY(SELECT unnest(tags || _add) EXCEPT SELECT unnest(_remove_normalized))
+    WHERE id = ANY(_ids);
+  ELSIF _entity_type = 'user_story' THEN
+    UPDATE public.user_stories
+    SET tags = ARRAY(SELECT unnest(tags || _add) EXCEPT SELECT unnest(_remove_normalized))
+    WHERE id = ANY(_ids);
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type %', _entity_type;
+  END IF;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,103 @@
+-- Append-only audit trail of changes to project data, written by triggers
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  -- Not a foreign key so entries outlive the project they describe
+  project_id UUID,
+  operation TEXT NOT NULL, -- 'INSERT', 'UPDATE', 'DELETE'
+  actor_id UUID,
+  actor_email TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_operation_check CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE'))
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_project_id ON public.audit_log(project_id);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id);
+
+-- Enable RLS
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read the log. There are no insert, update or delete policies: entries are
+-- written by the trigger below and can't be changed afterwards.
+CREATE POLICY "Admins can view audit log"
+ON public.audit_log
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+REVOKE INSERT, UPDATE, DELETE ON public.audit_log FROM anon, authenticated;
+
+-- Generic row-level audit trigger. Updates that only touch updated_at are not recorded.
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  _changed TEXT[] := '{}';
+  _actor_email TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}') INTO _changed
+    FROM jsonb_each(_new) n
+    WHERE n.key <> 'updated_at'
+    AND n.value IS DISTINCT FROM _old -> n.key;
+
+    IF array_length(_changed, 1) IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT email INTO _actor_email FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, project_id, operation, actor_id, actor_email, old_data, new_data, changed_fields
+  ) VALUES (
+    TG_TABLE_NAME,
+    (_row ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'projects' THEN (_row ->> 'id')::UUID ELSE (_row ->> 'project_id')::UUID END,
+    TG_OP,
+    auth.uid(),
+    _actor_email,
+    _old,
+    _new,
+    _changed
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_projects
+  AFTER INSERT OR UPDATE OR DELETE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_stories
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_test_cases
+  AFTER INSERT OR UPDATE OR DELETE ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_project_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.project_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
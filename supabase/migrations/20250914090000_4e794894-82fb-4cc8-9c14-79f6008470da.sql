@@ -0,0 +1,128 @@
+-- Soft delete for user stories and test cases, mirroring projects.deleted_at
+ALTER TABLE public.user_stories
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.test_cases
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_user_stories_deleted_at ON public.user_stories (deleted_at) WHERE deleted_at IS NULL;
+CREATE INDEX idx_test_cases_deleted_at ON public.test_cases (deleted_at) WHERE deleted_at IS NULL;
+CREATE INDEX idx_user_stories_trash ON public.user_stories (project_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_test_cases_trash ON public.test_cases (project_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Days items stay in the trash before they are purged
+ALTER TABLE public.projects
+ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30,
+ADD CONSTRAINT projects_trash_retention_days_check CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Record who moved an item to the trash
+CREATE OR REPLACE FUNCTION public.set_deleted_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL THEN
+    NEW.deleted_by := NULL;
+  ELSIF OLD.deleted_at IS NULL THEN
+    NEW.deleted_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_user_story_deleted_by
+  BEFORE UPDATE OF deleted_at ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deleted_by();
+
+CREATE TRIGGER set_test_case_deleted_by
+  BEFORE UPDATE OF deleted_at ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deleted_by();
+
+-- Trashing a story trashes its test cases; restoring it restores the test cases that were trashed with it
+CREATE OR REPLACE FUNCTION public.cascade_user_story_trash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE public.test_cases
+    SET deleted_at = NEW.deleted_at
+    WHERE user_story_id = NEW.id
+    AND deleted_at IS NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    UPDATE public.test_cases
+    SET deleted_at = NULL
+    WHERE user_story_id = NEW.id
+    AND deleted_at = OLD.deleted_at;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER cascade_user_story_trash
+  AFTER UPDATE OF deleted_at ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cascade_user_story_trash();
+
+-- A test case can't be restored while its story is in the trash
+CREATE OR REPLACE FUNCTION public.check_test_case_restore()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.user_stories
+    WHERE id = NEW.user_story_id
+    AND deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the user story of test case % first', NEW.title;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_test_case_restore
+  BEFORE UPDATE OF deleted_at ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_test_case_restore();
+
+-- Permanently deletes trashed items older than their project's retention. Returns the number of purged items.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _test_cases INTEGER;
+  _stories INTEGER;
+BEGIN
+  DELETE FROM public.test_cases tc
+  USING public.projects p
+  WHERE p.id = tc.project_id
+  AND tc.deleted_at < now() - make_interval(days => p.trash_retention_days);
+  GET DIAGNOSTICS _test_cases = ROW_COUNT;
+
+  DELETE FROM public.user_stories us
+  USING public.projects p
+  WHERE p.id = us.project_id
+  AND us.deleted_at < now() - make_interval(days => p.trash_retention_days);
+  GET DIAGNOSTICS _stories = ROW_COUNT;
+
+  RETURN _test_cases + _stories;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+-- Purge the trash nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-expired-trash', '0 3 * * *', $$SELECT public.purge_expired_trash()$$);
@@ -0,0 +1,178 @@
+-- Comment threads on user stories, test cases and test run results
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('user_story', 'test_case', 'test_run_result')),
+  entity_id UUID NOT NULL,
+  author_id UUID NOT NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0 AND length(body) <= 10000),
+  -- Project members mentioned with @[Name](user-id) in the body
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  edited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_comments_entity ON public.comments(entity_type, entity_id, created_at);
+CREATE INDEX idx_comments_project_id ON public.comments(project_id);
+CREATE INDEX idx_comments_mentions ON public.comments USING GIN(mentions);
+
+-- Last time each user read a thread, for unread indicators
+CREATE TABLE public.comment_reads (
+  user_id UUID NOT NULL DEFAULT auth.uid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('user_story', 'test_case', 'test_run_result')),
+  entity_id UUID NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, entity_type, entity_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view comments"
+ON public.comments
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE POLICY "Project members can create comments"
+ON public.comments
+FOR INSERT
+WITH CHECK (public.has_project_access(project_id) AND author_id = auth.uid());
+
+CREATE POLICY "Authors can update their comments"
+ON public.comments
+FOR UPDATE
+USING (author_id = auth.uid())
+WITH CHECK (public.has_project_access(project_id) AND author_id = auth.uid());
+
+CREATE POLICY "Authors and admins can delete comments"
+ON public.comments
+FOR DELETE
+USING (author_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their comment reads"
+ON public.comment_reads
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their comment reads"
+ON public.comment_reads
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their comment reads"
+ON public.comment_reads
+FOR UPDATE
+USING (user_id = auth.uid());
+
+-- Checks the commented item belongs to the comment's project, keeps threads from moving on
+-- edit and limits mentions to members of the project
+CREATE OR REPLACE FUNCTION public.validate_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.project_id := OLD.project_id;
+    NEW.entity_type := OLD.entity_type;
+    NEW.entity_id := OLD.entity_id;
+    NEW.author_id := OLD.author_id;
+    NEW.created_at := OLD.created_at;
+    IF NEW.body IS DISTINCT FROM OLD.body THEN
+      NEW.edited_at := now();
+    END IF;
+  ELSIF NOT (
+    (NEW.entity_type = 'user_story' AND EXISTS (
+      SELECT 1 FROM public.user_stories WHERE id = NEW.entity_id AND project_id = NEW.project_id
+    ))
+    OR (NEW.entity_type = 'test_case' AND EXISTS (
+      SELECT 1 FROM public.test_cases WHERE id = NEW.entity_id AND project_id = NEW.project_id
+    ))
+    OR (NEW.entity_type = 'test_run_result' AND EXISTS (
+      SELECT 1 FROM public.test_run_results r
+      JOIN public.test_runs tr ON tr.id = r.test_run_id
+      WHERE r.id = NEW.entity_id AND tr.project_id = NEW.project_id
+    ))
+  ) THEN
+    RAISE EXCEPTION 'The commented % does not belong to this project', replace(NEW.entity_type, '_', ' ');
+  END IF;
+
+  NEW.mentions := ARRAY(
+    SELECT DISTINCT m.user_id
+    FROM unnest(NEW.mentions) AS mention(user_id)
+    JOIN public.get_project_members(NEW.project_id) m ON m.user_id = mention.user_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_comment
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_comment();
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Comments have no foreign key to the commented item, so remove them with it
+CREATE OR REPLACE FUNCTION public.delete_item_comments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.comments WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  DELETE FROM public.comment_reads WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_user_story_comments
+  AFTER DELETE ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_item_comments('user_story');
+
+CREATE TRIGGER delete_test_case_comments
+  AFTER DELETE ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_item_comments('test_case');
+
+CREATE TRIGGER delete_test_run_result_comments
+  AFTER DELETE ON public.test_run_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_item_comments('test_run_result');
+
+-- Comment and unread counts per item for the current user. Mentions of the user are counted
+-- separately so they can be highlighted.
+CREATE OR REPLACE FUNCTION public.get_comment_summaries(_project_id UUID, _entity_type TEXT)
+RETURNS TABLE (entity_id UUID, comment_count INTEGER, unread_count INTEGER, unread_mentions INTEGER)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.entity_id,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (
+      WHERE c.author_id <> auth.uid() AND c.created_at > COALESCE(r.last_read_at, '-infinity')
+    )::INTEGER,
+    COUNT(*) FILTER (
+      WHERE c.author_id <> auth.uid() AND c.created_at > COALESCE(r.last_read_at, '-infinity')
+      AND auth.uid() = ANY(c.mentions)
+    )::INTEGER
+  FROM public.comments c
+  LEFT JOIN public.comment_reads r
+    ON r.user_id = auth.uid() AND r.entity_type = c.entity_type AND r.entity_id = c.entity_id
+  WHERE c.project_id = _project_id AND c.entity_type = _entity_type
+  GROUP BY c.entity_id;
+$$;
+
+-- Push new, edited and deleted comments to open views
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
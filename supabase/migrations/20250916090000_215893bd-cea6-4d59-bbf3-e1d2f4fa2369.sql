@@ -0,0 +1,172 @@
+-- AI-generated test cases land here for review. Only approved suggestions become test cases;
+-- rejection reasons are kept for prompt tuning.
+CREATE TABLE public.test_case_suggestions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_story_id UUID NOT NULL REFERENCES public.user_stories(id) ON DELETE CASCADE,
+  -- Suggestions created by the same generation request
+  generation_id UUID NOT NULL,
+  custom_prompt TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  expected_result TEXT,
+  test_data TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  -- [{action, expected_result, test_data, shared_step_id}]
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  -- Set when the reviewer changed the suggestion before approving it
+  was_edited BOOLEAN NOT NULL DEFAULT false,
+  rejection_category TEXT CHECK (
+    rejection_category IN ('duplicate', 'incorrect', 'out_of_scope', 'incomplete', 'too_vague', 'other')
+  ),
+  rejection_reason TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE SET NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_case_suggestions_rejection_check CHECK (status <> 'rejected' OR rejection_category IS NOT NULL)
+);
+
+CREATE INDEX idx_test_case_suggestions_project_status ON public.test_case_suggestions(project_id, status);
+CREATE INDEX idx_test_case_suggestions_user_story_id ON public.test_case_suggestions(user_story_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.test_case_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view test case suggestions"
+ON public.test_case_suggestions
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+-- The user story must belong to the suggestion's project
+CREATE POLICY "Project members can create test case suggestions"
+ON public.test_case_suggestions
+FOR INSERT
+WITH CHECK (
+  public.has_project_access(project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.user_stories us
+    WHERE us.id = user_story_id
+    AND us.project_id = test_case_suggestions.project_id
+  )
+);
+
+CREATE POLICY "Project members can update test case suggestions"
+ON public.test_case_suggestions
+FOR UPDATE
+USING (public.has_project_access(project_id))
+WITH CHECK (
+  public.has_project_access(project_id)
+  AND EXISTS (
+    SELECT 1 FROM public.user_stories us
+    WHERE us.id = user_story_id
+    AND us.project_id = test_case_suggestions.project_id
+  )
+);
+
+CREATE POLICY "Project members can delete test case suggestions"
+ON public.test_case_suggestions
+FOR DELETE
+USING (public.has_project_access(project_id));
+
+-- Flags edits of pending suggestions and stamps the reviewer when a decision is made
+CREATE OR REPLACE FUNCTION public.track_test_case_suggestion_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'pending' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR (NEW.title, NEW.description, NEW.expected_result, NEW.test_data, NEW.priority, NEW.steps)
+      IS DISTINCT FROM (OLD.title, OLD.description, OLD.expected_result, OLD.test_data, OLD.priority, OLD.steps)
+  ) THEN
+    RAISE EXCEPTION 'This suggestion has already been reviewed';
+  END IF;
+
+  IF (NEW.title, NEW.description, NEW.expected_result, NEW.test_data, NEW.priority, NEW.steps)
+    IS DISTINCT FROM (OLD.title, OLD.description, OLD.expected_result, OLD.test_data, OLD.priority, OLD.steps) THEN
+    NEW.was_edited := true;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') AND OLD.status = 'pending' THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_test_case_suggestion_review
+  BEFORE UPDATE ON public.test_case_suggestions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_test_case_suggestion_review();
+
+CREATE TRIGGER update_test_case_suggestions_updated_at
+  BEFORE UPDATE ON public.test_case_suggestions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Turns a pending suggestion into a live test case with its steps. Returns the new test case id.
+CREATE OR REPLACE FUNCTION public.approve_test_case_suggestion(_suggestion_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _suggestion public.test_case_suggestions%ROWTYPE;
+  _test_case_id UUID;
+  _step JSONB;
+  _index INTEGER := 0;
+BEGIN
+  SELECT * INTO _suggestion
+  FROM public.test_case_suggestions
+  WHERE id = _suggestion_id
+  FOR UPDATE;
+
+  IF _suggestion.id IS NULL THEN
+    RAISE EXCEPTION 'Suggestion not found or access denied';
+  END IF;
+
+  IF _suggestion.status <> 'pending' THEN
+    RAISE EXCEPTION 'This suggestion has already been reviewed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_stories
+    WHERE id = _suggestion.user_story_id AND project_id = _suggestion.project_id
+  ) THEN
+    RAISE EXCEPTION 'User story must belong to the suggestion''s project';
+  END IF;
+
+  INSERT INTO public.test_cases (project_id, user_story_id, title, description, expected_result, test_data, priority, status)
+  VALUES (
+    _suggestion.project_id, _suggestion.user_story_id, _suggestion.title, _suggestion.description,
+    _suggestion.expected_result, _suggestion.test_data, _suggestion.priority, 'not-run'
+  )
+  RETURNING id INTO _test_case_id;
+
+  FOR _step IN SELECT * FROM jsonb_array_elements(_suggestion.steps) LOOP
+    CONTINUE WHEN COALESCE(btrim(_step->>'action'), '') = '';
+    _index := _index + 1;
+
+    INSERT INTO public.test_case_steps (test_case_id, step_order, action, expected_result, test_data, shared_step_id)
+    VALUES (
+      _test_case_id, _index, btrim(_step->>'action'), NULLIF(btrim(_step->>'expected_result'), ''),
+      NULLIF(btrim(_step->>'test_data'), ''),
+      (SELECT id FROM public.shared_steps WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _suggestion.project_id)
+    );
+  END LOOP;
+
+  UPDATE public.test_case_suggestions
+  SET status = 'approved',
+      test_case_id = _test_case_id
+  WHERE id = _suggestion_id;
+
+  RETURN _test_case_id;
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Duplicate detection: flags on imported test cases and generated suggestions, plus merging duplicates
+ALTER TABLE public.test_cases
+  ADD COLUMN possible_duplicate_of UUID REFERENCES public.test_cases(id) ON DELETE SET NULL;
+
+ALTER TABLE public.test_case_suggestions
+  ADD COLUMN duplicate_of UUID REFERENCES public.test_cases(id) ON DELETE SET NULL,
+  ADD COLUMN duplicate_score REAL CHECK (duplicate_score IS NULL OR duplicate_score BETWEEN 0 AND 1);
+
+CREATE INDEX idx_test_cases_possible_duplicate_of ON public.test_cases(possible_duplicate_of)
+  WHERE possible_duplicate_of IS NOT NULL;
+
+-- Folds duplicates into the kept test case: run history, attachments, defects, suite membership and
+-- tags move over, then the duplicates go to the trash. Results that would collide with one the kept
+-- case already has for the same run, iteration and configuration stay with the trashed duplicate.
+-- Step results of moved results follow them onto the kept case's step at the same position; where
+-- the kept case has no such step they keep the duplicate step's text, like results of removed steps.
+-- Returns the number of run results moved.
+CREATE OR REPLACE FUNCTION public.merge_test_cases(_keep_id UUID, _duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _project_id UUID;
+  _moved_ids UUID[];
+BEGIN
+  _duplicate_ids := array_remove(_duplicate_ids, _keep_id);
+
+  SELECT project_id INTO _project_id
+  FROM public.test_cases
+  WHERE id = _keep_id AND deleted_at IS NULL;
+
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Test case not found or access denied';
+  END IF;
+
+  IF COALESCE(array_length(_duplicate_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.test_cases
+    WHERE id = ANY(_duplicate_ids) AND project_id = _project_id AND deleted_at IS NULL
+  ) <> array_length(_duplicate_ids, 1) THEN
+    RAISE EXCEPTION 'Duplicates must be active test cases of the same project';
+  END IF;
+
+  -- When several duplicates ran in the same slot, the most recent execution wins
+  WITH moved AS (
+    UPDATE public.test_run_results r
+    SET test_case_id = _keep_id
+    WHERE r.id IN (
+      SELECT DISTINCT ON (d.test_run_id, d.iteration_index, d.configuration_id) d.id
+      FROM public.test_run_results d
+      WHERE d.test_case_id = ANY(_duplicate_ids)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.test_run_results k
+          WHERE k.test_case_id = _keep_id
+            AND k.test_run_id = d.test_run_id
+            AND k.iteration_index = d.iteration_index
+            AND k.configuration_id IS NOT DISTINCT FROM d.configuration_id
+        )
+      ORDER BY d.test_run_id, d.iteration_index, d.configuration_id, d.executed_at DESC NULLS LAST
+    )
+    RETURNING r.id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO _moved_ids FROM moved;
+
+  UPDATE public.test_run_step_results sr
+  SET test_case_step_id = ks.id
+  FROM public.test_case_steps ds
+  JOIN public.test_case_steps ks ON ks.test_case_id = _keep_id AND ks.step_order = ds.step_order
+  WHERE sr.test_case_step_id = ds.id
+    AND ds.test_case_id = ANY(_duplicate_ids)
+    AND sr.test_run_result_id = ANY(_moved_ids);
+
+  UPDATE public.test_run_step_results sr
+  SET test_case_step_id = NULL,
+      step_action = ds.action,
+      step_expected_result = ds.expected_result
+  FROM public.test_case_steps ds
+  WHERE sr.test_case_step_id = ds.id
+    AND ds.test_case_id = ANY(_duplicate_ids)
+    AND sr.test_run_result_id = ANY(_moved_ids);
+
+  UPDATE public.test_attachments SET test_case_id = _keep_id WHERE test_case_id = ANY(_duplicate_ids);
+  UPDATE public.defects SET test_case_id = _keep_id WHERE test_case_id = ANY(_duplicate_ids);
+  UPDATE public.test_case_suggestions SET test_case_id = _keep_id WHERE test_case_id = ANY(_duplicate_ids);
+
+  INSERT INTO public.test_suite_cases (suite_id, test_case_id, position)
+  SELECT suite_id, _keep_id, min(position)
+  FROM public.test_suite_cases
+  WHERE test_case_id = ANY(_duplicate_ids)
+  GROUP BY suite_id
+  ON CONFLICT (suite_id, test_case_id) DO NOTHING;
+
+  UPDATE public.test_cases
+  SET tags = ARRAY(
+        SELECT DISTINCT tag
+        FROM public.test_cases t, unnest(t.tags) AS tag
+        WHERE t.id = _keep_id OR t.id = ANY(_duplicate_ids)
+        ORDER BY tag
+      ),
+      possible_duplicate_of = NULL
+  WHERE id = _keep_id;
+
+  UPDATE public.test_cases
+  SET deleted_at = now(),
+      possible_duplicate_of = NULL
+  WHERE id = ANY(_duplicate_ids);
+
+  RETURN COALESCE(array_length(_moved_ids, 1), 0);
+END;
+$$;
@@ -0,0 +1,260 @@
+-- Per-project keys and atomic numbering for readable IDs, e.g. TC-PAY-0012 and US-PAY-0003
+ALTER TABLE public.projects ADD COLUMN key TEXT;
+
+-- Initials of multi-word names, otherwise the first three letters, suffixed with a number when taken
+CREATE OR REPLACE FUNCTION public.derive_project_key(_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _words TEXT[];
+  _base TEXT;
+  _candidate TEXT;
+  _suffix INTEGER := 1;
+BEGIN
+  _words := regexp_split_to_array(btrim(regexp_replace(upper(COALESCE(_name, '')), '[^A-Z]+', ' ', 'g')), ' ');
+  _words := array_remove(_words, '');
+
+  IF array_length(_words, 1) > 1 THEN
+    _base := left(array_to_string(ARRAY(SELECT left(word, 1) FROM unnest(_words) AS word), ''), 4);
+  ELSE
+    _base := left(COALESCE(_words[1], ''), 3);
+  END IF;
+
+  IF length(_base) < 2 THEN
+    _base := rpad(_base, 2, 'X');
+  END IF;
+  _candidate := _base;
+
+  WHILE EXISTS (SELECT 1 FROM public.projects WHERE key = _candidate) LOOP
+    _suffix := _suffix + 1;
+    _candidate := _base || _suffix;
+  END LOOP;
+
+  RETURN _candidate;
+END;
+$$;
+
+DO $$
+DECLARE
+  _project RECORD;
+BEGIN
+  FOR _project IN SELECT id, name FROM public.projects ORDER BY created_at LOOP
+    UPDATE public.projects SET key = public.derive_project_key(_project.name) WHERE id = _project.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.projects
+  ALTER COLUMN key SET NOT NULL,
+  ADD CONSTRAINT projects_key_format CHECK (key ~ '^[A-Z][A-Z0-9]{1,9}$'),
+  ADD CONSTRAINT projects_key_unique UNIQUE (key);
+
+CREATE OR REPLACE FUNCTION public.set_project_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.key := NULLIF(upper(btrim(NEW.key)), '');
+  IF NEW.key IS NULL THEN
+    NEW.key := public.derive_project_key(NEW.name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_project_key
+  BEFORE INSERT OR UPDATE OF key ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_project_key();
+
+-- Last number handed out per project and entity type. Only written by next_readable_id.
+CREATE TABLE public.project_sequences (
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('test_case', 'user_story')),
+  last_value INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (project_id, entity_type)
+);
+
+ALTER TABLE public.project_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view project sequences"
+ON public.project_sequences
+FOR SELECT
+USING (public.has_project_access(project_id));
+
+CREATE OR REPLACE FUNCTION public.format_readable_id(_prefix TEXT, _key TEXT, _number INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _prefix || '-' || _key || '-' || lpad(_number::text, GREATEST(4, length(_number::text)), '0');
+$$;
+
+-- The upsert locks the sequence row, so concurrent inserts in one project are numbered one at a time
+CREATE OR REPLACE FUNCTION public.next_readable_id(_project_id UUID, _entity_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key TEXT;
+  _value INTEGER;
+BEGIN
+  -- Blocks a concurrent key change until this insert commits, so no ID is issued with a stale key
+  SELECT key INTO _key FROM public.projects WHERE id = _project_id FOR SHARE;
+
+  IF _key IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  INSERT INTO public.project_sequences (project_id, entity_type, last_value)
+  VALUES (_project_id, _entity_type, 1)
+  ON CONFLICT (project_id, entity_type)
+  DO UPDATE SET last_value = public.project_sequences.last_value + 1
+  RETURNING last_value INTO _value;
+
+  RETURN public.format_readable_id(CASE _entity_type WHEN 'user_story' THEN 'US' ELSE 'TC' END, _key, _value);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_readable_id(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Test cases: readable IDs are unique per project. Legacy TC-<two letters><number> IDs keep their
+-- number under the project key; IDs entered by hand on import are left as they are.
+ALTER TABLE public.test_cases DROP CONSTRAINT unique_test_case_readable_id;
+ALTER TABLE public.test_cases ADD CONSTRAINT test_cases_project_readable_id_key UNIQUE (project_id, readable_id);
+
+WITH numbered AS (
+  SELECT
+    id,
+    project_id,
+    created_at,
+    CASE WHEN readable_id ~ '^TC-[A-Z]{2}[0-9]{4,}$' THEN substring(readable_id FROM 6)::INTEGER END AS legacy_number
+  FROM public.test_cases
+  WHERE readable_id IS NULL OR readable_id ~ '^TC-[A-Z]{2}[0-9]{4,}$'
+), ranked AS (
+  SELECT
+    numbered.*,
+    legacy_number IS NOT NULL
+      AND ROW_NUMBER() OVER (PARTITION BY project_id, legacy_number ORDER BY created_at) = 1 AS keeps_number
+  FROM numbered
+), assigned AS (
+  SELECT
+    id,
+    project_id,
+    CASE
+      WHEN keeps_number THEN legacy_number
+      ELSE COALESCE(MAX(legacy_number) OVER (PARTITION BY project_id), 0)
+        + ROW_NUMBER() OVER (PARTITION BY project_id, keeps_number ORDER BY created_at)
+    END AS number
+  FROM ranked
+)
+UPDATE public.test_cases tc
+SET readable_id = public.format_readable_id('TC', p.key, assigned.number::INTEGER)
+FROM assigned
+JOIN public.projects p ON p.id = assigned.project_id
+WHERE tc.id = assigned.id;
+
+-- User stories get readable IDs in creation order
+ALTER TABLE public.user_stories ADD COLUMN readable_id TEXT;
+
+UPDATE public.user_stories us
+SET readable_id = public.format_readable_id('US', p.key, numbered.number::INTEGER)
+FROM (
+  SELECT id, project_id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY created_at) AS number
+  FROM public.user_stories
+) numbered
+JOIN public.projects p ON p.id = numbered.project_id
+WHERE us.id = numbered.id;
+
+ALTER TABLE public.user_stories ADD CONSTRAINT user_stories_project_readable_id_key UNIQUE (project_id, readable_id);
+
+INSERT INTO public.project_sequences (project_id, entity_type, last_value)
+SELECT tc.project_id, 'test_case', MAX(substring(tc.readable_id FROM length(p.key) + 5)::INTEGER)
+FROM public.test_cases tc
+JOIN public.projects p ON p.id = tc.project_id
+WHERE tc.readable_id ~ ('^TC-' || p.key || '-[0-9]+$')
+GROUP BY tc.project_id
+UNION ALL
+SELECT us.project_id, 'user_story', MAX(substring(us.readable_id FROM length(p.key) + 5)::INTEGER)
+FROM public.user_stories us
+JOIN public.projects p ON p.id = us.project_id
+WHERE us.readable_id ~ ('^US-' || p.key || '-[0-9]+$')
+GROUP BY us.project_id;
+
+-- Numbers taken by hand-entered IDs are skipped
+CREATE OR REPLACE FUNCTION public.set_readable_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity_type TEXT := TG_ARGV[0];
+  _candidate TEXT;
+BEGIN
+  IF NEW.readable_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    _candidate := public.next_readable_id(NEW.project_id, _entity_type);
+    EXIT WHEN _entity_type = 'test_case'
+      AND NOT EXISTS (SELECT 1 FROM public.test_cases WHERE project_id = NEW.project_id AND readable_id = _candidate);
+    EXIT WHEN _entity_type = 'user_story'
+      AND NOT EXISTS (SELECT 1 FROM public.user_stories WHERE project_id = NEW.project_id AND readable_id = _candidate);
+  END LOOP;
+
+  NEW.readable_id := _candidate;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_test_case_readable_id_trigger ON public.test_cases;
+DROP FUNCTION IF EXISTS public.set_test_case_readable_id();
+DROP FUNCTION IF EXISTS public.generate_unique_test_case_id(uuid);
+
+CREATE TRIGGER set_test_case_readable_id
+  BEFORE INSERT ON public.test_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_readable_id('test_case');
+
+CREATE TRIGGER set_user_story_readable_id
+  BEFORE INSERT ON public.user_stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_readable_id('user_story');
+
+-- Changing a project key renumbers generated IDs in place; the numbers stay the same. A clash with a
+-- hand-entered ID fails the key change as a whole.
+CREATE OR REPLACE FUNCTION public.renumber_readable_ids()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.key IS NOT DISTINCT FROM OLD.key THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.test_cases
+  SET readable_id = 'TC-' || NEW.key || substring(readable_id FROM length(OLD.key) + 4)
+  WHERE project_id = NEW.id AND readable_id ~ ('^TC-' || OLD.key || '-[0-9]+$');
+
+  UPDATE public.user_stories
+  SET readable_id = 'US-' || NEW.key || substring(readable_id FROM length(OLD.key) + 4)
+  WHERE project_id = NEW.id AND readable_id ~ ('^US-' || OLD.key || '-[0-9]+$');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER renumber_readable_ids
+  AFTER UPDATE OF key ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.renumber_readable_ids();
@@ -0,0 +1,192 @@
+-- Full-text search over stories, test cases (including their steps) and defects. Documents are built
+-- by immutable functions so the GIN expression indexes and search_items use the same expression.
+CREATE OR REPLACE FUNCTION public.strip_html(_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(COALESCE(_text, ''), '<[^>]+>', ' ', 'g');
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_story_search_document(_title TEXT, _description TEXT, _acceptance_criteria TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, COALESCE(_title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, public.strip_html(_description)), 'B')
+    || setweight(to_tsvector('english'::regconfig, public.strip_html(_acceptance_criteria)), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.test_case_search_document(_title TEXT, _description TEXT, _expected_result TEXT, _test_data TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, COALESCE(_title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(_description, '') || ' ' || COALESCE(_expected_result, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(_test_data, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.test_step_search_document(_action TEXT, _expected_result TEXT, _test_data TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(
+    to_tsvector('english'::regconfig, COALESCE(_action, '') || ' ' || COALESCE(_expected_result, '') || ' ' || COALESCE(_test_data, '')),
+    'C'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.defect_search_document(
+  _title TEXT, _description TEXT, _repro_steps TEXT, _expected_result TEXT, _actual_result TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, COALESCE(_title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(_description, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig,
+      COALESCE(_repro_steps, '') || ' ' || COALESCE(_expected_result, '') || ' ' || COALESCE(_actual_result, '')), 'C');
+$$;
+
+CREATE INDEX idx_user_stories_search ON public.user_stories
+  USING GIN (public.user_story_search_document(title, description, acceptance_criteria));
+
+CREATE INDEX idx_test_cases_search ON public.test_cases
+  USING GIN (public.test_case_search_document(title, description, expected_result, test_data));
+
+CREATE INDEX idx_test_case_steps_search ON public.test_case_steps
+  USING GIN (public.test_step_search_document(action, expected_result, test_data));
+
+CREATE INDEX idx_defects_search ON public.defects
+  USING GIN (public.defect_search_document(title, description, repro_steps, expected_result, actual_result));
+
+-- Every word of the query is matched as a prefix, so results show up while typing. Readable IDs
+-- and defect IDs typed exactly rank first. Highlighted terms are wrapped in chr(2) and chr(3).
+-- Runs with the caller's rights, so only items of accessible projects are returned.
+CREATE OR REPLACE FUNCTION public.search_items(
+  _query TEXT,
+  _project_id UUID DEFAULT NULL,
+  _entity_types TEXT[] DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  project_id UUID,
+  project_name TEXT,
+  reference TEXT,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _term TEXT := btrim(COALESCE(_query, ''));
+  _tsquery tsquery;
+  _options TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO _tsquery
+  FROM regexp_split_to_table(lower(_term), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF _tsquery IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      'user_story'::TEXT AS entity_type,
+      us.id AS entity_id,
+      us.project_id,
+      us.readable_id AS reference,
+      us.title,
+      public.strip_html(us.description) || ' ' || public.strip_html(us.acceptance_criteria) AS body,
+      ts_rank(public.user_story_search_document(us.title, us.description, us.acceptance_criteria), _tsquery)
+        + CASE WHEN lower(us.readable_id) = lower(_term) THEN 1 ELSE 0 END AS rank
+    FROM public.user_stories us
+    WHERE us.deleted_at IS NULL
+      AND (_project_id IS NULL OR us.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'user_story' = ANY(_entity_types))
+      AND (
+        public.user_story_search_document(us.title, us.description, us.acceptance_criteria) @@ _tsquery
+        OR lower(us.readable_id) = lower(_term)
+      )
+
+    UNION ALL
+
+    SELECT
+      'test_case'::TEXT,
+      tc.id,
+      tc.project_id,
+      tc.readable_id,
+      tc.title,
+      COALESCE(tc.description, '') || ' ' || COALESCE(steps.body, '') || ' ' || COALESCE(tc.expected_result, '') || ' ' || COALESCE(tc.test_data, ''),
+      ts_rank(public.test_case_search_document(tc.title, tc.description, tc.expected_result, tc.test_data), _tsquery)
+        + COALESCE(steps.rank, 0)
+        + CASE WHEN lower(tc.readable_id) = lower(_term) THEN 1 ELSE 0 END
+    FROM public.test_cases tc
+    LEFT JOIN LATERAL (
+      SELECT
+        string_agg(s.action || ' ' || COALESCE(s.expected_result, ''), ' ' ORDER BY s.step_order) AS body,
+        max(ts_rank(public.test_step_search_document(s.action, s.expected_result, s.test_data), _tsquery)) AS rank
+      FROM public.test_case_steps s
+      WHERE s.test_case_id = tc.id
+    ) steps ON true
+    WHERE tc.deleted_at IS NULL
+      AND (_project_id IS NULL OR tc.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'test_case' = ANY(_entity_types))
+      AND tc.id IN (
+        SELECT c.id FROM public.test_cases c
+        WHERE public.test_case_search_document(c.title, c.description, c.expected_result, c.test_data) @@ _tsquery
+          OR lower(c.readable_id) = lower(_term)
+        UNION
+        SELECT s.test_case_id FROM public.test_case_steps s
+        WHERE public.test_step_search_document(s.action, s.expected_result, s.test_data) @@ _tsquery
+      )
+
+    UNION ALL
+
+    SELECT
+      'defect'::TEXT,
+      d.id,
+      d.project_id,
+      'BUG-' || d.defect_number,
+      d.title,
+      COALESCE(d.description, '') || ' ' || COALESCE(d.repro_steps, '') || ' ' || COALESCE(d.actual_result, ''),
+      ts_rank(public.defect_search_document(d.title, d.description, d.repro_steps, d.expected_result, d.actual_result), _tsquery)
+        + CASE WHEN lower('BUG-' || d.defect_number) = lower(_term) THEN 1 ELSE 0 END
+    FROM public.defects d
+    WHERE (_project_id IS NULL OR d.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'defect' = ANY(_entity_types))
+      AND (
+        public.defect_search_document(d.title, d.description, d.repro_steps, d.expected_result, d.actual_result) @@ _tsquery
+        OR lower('BUG-' || d.defect_number) = lower(_term)
+      )
+  )
+  SELECT
+    m.entity_type,
+    m.entity_id,
+    m.project_id,
+    p.name,
+    m.reference,
+    m.title,
+    ts_headline('english', m.title, _tsquery, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3)),
+    ts_headline('english', m.body, _tsquery, _options),
+    m.rank::REAL
+  FROM matches m
+  JOIN public.projects p ON p.id = m.project_id AND p.deleted_at IS NULL
+  ORDER BY m.rank DESC, m.title
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 20), 1), 100);
+END;
+$$;
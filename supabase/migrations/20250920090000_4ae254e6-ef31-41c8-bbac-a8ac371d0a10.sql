@@ -0,0 +1,318 @@
+-- Project cloning and templates. A template is a hidden project snapshot that new projects are cloned from.
+ALTER TABLE public.projects ADD COLUMN is_template BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_projects_is_template ON public.projects(is_template) WHERE is_template;
+
+-- Copies settings, custom fields, configurations, shared steps, stories, test cases with their steps and
+-- custom field values, and suites into a new project. Execution history (runs, results and step
+-- results) is copied only when asked for. Trashed stories and test cases are left behind. Readable IDs
+-- keep their numbers under the new key. Returns the new project id.
+CREATE OR REPLACE FUNCTION public.clone_project(
+  _source_id UUID,
+  _name TEXT,
+  _key TEXT DEFAULT NULL,
+  _description TEXT DEFAULT NULL,
+  _include_history BOOLEAN DEFAULT false,
+  _as_template BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.projects%ROWTYPE;
+  _project_id UUID;
+  _key_new TEXT;
+  _ids JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create projects';
+  END IF;
+
+  SELECT * INTO _source FROM public.projects WHERE id = _source_id AND deleted_at IS NULL;
+
+  IF _source.id IS NULL OR NOT (_source.is_template OR public.has_project_access(_source_id)) THEN
+    RAISE EXCEPTION 'Project not found or access denied';
+  END IF;
+
+  IF COALESCE(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Project name is required';
+  END IF;
+
+  INSERT INTO public.projects (name, key, description, markdown_settings, trash_retention_days, created_by, is_template)
+  VALUES (
+    btrim(_name), _key, COALESCE(_description, _source.description), _source.markdown_settings,
+    _source.trash_retention_days, auth.uid(), _as_template
+  )
+  RETURNING id, key INTO _project_id, _key_new;
+
+  -- New ids for every copied row, keyed by the old id
+  SELECT COALESCE(jsonb_object_agg(old_id, gen_random_uuid()), '{}') INTO _ids
+  FROM (
+    SELECT id AS old_id FROM public.custom_field_definitions WHERE project_id = _source_id
+    UNION ALL SELECT id FROM public.test_configurations WHERE project_id = _source_id
+    UNION ALL SELECT id FROM public.shared_steps WHERE project_id = _source_id
+    UNION ALL SELECT id FROM public.user_stories WHERE project_id = _source_id AND deleted_at IS NULL
+    UNION ALL SELECT id FROM public.test_cases WHERE project_id = _source_id AND deleted_at IS NULL
+    UNION ALL SELECT s.id FROM public.test_case_steps s
+      JOIN public.test_cases tc ON tc.id = s.test_case_id
+      WHERE tc.project_id = _source_id AND tc.deleted_at IS NULL
+    UNION ALL SELECT id FROM public.test_suites WHERE project_id = _source_id
+    UNION ALL SELECT id FROM public.test_runs WHERE project_id = _source_id AND _include_history
+    UNION ALL SELECT r.id FROM public.test_run_results r
+      JOIN public.test_runs run ON run.id = r.test_run_id
+      WHERE run.project_id = _source_id AND _include_history
+  ) copied;
+
+  INSERT INTO public.custom_field_definitions (id, project_id, entity_type, name, field_type, options, required, position, created_by)
+  SELECT (_ids ->> id::text)::UUID, _project_id, entity_type, name, field_type, options, required, position, auth.uid()
+  FROM public.custom_field_definitions
+  WHERE project_id = _source_id;
+
+  INSERT INTO public.test_configurations (id, project_id, name, description, browser, operating_system, environment, created_by)
+  SELECT (_ids ->> id::text)::UUID, _project_id, name, description, browser, operating_system, environment, auth.uid()
+  FROM public.test_configurations
+  WHERE project_id = _source_id;
+
+  INSERT INTO public.shared_steps (id, project_id, name, description, created_by)
+  SELECT (_ids ->> id::text)::UUID, _project_id, name, description, auth.uid()
+  FROM public.shared_steps
+  WHERE project_id = _source_id;
+
+  INSERT INTO public.shared_step_items (shared_step_id, step_order, action, expected_result, test_data)
+  SELECT (_ids ->> i.shared_step_id::text)::UUID, i.step_order, i.action, i.expected_result, i.test_data
+  FROM public.shared_step_items i
+  JOIN public.shared_steps ss ON ss.id = i.shared_step_id
+  WHERE ss.project_id = _source_id;
+
+  INSERT INTO public.user_stories (id, project_id, readable_id, title, description, acceptance_criteria, priority, status, tags)
+  SELECT
+    (_ids ->> id::text)::UUID, _project_id,
+    CASE WHEN readable_id ~ ('^US-' || _source.key || '-[0-9]+$')
+      THEN 'US-' || _key_new || substring(readable_id FROM length(_source.key) + 4)
+      ELSE readable_id
+    END,
+    title, description, acceptance_criteria, priority, status, tags
+  FROM public.user_stories
+  WHERE project_id = _source_id AND deleted_at IS NULL
+  ORDER BY created_at;
+
+  INSERT INTO public.test_cases (
+    id, project_id, user_story_id, readable_id, title, description, steps, expected_result, test_data,
+    data_table, priority, status, tags, possible_duplicate_of
+  )
+  SELECT
+    (_ids ->> id::text)::UUID, _project_id, (_ids ->> user_story_id::text)::UUID,
+    CASE WHEN readable_id ~ ('^TC-' || _source.key || '-[0-9]+$')
+      THEN 'TC-' || _key_new || substring(readable_id FROM length(_source.key) + 4)
+      ELSE readable_id
+    END,
+    title, description, steps, expected_result, test_data, data_table, priority,
+    CASE WHEN _include_history THEN status ELSE 'not-run' END,
+    tags, (_ids ->> possible_duplicate_of::text)::UUID
+  FROM public.test_cases
+  WHERE project_id = _source_id AND deleted_at IS NULL
+  ORDER BY created_at;
+
+  INSERT INTO public.test_case_steps (id, test_case_id, step_order, action, expected_result, test_data, shared_step_id)
+  SELECT
+    (_ids ->> s.id::text)::UUID, (_ids ->> s.test_case_id::text)::UUID, s.step_order, s.action,
+    s.expected_result, s.test_data, (_ids ->> s.shared_step_id::text)::UUID
+  FROM public.test_case_steps s
+  JOIN public.test_cases tc ON tc.id = s.test_case_id
+  WHERE tc.project_id = _source_id AND tc.deleted_at IS NULL;
+
+  INSERT INTO public.custom_field_values (
+    project_id, field_id, user_story_id, test_case_id, value_text, value_number, value_date, value_options, value_user_id
+  )
+  SELECT
+    _project_id, (_ids ->> field_id::text)::UUID, (_ids ->> user_story_id::text)::UUID, (_ids ->> test_case_id::text)::UUID,
+    value_text, value_number, value_date, value_options, value_user_id
+  FROM public.custom_field_values
+  WHERE project_id = _source_id
+    AND (_ids ? COALESCE(user_story_id, test_case_id)::text);
+
+  INSERT INTO public.test_suites (id, project_id, parent_id, name, description, position, created_by)
+  SELECT (_ids ->> id::text)::UUID, _project_id, (_ids ->> parent_id::text)::UUID, name, description, position, auth.uid()
+  FROM public.test_suites
+  WHERE project_id = _source_id;
+
+  INSERT INTO public.test_suite_cases (suite_id, test_case_id, position)
+  SELECT (_ids ->> sc.suite_id::text)::UUID, (_ids ->> sc.test_case_id::text)::UUID, sc.position
+  FROM public.test_suite_cases sc
+  JOIN public.test_suites s ON s.id = sc.suite_id
+  WHERE s.project_id = _source_id AND _ids ? sc.test_case_id::text;
+
+  IF _include_history THEN
+    INSERT INTO public.test_runs (id, project_id, name, description, status, started_at, completed_at, created_by)
+    SELECT (_ids ->> id::text)::UUID, _project_id, name, description, status, started_at, completed_at, created_by
+    FROM public.test_runs
+    WHERE project_id = _source_id;
+
+    INSERT INTO public.test_run_configurations (test_run_id, configuration_id)
+    SELECT (_ids ->> rc.test_run_id::text)::UUID, (_ids ->> rc.configuration_id::text)::UUID
+    FROM public.test_run_configurations rc
+    JOIN public.test_runs run ON run.id = rc.test_run_id
+    WHERE run.project_id = _source_id AND _ids ? rc.configuration_id::text;
+
+    -- Results of test cases that were left behind have nothing to point at
+    INSERT INTO public.test_run_results (
+      id, test_run_id, test_case_id, status, notes, executed_by, executed_at, iteration_index, iteration_data, configuration_id
+    )
+    SELECT
+      (_ids ->> r.id::text)::UUID, (_ids ->> r.test_run_id::text)::UUID, (_ids ->> r.test_case_id::text)::UUID,
+      r.status, r.notes, r.executed_by, r.executed_at, r.iteration_index, r.iteration_data,
+      (_ids ->> r.configuration_id::text)::UUID
+    FROM public.test_run_results r
+    JOIN public.test_runs run ON run.id = r.test_run_id
+    WHERE run.project_id = _source_id AND _ids ? r.test_case_id::text;
+
+    -- Results of steps that were since removed have no step to map and keep their text instead
+    INSERT INTO public.test_run_step_results (
+      test_run_result_id, test_case_step_id, step_action, step_expected_result, status, actual_result
+    )
+    SELECT
+      (_ids ->> sr.test_run_result_id::text)::UUID, (_ids ->> sr.test_case_step_id::text)::UUID,
+      sr.step_action, sr.step_expected_result, sr.status, sr.actual_result
+    FROM public.test_run_step_results sr
+    JOIN public.test_run_results r ON r.id = sr.test_run_result_id
+    JOIN public.test_runs run ON run.id = r.test_run_id
+    WHERE run.project_id = _source_id AND _ids ? r.test_case_id::text
+    AND (sr.test_case_step_id IS NULL OR _ids ? sr.test_case_step_id::text);
+  END IF;
+
+  -- Continue numbering where the source left off
+  INSERT INTO public.project_sequences (project_id, entity_type, last_value)
+  SELECT _project_id, entity_type, last_value
+  FROM public.project_sequences
+  WHERE project_id = _source_id;
+
+  RETURN _project_id;
+END;
+$$;
+
+-- Templates are not working projects, so their items stay out of search
+CREATE OR REPLACE FUNCTION public.search_items(
+  _query TEXT,
+  _project_id UUID DEFAULT NULL,
+  _entity_types TEXT[] DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  project_id UUID,
+  project_name TEXT,
+  reference TEXT,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _term TEXT := btrim(COALESCE(_query, ''));
+  _tsquery tsquery;
+  _options TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO _tsquery
+  FROM regexp_split_to_table(lower(_term), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF _tsquery IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      'user_story'::TEXT AS entity_type,
+      us.id AS entity_id,
+      us.project_id,
+      us.readable_id AS reference,
+      us.title,
+      public.strip_html(us.description) || ' ' || public.strip_html(us.acceptance_criteria) AS body,
+      ts_rank(public.user_story_search_document(us.title, us.description, us.acceptance_criteria), _tsquery)
+        + CASE WHEN lower(us.readable_id) = lower(_term) THEN 1 ELSE 0 END AS rank
+    FROM public.user_stories us
+    WHERE us.deleted_at IS NULL
+      AND (_project_id IS NULL OR us.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'user_story' = ANY(_entity_types))
+      AND (
+        public.user_story_search_document(us.title, us.description, us.acceptance_criteria) @@ _tsquery
+        OR lower(us.readable_id) = lower(_term)
+      )
+
+    UNION ALL
+
+    SELECT
+      'test_case'::TEXT,
+      tc.id,
+      tc.project_id,
+      tc.readable_id,
+      tc.title,
+      COALESCE(tc.description, '') || ' ' || COALESCE(steps.body, '') || ' ' || COALESCE(tc.expected_result, '') || ' ' || COALESCE(tc.test_data, ''),
+      ts_rank(public.test_case_search_document(tc.title, tc.description, tc.expected_result, tc.test_data), _tsquery)
+        + COALESCE(steps.rank, 0)
+        + CASE WHEN lower(tc.readable_id) = lower(_term) THEN 1 ELSE 0 END
+    FROM public.test_cases tc
+    LEFT JOIN LATERAL (
+      SELECT
+        string_agg(s.action || ' ' || COALESCE(s.expected_result, ''), ' ' ORDER BY s.step_order) AS body,
+        max(ts_rank(public.test_step_search_document(s.action, s.expected_result, s.test_data), _tsquery)) AS rank
+      FROM public.test_case_steps s
+      WHERE s.test_case_id = tc.id
+    ) steps ON true
+    WHERE tc.deleted_at IS NULL
+      AND (_project_id IS NULL OR tc.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'test_case' = ANY(_entity_types))
+      AND tc.id IN (
+        SELECT c.id FROM public.test_cases c
+        WHERE public.test_case_search_document(c.title, c.description, c.expected_result, c.test_data) @@ _tsquery
+          OR lower(c.readable_id) = lower(_term)
+        UNION
+        SELECT s.test_case_id FROM public.test_case_steps s
+        WHERE public.test_step_search_document(s.action, s.expected_result, s.test_data) @@ _tsquery
+      )
+
+    UNION ALL
+
+    SELECT
+      'defect'::TEXT,
+      d.id,
+      d.project_id,
+      'BUG-' || d.defect_number,
+      d.title,
+      COALESCE(d.description, '') || ' ' || COALESCE(d.repro_steps, '') || ' ' || COALESCE(d.actual_result, ''),
+      ts_rank(public.defect_search_document(d.title, d.description, d.repro_steps, d.expected_result, d.actual_result), _tsquery)
+        + CASE WHEN lower('BUG-' || d.defect_number) = lower(_term) THEN 1 ELSE 0 END
+    FROM public.defects d
+    WHERE (_project_id IS NULL OR d.project_id = _project_id)
+      AND (_entity_types IS NULL OR 'defect' = ANY(_entity_types))
+      AND (
+        public.defect_search_document(d.title, d.description, d.repro_steps, d.expected_result, d.actual_result) @@ _tsquery
+        OR lower('BUG-' || d.defect_number) = lower(_term)
+      )
+  )
+  SELECT
+    m.entity_type,
+    m.entity_id,
+    m.project_id,
+    p.name,
+    m.reference,
+    m.title,
+    ts_headline('english', m.title, _tsquery, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3)),
+    ts_headline('english', m.body, _tsquery, _options),
+    m.rank::REAL
+  FROM matches m
+  JOIN public.projects p ON p.id = m.project_id AND p.deleted_at IS NULL AND NOT p.is_template
+  ORDER BY m.rank DESC, m.title
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 20), 1), 100);
+END;
+$$;
@@ -0,0 +1,132 @@
+-- Test cases can be assigned to a project member
+ALTER TABLE public.test_cases
+ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_test_cases_assigned_to ON public.test_cases(assigned_to) WHERE assigned_to IS NOT NULL;
+
+-- Applies one set of changes to many test cases of a project in a single transaction. Recognised keys
+-- of _changes: priority, status, assigned_to (null unassigns), add_tags, remove_tags, user_story_id,
+-- suite_id (moves the cases out of the project's other suites) and delete (moves them to the trash).
+-- Runs with the caller's rights. Returns how many cases each kind of change touched.
+CREATE OR REPLACE FUNCTION public.bulk_update_test_cases(
+  _project_id UUID,
+  _ids UUID[],
+  _changes JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _ids_in_project UUID[];
+  _summary JSONB := '{}';
+  _count INTEGER;
+  _position INTEGER;
+BEGIN
+  SELECT COALESCE(array_agg(id), '{}') INTO _ids_in_project
+  FROM public.test_cases
+  WHERE id = ANY(_ids) AND project_id = _project_id AND deleted_at IS NULL;
+
+  _summary := jsonb_build_object('selected', cardinality(_ids_in_project));
+
+  IF cardinality(_ids_in_project) = 0 THEN
+    RETURN _summary;
+  END IF;
+
+  IF _changes ? 'priority' THEN
+    IF _changes ->> 'priority' IS NULL OR _changes ->> 'priority' NOT IN ('low', 'medium', 'high') THEN
+      RAISE EXCEPTION 'Invalid priority %', _changes ->> 'priority';
+    END IF;
+
+    UPDATE public.test_cases SET priority = _changes ->> 'priority'
+    WHERE id = ANY(_ids_in_project) AND priority IS DISTINCT FROM _changes ->> 'priority';
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('priority', _count);
+  END IF;
+
+  IF _changes ? 'status' THEN
+    IF _changes ->> 'status' IS NULL OR _changes ->> 'status' NOT IN ('not-run', 'passed', 'failed', 'blocked') THEN
+      RAISE EXCEPTION 'Invalid status %', _changes ->> 'status';
+    END IF;
+
+    UPDATE public.test_cases SET status = _changes ->> 'status'
+    WHERE id = ANY(_ids_in_project) AND status IS DISTINCT FROM _changes ->> 'status';
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('status', _count);
+  END IF;
+
+  IF _changes ? 'assigned_to' THEN
+    IF _changes ->> 'assigned_to' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.get_project_members(_project_id) m WHERE m.user_id = (_changes ->> 'assigned_to')::UUID
+    ) THEN
+      RAISE EXCEPTION 'Assignee is not a member of the project';
+    END IF;
+
+    UPDATE public.test_cases SET assigned_to = (_changes ->> 'assigned_to')::UUID
+    WHERE id = ANY(_ids_in_project) AND assigned_to IS DISTINCT FROM (_changes ->> 'assigned_to')::UUID;
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('assigned_to', _count);
+  END IF;
+
+  IF _changes ? 'add_tags' OR _changes ? 'remove_tags' THEN
+    _count := public.update_item_tags(
+      'test_case',
+      _ids_in_project,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(_changes -> 'add_tags', '[]'))),
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(_changes -> 'remove_tags', '[]')))
+    );
+    _summary := _summary || jsonb_build_object('tags', _count);
+  END IF;
+
+  IF _changes ? 'user_story_id' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.user_stories
+      WHERE id = (_changes ->> 'user_story_id')::UUID AND project_id = _project_id AND deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'User story not found in project';
+    END IF;
+
+    UPDATE public.test_cases SET user_story_id = (_changes ->> 'user_story_id')::UUID
+    WHERE id = ANY(_ids_in_project) AND user_story_id IS DISTINCT FROM (_changes ->> 'user_story_id')::UUID;
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('user_story_id', _count);
+  END IF;
+
+  IF _changes ? 'suite_id' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.test_suites WHERE id = (_changes ->> 'suite_id')::UUID AND project_id = _project_id
+    ) THEN
+      RAISE EXCEPTION 'Test suite not found in project';
+    END IF;
+
+    DELETE FROM public.test_suite_cases sc
+    USING public.test_suites s
+    WHERE s.id = sc.suite_id
+      AND s.project_id = _project_id
+      AND s.id <> (_changes ->> 'suite_id')::UUID
+      AND sc.test_case_id = ANY(_ids_in_project);
+
+    SELECT COALESCE(max(position) + 1, 0) INTO _position
+    FROM public.test_suite_cases
+    WHERE suite_id = (_changes ->> 'suite_id')::UUID;
+
+    -- Appended after the suite's cases in the order they were selected
+    INSERT INTO public.test_suite_cases (suite_id, test_case_id, position)
+    SELECT (_changes ->> 'suite_id')::UUID, selected.id, _position + selected.ordinality::INTEGER - 1
+    FROM unnest(_ids) WITH ORDINALITY AS selected(id, ordinality)
+    WHERE selected.id = ANY(_ids_in_project)
+    ON CONFLICT (suite_id, test_case_id) DO NOTHING;
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('suite_id', _count);
+  END IF;
+
+  IF COALESCE((_changes ->> 'delete')::BOOLEAN, false) THEN
+    UPDATE public.test_cases SET deleted_at = now()
+    WHERE id = ANY(_ids_in_project);
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _summary := _summary || jsonb_build_object('deleted', _count);
+  END IF;
+
+  RETURN _summary;
+END;
+$$;
@@ -0,0 +1,16 @@
+-- AI provider used for a project's generation features. NULL keeps the default, Azure OpenAI.
+-- Credentials stay in each user's integration settings; only the choice is shared.
+ALTER TABLE public.projects
+ADD COLUMN ai_provider TEXT,
+ADD CONSTRAINT projects_ai_provider_check
+  CHECK (ai_provider IN ('openai', 'azure-openai', 'anthropic', 'openai-compatible'));
+
+-- Provider of each logged request; the openai_* columns hold model, tokens and cost for every provider
+ALTER TABLE public.ai_usage_logs ADD COLUMN ai_provider TEXT;
+
+UPDATE public.ai_usage_logs
+SET ai_provider = CASE WHEN openai_model LIKE 'azure-%' THEN 'azure-openai' ELSE 'openai' END
+WHERE openai_model IS NOT NULL;
+
+CREATE INDEX idx_ai_usage_logs_ai_provider ON public.ai_usage_logs(ai_provider)
+WHERE ai_provider IS NOT NULL;
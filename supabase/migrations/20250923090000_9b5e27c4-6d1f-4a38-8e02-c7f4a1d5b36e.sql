@@ -0,0 +1,116 @@
+-- Applies the changes picked when merging a regeneration into a story's test cases in one transaction.
+-- Added cases are recorded as approved suggestions of a new generation, like cases approved from the
+-- review queue. Updated cases keep their ids, and steps passed with an id are updated in place so
+-- results recorded against them stay attached. Retired cases go to the trash.
+-- _add: [{title, description, expected_result, test_data, priority, steps, duplicate_of, duplicate_score}]
+-- _update: [{id, title, description, expected_result, test_data, priority, steps}]
+-- steps: [{id, action, expected_result, test_data, shared_step_id}]
+CREATE OR REPLACE FUNCTION public.apply_test_case_regeneration(
+  _user_story_id UUID,
+  _add JSONB,
+  _update JSONB,
+  _retire UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _project_id UUID;
+  _generation_id UUID := gen_random_uuid();
+  _case JSONB;
+  _step JSONB;
+  _suggestion_id UUID;
+  _test_case_id UUID;
+  _kept_step_ids UUID[];
+  _index INTEGER;
+BEGIN
+  SELECT project_id INTO _project_id
+  FROM public.user_stories
+  WHERE id = _user_story_id AND deleted_at IS NULL;
+
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'User story not found or access denied';
+  END IF;
+
+  FOR _case IN SELECT * FROM jsonb_array_elements(COALESCE(_add, '[]'::jsonb)) LOOP
+    INSERT INTO public.test_case_suggestions (
+      project_id, user_story_id, generation_id, title, description, expected_result, test_data,
+      priority, steps, duplicate_of, duplicate_score
+    ) VALUES (
+      _project_id, _user_story_id, _generation_id, _case->>'title', _case->>'description',
+      _case->>'expected_result', _case->>'test_data', COALESCE(_case->>'priority', 'medium'),
+      COALESCE(_case->'steps', '[]'::jsonb),
+      (SELECT id FROM public.test_cases WHERE id = (_case->>'duplicate_of')::uuid AND project_id = _project_id),
+      (_case->>'duplicate_score')::real
+    )
+    RETURNING id INTO _suggestion_id;
+
+    _test_case_id := public.approve_test_case_suggestion(_suggestion_id);
+
+    UPDATE public.test_cases
+    SET possible_duplicate_of = (
+      SELECT duplicate_of FROM public.test_case_suggestions WHERE id = _suggestion_id
+    )
+    WHERE id = _test_case_id;
+  END LOOP;
+
+  PERFORM set_config('app.revision_note', 'Updated from AI regeneration', true);
+
+  FOR _case IN SELECT * FROM jsonb_array_elements(COALESCE(_update, '[]'::jsonb)) LOOP
+    _test_case_id := (_case->>'id')::uuid;
+
+    UPDATE public.test_cases
+    SET title = _case->>'title',
+        description = _case->>'description',
+        expected_result = _case->>'expected_result',
+        test_data = _case->>'test_data',
+        priority = COALESCE(_case->>'priority', 'medium')
+    WHERE id = _test_case_id AND user_story_id = _user_story_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Test case not found or access denied';
+    END IF;
+
+    SELECT COALESCE(array_agg((s->>'id')::uuid), '{}') INTO _kept_step_ids
+    FROM jsonb_array_elements(COALESCE(_case->'steps', '[]'::jsonb)) AS s
+    WHERE s->>'id' IS NOT NULL AND COALESCE(btrim(s->>'action'), '') <> '';
+
+    -- Results of removed steps keep the step's text
+    DELETE FROM public.test_case_steps
+    WHERE test_case_id = _test_case_id AND NOT (id = ANY(_kept_step_ids));
+
+    _index := 0;
+    FOR _step IN SELECT * FROM jsonb_array_elements(COALESCE(_case->'steps', '[]'::jsonb)) LOOP
+      CONTINUE WHEN COALESCE(btrim(_step->>'action'), '') = '';
+      _index := _index + 1;
+
+      UPDATE public.test_case_steps
+      SET step_order = _index,
+          action = btrim(_step->>'action'),
+          expected_result = NULLIF(btrim(_step->>'expected_result'), ''),
+          test_data = NULLIF(btrim(_step->>'test_data'), ''),
+          shared_step_id = (
+            SELECT id FROM public.shared_steps
+            WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id
+          )
+      WHERE id = (_step->>'id')::uuid AND test_case_id = _test_case_id;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.test_case_steps (test_case_id, step_order, action, expected_result, test_data, shared_step_id)
+        VALUES (
+          _test_case_id, _index, btrim(_step->>'action'), NULLIF(btrim(_step->>'expected_result'), ''),
+          NULLIF(btrim(_step->>'test_data'), ''),
+          (SELECT id FROM public.shared_steps WHERE id = (_step->>'shared_step_id')::uuid AND project_id = _project_id)
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  UPDATE public.test_cases
+  SET deleted_at = now()
+  WHERE id = ANY(COALESCE(_retire, '{}'))
+    AND user_story_id = _user_story_id
+    AND deleted_at IS NULL;
+END;
+$$;